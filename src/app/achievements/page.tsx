@@ -0,0 +1,83 @@
+/**
+ * @fileOverview Page component showing the achievements gallery and clock-in streaks.
+ */
+"use client";
+
+import { useMemo } from 'react';
+import { useRouter } from "next/navigation";
+import { ArrowLeft, Flame, Lock, Trophy } from 'lucide-react';
+import { useSpaceContext } from "@/contexts/SpaceContext";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from '@/components/ui/skeleton';
+import { ACHIEVEMENTS } from '@/core/analytics/achievements';
+import { formatShortDate } from '@/utils/dateUtils';
+
+export default function AchievementsPage() {
+  const router = useRouter();
+  const { achievements, clockInStreak, isLoading } = useSpaceContext();
+
+  const unlockedAt = useMemo(
+    () => new Map(achievements.map(a => [a.achievementId, a.unlockedAt] as const)),
+    [achievements]
+  );
+
+  return (
+    <div className="flex flex-col items-center justify-start min-h-screen py-8 bg-background p-4">
+      <header className="w-full max-w-4xl flex items-center gap-2 mb-6">
+        <Button variant="ghost" size="icon" onClick={() => router.push('/')} aria-label="Back to spaces">
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <h1 className="text-2xl font-bold text-primary">Achievements</h1>
+        <span className="ml-auto text-sm text-muted-foreground">
+          {unlockedAt.size} of {ACHIEVEMENTS.length} unlocked
+        </span>
+      </header>
+
+      <main className="w-full max-w-4xl space-y-6">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Flame className="h-4 w-4 text-orange-500" /> Clock-in Streak
+            </CardTitle>
+            <CardDescription>Consecutive days with at least one clock-in, across all spaces.</CardDescription>
+          </CardHeader>
+          <CardContent className="flex gap-8">
+            <div>
+              <p className="text-3xl font-bold">{clockInStreak.current}</p>
+              <p className="text-xs text-muted-foreground">Current (days)</p>
+            </div>
+            <div>
+              <p className="text-3xl font-bold">{clockInStreak.longest}</p>
+              <p className="text-xs text-muted-foreground">Longest (days)</p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {isLoading && achievements.length === 0 ? (
+          <Skeleton className="h-48 w-full" />
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {ACHIEVEMENTS.map(achievement => {
+              const date = unlockedAt.get(achievement.id);
+              return (
+                <Card key={achievement.id} className={date ? 'border-primary' : 'opacity-60'}>
+                  <CardContent className="flex items-start gap-3 p-4">
+                    {date
+                      ? <Trophy className="h-6 w-6 shrink-0 text-primary" />
+                      : <Lock className="h-6 w-6 shrink-0 text-muted-foreground" />}
+                    <div>
+                      <p className="font-semibold">{achievement.title}</p>
+                      <p className="text-sm text-muted-foreground">{achievement.description}</p>
+                      {date && <p className="text-xs text-muted-foreground mt-1">Unlocked {formatShortDate(date)}</p>}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import './globals.css';
 import { Toaster } from "@/components/ui/toaster";
 import { SpaceProvider } from '@/contexts/SpaceContext'; // Correct path
 import ServiceWorkerRegistrar from '@/components/ServiceWorkerRegistrar'; // Import the registrar
+import { AppHeader } from '@/components/layout/AppHeader';
 
 // Remove metadata export as it cannot be in a 'use client' file
 // export const metadata: Metadata = {
@@ -25,6 +26,7 @@ export default function RootLayout({
 
         {/* SpaceProvider now wraps the entire application */}
         <SpaceProvider>
+          <AppHeader />
           {children}
         </SpaceProvider>
         <Toaster />
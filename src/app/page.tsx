@@ -12,15 +12,25 @@ import { AlertDialog, AlertDialogTrigger, AlertDialogContent, AlertDialogHeader,
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { formatShortDate } from '@/utils/dateUtils';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Copy, Trash2, Loader2 } from 'lucide-react'; // Added Loader2 icon
+import { Copy, Trash2, Loader2, Share2, AlertTriangle } from 'lucide-react'; // Added Loader2 icon
 import { cn } from "@/lib/utils"; // Import cn utility
+import { WorkspaceBackupControls } from '@/components/home/WorkspaceBackupControls';
+import { PortfolioDashboard } from '@/components/home/PortfolioDashboard';
+import { downloadFile, fileTimestamp, slugify } from '@/utils/fileUtils';
+import { SpaceStatusBadge, SPACE_STATUS_LABELS } from '@/components/space/SpaceStatusBadge';
+import { getSpaceStatus } from '@/core/services/SpaceService';
+import type { Space, SpaceStatus } from '@/core/domain/Space';
 
 type SortKey = "dateCreated" | "dateModified";
+type StatusFilter = SpaceStatus | "current" | "all"; // "current" hides finished work (Completed/Archived)
+
+const STATUS_GROUP_ORDER: SpaceStatus[] = ['active', 'paused', 'completed', 'archived'];
 
 export default function Home() {
   const router = useRouter();
-  const { spaces, isLoading, error, deleteSpace, loadSpaces, duplicateSpace } = useSpaceContext();
+  const { spaces, activeAndons, isLoading, error, deleteSpace, loadSpaces, duplicateSpace, exportSpaceBundle } = useSpaceContext();
   const [sortBy, setSortBy] = useState<SortKey>("dateModified"); // Default sort by modified
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("current");
   const [loadingSpaceId, setLoadingSpaceId] = useState<string | null>(null); // Track which space is loading
 
   useEffect(() => {
@@ -46,6 +56,13 @@ export default function Home() {
     // Context state updates should trigger re-render
   };
 
+  const handleExportBundle = async (spaceId: string, spaceName: string) => {
+    const bundle = await exportSpaceBundle(spaceId);
+    if (bundle) {
+      downloadFile(`okapi-space_${slugify(spaceName)}_${fileTimestamp(bundle.exportedAt)}.json`, JSON.stringify(bundle), 'application/json');
+    }
+  };
+
   const sortedSpaces = useMemo(() => {
     return [...spaces].sort((a, b) => {
       // Handle potential invalid dates if necessary, though should be Date objects from context
@@ -56,6 +73,26 @@ export default function Home() {
     });
   }, [spaces, sortBy]);
 
+  // Filter by status, then group in lifecycle order (sort order is kept within each group)
+  const spaceGroups = useMemo(() => {
+    const matches = (space: Space) => {
+      const status = getSpaceStatus(space);
+      if (statusFilter === "all") return true;
+      if (statusFilter === "current") return status === 'active' || status === 'paused';
+      return status === statusFilter;
+    };
+    return STATUS_GROUP_ORDER
+      .map(status => ({ status, spaces: sortedSpaces.filter(s => getSpaceStatus(s) === status && matches(s)) }))
+      .filter(group => group.spaces.length > 0);
+  }, [sortedSpaces, statusFilter]);
+
+  // Count unresolved Andons per space so flagged spaces stand out
+  const activeAndonCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    activeAndons.forEach(a => counts.set(a.spaceId, (counts.get(a.spaceId) ?? 0) + 1));
+    return counts;
+  }, [activeAndons]);
+
   return (
     <div className="flex flex-col items-center justify-start min-h-screen py-8 bg-background p-4">
       <header className="w-full text-center mb-8">
@@ -66,7 +103,7 @@ export default function Home() {
       </header>
 
       <main className="w-full max-w-6xl">
-        <section className="mb-8 flex justify-center sm:justify-start">
+        <section className="mb-8 flex flex-col sm:flex-row items-center justify-center sm:justify-between gap-4">
           <Button
             size="lg"
             onClick={handleCreateSpace}
@@ -75,12 +112,28 @@ export default function Home() {
           >
             Create New Space
           </Button>
+          <WorkspaceBackupControls />
         </section>
 
+        <PortfolioDashboard />
+
         <section>
           <div className="flex flex-col sm:flex-row justify-between items-center mb-4 gap-4">
             <h2 className="text-2xl font-bold text-foreground">Your Spaces</h2>
-            <div className="flex items-center gap-2">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-muted-foreground">Show:</span>
+                <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+                    <SelectTrigger className="w-[180px]">
+                        <SelectValue placeholder="Status..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="current">Active &amp; Paused</SelectItem>
+                        <SelectItem value="all">All Spaces</SelectItem>
+                        {STATUS_GROUP_ORDER.map(status => (
+                            <SelectItem key={status} value={status}>{SPACE_STATUS_LABELS[status]}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
                 <span className="text-sm text-muted-foreground">Sort by:</span>
                  <Select value={sortBy} onValueChange={(value) => setSortBy(value as SortKey)}>
                     <SelectTrigger className="w-[180px]">
@@ -129,20 +182,34 @@ export default function Home() {
             </div>
           )}
 
-          {/* Display Spaces */}
-          {!isLoading && !error && spaces.length > 0 && (
+          {/* Filtered Empty State */}
+          {!isLoading && !error && spaces.length > 0 && spaceGroups.length === 0 && (
+             <div className="text-center text-muted-foreground mt-8">
+                <p>No spaces match this status filter.</p>
+            </div>
+          )}
+
+          {/* Display Spaces, grouped by status */}
+          {!isLoading && !error && spaceGroups.map(({ status, spaces: groupSpaces }) => (
+           <div key={status} className="mb-6">
+             <h3 className="text-lg font-semibold text-foreground mb-2">{SPACE_STATUS_LABELS[status]} <span className="text-sm text-muted-foreground font-normal">({groupSpaces.length})</span></h3>
              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {sortedSpaces.map((space) => (
+                {groupSpaces.map((space) => (
                 <Card
                     className={cn(
                         "bg-card rounded-lg overflow-hidden shadow-md transition-all duration-300 hover:shadow-lg flex flex-col",
-                        space.isClockedIn && "border-2 border-primary ring-2 ring-primary/50" // Highlight if clocked in
+                        space.isClockedIn && "border-2 border-primary ring-2 ring-primary/50", // Highlight if clocked in
+                        getSpaceStatus(space) === 'archived' && "opacity-75", // De-emphasize archived spaces
+                        activeAndonCounts.has(space.id) && "border-2 border-destructive ring-2 ring-destructive/50" // Andon takes precedence
                     )}
                     key={space.id}
                 >
                     {/* Removed onClick from header, rely on button */}
                     <CardHeader className="p-4">
-                    <CardTitle className="text-xl font-bold mb-1 truncate">{space.name}</CardTitle>
+                    <div className="flex items-start justify-between gap-2">
+                        <CardTitle className="text-xl font-bold mb-1 truncate">{space.name}</CardTitle>
+                        <SpaceStatusBadge space={space} className="shrink-0" />
+                    </div>
                      <div className="flex space-x-2 mt-1">
                          {space.beforeImage && (
                             <img data-ai-hint="workspace before" src={space.beforeImage} alt="Before" className="rounded-md max-h-24 object-cover flex-1" />
@@ -166,6 +233,9 @@ export default function Home() {
                             Total Time: {space.totalClockedInTime} min
                          </p>
                          {space.isClockedIn && <p className="text-primary font-semibold">Clocked In</p>}
+                         {activeAndonCounts.has(space.id) && (
+                            <p className="text-destructive font-semibold flex items-center"><AlertTriangle className="h-3 w-3 mr-1" /> Andon: {activeAndonCounts.get(space.id)} open</p>
+                         )}
                     </div>
 
                     </CardContent>
@@ -193,6 +263,11 @@ export default function Home() {
                             </AlertDialogContent>
                         </AlertDialog>
 
+                        {/* Share (Export Bundle) Button */}
+                        <Button variant="outline" size="icon" className="h-auto w-10" title="Export Space Bundle" onClick={() => handleExportBundle(space.id, space.name)} disabled={loadingSpaceId === space.id}>
+                            <Share2 className="h-4 w-4" />
+                        </Button>
+
                         {/* Delete Button */}
                         <AlertDialog>
                         <AlertDialogTrigger asChild>
@@ -239,7 +314,8 @@ export default function Home() {
                 </Card>
                 ))}
              </div>
-            )}
+           </div>
+          ))}
         </section>
       </main>
     </div>
@@ -0,0 +1,313 @@
+/**
+ * @fileOverview Page component for a Space's full log history: filters by type, action, date range
+ * and points, text search, optional grouping by clock-in session, and cursor-based paging.
+ * Work entries can be voided or deleted here; each correction is kept in the log as an audit entry.
+ */
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from "next/navigation";
+import { ArrowLeft, Ban, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { useSpaceContext } from "@/contexts/SpaceContext";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { groupEntriesBySession, matchesLogEntryFilter } from '@/core/analytics/logHistory';
+import { formatLoggedActionName } from '@/core/analytics/actionLog';
+import { isCorrectableEntry, type LogCorrectionKind } from '@/core/analytics/logCorrections';
+import { goalBonusEntryId } from '@/core/analytics/goals';
+import type { WorkSession } from '@/core/analytics/sessions';
+import type { LogEntry, LogEntryCursor, LogEntryFilter, LogEntryType } from '@/core/domain/LogEntry';
+import { formatShortDate, formatTime } from '@/utils/dateUtils';
+
+const TYPE_LABELS: Record<LogEntryType, string> = {
+  action: 'Actions',
+  multiStepAction: 'Quest Steps',
+  clockIn: 'Clock In',
+  clockOut: 'Clock Out',
+  goalBonus: 'Goal Bonuses',
+  questBonus: 'Quest Bonuses',
+  correction: 'Corrections',
+};
+
+const ALL_ACTIONS = 'all'; // Select needs a non-empty value for "no action filter"
+const SEARCH_DEBOUNCE_MS = 300;
+
+const describeLogEntry = (logEntry: LogEntry): string => {
+  return logEntry.type === 'action' ? `Completed: ${formatLoggedActionName(logEntry)}`
+    : logEntry.type === 'multiStepAction' ? `Step ${logEntry.stepIndex !== undefined ? logEntry.stepIndex + 1 : '?'} of '${logEntry.actionName}' completed`
+    : logEntry.type === 'clockIn' ? `Clocked In`
+    : logEntry.type === 'goalBonus' || logEntry.type === 'questBonus' || logEntry.type === 'correction' ? logEntry.actionName
+    : logEntry.clockInTime && logEntry.minutesClockedIn !== undefined ? `Clocked Out (Session: ${logEntry.minutesClockedIn} min)` : `Clocked Out`;
+};
+
+interface PendingCorrection {
+  entry: LogEntry;
+  kind: LogCorrectionKind;
+}
+
+const LogEntryRow = ({ logEntry, onCorrect }: { logEntry: LogEntry; onCorrect: (correction: PendingCorrection) => void }) => (
+  <div className="group flex items-start gap-1 text-xs p-1 border-b last:border-b-0">
+    <div className={`flex-1 ${logEntry.voidedAt ? 'text-muted-foreground' : ''}`}>
+      <span className="font-mono text-muted-foreground mr-2">[{format(logEntry.timestamp, 'MM/dd HH:mm:ss')}]</span>
+      <span className={logEntry.voidedAt ? 'line-through' : ''}>{describeLogEntry(logEntry)}</span>
+      {logEntry.points > 0 && <span className={`font-semibold ml-2 ${logEntry.voidedAt ? 'line-through' : 'text-primary'}`}>(+{logEntry.points} AP)</span>}
+      {logEntry.comment && <span className="block text-muted-foreground italic pl-2">{logEntry.comment}</span>}
+      {logEntry.voidedAt && (
+        <span className="block text-destructive pl-2">Voided {format(logEntry.voidedAt, 'MM/dd HH:mm')}{logEntry.voidReason ? `: ${logEntry.voidReason}` : ''}</span>
+      )}
+    </div>
+    {isCorrectableEntry(logEntry) && (
+      <div className="flex gap-1 opacity-60 group-hover:opacity-100 focus-within:opacity-100">
+        <Button size="icon" variant="ghost" className="h-6 w-6" title="Void" onClick={() => onCorrect({ entry: logEntry, kind: 'void' })}>
+          <Ban className="h-3 w-3" />
+        </Button>
+        <Button size="icon" variant="ghost" className="h-6 w-6 text-destructive" title="Delete" onClick={() => onCorrect({ entry: logEntry, kind: 'delete' })}>
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+    )}
+  </div>
+);
+
+const parsePoints = (value: string): number | undefined => (value.trim() === '' || isNaN(Number(value)) ? undefined : Number(value));
+
+export default function LogHistoryPage({
+  params,
+}: {
+  params: { spaceId: string };
+}) {
+  const { spaceId } = params;
+  const router = useRouter();
+  const { spaces, currentSpace, actions, multiStepActions, loadSpaceDetails, fetchLogEntryPage, fetchWorkSessions, correctLogEntry } = useSpaceContext();
+  const [entries, setEntries] = useState<LogEntry[] | null>(null); // null while the first page loads
+  const [nextCursor, setNextCursor] = useState<LogEntryCursor | undefined>(undefined);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [sessions, setSessions] = useState<WorkSession[]>([]);
+  const [types, setTypes] = useState<LogEntryType[]>([]); // Empty means every type
+  const [actionId, setActionId] = useState(ALL_ACTIONS);
+  const [fromDate, setFromDate] = useState(''); // yyyy-MM-dd from the date input, local time
+  const [toDate, setToDate] = useState('');
+  const [minPoints, setMinPoints] = useState('');
+  const [maxPoints, setMaxPoints] = useState('');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState(''); // Debounced copy of searchInput
+  const [groupBySession, setGroupBySession] = useState(false);
+  const [pendingCorrection, setPendingCorrection] = useState<PendingCorrection | null>(null);
+  const [correctionReason, setCorrectionReason] = useState('');
+  const [isCorrecting, setIsCorrecting] = useState(false);
+
+  const space = spaces.find(s => s.id === spaceId);
+
+  // Action names come from the space's details; load them when arriving here directly
+  useEffect(() => {
+    if (currentSpace?.id !== spaceId) loadSpaceDetails(spaceId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [spaceId]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const filter = useMemo<LogEntryFilter>(() => ({
+    types: types.length > 0 ? types : undefined,
+    actionId: actionId === ALL_ACTIONS ? undefined : actionId,
+    search: search.trim() || undefined,
+    // Date inputs are local calendar days; widen "to" to the end of that day.
+    from: fromDate ? new Date(`${fromDate}T00:00:00`) : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`) : undefined,
+    minPoints: parsePoints(minPoints),
+    maxPoints: parsePoints(maxPoints),
+  }), [types, actionId, search, fromDate, toDate, minPoints, maxPoints]);
+
+  // Any filter change starts again from the newest entry
+  useEffect(() => {
+    let cancelled = false;
+    setEntries(null);
+    setNextCursor(undefined);
+    fetchLogEntryPage(spaceId, filter).then(page => {
+      if (cancelled) return;
+      setEntries(page?.entries ?? []);
+      setNextCursor(page?.nextCursor);
+    });
+    return () => { cancelled = true; };
+  }, [spaceId, filter, fetchLogEntryPage]);
+
+  useEffect(() => {
+    if (!groupBySession) return;
+    let cancelled = false;
+    fetchWorkSessions(spaceId).then(result => {
+      if (!cancelled) setSessions(result ?? []);
+    });
+    return () => { cancelled = true; };
+  }, [spaceId, groupBySession, fetchWorkSessions]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    const page = await fetchLogEntryPage(spaceId, filter, nextCursor);
+    setIsLoadingMore(false);
+    if (!page) return;
+    setEntries(prev => [...(prev ?? []), ...page.entries]);
+    setNextCursor(page.nextCursor);
+  };
+
+  const openCorrection = (correction: PendingCorrection) => {
+    setCorrectionReason('');
+    setPendingCorrection(correction);
+  };
+
+  // Applies the correction to the loaded pages in place so the reader keeps their position
+  const handleConfirmCorrection = async () => {
+    if (!pendingCorrection) return;
+    const { entry, kind } = pendingCorrection;
+    setIsCorrecting(true);
+    const result = await correctLogEntry(entry.id, kind, correctionReason);
+    setIsCorrecting(false);
+    setPendingCorrection(null);
+    if (!result) return;
+    setEntries(prev => {
+      if (!prev) return prev;
+      const revokedBonusIds = result.revokedGoals.map(g => goalBonusEntryId(g.id));
+      const remaining = (kind === 'delete' ? prev.filter(e => e.id !== entry.id) : prev.map(e => (e.id === entry.id ? result.entry : e)))
+        .filter(e => !revokedBonusIds.includes(e.id));
+      return matchesLogEntryFilter(result.correction, filter) ? [result.correction, ...remaining] : remaining;
+    });
+  };
+
+  const toggleType = (type: LogEntryType, checked: boolean) => {
+    setTypes(prev => (checked ? [...prev, type] : prev.filter(t => t !== type)));
+  };
+
+  const clearFilters = () => {
+    setTypes([]);
+    setActionId(ALL_ACTIONS);
+    setFromDate('');
+    setToDate('');
+    setMinPoints('');
+    setMaxPoints('');
+    setSearchInput('');
+  };
+
+  const actionOptions = useMemo(() => {
+    if (currentSpace?.id !== spaceId) return [];
+    return [...actions, ...multiStepActions].map(a => ({ id: a.id, name: a.name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [currentSpace, spaceId, actions, multiStepActions]);
+
+  const groups = useMemo(
+    () => (groupBySession && entries ? groupEntriesBySession(entries, sessions) : []),
+    [groupBySession, entries, sessions]
+  );
+
+  const hasFilters = types.length > 0 || actionId !== ALL_ACTIONS || fromDate || toDate || minPoints || maxPoints || searchInput;
+
+  return (
+    <div className="flex flex-col items-center justify-start min-h-screen py-8 bg-background p-4">
+      <header className="w-full max-w-4xl flex items-center gap-2 mb-6">
+        <Button variant="ghost" size="icon" onClick={() => router.push(`/space/${spaceId}`)} aria-label="Back to space">
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <h1 className="text-2xl font-bold text-primary">Log History</h1>
+        {space && <span className="ml-auto text-sm text-muted-foreground truncate">{space.name}</span>}
+      </header>
+
+      <main className="w-full max-w-4xl space-y-6">
+        <div className="space-y-3">
+          <Input placeholder="Search log..." value={searchInput} onChange={(e) => setSearchInput(e.target.value)} />
+          <div className="flex flex-wrap gap-4">
+            {(Object.keys(TYPE_LABELS) as LogEntryType[]).map(type => (
+              <div key={type} className="flex items-center gap-2">
+                <Checkbox id={`log-type-${type}`} checked={types.includes(type)} onCheckedChange={(checked) => toggleType(type, checked === true)} />
+                <Label htmlFor={`log-type-${type}`} className="text-sm font-normal">{TYPE_LABELS[type]}</Label>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="w-48">
+              <Label htmlFor="log-action">Action</Label>
+              <Select value={actionId} onValueChange={setActionId}>
+                <SelectTrigger id="log-action"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_ACTIONS}>All actions</SelectItem>
+                  {actionOptions.map(option => <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div><Label htmlFor="log-from">From</Label><Input id="log-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} /></div>
+            <div><Label htmlFor="log-to">To</Label><Input id="log-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} /></div>
+            <div className="w-24"><Label htmlFor="log-min-points">Min AP</Label><Input id="log-min-points" type="number" value={minPoints} onChange={(e) => setMinPoints(e.target.value)} /></div>
+            <div className="w-24"><Label htmlFor="log-max-points">Max AP</Label><Input id="log-max-points" type="number" value={maxPoints} onChange={(e) => setMaxPoints(e.target.value)} /></div>
+            {hasFilters && <Button variant="ghost" size="sm" onClick={clearFilters}>Clear</Button>}
+            <div className="flex items-center gap-2 ml-auto">
+              <Switch id="log-group-sessions" checked={groupBySession} onCheckedChange={setGroupBySession} />
+              <Label htmlFor="log-group-sessions" className="text-sm font-normal">Group by session</Label>
+            </div>
+          </div>
+        </div>
+
+        {entries === null ? (
+          <Skeleton className="h-64 w-full" />
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No log entries {hasFilters ? 'match these filters' : 'yet'}.</p>
+        ) : (
+          <div className="space-y-3">
+            {groupBySession ? (
+              groups.map((group, index) => (
+                <div key={`${group.session?.start.getTime() ?? 'none'}-${index}`} className="border rounded-md">
+                  <div className="text-xs font-semibold px-2 py-1 bg-muted">
+                    {group.session
+                      ? `Session ${formatShortDate(group.session.start)} ${formatTime(group.session.start)} – ${group.session.end ? formatTime(group.session.end) : 'now'} · ${group.session.minutes} min · ${group.session.points} AP`
+                      : 'Outside a session'}
+                  </div>
+                  <div className="p-2">
+                    {group.entries.map(logEntry => <LogEntryRow key={logEntry.id} logEntry={logEntry} onCorrect={openCorrection} />)}
+                  </div>
+                </div>
+              ))
+            ) : (
+              <div className="border rounded-md p-2">
+                {entries.map(logEntry => <LogEntryRow key={logEntry.id} logEntry={logEntry} onCorrect={openCorrection} />)}
+              </div>
+            )}
+            {nextCursor && (
+              <div className="flex justify-center">
+                <Button variant="outline" onClick={handleLoadMore} disabled={isLoadingMore}>
+                  {isLoadingMore ? 'Loading...' : 'Load More'}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+
+      <AlertDialog open={!!pendingCorrection} onOpenChange={(isOpen) => { if (!isOpen) setPendingCorrection(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingCorrection?.kind === 'void' ? 'Void' : 'Delete'} &quot;{pendingCorrection ? describeLogEntry(pendingCorrection.entry) : ''}&quot;?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingCorrection?.kind === 'void'
+                ? 'The entry stays in the history, struck through, but its points no longer count toward XP, goals or charts.'
+                : 'The entry is removed and its points no longer count.'}
+              {' '}A correction entry recording this is added to the log, and goals it no longer meets are taken back with their bonus points.
+              {pendingCorrection?.entry.type === 'multiStepAction' || pendingCorrection?.entry.type === 'questBonus' ? " The quest's progress and recorded runs are not rolled back: the step stays completed." : ''}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Input placeholder="Reason (optional)" value={correctionReason} onChange={(e) => setCorrectionReason(e.target.value)} disabled={isCorrecting} />
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isCorrecting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmCorrection} disabled={isCorrecting}>
+              {isCorrecting ? 'Saving...' : pendingCorrection?.kind === 'void' ? 'Void' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -15,10 +15,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter, DialogClose } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { format } from 'date-fns';
 import { Skeleton } from '@/components/ui/skeleton';
 import { formatTime, formatShortDate } from '@/utils/dateUtils';
-import { Camera, Trash2, Edit, Upload, X as CloseIcon, Info } from 'lucide-react';
+import { Camera, Trash2, Edit, Upload, X as CloseIcon, Info, FileSpreadsheet } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 
 // Import Domain Models
@@ -26,7 +28,7 @@ import type { Space } from '@/core/domain/Space'; // Import Space type
 import type { Action } from '@/core/domain/Action';
 import type { MultiStepAction, ActionStep } from '@/core/domain/MultiStepAction';
 import type { LogEntry } from '@/core/domain/LogEntry';
-import type { WasteEntry } from '@/core/domain/WasteEntry';
+import type { WasteEntry, WasteEntryDetails } from '@/core/domain/WasteEntry';
 import type { Comment } from '@/core/domain/Comment';
 import type { TodoItem } from '@/core/domain/TodoItem';
 
@@ -37,20 +39,28 @@ import { WasteTracking } from '@/components/space/WasteTracking';
 import { LogDisplay } from '@/components/space/LogDisplay';
 import { CommentSection } from '@/components/space/CommentSection';
 import { TodoListComponent } from '@/components/space/TodoListComponent'; // Assuming this was moved to components/space
+import { CsvExportDialog } from '@/components/space/CsvExportDialog';
+import { AndonPanel } from '@/components/space/AndonPanel';
+import { SpaceStatusSelect, SPACE_STATUS_LABELS } from '@/components/space/SpaceStatusBadge';
+import { GoalFormDialog } from '@/components/space/GoalFormDialog';
+import { OkapiTip } from '@/components/space/OkapiTip';
+import { WasteCategoryManager } from '@/components/space/WasteCategoryManager';
+import { AddWasteDialog, WASTE_SEVERITY_LABELS } from '@/components/space/AddWasteDialog';
+import { RootCauseAnalysisDialog } from '@/components/space/RootCauseAnalysisDialog';
+import { RootCauseAnalysisPanel } from '@/components/space/RootCauseAnalysisPanel';
+import { ActionThroughputPanel } from '@/components/space/ActionThroughputPanel';
+import { ActionManager } from '@/components/space/ActionManager';
+import { ActivityHeatmap } from '@/components/activity/ActivityHeatmap';
+import { ControlChartPanel } from '@/components/space/ControlChartPanel';
+import { computeGoalProgress } from '@/core/analytics/goals';
+import { FEATURE_UNLOCK_LEVELS, getActionSlotLimit, isFeatureUnlocked } from '@/core/analytics/progression';
+import { getActiveTips } from '@/core/analytics/tips';
+import { summarizeEfficiency } from '@/core/analytics/efficiency';
+import { getAnalyzedWasteEntryIds } from '@/core/analytics/rootCause';
+import { isQuestDone } from '@/core/analytics/quests';
+import { getSpaceStatus, isSpaceReadOnly } from '@/core/services/SpaceService';
 // Note: CameraCapture is now likely imported within CommentSection or TodoListComponent
 
-// TIMWOODS Categories - Keep here or move to a config/constants file
-const timwoodsCategories = [
-  {id: 'transportation', name: 'Transportation', description: 'Unnecessary movement of materials or products.', points: 1},
-  {id: 'inventory', name: 'Inventory', description: 'Excess raw materials, work in progress, or finished goods.', points: 2},
-  {id: 'motion', name: 'Motion', description: 'Unnecessary movement of people.', points: 3},
-  {id: 'waiting', name: 'Waiting', description: 'Idle time waiting for the next step in a process.', points: 4},
-  {id: 'overprocessing', name: 'Overprocessing', description: 'Performing more work than is necessary.', points: 5},
-  {id: 'overproduction', name: 'Overproduction', description: 'Producing more than is needed.', points: 6},
-  {id: 'defects', name: 'Defects', description: 'Rework or scrap due to errors or defects.', points: 7},
-  {id: 'skills', name: 'Skills', description: 'Underutilizing people\'s talents and skills', points: 8},
-];
-
 // --- Main Page Component ---
 export default function SpaceDetailPage({
   params,
@@ -65,7 +75,14 @@ export default function SpaceDetailPage({
       multiStepActions,
       logEntries,
       wasteEntries,
+      wasteCategories,
+      rootCauseAnalyses,
       comments,
+      todos,
+      andons,
+      goals,
+      tipDismissals,
+      focusProgress,
       isLoading, // Use the context's isLoading
       error,
       loadSpaceDetails,
@@ -75,8 +92,24 @@ export default function SpaceDetailPage({
       completeMultiStepActionStep,
       addLogEntry,
       addWasteEntries,
+      createWasteCategory,
+      updateWasteCategory,
+      setWasteCategoryArchived,
+      createRootCauseAnalysis,
+      createCountermeasureTodo,
+      deleteRootCauseAnalysis,
       addComment,
       addClockedTime, // Keep this from context
+      raiseAndon,
+      acknowledgeAndon,
+      resolveAndon,
+      changeSpaceStatus,
+      createGoal,
+      deleteGoal,
+      dismissTip,
+      undoStack,
+      undoLastOperation,
+      resetMultiStepAction,
   } = useSpaceContext();
 
   // --- Clock Hook ---
@@ -105,14 +138,20 @@ export default function SpaceDetailPage({
   const [newMultiStepActionDescription, setNewMultiStepActionDescription] = useState('');
   const [newMultiStepActionPoints, setNewMultiStepActionPoints] = useState<number | string>(1);
   const [newMultiStepActionSteps, setNewMultiStepActionSteps] = useState<string[]>(['']);
+  const [newMultiStepActionBonus, setNewMultiStepActionBonus] = useState<number | string>(0);
+  const [newMultiStepActionRepeatable, setNewMultiStepActionRepeatable] = useState(false);
 
   const [isAddWasteModalOpen, setIsAddWasteModalOpen] = useState(false);
-  const [selectedWasteCategories, setSelectedWasteCategories] = useState<string[]>([]);
+  const [isWasteCategoryManagerOpen, setIsWasteCategoryManagerOpen] = useState(false);
+  const [isActionManagerOpen, setIsActionManagerOpen] = useState(false);
+  const [rootCauseEntryIds, setRootCauseEntryIds] = useState<string[] | null>(null); // Preselected entries while the analysis dialog is open
 
-  const [isLogDetailsOpen, setIsLogDetailsOpen] = useState(false);
   const [isWasteDetailsOpen, setIsWasteDetailsOpen] = useState(false);
   const [isCommentDetailsOpen, setIsCommentDetailsOpen] = useState(false);
+  const [isCsvExportOpen, setIsCsvExportOpen] = useState(false);
+  const [isGoalFormOpen, setIsGoalFormOpen] = useState(false);
   const [modalLoading, setModalLoading] = useState(false); // For modal specific loading
+  const [minuteTick, setMinuteTick] = useState(() => new Date()); // Re-evaluates time-based tips and metrics
 
 
     // --- Effects ---
@@ -129,12 +168,25 @@ export default function SpaceDetailPage({
     // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [spaceId]); // Dependencies: spaceId
 
+   useEffect(() => {
+     const intervalId = setInterval(() => setMinuteTick(new Date()), 60 * 1000);
+     return () => clearInterval(intervalId);
+   }, []);
+
 
    // --- Calculated Values ---
    const totalPoints = useMemo(() => {
     return logEntries.reduce((sum, entry) => sum + entry.points, 0);
   }, [logEntries]);
 
+   const activeWasteCategories = useMemo(() => wasteCategories.filter(c => !c.archived), [wasteCategories]);
+   const activeActions = useMemo(() => actions.filter(a => !a.archived), [actions]);
+   const activeMultiStepActions = useMemo(() => multiStepActions.filter(a => !a.archived), [multiStepActions]);
+   const activityRecords = useMemo(() => ({ logEntries, wasteEntries, comments }), [logEntries, wasteEntries, comments]);
+   const actionNames = useMemo(() => new Map([...actions, ...multiStepActions].map(a => [a.id, a.name] as const)), [actions, multiStepActions]);
+   const analyzedWasteEntryIds = useMemo(() => getAnalyzedWasteEntryIds(rootCauseAnalyses), [rootCauseAnalyses]);
+   const analyzedWasteCount = useMemo(() => wasteEntries.filter(e => analyzedWasteEntryIds.has(e.id)).length, [wasteEntries, analyzedWasteEntryIds]);
+
    const totalWastePoints = useMemo(() => {
     return wasteEntries.reduce((sum, entry) => sum + entry.points, 0);
   }, [wasteEntries]);
@@ -147,7 +199,7 @@ export default function SpaceDetailPage({
 
     // Only consider points earned during the *current* session
     const sessionPointEntries = logEntries.filter(
-        entry => entry.timestamp >= clockInStartTime && entry.points > 0
+        entry => entry.timestamp >= clockInStartTime && entry.points > 0 && entry.type !== 'goalBonus' && entry.type !== 'questBonus' // Bonuses aren't earned by the session's work
     );
     const sessionPoints = sessionPointEntries.reduce((sum, entry) => sum + entry.points, 0);
 
@@ -157,11 +209,30 @@ export default function SpaceDetailPage({
     return sessionPoints / sessionHours;
  }, [logEntries, isClockedIn, clockInStartTime, currentSessionElapsedTime]);
 
+   const efficiency = useMemo(() => summarizeEfficiency(logEntries, wasteEntries, minuteTick), [logEntries, wasteEntries, minuteTick]);
+
+   const goalProgress = useMemo(() => {
+    return goals.map(goal => ({ goal, progress: computeGoalProgress(goal, logEntries, wasteEntries) }));
+   }, [goals, logEntries, wasteEntries]);
+
+   const activeTips = useMemo(() => {
+     if (!currentSpace) return [];
+     // useClock saves clock changes without updating currentSpace, so its state is the current one
+     const space = { ...currentSpace, isClockedIn, clockInStartTime };
+     return getActiveTips({ space, logEntries, wasteEntries, wasteCategories, multiStepActions, now: minuteTick }, tipDismissals);
+   }, [currentSpace, isClockedIn, clockInStartTime, logEntries, wasteEntries, wasteCategories, multiStepActions, tipDismissals, minuteTick]);
+
+   const openAndonCount = useMemo(() => andons.filter(a => a.status !== 'resolved').length, [andons]);
+
+   const spaceStatus = currentSpace ? getSpaceStatus(currentSpace) : 'active';
+   const isReadOnly = currentSpace ? isSpaceReadOnly(currentSpace) : false;
+
    // --- Event Handlers ---
   const handleBack = () => router.push('/');
 
    // Action Handling
    const handleActionClick = async (action: Action, multiplier: number) => {
+    if (isReadOnly) return;
     if (!isClockedIn) {
       toast({ title: 'Not Clocked In!', description: 'Clock in first.', variant: 'destructive' });
       return;
@@ -170,8 +241,8 @@ export default function SpaceDetailPage({
      setModalLoading(true); // Indicate loading for action logging
     try {
         const pointsEarned = action.points * multiplier;
-        await addLogEntry({ spaceId: currentSpace.id, actionName: `${action.name} (x${multiplier})`, points: pointsEarned, type: 'action' });
-        toast({ title: 'Action Logged!', description: `Earned ${pointsEarned} points.` });
+        await addLogEntry({ spaceId: currentSpace.id, actionId: action.id, actionName: action.name, quantity: multiplier, points: pointsEarned, type: 'action' });
+        // Toast (with Undo) is handled within addLogEntry via context
     } finally {
          setModalLoading(false); // Clear loading state
     }
@@ -202,9 +273,10 @@ export default function SpaceDetailPage({
         try {
             const points = Number(newMultiStepActionPoints) || 1;
             const stepsData = newMultiStepActionSteps.map(name => ({ name: name.trim() }));
-            const success = await createMultiStepAction({ spaceId: currentSpace.id, name: newMultiStepActionName.trim(), description: newMultiStepActionDescription.trim(), pointsPerStep: points, steps: stepsData });
+            const completionBonus = Math.max(0, Number(newMultiStepActionBonus) || 0);
+            const success = await createMultiStepAction({ spaceId: currentSpace.id, name: newMultiStepActionName.trim(), description: newMultiStepActionDescription.trim(), pointsPerStep: points, steps: stepsData, completionBonus, repeatable: newMultiStepActionRepeatable });
             if (success) {
-                setNewMultiStepActionName(''); setNewMultiStepActionDescription(''); setNewMultiStepActionPoints(1); setNewMultiStepActionSteps(['']); setIsCreateMultiStepActionModalOpen(false);
+                setNewMultiStepActionName(''); setNewMultiStepActionDescription(''); setNewMultiStepActionPoints(1); setNewMultiStepActionSteps(['']); setNewMultiStepActionBonus(0); setNewMultiStepActionRepeatable(false); setIsCreateMultiStepActionModalOpen(false);
                 toast({ title: 'Multi-Step Action Created!', description: `Action "${newMultiStepActionName.trim()}" added.` });
             }
         } finally {
@@ -216,8 +288,8 @@ export default function SpaceDetailPage({
         if (!isClockedIn) {
             toast({ title: 'Not Clocked In!', description: 'Clock in first.', variant: 'destructive' }); return;
         }
-        if (action.currentStepIndex >= action.steps.length || isLoading || modalLoading) {
-            if (action.currentStepIndex >= action.steps.length) toast({ title: 'Action Complete', variant: "default" });
+        if (isQuestDone(action) || isLoading || modalLoading) {
+            if (isQuestDone(action)) toast({ title: 'Action Complete', description: 'Reset it to run it again.', variant: "default" });
             return;
         }
         setModalLoading(true);
@@ -238,16 +310,12 @@ export default function SpaceDetailPage({
     };
 
    // Waste Handling
-   const handleWasteCategoryClick = (categoryId: string) => setSelectedWasteCategories(prev => prev.includes(categoryId) ? prev.filter(id => id !== categoryId) : [...prev, categoryId]);
-   const handleSaveWaste = async () => {
-    if (!currentSpace || selectedWasteCategories.length === 0 || isLoading || modalLoading) return;
+   const handleSaveWaste = async (categoryIds: string[], details: WasteEntryDetails): Promise<WasteEntry[]> => {
+    if (!currentSpace || categoryIds.length === 0 || isLoading || modalLoading) return [];
     setModalLoading(true);
     try {
-        const added = await addWasteEntries(currentSpace.id, selectedWasteCategories);
-        if (added.length > 0) {
-             toast({ title: 'Waste Added!', description: `Added ${added.length} waste entr${added.length > 1 ? 'ies' : 'y'}.` });
-            setSelectedWasteCategories([]); setIsAddWasteModalOpen(false);
-        }
+        // Toast (with Undo) is handled within addWasteEntries via context
+        return await addWasteEntries(currentSpace.id, categoryIds, details);
     } finally {
         setModalLoading(false);
     }
@@ -268,9 +336,11 @@ export default function SpaceDetailPage({
   return (
     <div className="flex flex-col items-center justify-start min-h-screen py-2 bg-background p-2">
       {/* Header */}
-       <Card className="w-full max-w-4xl mb-2 card-shadow">
+       <Card className={`w-full max-w-4xl mb-2 card-shadow ${openAndonCount > 0 ? 'border-destructive' : ''}`}>
           <CardHeader className="p-2 flex flex-row items-center justify-between">
               <CardTitle className="text-lg font-bold truncate flex-1 mr-2">{currentSpace.name}</CardTitle>
+              <SpaceStatusSelect space={currentSpace} disabled={isClockLoading || modalLoading} onChange={(status) => changeSpaceStatus(currentSpace.id, status)} />
+              <Button size="sm" variant="ghost" onClick={() => setIsCsvExportOpen(true)} className="text-xs" title="Export CSV"><FileSpreadsheet className="h-4 w-4" /></Button>
               <Button size="sm" variant="ghost" onClick={handleBack} className="text-xs">Back</Button>
           </CardHeader>
       </Card>
@@ -286,18 +356,48 @@ export default function SpaceDetailPage({
         totalPoints={totalPoints}
         averageApPerHour={averageApPerHour} // Pass the calculated average AP/H
         totalWastePoints={totalWastePoints}
+        openAndonCount={openAndonCount}
+        canClockIn={spaceStatus === 'active'}
+        goalProgress={goalProgress}
+        efficiency={efficiency}
+        onAddGoal={isReadOnly ? undefined : () => setIsGoalFormOpen(true)}
+        onDeleteGoal={isReadOnly ? undefined : deleteGoal}
       />
 
+       {/* Mascot */}
+       <OkapiTip tips={activeTips} onDismiss={(tipId, snoozeHours) => dismissTip(currentSpace.id, tipId, snoozeHours)} />
+
+       {isReadOnly && (
+         <Alert className="w-full max-w-4xl mb-2 py-2">
+           <Info className="h-4 w-4" />
+           <AlertTitle className="text-sm">{SPACE_STATUS_LABELS[spaceStatus]} space</AlertTitle>
+           <AlertDescription className="text-xs">This space is read-only. Reopen it to log actions or waste.</AlertDescription>
+         </Alert>
+       )}
+
+       {/* Andon */}
+       <AndonPanel
+         andons={andons}
+         isLoading={isLoading || modalLoading}
+         onRaise={(comment) => raiseAndon(currentSpace.id, comment)}
+         onAcknowledge={acknowledgeAndon}
+         onResolve={resolveAndon}
+       />
+
        {/* Actions Section */}
        <ActionList
-         actions={actions}
-         multiStepActions={multiStepActions}
+         actions={activeActions}
+         multiStepActions={activeMultiStepActions}
          isClockedIn={isClockedIn} // Pass from useClock
          isLoading={isLoading || modalLoading} // Pass combined loading state
          onActionClick={handleActionClick}
          onMultiStepActionClick={handleMultiStepActionClick}
+         onResetMultiStepAction={(action) => resetMultiStepAction(action.id)}
          onCreateSimpleAction={() => setIsCreateActionModalOpen(true)}
          onCreateMultiStepAction={() => setIsCreateMultiStepActionModalOpen(true)}
+         onManageActionsClick={() => setIsActionManagerOpen(true)}
+         isReadOnly={isReadOnly}
+         actionSlotLimit={getActionSlotLimit(focusProgress.level)}
        />
 
        {/* To-Do List / Gallery Component */}
@@ -310,15 +410,64 @@ export default function SpaceDetailPage({
         isLoading={isLoading || modalLoading}
         onAddWasteClick={() => setIsAddWasteModalOpen(true)}
         onShowDetailsClick={() => setIsWasteDetailsOpen(true)}
+        onManageCategoriesClick={() => setIsWasteCategoryManagerOpen(true)}
+        onAnalyticsClick={() => router.push(`/space/${spaceId}/waste`)}
+        isReadOnly={isReadOnly}
       />
 
-      {/* Log */}
-      <LogDisplay
-        logEntries={logEntries}
-        isLoading={isLoading}
-        onShowDetailsClick={() => setIsLogDetailsOpen(true)}
+      {/* Root-Cause Analyses */}
+      <RootCauseAnalysisPanel
+        analyses={rootCauseAnalyses}
+        todos={todos}
+        analyzedCount={analyzedWasteCount}
+        wasteCount={wasteEntries.length}
+        isLoading={isLoading || modalLoading}
+        isReadOnly={isReadOnly}
+        onAnalyzeClick={() => setRootCauseEntryIds([])}
+        onCreateTodo={createCountermeasureTodo}
+        onDelete={deleteRootCauseAnalysis}
       />
 
+      {/* Log and Analytics */}
+      <Tabs defaultValue="log" className="mt-3 w-full max-w-4xl">
+        <TabsList>
+          <TabsTrigger value="log">Log</TabsTrigger>
+          <TabsTrigger value="analytics">Analytics</TabsTrigger>
+        </TabsList>
+        <TabsContent value="log">
+          <LogDisplay
+            logEntries={logEntries}
+            isLoading={isLoading}
+            onShowDetailsClick={() => router.push(`/space/${spaceId}/log`)}
+            latestUndoLabel={undoStack[undoStack.length - 1]?.label}
+            onUndoClick={undoLastOperation}
+          />
+        </TabsContent>
+        <TabsContent value="analytics">
+          {/* Action Throughput Charts */}
+          <ActionThroughputPanel
+            logEntries={logEntries}
+            actionNames={actionNames}
+            isUnlocked={isFeatureUnlocked('chartViews', focusProgress.level)}
+            unlockLevel={FEATURE_UNLOCK_LEVELS.chartViews}
+          />
+
+          {/* SPC Control Chart */}
+          <ControlChartPanel
+            spaceId={spaceId}
+            logEntries={logEntries}
+            isUnlocked={isFeatureUnlocked('chartViews', focusProgress.level)}
+            unlockLevel={FEATURE_UNLOCK_LEVELS.chartViews}
+          />
+        </TabsContent>
+      </Tabs>
+
+      {/* Activity Heatmap */}
+      <div className="mt-3 w-full max-w-4xl">
+        <h2 className="text-base font-bold mb-1">Activity</h2>
+        <ActivityHeatmap records={activityRecords} />
+      </div>
+
       {/* Comments */}
       <CommentSection
         comments={comments}
@@ -350,6 +499,8 @@ export default function SpaceDetailPage({
                     <div><Label htmlFor="multi-action-name">Action Name *</Label><Input id="multi-action-name" value={newMultiStepActionName} onChange={(e) => setNewMultiStepActionName(e.target.value)} placeholder="e.g., Weekly Review"/></div>
                     <div><Label htmlFor="multi-action-desc">Description</Label><Textarea id="multi-action-desc" value={newMultiStepActionDescription} onChange={(e) => setNewMultiStepActionDescription(e.target.value)} placeholder="(Optional)" /></div>
                     <div><Label htmlFor="multi-action-points">Points per Step *</Label><Input id="multi-action-points" type="number" min="1" value={newMultiStepActionPoints} onChange={(e) => setNewMultiStepActionPoints(e.target.value)} placeholder="e.g., 10"/></div>
+                    <div><Label htmlFor="multi-action-bonus">Completion Bonus</Label><Input id="multi-action-bonus" type="number" min="0" value={newMultiStepActionBonus} onChange={(e) => setNewMultiStepActionBonus(e.target.value)} placeholder="Extra points for finishing every step"/></div>
+                    <div className="flex items-center gap-2"><Switch id="multi-action-repeatable" checked={newMultiStepActionRepeatable} onCheckedChange={setNewMultiStepActionRepeatable} /><Label htmlFor="multi-action-repeatable" className="font-normal">Repeatable (starts over after the last step)</Label></div>
                      <div><Label>Steps *</Label><div className="space-y-2"> {newMultiStepActionSteps.map((step, index) => (<div key={index} className="flex items-center gap-2"> <Input type="text" value={step} onChange={(e) => handleStepNameChange(index, e.target.value)} placeholder={`Step ${index + 1} Name`} className="flex-grow"/> {newMultiStepActionSteps.length > 1 && (<Button variant="ghost" size="sm" onClick={() => removeStepInput(index)} aria-label="Remove step" disabled={modalLoading}>X</Button>)} </div>))} <Button type="button" variant="outline" size="sm" onClick={addStepInput} disabled={modalLoading}>+ Add Step</Button> </div></div>
                 </div>
                 <DialogFooter><DialogClose asChild><Button type="button" variant="secondary" disabled={modalLoading}>Cancel</Button></DialogClose><Button type="button" onClick={handleSaveMultiStepAction} disabled={isLoading || modalLoading || !newMultiStepActionName.trim() || newMultiStepActionSteps.some(s => !s.trim())}> Create </Button></DialogFooter>
@@ -357,33 +508,67 @@ export default function SpaceDetailPage({
         </Dialog>
 
         {/* Add Waste Modal */}
-        <Dialog open={isAddWasteModalOpen} onOpenChange={setIsAddWasteModalOpen}>
-            <DialogContent> <DialogHeader><DialogTitle>Add Waste (TIMWOODS)</DialogTitle><DialogDescription>Select observed waste categories.</DialogDescription></DialogHeader>
-            <ScrollArea className="max-h-60"> <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 p-1"> {timwoodsCategories.map((category) => (<Button key={category.id} variant={selectedWasteCategories.includes(category.id) ? 'default' : 'outline'} onClick={() => handleWasteCategoryClick(category.id)} size="sm" className="text-xs h-auto py-2 flex flex-col items-start"> <span className="font-semibold">{category.name} (+{category.points})</span> <span className="text-xs text-muted-foreground font-normal">{category.description}</span> </Button>))} </div> </ScrollArea>
-            <DialogFooter><DialogClose asChild><Button type="button" variant="secondary" onClick={() => setSelectedWasteCategories([])} disabled={modalLoading}>Cancel</Button></DialogClose><Button type="button" onClick={handleSaveWaste} disabled={isLoading || modalLoading || selectedWasteCategories.length === 0}>Add Selected Waste</Button></DialogFooter>
-            </DialogContent>
-        </Dialog>
+        <AddWasteDialog
+            categories={activeWasteCategories}
+            multiStepActions={activeMultiStepActions}
+            todos={todos}
+            open={isAddWasteModalOpen}
+            onOpenChange={setIsAddWasteModalOpen}
+            onSave={handleSaveWaste}
+        />
+
+       {/* Waste Category Manager */}
+       <WasteCategoryManager
+           spaceId={currentSpace.id}
+           categories={wasteCategories}
+           open={isWasteCategoryManagerOpen}
+           onOpenChange={setIsWasteCategoryManagerOpen}
+           onCreate={createWasteCategory}
+           onUpdate={updateWasteCategory}
+           onSetArchived={setWasteCategoryArchived}
+       />
 
-       {/* Log Details Modal */}
-       <Dialog open={isLogDetailsOpen} onOpenChange={setIsLogDetailsOpen}>
-          <DialogContent className="max-w-md sm:max-w-lg md:max-w-xl"> <DialogHeader><DialogTitle>Log Details</DialogTitle><DialogDescription>All recorded events, newest first.</DialogDescription></DialogHeader>
-              <ScrollArea className="max-h-[60vh] border rounded-md"> <div className="p-2 space-y-1">
-                     {logEntries.length === 0 && <p className="text-muted-foreground text-sm text-center p-4">No log entries yet.</p>}
-                     {logEntries.map((logEntry) => {
-                          let detail = logEntry.type === 'action' ? `Completed: ${logEntry.actionName}` : logEntry.type === 'multiStepAction' ? `Step ${logEntry.stepIndex !== undefined ? logEntry.stepIndex + 1 : '?'} of '${logEntry.actionName}' completed` : logEntry.type === 'clockIn' ? `Clocked In` : logEntry.type === 'clockOut' && logEntry.clockInTime && logEntry.minutesClockedIn !== undefined ? `Clocked Out (Session: ${logEntry.minutesClockedIn} min)` : `Clocked Out`;
-                          return <div key={logEntry.id} className="text-xs p-1 border-b last:border-b-0"> <span className="font-mono text-muted-foreground mr-2">[{format(logEntry.timestamp, 'MM/dd HH:mm:ss')}]</span> <span>{detail}</span> {logEntry.points > 0 && <span className="font-semibold text-primary ml-2">(+{logEntry.points} AP)</span>} </div>;
-                      })}
-                  </div> </ScrollArea>
-              <DialogFooter><DialogClose asChild><Button type="button" variant="outline">Close</Button></DialogClose></DialogFooter>
-          </DialogContent>
-       </Dialog>
+       {/* Action Manager */}
+       <ActionManager spaceId={currentSpace.id} open={isActionManagerOpen} onOpenChange={setIsActionManagerOpen} />
+
+       {/* Root-Cause Analysis Modal */}
+       <RootCauseAnalysisDialog
+           spaceId={currentSpace.id}
+           wasteEntries={wasteEntries}
+           analyzedWasteEntryIds={analyzedWasteEntryIds}
+           initialWasteEntryIds={rootCauseEntryIds ?? []}
+           open={rootCauseEntryIds !== null}
+           onOpenChange={(open) => { if (!open) setRootCauseEntryIds(null); }}
+           onSave={createRootCauseAnalysis}
+       />
 
        {/* Waste Details Modal */}
         <Dialog open={isWasteDetailsOpen} onOpenChange={setIsWasteDetailsOpen}>
-          <DialogContent className="max-w-md"> <DialogHeader><DialogTitle>Waste Details</DialogTitle><DialogDescription>All waste entries, newest first. Total: {totalWastePoints} pts</DialogDescription></DialogHeader>
+          <DialogContent className="max-w-md sm:max-w-lg"> <DialogHeader><DialogTitle>Waste Details</DialogTitle><DialogDescription>All waste entries, newest first. Total: {totalWastePoints} pts</DialogDescription></DialogHeader>
               <ScrollArea className="max-h-[60vh] border rounded-md"> <div className="p-2 space-y-1">
                     {wasteEntries.length === 0 && <p className="text-muted-foreground text-sm text-center p-4">No waste entries yet.</p>}
-                    {wasteEntries.map((wasteEntry) => (<div key={wasteEntry.id} className="text-xs p-1 border-b last:border-b-0"> <span className="font-mono text-muted-foreground mr-2">[{format(wasteEntry.timestamp, 'MM/dd HH:mm:ss')}]</span> <span>{wasteEntry.type}</span> <span className="font-semibold text-destructive ml-2">({wasteEntry.points} pts)</span> </div>))}
+                    {wasteEntries.map((wasteEntry) => {
+                        const relatedQuest = wasteEntry.multiStepActionId ? multiStepActions.find(a => a.id === wasteEntry.multiStepActionId) : undefined;
+                        const relatedTodo = wasteEntry.todoId ? todos.find(t => t.id === wasteEntry.todoId) : undefined;
+                        const facts = [
+                            wasteEntry.severity && `${WASTE_SEVERITY_LABELS[wasteEntry.severity]} severity`,
+                            wasteEntry.minutesLost !== undefined && `${wasteEntry.minutesLost} min lost`,
+                            relatedQuest && `Quest: ${relatedQuest.name}`,
+                            relatedTodo && `To-Do: ${relatedTodo.description}`,
+                        ].filter(Boolean);
+                        return (
+                            <div key={wasteEntry.id} className="text-xs p-1 border-b last:border-b-0">
+                                <div> <span className="font-mono text-muted-foreground mr-2">[{format(wasteEntry.timestamp, 'MM/dd HH:mm:ss')}]</span> <span>{wasteEntry.type}</span> <span className="font-semibold text-destructive ml-2">({wasteEntry.points} pts)</span>
+                                    {analyzedWasteEntryIds.has(wasteEntry.id)
+                                        ? <span className="text-primary ml-2">Analyzed</span>
+                                        : !isReadOnly && <Button variant="link" size="sm" className="h-auto p-0 ml-2 text-xs" onClick={() => { setIsWasteDetailsOpen(false); setRootCauseEntryIds([wasteEntry.id]); }}>Analyze</Button>}
+                                </div>
+                                {facts.length > 0 && <p className="text-muted-foreground mt-0.5">{facts.join(' · ')}</p>}
+                                {wasteEntry.note && <p className="text-foreground whitespace-pre-wrap mt-0.5">{wasteEntry.note}</p>}
+                                {wasteEntry.imageUrl && <img src={wasteEntry.imageUrl} alt="Waste evidence" className="rounded-md my-1 max-h-40 object-cover" />}
+                            </div>
+                        );
+                    })}
                   </div> </ScrollArea>
                <DialogFooter><DialogClose asChild><Button type="button" variant="outline">Close</Button></DialogClose></DialogFooter>
           </DialogContent>
@@ -400,6 +585,12 @@ export default function SpaceDetailPage({
           </DialogContent>
       </Dialog>
 
+       {/* Goal Form Modal */}
+       <GoalFormDialog spaceId={currentSpace.id} actions={activeActions} open={isGoalFormOpen} onOpenChange={setIsGoalFormOpen} onSave={createGoal} />
+
+       {/* CSV Export Modal */}
+       <CsvExportDialog space={currentSpace} open={isCsvExportOpen} onOpenChange={setIsCsvExportOpen} />
+
        {/* Note: Camera capture modals are now likely within CommentSection or TodoListComponent */}
 
     </div>
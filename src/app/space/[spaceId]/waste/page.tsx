@@ -0,0 +1,127 @@
+/**
+ * @fileOverview Page component for a Space's waste analytics: a Pareto chart of waste categories
+ * and time-of-day / day-of-week breakdowns over an optional date range.
+ */
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from "next/navigation";
+import { ArrowLeft } from 'lucide-react';
+import { useSpaceContext } from "@/contexts/SpaceContext";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { WasteParetoChart } from '@/components/space/WasteParetoChart';
+import { WasteTimeChart } from '@/components/space/WasteTimeChart';
+import { isWithinRange } from '@/core/analytics/sessions';
+import { buildWasteByDayOfWeek, buildWasteByHourOfDay, buildWastePareto, PARETO_THRESHOLD, type WasteMetric } from '@/core/analytics/waste';
+import type { WasteEntry } from '@/core/domain/WasteEntry';
+
+export default function WasteAnalyticsPage({
+  params,
+}: {
+  params: { spaceId: string };
+}) {
+  const { spaceId } = params;
+  const router = useRouter();
+  const { spaces, fetchWasteEntries } = useSpaceContext();
+  const [wasteEntries, setWasteEntries] = useState<WasteEntry[] | null>(null); // null while loading
+  const [metric, setMetric] = useState<WasteMetric>('count');
+  const [fromDate, setFromDate] = useState(''); // yyyy-MM-dd from the date input, local time
+  const [toDate, setToDate] = useState('');
+
+  const space = spaces.find(s => s.id === spaceId);
+
+  useEffect(() => {
+    let cancelled = false;
+    setWasteEntries(null);
+    fetchWasteEntries(spaceId).then(entries => {
+      if (!cancelled) setWasteEntries(entries ?? []);
+    });
+    return () => { cancelled = true; };
+  }, [spaceId, fetchWasteEntries]);
+
+  const filteredEntries = useMemo(() => {
+    // Date inputs are local calendar days; widen "to" to the end of that day.
+    const range = {
+      from: fromDate ? new Date(`${fromDate}T00:00:00`) : undefined,
+      to: toDate ? new Date(`${toDate}T23:59:59.999`) : undefined,
+    };
+    return (wasteEntries ?? []).filter(e => isWithinRange(e.timestamp, range));
+  }, [wasteEntries, fromDate, toDate]);
+
+  const pareto = useMemo(() => buildWastePareto(filteredEntries, metric), [filteredEntries, metric]);
+  const byHour = useMemo(() => buildWasteByHourOfDay(filteredEntries), [filteredEntries]);
+  const byDay = useMemo(() => buildWasteByDayOfWeek(filteredEntries), [filteredEntries]);
+
+  // The "vital few": categories up to and including the one that crosses the threshold
+  const vitalFew = pareto.slice(0, pareto.findIndex(item => item.cumulativeShare >= PARETO_THRESHOLD) + 1);
+  const totalPoints = filteredEntries.reduce((sum, e) => sum + e.points, 0);
+
+  return (
+    <div className="flex flex-col items-center justify-start min-h-screen py-8 bg-background p-4">
+      <header className="w-full max-w-4xl flex items-center gap-2 mb-6">
+        <Button variant="ghost" size="icon" onClick={() => router.push(`/space/${spaceId}`)} aria-label="Back to space">
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <h1 className="text-2xl font-bold text-primary">Waste Analytics</h1>
+        {space && <span className="ml-auto text-sm text-muted-foreground truncate">{space.name}</span>}
+      </header>
+
+      <main className="w-full max-w-4xl space-y-6">
+        <div className="flex flex-wrap items-end gap-3">
+          <div><Label htmlFor="waste-from">From</Label><Input id="waste-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} /></div>
+          <div><Label htmlFor="waste-to">To</Label><Input id="waste-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} /></div>
+          {(fromDate || toDate) && <Button variant="ghost" size="sm" onClick={() => { setFromDate(''); setToDate(''); }}>Clear</Button>}
+          <Tabs value={metric} onValueChange={(value) => setMetric(value as WasteMetric)} className="ml-auto">
+            <TabsList>
+              <TabsTrigger value="count">By Count</TabsTrigger>
+              <TabsTrigger value="points">By Points</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+
+        {wasteEntries === null ? (
+          <Skeleton className="h-64 w-full" />
+        ) : filteredEntries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No waste entries {fromDate || toDate ? 'in this date range' : 'yet'}.</p>
+        ) : (
+          <>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Pareto</CardTitle>
+                <CardDescription>
+                  {filteredEntries.length} entries, {totalPoints} waste points.
+                  {' '}{vitalFew.map(item => item.name).join(', ')} account{vitalFew.length === 1 ? 's' : ''} for {Math.round(vitalFew[vitalFew.length - 1]?.cumulativeShare ?? 0)}% of the {metric === 'count' ? 'entries' : 'points'}.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <WasteParetoChart items={pareto} metric={metric} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">When Waste Happens</CardTitle>
+                <CardDescription>Logged waste by local time.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Tabs defaultValue="hour">
+                  <TabsList>
+                    <TabsTrigger value="hour">Time of Day</TabsTrigger>
+                    <TabsTrigger value="day">Day of Week</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="hour"><WasteTimeChart buckets={byHour} metric={metric} /></TabsContent>
+                  <TabsContent value="day"><WasteTimeChart buckets={byDay} metric={metric} /></TabsContent>
+                </Tabs>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+/**
+ * @fileOverview GitHub-style calendar heatmap of daily AP, clocked minutes or waste. Clicking a day
+ * opens its timeline. Used per space on the space page and across all spaces on the home page.
+ */
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { cn } from '@/lib/utils';
+import { buildDailyActivity, buildHeatmapWeeks, type ActivityRecords, type HeatmapMetric } from '@/core/analytics/heatmap';
+import { DayDetailDialog } from './DayDetailDialog';
+
+interface ActivityHeatmapProps {
+    records: ActivityRecords;
+    spaceNames?: Map<string, string>; // Set for the cross-space heatmap to label each timeline item
+}
+
+const METRIC_UNITS: Record<HeatmapMetric, string> = { points: 'AP', minutes: 'min clocked', waste: 'waste pts' };
+
+// Shading per level, 0 (no activity) to HEATMAP_LEVELS
+const LEVEL_CLASSES: Record<'activity' | 'waste', string[]> = {
+    activity: ['bg-muted', 'bg-primary/25', 'bg-primary/50', 'bg-primary/75', 'bg-primary'],
+    waste: ['bg-muted', 'bg-destructive/25', 'bg-destructive/50', 'bg-destructive/75', 'bg-destructive'],
+};
+
+const DAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', ''];
+
+export const ActivityHeatmap: React.FC<ActivityHeatmapProps> = ({ records, spaceNames }) => {
+    const [metric, setMetric] = useState<HeatmapMetric>('points');
+    const [selectedDay, setSelectedDay] = useState<Date | null>(null);
+
+    const daily = useMemo(() => buildDailyActivity(records.logEntries, records.wasteEntries), [records]);
+    const weeks = useMemo(() => buildHeatmapWeeks(daily, metric), [daily, metric]);
+    const levelClasses = LEVEL_CLASSES[metric === 'waste' ? 'waste' : 'activity'];
+    const total = weeks.flat().reduce((sum, day) => sum + day.value, 0);
+
+    return (
+        <div>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                <p className="text-xs text-muted-foreground">{total} {METRIC_UNITS[metric]} in the last year</p>
+                <Tabs value={metric} onValueChange={(value) => setMetric(value as HeatmapMetric)}>
+                    <TabsList className="h-8">
+                        <TabsTrigger value="points" className="text-xs">AP</TabsTrigger>
+                        <TabsTrigger value="minutes" className="text-xs">Time</TabsTrigger>
+                        <TabsTrigger value="waste" className="text-xs">Waste</TabsTrigger>
+                    </TabsList>
+                </Tabs>
+            </div>
+            <div className="overflow-x-auto pb-1">
+                <div className="flex gap-[3px] text-[10px] text-muted-foreground">
+                    <div className="flex flex-col gap-[3px] pr-1 pt-4">
+                        {DAY_LABELS.map((label, index) => <span key={index} className="h-3 leading-3">{label}</span>)}
+                    </div>
+                    {weeks.map((week, index) => {
+                        const showMonth = index === 0 || week[0].date.getMonth() !== weeks[index - 1][0].date.getMonth();
+                        return (
+                            <div key={week[0].key} className="flex flex-col gap-[3px]">
+                                <span className="h-3 leading-3 mb-1 whitespace-nowrap">{showMonth ? format(week[0].date, 'MMM') : ''}</span>
+                                {week.map(day => day.isFuture ? (
+                                    <span key={day.key} className="h-3 w-3" />
+                                ) : (
+                                    <button
+                                        key={day.key}
+                                        type="button"
+                                        className={cn("h-3 w-3 rounded-sm hover:ring-1 hover:ring-foreground", levelClasses[day.level])}
+                                        title={`${format(day.date, 'EEE MMM d, yyyy')}: ${day.value} ${METRIC_UNITS[metric]}`}
+                                        aria-label={`${format(day.date, 'MMMM d, yyyy')}: ${day.value} ${METRIC_UNITS[metric]}`}
+                                        onClick={() => setSelectedDay(day.date)}
+                                    />
+                                ))}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+
+            <DayDetailDialog
+                date={selectedDay}
+                records={records}
+                spaceNames={spaceNames}
+                onOpenChange={(open) => { if (!open) setSelectedDay(null); }}
+            />
+        </div>
+    );
+};
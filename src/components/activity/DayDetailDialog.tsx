@@ -0,0 +1,73 @@
+/**
+ * @fileOverview Dialog listing one day's sessions, logged actions, waste and comments in chronological order.
+ */
+'use client';
+
+import React, { useMemo } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter, DialogClose } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { buildDailyActivity, buildDayTimeline, getDayKey, type ActivityRecords, type DayTimelineItem } from '@/core/analytics/heatmap';
+import { formatLoggedActionName } from '@/core/analytics/actionLog';
+
+interface DayDetailDialogProps {
+    date: Date | null; // Open while set
+    records: ActivityRecords;
+    spaceNames?: Map<string, string>; // Prefix each item with its space when set
+    onOpenChange: (open: boolean) => void;
+}
+
+const describeItem = (item: DayTimelineItem): { label: string; detail?: string; className?: string } => {
+    switch (item.kind) {
+        case 'session':
+            return { label: item.end ? `Session until ${format(item.end, 'HH:mm')}` : 'Session (still clocked in)', detail: `${item.minutes} min` };
+        case 'log':
+            return {
+                label: item.entry.type === 'multiStepAction' && item.entry.stepIndex !== undefined ? `Step ${item.entry.stepIndex + 1} of ${item.entry.actionName}` : formatLoggedActionName(item.entry),
+                detail: item.entry.points > 0 ? `+${item.entry.points} AP` : undefined,
+                className: 'text-primary',
+            };
+        case 'waste':
+            return { label: `Waste: ${item.entry.type}${item.entry.note ? ` – ${item.entry.note}` : ''}`, detail: `${item.entry.points} pts`, className: 'text-destructive' };
+        case 'comment':
+            return { label: `Comment: ${item.comment.text}` };
+    }
+};
+
+export const DayDetailDialog: React.FC<DayDetailDialogProps> = ({ date, records, spaceNames, onOpenChange }) => {
+    const timeline = useMemo(() => (date ? buildDayTimeline(date, records) : []), [date, records]);
+    const totals = useMemo(() => (date ? buildDailyActivity(records.logEntries, records.wasteEntries).get(getDayKey(date)) : undefined), [date, records]);
+
+    return (
+        <Dialog open={date !== null} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-md sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>{date ? format(date, 'EEEE, MMMM d, yyyy') : ''}</DialogTitle>
+                    <DialogDescription>
+                        {totals ? `${totals.points} AP · ${totals.minutes} min clocked · ${totals.wastePoints} waste pts` : 'Nothing recorded on this day.'}
+                    </DialogDescription>
+                </DialogHeader>
+                <ScrollArea className="max-h-[60vh] border rounded-md">
+                    <div className="p-2 space-y-1">
+                        {timeline.length === 0 && <p className="text-muted-foreground text-sm text-center p-4">No activity.</p>}
+                        {timeline.map((item, index) => {
+                            const { label, detail, className } = describeItem(item);
+                            return (
+                                <div key={index} className="text-xs p-1 border-b last:border-b-0 flex gap-2">
+                                    <span className="font-mono text-muted-foreground shrink-0">{format(item.timestamp, 'HH:mm')}</span>
+                                    <span className="flex-1 min-w-0 whitespace-pre-wrap">
+                                        {spaceNames && <span className="text-muted-foreground">{spaceNames.get(item.spaceId) ?? 'Deleted space'} · </span>}
+                                        {label}
+                                    </span>
+                                    {detail && <span className={`font-semibold shrink-0 ${className ?? ''}`}>{detail}</span>}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </ScrollArea>
+                <DialogFooter><DialogClose asChild><Button type="button" variant="outline">Close</Button></DialogClose></DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -0,0 +1,162 @@
+/**
+ * @fileOverview Component summarizing every space on the home page: this week's clocked time and AP,
+ * an AP leaderboard, waste hot spots, spaces left clocked in, stalled multi-step actions and a
+ * calendar heatmap of all activity. Each row links into its space.
+ */
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Clock, Flame, Hourglass, Trophy } from 'lucide-react';
+import { useSpaceContext } from '@/contexts/SpaceContext';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import { formatShortDate, formatTime } from '@/utils/dateUtils';
+import { ActivityHeatmap } from '@/components/activity/ActivityHeatmap';
+import type { PortfolioSummary } from '@/core/analytics/portfolio';
+import type { ActivityRecords } from '@/core/analytics/heatmap';
+
+const LIST_LIMIT = 5;
+
+const formatMinutes = (minutes: number): string => {
+    const hours = Math.floor(minutes / 60);
+    return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+interface PortfolioListCardProps {
+    title: string;
+    icon: React.ReactNode;
+    emptyText: string;
+    children: React.ReactNode[];
+}
+
+const PortfolioListCard: React.FC<PortfolioListCardProps> = ({ title, icon, emptyText, children }) => (
+    <Card>
+        <CardHeader className="p-4 pb-2">
+            <CardTitle className="text-base flex items-center gap-2">{icon} {title}</CardTitle>
+        </CardHeader>
+        <CardContent className="p-4 pt-0 space-y-1">
+            {children.length === 0 ? <p className="text-xs text-muted-foreground">{emptyText}</p> : children}
+        </CardContent>
+    </Card>
+);
+
+interface PortfolioRowProps {
+    label: string;
+    detail: string;
+    value?: string;
+    highlight?: boolean;
+    onClick: () => void;
+}
+
+const PortfolioRow: React.FC<PortfolioRowProps> = ({ label, detail, value, highlight = false, onClick }) => (
+    <button
+        type="button"
+        onClick={onClick}
+        className={cn("w-full flex items-center gap-2 text-left text-xs rounded-md px-2 py-1 hover:bg-muted", highlight && "text-destructive")}
+    >
+        <span className="flex-1 min-w-0">
+            <span className="font-semibold truncate block">{label}</span>
+            <span className="text-muted-foreground truncate block">{detail}</span>
+        </span>
+        {value && <span className="font-mono shrink-0">{value}</span>}
+    </button>
+);
+
+export const PortfolioDashboard: React.FC = () => {
+    const router = useRouter();
+    const { spaces, fetchPortfolioSummary, fetchWorkspaceActivity } = useSpaceContext();
+    const [summary, setSummary] = useState<PortfolioSummary | null>(null);
+    const [activity, setActivity] = useState<ActivityRecords | null>(null);
+    const spaceNames = useMemo(() => new Map(spaces.map(s => [s.id, s.name] as const)), [spaces]);
+
+    // Re-summarize whenever the space list is reloaded (create, delete, import, clock changes)
+    useEffect(() => {
+        let cancelled = false;
+        fetchPortfolioSummary().then(result => {
+            if (!cancelled && result) setSummary(result);
+        });
+        fetchWorkspaceActivity().then(result => {
+            if (!cancelled && result) setActivity(result);
+        });
+        return () => { cancelled = true; };
+    }, [spaces, fetchPortfolioSummary, fetchWorkspaceActivity]);
+
+    if (spaces.length === 0) return null;
+    if (!summary) return <Skeleton className="h-40 w-full mb-8" />;
+
+    const openSpace = (spaceId: string) => router.push(`/space/${spaceId}`);
+
+    return (
+        <section className="mb-8">
+            <div className="flex flex-col sm:flex-row sm:items-baseline justify-between gap-1 mb-4">
+                <h2 className="text-2xl font-bold text-foreground">Portfolio</h2>
+                <p className="text-sm text-muted-foreground">
+                    Since {formatShortDate(summary.weekStart)}: <span className="font-semibold text-foreground">{formatMinutes(summary.weekMinutes)}</span> clocked,
+                    {' '}<span className="font-semibold text-foreground">{summary.weekPoints} AP</span> earned
+                </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                <PortfolioListCard title="AP Leaderboard" icon={<Trophy className="h-4 w-4 text-primary" />} emptyText="No spaces yet.">
+                    {summary.leaderboard.slice(0, LIST_LIMIT).map((row, index) => (
+                        <PortfolioRow
+                            key={row.space.id}
+                            label={`${index + 1}. ${row.space.name}`}
+                            detail={`${formatMinutes(row.weekMinutes)} this week · ${row.totalPoints} AP total`}
+                            value={`${row.weekPoints} AP`}
+                            onClick={() => openSpace(row.space.id)}
+                        />
+                    ))}
+                </PortfolioListCard>
+
+                <PortfolioListCard title="Waste Hot Spots" icon={<Flame className="h-4 w-4 text-destructive" />} emptyText="No waste logged this week.">
+                    {summary.wasteHotSpots.slice(0, LIST_LIMIT).map(spot => (
+                        <PortfolioRow
+                            key={spot.space.id}
+                            label={spot.space.name}
+                            detail={`Mostly ${spot.topCategory} · ${spot.entryCount} entries`}
+                            value={`${spot.wastePoints} pts`}
+                            onClick={() => router.push(`/space/${spot.space.id}/waste`)}
+                        />
+                    ))}
+                </PortfolioListCard>
+
+                <PortfolioListCard title="Clocked In" icon={<Clock className="h-4 w-4 text-primary" />} emptyText="Not clocked in anywhere.">
+                    {summary.clockedIn.map(entry => (
+                        <PortfolioRow
+                            key={entry.space.id}
+                            label={entry.space.name}
+                            detail={`Since ${formatShortDate(entry.since)} ${formatTime(entry.since)}${entry.isLong ? ' · forgot to clock out?' : ''}`}
+                            value={formatMinutes(entry.minutes)}
+                            highlight={entry.isLong}
+                            onClick={() => openSpace(entry.space.id)}
+                        />
+                    ))}
+                </PortfolioListCard>
+
+                <PortfolioListCard title="Stalled Quests" icon={<Hourglass className="h-4 w-4 text-muted-foreground" />} emptyText="No multi-step actions stalled.">
+                    {summary.stalledQuests.slice(0, LIST_LIMIT).map(({ space, action, lastStepAt }) => (
+                        <PortfolioRow
+                            key={action.id}
+                            label={action.name}
+                            detail={`${space.name} · next step ${action.currentStepIndex + 1} of ${action.steps.length}`}
+                            value={formatShortDate(lastStepAt)}
+                            onClick={() => openSpace(space.id)}
+                        />
+                    ))}
+                </PortfolioListCard>
+            </div>
+            {activity && (
+                <Card className="mt-4">
+                    <CardHeader className="p-4 pb-2">
+                        <CardTitle className="text-base">Activity</CardTitle>
+                    </CardHeader>
+                    <CardContent className="p-4 pt-0">
+                        <ActivityHeatmap records={activity} spaceNames={spaceNames} />
+                    </CardContent>
+                </Card>
+            )}
+        </section>
+    );
+};
@@ -0,0 +1,147 @@
+/**
+ * @fileOverview Component for exporting the whole workspace to a JSON file and importing backups or space bundles.
+ */
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter, DialogClose } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Upload, Loader2 } from 'lucide-react';
+import { useSpaceContext } from '@/contexts/SpaceContext';
+import { toast } from '@/hooks/use-toast';
+import { downloadFile, readFileAsText, fileTimestamp } from '@/utils/fileUtils';
+import { SPACE_BUNDLE_FORMAT, type ImportMode, type ImportConflictStrategy } from '@/core/domain/WorkspaceBackup';
+
+export const WorkspaceBackupControls: React.FC = () => {
+    const { exportWorkspace, importWorkspace, importSpaceBundle, isLoading } = useSpaceContext();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const [isBusy, setIsBusy] = useState(false);
+    const [pendingImport, setPendingImport] = useState<{ fileName: string; raw: unknown } | null>(null);
+    const [mode, setMode] = useState<ImportMode>('merge');
+    const [onConflict, setOnConflict] = useState<ImportConflictStrategy>('skip');
+
+    const handleExport = async () => {
+        setIsBusy(true);
+        try {
+            const backup = await exportWorkspace();
+            if (backup) {
+                downloadFile(`okapi-backup_${fileTimestamp(backup.exportedAt)}.json`, JSON.stringify(backup, null, 2), 'application/json');
+                toast({ title: 'Backup Exported', description: `${backup.data.spaces.length} space(s) saved to file.` });
+            }
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Allow re-selecting the same file
+        if (!file) return;
+        let raw: unknown;
+        try {
+            raw = JSON.parse(await readFileAsText(file));
+        } catch (error) {
+            console.error("Failed to read backup file:", error);
+            toast({ title: 'Invalid File', description: 'The selected file is not valid JSON.', variant: 'destructive' });
+            return;
+        }
+
+        // Space bundles always import as a new space, so there are no options to ask about.
+        if ((raw as { format?: unknown } | null)?.format === SPACE_BUNDLE_FORMAT) {
+            setIsBusy(true);
+            try {
+                const newSpace = await importSpaceBundle(raw);
+                if (newSpace) {
+                    toast({ title: 'Space Imported', description: `"${newSpace.name}" added to your spaces.` });
+                }
+            } finally {
+                setIsBusy(false);
+            }
+            return;
+        }
+        setPendingImport({ fileName: file.name, raw });
+    };
+
+    const handleImportConfirm = async () => {
+        if (!pendingImport) return;
+        setIsBusy(true);
+        try {
+            const summary = await importWorkspace(pendingImport.raw, { mode, onConflict });
+            if (summary) {
+                const parts = [`${summary.spacesImported} imported`];
+                if (summary.spacesDuplicated > 0) parts.push(`${summary.spacesDuplicated} copied`);
+                if (summary.spacesSkipped > 0) parts.push(`${summary.spacesSkipped} skipped`);
+                toast({ title: 'Backup Imported', description: `Spaces: ${parts.join(', ')}.` });
+                setPendingImport(null);
+            }
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    return (
+        <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={isLoading || isBusy} title="Download a backup of all spaces">
+                <Download className="mr-1 h-4 w-4" /> Export
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isLoading || isBusy} title="Restore spaces from a backup or space bundle file">
+                <Upload className="mr-1 h-4 w-4" /> Import
+            </Button>
+            <input type="file" accept="application/json,.json" ref={fileInputRef} onChange={handleFileSelected} className="hidden" />
+
+            <Dialog open={pendingImport !== null} onOpenChange={(open) => !open && setPendingImport(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Import Backup</DialogTitle>
+                        <DialogDescription>{pendingImport?.fileName}</DialogDescription>
+                    </DialogHeader>
+                    <div className="grid gap-4 py-2">
+                        <RadioGroup value={mode} onValueChange={(value) => setMode(value as ImportMode)}>
+                            <div className="flex items-start gap-2">
+                                <RadioGroupItem value="merge" id="import-merge" className="mt-0.5" />
+                                <Label htmlFor="import-merge" className="font-normal">
+                                    <span className="font-semibold">Merge</span> – keep existing spaces and add those from the file.
+                                </Label>
+                            </div>
+                            <div className="flex items-start gap-2">
+                                <RadioGroupItem value="replace" id="import-replace" className="mt-0.5" />
+                                <Label htmlFor="import-replace" className="font-normal">
+                                    <span className="font-semibold">Replace</span> – delete all current spaces, then restore the file.
+                                </Label>
+                            </div>
+                        </RadioGroup>
+                        {mode === 'merge' && (
+                            <div>
+                                <Label>If a space already exists</Label>
+                                <Select value={onConflict} onValueChange={(value) => setOnConflict(value as ImportConflictStrategy)}>
+                                    <SelectTrigger className="mt-1">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="skip">Keep mine (skip it)</SelectItem>
+                                        <SelectItem value="overwrite">Overwrite with the file's version</SelectItem>
+                                        <SelectItem value="duplicate">Import as a copy</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        )}
+                        {mode === 'replace' && (
+                            <p className="text-sm text-destructive">This permanently removes all spaces currently on this device.</p>
+                        )}
+                    </div>
+                    <DialogFooter>
+                        <DialogClose asChild><Button type="button" variant="secondary" disabled={isBusy}>Cancel</Button></DialogClose>
+                        <Button type="button" onClick={handleImportConfirm} disabled={isBusy} variant={mode === 'replace' ? 'destructive' : 'default'}>
+                            {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Import
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+};
@@ -0,0 +1,100 @@
+/**
+ * @fileOverview App-wide header strip showing the user's Focus Level, progress to the next
+ * level and what each level unlocks. Also holds the Insight wallet, a link to the achievements
+ * gallery, and the theme toggle once themes are unlocked.
+ */
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Lock, Moon, Sparkles, Sun, Trophy, Unlock } from 'lucide-react';
+import { format } from 'date-fns';
+import { useSpaceContext } from '@/contexts/SpaceContext';
+import { FEATURE_LABELS, FEATURE_UNLOCK_LEVELS, getActionSlotLimit, isFeatureUnlocked } from '@/core/analytics/progression';
+import type { UnlockableFeature } from '@/core/domain/Progression';
+import { InsightShop } from './InsightShop';
+import { applyTheme, getStoredTheme, storeTheme, type AppTheme } from '@/utils/themeUtils';
+
+const FEATURES = Object.keys(FEATURE_UNLOCK_LEVELS) as UnlockableFeature[];
+
+export const AppHeader: React.FC = () => {
+    const router = useRouter();
+    const { focusProgress, levelUps, achievements } = useSpaceContext();
+    const { level, totalXp, xpIntoLevel, xpForNextLevel } = focusProgress;
+    const themesUnlocked = isFeatureUnlocked('themes', level);
+    const [theme, setTheme] = useState<AppTheme>('light');
+
+    // Restore the saved theme, but only while the feature is unlocked
+    useEffect(() => {
+        const next = themesUnlocked ? getStoredTheme() : 'light';
+        setTheme(next);
+        applyTheme(next);
+    }, [themesUnlocked]);
+
+    const toggleTheme = () => {
+        const next: AppTheme = theme === 'dark' ? 'light' : 'dark';
+        setTheme(next);
+        applyTheme(next);
+        storeTheme(next);
+    };
+
+    const lastLevelUp = levelUps.length > 0 ? levelUps[levelUps.length - 1] : undefined;
+
+    return (
+        <header className="border-b bg-card">
+            <div className="container mx-auto flex items-center justify-end gap-3 px-4 py-1.5 max-w-4xl">
+                <Popover>
+                    <PopoverTrigger asChild>
+                        <button className="flex items-center gap-2 text-sm rounded-md px-2 py-1 hover:bg-muted" aria-label="Focus Level details">
+                            <Sparkles className="h-4 w-4 text-primary" />
+                            <span className="font-semibold">Focus Lv {level}</span>
+                            <Progress value={xpForNextLevel > 0 ? (xpIntoLevel / xpForNextLevel) * 100 : 0} className="h-2 w-24" />
+                            <span className="text-xs text-muted-foreground whitespace-nowrap">{xpIntoLevel}/{xpForNextLevel} XP</span>
+                        </button>
+                    </PopoverTrigger>
+                    <PopoverContent align="end" className="w-72 space-y-3">
+                        <div>
+                            <p className="font-semibold">Focus Level {level}</p>
+                            <p className="text-xs text-muted-foreground">
+                                {totalXp} AP earned across all spaces. {xpForNextLevel - xpIntoLevel} XP to level {level + 1}.
+                            </p>
+                            {lastLevelUp && (
+                                <p className="text-xs text-muted-foreground">Reached on {format(lastLevelUp.reachedAt, 'PP')}.</p>
+                            )}
+                        </div>
+                        <ul className="space-y-1 text-sm">
+                            <li className="flex items-center gap-2">
+                                <Unlock className="h-3.5 w-3.5 text-primary" />
+                                <span>{getActionSlotLimit(level)} action slots per space</span>
+                                <span className="ml-auto text-xs text-muted-foreground">+2 / level</span>
+                            </li>
+                            {FEATURES.map(feature => {
+                                const unlocked = isFeatureUnlocked(feature, level);
+                                return (
+                                    <li key={feature} className={`flex items-center gap-2 ${unlocked ? '' : 'text-muted-foreground'}`}>
+                                        {unlocked ? <Unlock className="h-3.5 w-3.5 text-primary" /> : <Lock className="h-3.5 w-3.5" />}
+                                        <span>{FEATURE_LABELS[feature]}</span>
+                                        <span className="ml-auto text-xs">Lv {FEATURE_UNLOCK_LEVELS[feature]}</span>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </PopoverContent>
+                </Popover>
+                <InsightShop />
+                <Button variant="ghost" size="sm" className="h-8 gap-1 px-2" onClick={() => router.push('/achievements')} aria-label="Achievements">
+                    <Trophy className="h-4 w-4" />
+                    <span className="text-xs">{achievements.length}</span>
+                </Button>
+                {themesUnlocked && (
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={toggleTheme} aria-label="Toggle theme">
+                        {theme === 'dark' ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
+                    </Button>
+                )}
+            </div>
+        </header>
+    );
+};
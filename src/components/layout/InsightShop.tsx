@@ -0,0 +1,108 @@
+/**
+ * @fileOverview Insight wallet button and shop dialog. Insight is earned passively while a space is
+ * clocked in and spent on Okapi tips and accent colours. Also applies the chosen accent on load.
+ */
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Lightbulb, Check } from 'lucide-react';
+import { useSpaceContext } from '@/contexts/SpaceContext';
+import { INSIGHT_SHOP_ITEMS } from '@/core/analytics/insight';
+import type { InsightShopItem } from '@/core/domain/Insight';
+import { applyAccent, getStoredAccent, storeAccent } from '@/utils/themeUtils';
+
+const TIP_ITEMS = INSIGHT_SHOP_ITEMS.filter(item => item.kind === 'tip');
+const ACCENT_ITEMS = INSIGHT_SHOP_ITEMS.filter(item => item.kind === 'accent');
+
+export const InsightShop: React.FC = () => {
+    const { insightWallet, insightRatePerHour, purchaseInsightItem } = useSpaceContext();
+    const [accent, setAccent] = useState<string | null>(null);
+    const [buyingId, setBuyingId] = useState<string | null>(null);
+
+    const ownedIds = useMemo(() => new Set(insightWallet.purchases.map(p => p.itemId)), [insightWallet.purchases]);
+    const balance = Math.floor(insightWallet.balance);
+
+    // Restore the saved accent, but only if it was actually bought (e.g. not after a replace-import)
+    useEffect(() => {
+        const stored = getStoredAccent();
+        const owned = ACCENT_ITEMS.some(item => item.accent === stored && ownedIds.has(item.id));
+        const next = owned ? stored : null;
+        setAccent(next);
+        applyAccent(next);
+    }, [ownedIds]);
+
+    const chooseAccent = (next: string | null) => {
+        setAccent(next);
+        applyAccent(next);
+        storeAccent(next);
+    };
+
+    const handleBuy = async (item: InsightShopItem) => {
+        setBuyingId(item.id);
+        await purchaseInsightItem(item.id);
+        setBuyingId(null);
+    };
+
+    const renderBuyButton = (item: InsightShopItem) => (
+        <Button size="sm" variant="outline" className="h-7 text-xs" disabled={balance < item.cost || buyingId !== null} onClick={() => handleBuy(item)}>
+            {buyingId === item.id ? 'Buying...' : `${item.cost} Insight`}
+        </Button>
+    );
+
+    return (
+        <Dialog>
+            <DialogTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-8 gap-1 px-2" aria-label="Insight shop">
+                    <Lightbulb className="h-4 w-4 text-amber-500" />
+                    <span className="text-xs">{balance}</span>
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>Insight: {balance}</DialogTitle>
+                    <DialogDescription>
+                        Earned passively at {insightRatePerHour} per hour while a space is clocked in, even with the app closed.
+                        {' '}{Math.floor(insightWallet.totalEarned)} earned, {insightWallet.totalSpent} spent.
+                    </DialogDescription>
+                </DialogHeader>
+                <ScrollArea className="max-h-[60vh] pr-3">
+                    <h3 className="text-sm font-semibold mb-2">Okapi Tips</h3>
+                    <ul className="space-y-2 mb-4">
+                        {TIP_ITEMS.map(item => (
+                            <li key={item.id} className="rounded-md border p-2">
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="text-sm font-medium">{item.name}</span>
+                                    {ownedIds.has(item.id) ? <Badge variant="secondary">Unlocked</Badge> : renderBuyButton(item)}
+                                </div>
+                                {ownedIds.has(item.id) && <p className="text-xs text-muted-foreground mt-1">{item.content}</p>}
+                            </li>
+                        ))}
+                    </ul>
+                    <h3 className="text-sm font-semibold mb-2">Accent Colours</h3>
+                    <ul className="space-y-2">
+                        <li className="flex items-center justify-between rounded-md border p-2">
+                            <span className="text-sm font-medium">Teal (default)</span>
+                            <Button size="sm" variant={accent === null ? 'default' : 'outline'} className="h-7 text-xs" onClick={() => chooseAccent(null)}>
+                                {accent === null ? <Check className="h-3 w-3" /> : 'Use'}
+                            </Button>
+                        </li>
+                        {ACCENT_ITEMS.map(item => (
+                            <li key={item.id} className="flex items-center justify-between rounded-md border p-2">
+                                <span className="text-sm font-medium">{item.name}</span>
+                                {ownedIds.has(item.id) ? (
+                                    <Button size="sm" variant={accent === item.accent ? 'default' : 'outline'} className="h-7 text-xs" onClick={() => chooseAccent(item.accent ?? null)}>
+                                        {accent === item.accent ? <Check className="h-3 w-3" /> : 'Use'}
+                                    </Button>
+                                ) : renderBuyButton(item)}
+                            </li>
+                        ))}
+                    </ul>
+                </ScrollArea>
+            </DialogContent>
+        </Dialog>
+    );
+};
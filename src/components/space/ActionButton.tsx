@@ -0,0 +1,130 @@
+/**
+ * @fileOverview Gesture-aware button for logging a simple action. Tap logs one; press and hold counts up
+ * (with vibration where supported) and logs the count on release; the quantity menu, opened from the
+ * "more" button or the context menu (right-click, Shift+F10), logs an exact quantity.
+ * Keyboard: arrow keys (or +/-) set a quantity, Enter or Space logs it, Escape resets it.
+ */
+'use client';
+
+import React, { useState } from 'react';
+import { MoreHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { MAX_HOLD_COUNT, useHoldToCount } from '@/hooks/useHoldToCount';
+import type { Action } from '@/core/domain/Action';
+
+const QUICK_QUANTITIES = [2, 5, 10];
+const MAX_QUANTITY = 999;
+
+interface ActionButtonProps {
+    action: Action;
+    disabled: boolean;
+    onLog: (action: Action, quantity: number) => void;
+}
+
+export const ActionButton: React.FC<ActionButtonProps> = ({ action, disabled, onLog }) => {
+    const [pendingQuantity, setPendingQuantity] = useState(1); // Set from the keyboard
+    const [isMenuOpen, setIsMenuOpen] = useState(false);
+    const [exactQuantity, setExactQuantity] = useState('');
+    const { count, isHolding, commit, pointerHandlers } = useHoldToCount({ disabled, onCommit: (quantity) => onLog(action, quantity) });
+
+    const logQuantity = (quantity: number) => {
+        if (disabled) return;
+        if (commit(quantity)) setPendingQuantity(1);
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLButtonElement>) => {
+        switch (event.key) {
+            case 'Enter':
+            case ' ':
+                event.preventDefault();
+                if (!event.repeat) logQuantity(pendingQuantity);
+                break;
+            case 'ArrowUp':
+            case 'ArrowRight':
+            case '+':
+            case '=':
+                event.preventDefault();
+                setPendingQuantity(q => Math.min(MAX_HOLD_COUNT, q + 1));
+                break;
+            case 'ArrowDown':
+            case 'ArrowLeft':
+            case '-':
+                event.preventDefault();
+                setPendingQuantity(q => Math.max(1, q - 1));
+                break;
+            case 'Escape':
+                setPendingQuantity(1);
+                break;
+        }
+    };
+
+    const handleContextMenu = (event: React.MouseEvent) => {
+        event.preventDefault(); // A touch long-press also fires this; the hold counter owns that gesture
+        if (!isHolding && !disabled) setIsMenuOpen(true);
+    };
+
+    const submitExactQuantity = () => {
+        const quantity = Number(exactQuantity);
+        if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_QUANTITY) return;
+        logQuantity(quantity);
+        setExactQuantity('');
+        setIsMenuOpen(false);
+    };
+
+    const shownQuantity = isHolding ? count : pendingQuantity;
+
+    return (
+        <div className="flex space-x-1">
+            <Button
+                variant="secondary"
+                size="sm"
+                disabled={disabled}
+                onKeyDown={handleKeyDown}
+                onContextMenu={handleContextMenu}
+                onBlur={() => setPendingQuantity(1)}
+                {...pointerHandlers}
+                aria-label={`Log ${action.name}${pendingQuantity > 1 ? ` ×${pendingQuantity}` : ''}. Hold to count up; arrow keys change the quantity.`}
+                className={cn("text-xs flex-1 select-none touch-manipulation transition-transform", isHolding && "ring-2 ring-primary scale-[0.98]")}
+            >
+                {action.name}
+                {shownQuantity > 1 && <span className="ml-1 rounded bg-primary px-1 font-mono text-primary-foreground">×{shownQuantity}</span>}
+                <span className="ml-auto pl-1">(+{action.points * shownQuantity})</span>
+            </Button>
+            <Popover open={isMenuOpen} onOpenChange={setIsMenuOpen}>
+                <PopoverTrigger asChild>
+                    <Button variant="secondary" size="sm" disabled={disabled} className="text-xs w-8 px-0" aria-label={`Log a quantity of ${action.name}`}>
+                        <MoreHorizontal className="h-4 w-4" />
+                    </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-56 p-3 space-y-2" align="end">
+                    <p className="text-xs font-semibold">Log {action.name}</p>
+                    <div className="flex gap-1">
+                        {QUICK_QUANTITIES.map(quantity => (
+                            <Button key={quantity} size="sm" variant="outline" className="flex-1 text-xs" onClick={() => { logQuantity(quantity); setIsMenuOpen(false); }}>
+                                ×{quantity}
+                            </Button>
+                        ))}
+                    </div>
+                    <form className="flex gap-1" onSubmit={(e) => { e.preventDefault(); submitExactQuantity(); }}>
+                        <Input
+                            type="number"
+                            min="1"
+                            max={MAX_QUANTITY}
+                            step="1"
+                            aria-label="Exact quantity"
+                            placeholder="Quantity"
+                            className="h-8 text-xs"
+                            value={exactQuantity}
+                            onChange={(e) => setExactQuantity(e.target.value)}
+                            autoFocus
+                        />
+                        <Button type="submit" size="sm" className="text-xs" disabled={!exactQuantity}>Log</Button>
+                    </form>
+                </PopoverContent>
+            </Popover>
+        </div>
+    );
+};
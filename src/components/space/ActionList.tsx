@@ -4,20 +4,27 @@
 'use client';
 
 import React from 'react';
+import { Repeat, RotateCcw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
+import { ActionButton } from '@/components/space/ActionButton';
 import type { Action } from '@/core/domain/Action';
 import type { MultiStepAction } from '@/core/domain/MultiStepAction';
+import { countCompletedRuns, isQuestDone } from '@/core/analytics/quests';
 
 interface ActionListProps {
-    actions: Action[];
+    actions: Action[]; // Active (unarchived) actions, in list order
     multiStepActions: MultiStepAction[];
     isClockedIn: boolean;
     isLoading: boolean;
-    onActionClick: (action: Action, multiplier: number) => void;
+    onActionClick: (action: Action, quantity: number) => void;
     onMultiStepActionClick: (action: MultiStepAction) => void;
+    onResetMultiStepAction: (action: MultiStepAction) => void; // Offered once a quest is done
     onCreateSimpleAction: () => void;
     onCreateMultiStepAction: () => void;
+    onManageActionsClick: () => void;
+    isReadOnly?: boolean; // Completed/Archived spaces: no logging or new actions
+    actionSlotLimit?: number; // Combined cap on simple + multi-step actions from the Focus Level
 }
 
 export const ActionList: React.FC<ActionListProps> = ({
@@ -27,9 +34,15 @@ export const ActionList: React.FC<ActionListProps> = ({
     isLoading,
     onActionClick,
     onMultiStepActionClick,
+    onResetMultiStepAction,
     onCreateSimpleAction,
     onCreateMultiStepAction,
+    onManageActionsClick,
+    isReadOnly = false,
+    actionSlotLimit,
 }) => {
+    const usedSlots = actions.length + multiStepActions.length;
+    const slotsFull = actionSlotLimit !== undefined && usedSlots >= actionSlotLimit;
 
     if (isLoading && actions.length === 0 && multiStepActions.length === 0) {
          return <Skeleton className="h-24 w-full mt-2" />;
@@ -37,34 +50,53 @@ export const ActionList: React.FC<ActionListProps> = ({
 
     return (
         <div className="mt-2 w-full max-w-4xl">
-            <h2 className="text-base font-bold mb-1">Actions</h2>
+            <div className="flex items-baseline justify-between mb-1">
+                <h2 className="text-base font-bold">Actions</h2>
+                <div className="flex items-baseline gap-2">
+                    {actionSlotLimit !== undefined && (
+                        <span className={`text-xs ${slotsFull ? 'text-destructive' : 'text-muted-foreground'}`}>
+                            {usedSlots}/{actionSlotLimit} slots{slotsFull ? ' (level up for more)' : ''}
+                        </span>
+                    )}
+                    {!isReadOnly && <Button size="sm" variant="outline" onClick={onManageActionsClick} disabled={isLoading}>Manage</Button>}
+                </div>
+            </div>
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-1">
                  {/* Regular Actions */}
                  {actions.map((action) => (
-                     <div key={action.id} className="flex space-x-1">
-                        <Button variant="secondary" size="sm" onClick={() => onActionClick(action, 1)} disabled={!isClockedIn || isLoading} className="text-xs flex-1"> {action.name} <span className="ml-auto pl-1">(+{action.points})</span> </Button>
-                        <Button variant="secondary" size="sm" onClick={() => onActionClick(action, 2)} disabled={!isClockedIn || isLoading} className="text-xs w-8">x2</Button>
-                        <Button variant="secondary" size="sm" onClick={() => onActionClick(action, 5)} disabled={!isClockedIn || isLoading} className="text-xs w-8">x5</Button>
-                        <Button variant="secondary" size="sm" onClick={() => onActionClick(action, 10)} disabled={!isClockedIn || isLoading} className="text-xs w-8">x10</Button>
-                     </div>
+                     <ActionButton key={action.id} action={action} onLog={onActionClick} disabled={!isClockedIn || isLoading || isReadOnly} />
                 ))}
                  {/* Multi-Step Actions */}
-                 {multiStepActions.map((action) => (
-                     <div key={action.id}>
+                 {multiStepActions.map((action) => {
+                     const done = isQuestDone(action);
+                     const runs = countCompletedRuns(action);
+                     return (
+                     <div key={action.id} className="flex space-x-1">
                          <Button
                              variant="outline"
                              size="sm"
                              onClick={() => onMultiStepActionClick(action)}
-                             disabled={!isClockedIn || action.currentStepIndex >= action.steps.length || isLoading}
-                             className={`text-xs w-full justify-start ${action.currentStepIndex >= action.steps.length ? 'line-through' : ''}`}
+                             disabled={!isClockedIn || done || isLoading || isReadOnly}
+                             className={`text-xs flex-1 justify-start ${done ? 'line-through' : ''}`}
                          >
                             {action.name}
+                            {action.repeatable && (
+                                <span className="ml-1 inline-flex items-center text-muted-foreground" title={`Repeatable; completed ${runs} time${runs === 1 ? '' : 's'}`}>
+                                    <Repeat className="h-3 w-3 mr-0.5" />{runs}
+                                </span>
+                            )}
                             <span className="ml-auto text-muted-foreground">
-                                {action.currentStepIndex >= action.steps.length ? `(Done)` : `(${action.currentStepIndex + 1}/${action.steps.length})`}
+                                {done ? `(Done)` : `(${action.currentStepIndex + 1}/${action.steps.length})`}
                             </span>
                          </Button>
+                         {done && !isReadOnly && (
+                             <Button variant="outline" size="sm" className="text-xs w-8 px-0" onClick={() => onResetMultiStepAction(action)} disabled={isLoading} title="Reset to step 1" aria-label={`Reset ${action.name}`}>
+                                 <RotateCcw className="h-3 w-3" />
+                             </Button>
+                         )}
                      </div>
-                 ))}
+                     );
+                 })}
                  {/* Placeholder for loading actions */}
                  {isLoading && actions.length === 0 && multiStepActions.length === 0 && (
                      <>
@@ -78,10 +110,12 @@ export const ActionList: React.FC<ActionListProps> = ({
                        <p className="text-xs text-muted-foreground col-span-full text-center py-2">No actions created yet.</p>
                    )}
             </div>
-             <div className="flex gap-1 mt-1"> {/* Create Action Buttons */}
-                <Button className="flex-1" size="sm" onClick={onCreateSimpleAction} disabled={isLoading}> + Simple </Button>
-                <Button className="flex-1" size="sm" onClick={onCreateMultiStepAction} disabled={isLoading}> + Multi-Step </Button>
-            </div>
+             {!isReadOnly && (
+                <div className="flex gap-1 mt-1"> {/* Create Action Buttons */}
+                    <Button className="flex-1" size="sm" onClick={onCreateSimpleAction} disabled={isLoading || slotsFull}> + Simple </Button>
+                    <Button className="flex-1" size="sm" onClick={onCreateMultiStepAction} disabled={isLoading || slotsFull}> + Multi-Step </Button>
+                </div>
+             )}
        </div>
     );
 };
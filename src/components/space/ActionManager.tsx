@@ -0,0 +1,278 @@
+/**
+ * @fileOverview Dialog for managing a space's simple and multi-step actions: edit names, descriptions
+ * and points, drag to reorder, archive or restore, and delete with a confirmation. Multi-step actions
+ * also get a completion bonus, a repeatable switch, their run history and a reset.
+ */
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter, DialogClose } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Archive, ArchiveRestore, GripVertical, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useSpaceContext } from '@/contexts/SpaceContext';
+import { getLoggedAction } from '@/core/analytics/actionLog';
+import { isThroughputEntry } from '@/core/analytics/throughput';
+import { formatCycleTime, summarizeQuestRuns, type QuestRunSummary } from '@/core/analytics/quests';
+
+type ActionKind = 'simple' | 'multiStep';
+
+// Common shape of both action kinds as edited here; points is pointsPerStep for multi-step actions
+interface ManagedAction {
+    id: string;
+    name: string;
+    description?: string;
+    points: number;
+    archived: boolean;
+    // Multi-step actions only
+    completionBonus?: number;
+    repeatable?: boolean;
+    runs?: QuestRunSummary;
+    inProgress?: boolean; // Has completed steps that a reset would clear
+}
+
+type Draft = { name: string; description: string; points: string; bonus: string; repeatable: boolean };
+
+interface PendingDelete {
+    kind: ActionKind;
+    action: ManagedAction;
+}
+
+interface ActionManagerProps {
+    spaceId: string;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+export const ActionManager: React.FC<ActionManagerProps> = ({ spaceId, open, onOpenChange }) => {
+    const {
+        actions, multiStepActions, logEntries,
+        updateAction, setActionArchived, deleteAction, reorderActions,
+        updateMultiStepAction, setMultiStepActionArchived, resetMultiStepAction, deleteMultiStepAction, reorderMultiStepActions,
+    } = useSpaceContext();
+    const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+    const [draggedId, setDraggedId] = useState<string | null>(null);
+    const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Drafts only hold rows being edited; start every opening from the stored values
+    useEffect(() => {
+        if (open) setDrafts({});
+    }, [open]);
+
+    const managed: Record<ActionKind, ManagedAction[]> = useMemo(() => ({
+        simple: actions.map(a => ({ id: a.id, name: a.name, description: a.description, points: a.points, archived: !!a.archived })),
+        multiStep: multiStepActions.map(a => ({
+            id: a.id, name: a.name, description: a.description, points: a.pointsPerStep, archived: !!a.archived,
+            completionBonus: a.completionBonus ?? 0, repeatable: !!a.repeatable, runs: summarizeQuestRuns(a), inProgress: a.currentStepIndex > 0,
+        })),
+    }), [actions, multiStepActions]);
+
+    // How many log entries each action has, to explain what deleting it leaves behind
+    const logCounts = useMemo(() => {
+        const counts = new Map<string, number>();
+        logEntries.filter(isThroughputEntry).forEach(e => {
+            const { key } = getLoggedAction(e);
+            counts.set(key, (counts.get(key) ?? 0) + 1);
+        });
+        return counts;
+    }, [logEntries]);
+
+    const run = async (operation: () => Promise<unknown>) => {
+        setIsSaving(true);
+        try {
+            await operation();
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const draftFor = (action: ManagedAction): Draft => drafts[action.id] ?? {
+        name: action.name, description: action.description ?? '', points: String(action.points), bonus: String(action.completionBonus ?? 0), repeatable: !!action.repeatable,
+    };
+    const isDirty = (action: ManagedAction) => {
+        const draft = drafts[action.id];
+        return !!draft && (draft.name.trim() !== action.name || draft.description.trim() !== (action.description ?? '') || Number(draft.points) !== action.points
+            || Number(draft.bonus) !== (action.completionBonus ?? 0) || draft.repeatable !== !!action.repeatable);
+    };
+    const isDraftValid = (draft?: Draft) => !!draft && draft.name.trim() !== '' && Number(draft.points) > 0 && Number(draft.bonus) >= 0;
+    const updateDraft = (action: ManagedAction, patch: Partial<Draft>) =>
+        setDrafts(prev => ({ ...prev, [action.id]: { ...draftFor(action), ...patch } }));
+
+    const handleSave = (kind: ActionKind, action: ManagedAction) => run(async () => {
+        const draft = drafts[action.id];
+        if (!isDraftValid(draft)) return;
+        const details = { name: draft.name, description: draft.description };
+        let saved: unknown;
+        if (kind === 'simple') {
+            const original = actions.find(a => a.id === action.id);
+            saved = original && await updateAction({ ...original, ...details, points: Number(draft.points) });
+        } else {
+            const original = multiStepActions.find(a => a.id === action.id);
+            saved = original && await updateMultiStepAction({ ...original, ...details, pointsPerStep: Number(draft.points), completionBonus: Number(draft.bonus), repeatable: draft.repeatable });
+        }
+        if (saved) {
+            setDrafts(({ [action.id]: _saved, ...rest }) => rest);
+        }
+    });
+
+    const handleSetArchived = (kind: ActionKind, id: string, archived: boolean) =>
+        run(() => (kind === 'simple' ? setActionArchived(id, archived) : setMultiStepActionArchived(id, archived)));
+
+    // Moves the dragged action to the drop target's position among the active actions
+    const handleDrop = (kind: ActionKind, targetId: string) => {
+        const ids = managed[kind].filter(a => !a.archived).map(a => a.id);
+        if (!draggedId || draggedId === targetId || !ids.includes(draggedId)) return;
+        const reordered = ids.filter(id => id !== draggedId);
+        reordered.splice(ids.indexOf(targetId), 0, draggedId);
+        setDraggedId(null);
+        run(() => (kind === 'simple' ? reorderActions(spaceId, reordered) : reorderMultiStepActions(spaceId, reordered)));
+    };
+
+    const handleConfirmDelete = () => run(async () => {
+        if (!pendingDelete) return;
+        const { kind, action } = pendingDelete;
+        await (kind === 'simple' ? deleteAction(action.id) : deleteMultiStepAction(action.id));
+        setPendingDelete(null);
+    });
+
+    const renderList = (kind: ActionKind) => {
+        const active = managed[kind].filter(a => !a.archived);
+        const archived = managed[kind].filter(a => a.archived);
+        return (
+            <ScrollArea className="max-h-80 pr-2">
+                <div className="space-y-2 p-1">
+                    {active.map(action => {
+                        const draft = draftFor(action);
+                        return (
+                            <div
+                                key={action.id}
+                                draggable={!isSaving}
+                                onDragStart={() => setDraggedId(action.id)}
+                                onDragEnd={() => setDraggedId(null)}
+                                onDragOver={(e) => e.preventDefault()}
+                                onDrop={() => handleDrop(kind, action.id)}
+                                className={cn("flex items-start gap-1 rounded-md border p-1", draggedId === action.id && "opacity-50")}
+                            >
+                                <GripVertical className="h-4 w-4 mt-2 shrink-0 cursor-grab text-muted-foreground" aria-label="Drag to reorder" />
+                                <div className="flex-1 space-y-1">
+                                    <div className="flex gap-1">
+                                        <Input aria-label="Action name" className="h-8 text-xs flex-1" value={draft.name} onChange={(e) => updateDraft(action, { name: e.target.value })} />
+                                        <Input
+                                            aria-label={kind === 'simple' ? 'Points' : 'Points per step'}
+                                            type="number"
+                                            min="1"
+                                            className="h-8 text-xs w-16"
+                                            value={draft.points}
+                                            onChange={(e) => updateDraft(action, { points: e.target.value })}
+                                        />
+                                    </div>
+                                    <Input aria-label="Description" className="h-8 text-xs" placeholder="Description (optional)" value={draft.description} onChange={(e) => updateDraft(action, { description: e.target.value })} />
+                                    {kind === 'multiStep' && (
+                                        <div className="flex flex-wrap items-center gap-2 text-xs">
+                                            <Input aria-label="Completion bonus" title="Completion bonus" type="number" min="0" className="h-8 text-xs w-16" value={draft.bonus} onChange={(e) => updateDraft(action, { bonus: e.target.value })} />
+                                            <span className="text-muted-foreground">bonus</span>
+                                            <Switch id={`repeatable-${action.id}`} checked={draft.repeatable} onCheckedChange={(checked) => updateDraft(action, { repeatable: checked })} />
+                                            <label htmlFor={`repeatable-${action.id}`}>Repeatable</label>
+                                            {action.runs && action.runs.count > 0 && (
+                                                <span className="text-muted-foreground">
+                                                    {action.runs.count} run{action.runs.count === 1 ? '' : 's'}
+                                                    {action.runs.averageCycleTimeMinutes !== undefined && ` · avg ${formatCycleTime(action.runs.averageCycleTimeMinutes)}`}
+                                                    {action.runs.lastCycleTimeMinutes !== undefined && ` · last ${formatCycleTime(action.runs.lastCycleTimeMinutes)}`}
+                                                </span>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                                <Button size="icon" variant="ghost" className="h-8 w-8" title="Save" onClick={() => handleSave(kind, action)} disabled={isSaving || !isDirty(action) || !isDraftValid(drafts[action.id])}>
+                                    <Save className="h-4 w-4" />
+                                </Button>
+                                {kind === 'multiStep' && (
+                                    <Button size="icon" variant="ghost" className="h-8 w-8" title="Reset to step 1 (an unfinished run is abandoned)" onClick={() => run(() => resetMultiStepAction(action.id))} disabled={isSaving || !action.inProgress}>
+                                        <RotateCcw className="h-4 w-4" />
+                                    </Button>
+                                )}
+                                <Button size="icon" variant="ghost" className="h-8 w-8" title="Archive" onClick={() => handleSetArchived(kind, action.id, true)} disabled={isSaving}>
+                                    <Archive className="h-4 w-4" />
+                                </Button>
+                                <Button size="icon" variant="ghost" className="h-8 w-8 text-destructive" title="Delete" onClick={() => setPendingDelete({ kind, action })} disabled={isSaving}>
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        );
+                    })}
+                    {active.length === 0 && <p className="text-xs text-muted-foreground text-center p-2">No active actions.</p>}
+
+                    {archived.length > 0 && (
+                        <div className="pt-2">
+                            <p className="text-xs font-semibold text-muted-foreground mb-1">Archived</p>
+                            {archived.map(action => (
+                                <div key={action.id} className="flex items-center justify-between text-xs text-muted-foreground py-1">
+                                    <span>{action.name} (+{action.points})</span>
+                                    <div className="flex gap-1">
+                                        <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => handleSetArchived(kind, action.id, false)} disabled={isSaving}>
+                                            <ArchiveRestore className="h-3 w-3 mr-1" /> Restore
+                                        </Button>
+                                        <Button size="icon" variant="ghost" className="h-7 w-7 text-destructive" title="Delete" onClick={() => setPendingDelete({ kind, action })} disabled={isSaving}>
+                                            <Trash2 className="h-3 w-3" />
+                                        </Button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </ScrollArea>
+        );
+    };
+
+    const pendingLogCount = pendingDelete ? logCounts.get(pendingDelete.action.id) ?? 0 : 0;
+
+    return (
+        <>
+            <Dialog open={open} onOpenChange={onOpenChange}>
+                <DialogContent className="max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle>Manage Actions</DialogTitle>
+                        <DialogDescription>Edit, drag to reorder, archive or delete. Changes apply to new log entries; logged history keeps its original names and points.</DialogDescription>
+                    </DialogHeader>
+                    <Tabs defaultValue="simple">
+                        <TabsList className="w-full">
+                            <TabsTrigger value="simple" className="flex-1">Simple</TabsTrigger>
+                            <TabsTrigger value="multiStep" className="flex-1">Multi-Step</TabsTrigger>
+                        </TabsList>
+                        <TabsContent value="simple">{renderList('simple')}</TabsContent>
+                        <TabsContent value="multiStep">{renderList('multiStep')}</TabsContent>
+                    </Tabs>
+                    <DialogFooter>
+                        <DialogClose asChild><Button type="button" variant="secondary" disabled={isSaving}>Close</Button></DialogClose>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            <AlertDialog open={!!pendingDelete} onOpenChange={(isOpen) => { if (!isOpen) setPendingDelete(null); }}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Delete &quot;{pendingDelete?.action.name}&quot;?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            {pendingLogCount > 0
+                                ? `Its ${pendingLogCount} log ${pendingLogCount === 1 ? 'entry stays' : 'entries stay'} in the history with ${pendingLogCount === 1 ? 'its' : 'their'} points, under the name logged at the time.`
+                                : 'It has no log entries.'}
+                            {pendingDelete?.kind === 'simple' ? ' It can no longer be logged, and goals counting it stop progressing.' : ' Its remaining steps can no longer be logged, and waste linked to it loses the link.'}
+                            {' '}Archive it instead to hide it but keep it restorable. This cannot be undone.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel disabled={isSaving}>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={handleConfirmDelete} disabled={isSaving}>{isSaving ? 'Deleting...' : 'Delete'}</AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </>
+    );
+};
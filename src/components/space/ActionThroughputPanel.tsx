@@ -0,0 +1,120 @@
+/**
+ * @fileOverview Component charting a space's action throughput: AP and action counts over time,
+ * per action, and AP/hour per clock-in session. Locked until the Chart views feature is unlocked.
+ */
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from 'recharts';
+import { Lock } from 'lucide-react';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { buildActionBreakdown, buildSessionThroughput, buildThroughputSeries, type ThroughputPeriod } from '@/core/analytics/throughput';
+import type { LogEntry } from '@/core/domain/LogEntry';
+
+type ThroughputMetric = 'points' | 'count';
+
+interface ActionThroughputPanelProps {
+    logEntries: LogEntry[];
+    actionNames: Map<string, string>; // Current action and quest names by ID, so renamed actions show their new name
+    isUnlocked: boolean; // Chart views reached via Focus Level
+    unlockLevel: number;
+}
+
+const METRIC_LABELS: Record<ThroughputMetric, string> = { points: 'AP', count: 'Actions' };
+
+export const ActionThroughputPanel: React.FC<ActionThroughputPanelProps> = ({ logEntries, actionNames, isUnlocked, unlockLevel }) => {
+    const [period, setPeriod] = useState<ThroughputPeriod>('day');
+    const [metric, setMetric] = useState<ThroughputMetric>('points');
+
+    const series = useMemo(() => buildThroughputSeries(logEntries, period), [logEntries, period]);
+    const breakdown = useMemo(() => buildActionBreakdown(logEntries, actionNames), [logEntries, actionNames]);
+    const sessions = useMemo(() => buildSessionThroughput(logEntries), [logEntries]);
+
+    const cumulativeKey = metric === 'points' ? 'cumulativePoints' : 'cumulativeCount';
+    const seriesConfig: ChartConfig = {
+        [metric]: { label: `${METRIC_LABELS[metric]} per ${period}`, color: 'hsl(var(--primary))' },
+        [cumulativeKey]: { label: `Total ${METRIC_LABELS[metric]}`, color: 'hsl(var(--muted-foreground))' },
+    };
+    const breakdownConfig: ChartConfig = { [metric]: { label: METRIC_LABELS[metric], color: 'hsl(var(--primary))' } };
+    const sessionConfig: ChartConfig = { apPerHour: { label: 'AP/hour', color: 'hsl(var(--primary))' } };
+
+    return (
+        <div className="mt-3 w-full max-w-4xl">
+            <h2 className="text-base font-bold mb-1">Throughput</h2>
+            {!isUnlocked ? (
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    <Lock className="h-3 w-3" /> Chart views unlock at Focus Level {unlockLevel}.
+                </p>
+            ) : series.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Log some actions to see your throughput.</p>
+            ) : (
+                <Tabs defaultValue="time">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <TabsList>
+                            <TabsTrigger value="time">Over Time</TabsTrigger>
+                            <TabsTrigger value="actions">By Action</TabsTrigger>
+                            <TabsTrigger value="sessions">Sessions</TabsTrigger>
+                        </TabsList>
+                        <Tabs value={metric} onValueChange={(value) => setMetric(value as ThroughputMetric)} className="ml-auto">
+                            <TabsList>
+                                <TabsTrigger value="points">AP</TabsTrigger>
+                                <TabsTrigger value="count">Actions</TabsTrigger>
+                            </TabsList>
+                        </Tabs>
+                    </div>
+
+                    <TabsContent value="time">
+                        <Tabs value={period} onValueChange={(value) => setPeriod(value as ThroughputPeriod)}>
+                            <TabsList className="h-8">
+                                <TabsTrigger value="day" className="text-xs">Daily</TabsTrigger>
+                                <TabsTrigger value="week" className="text-xs">Weekly</TabsTrigger>
+                            </TabsList>
+                        </Tabs>
+                        <ChartContainer config={seriesConfig} className="h-56 w-full aspect-auto">
+                            <ComposedChart data={series} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+                                <CartesianGrid vertical={false} />
+                                <XAxis dataKey="label" tickLine={false} axisLine={false} tick={{ fontSize: 10 }} />
+                                <YAxis yAxisId="period" tickLine={false} axisLine={false} allowDecimals={false} />
+                                <YAxis yAxisId="total" orientation="right" tickLine={false} axisLine={false} allowDecimals={false} />
+                                <ChartTooltip content={<ChartTooltipContent />} />
+                                <Bar yAxisId="period" dataKey={metric} fill={`var(--color-${metric})`} radius={[4, 4, 0, 0]} />
+                                <Line yAxisId="total" dataKey={cumulativeKey} type="monotone" stroke={`var(--color-${cumulativeKey})`} strokeWidth={2} dot={false} />
+                            </ComposedChart>
+                        </ChartContainer>
+                    </TabsContent>
+
+                    <TabsContent value="actions">
+                        <ChartContainer config={breakdownConfig} className="w-full aspect-auto" style={{ height: Math.max(120, breakdown.length * 28) }}>
+                            <BarChart data={breakdown} layout="vertical" margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+                                <CartesianGrid horizontal={false} />
+                                <XAxis type="number" tickLine={false} axisLine={false} allowDecimals={false} />
+                                <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={110} tick={{ fontSize: 10 }} />
+                                <ChartTooltip content={<ChartTooltipContent />} />
+                                <Bar dataKey={metric} fill={`var(--color-${metric})`} radius={[0, 4, 4, 0]} />
+                            </BarChart>
+                        </ChartContainer>
+                    </TabsContent>
+
+                    <TabsContent value="sessions">
+                        {sessions.length === 0 ? (
+                            <p className="text-xs text-muted-foreground">Clock out of a session to see its AP/hour.</p>
+                        ) : (
+                            <ChartContainer config={sessionConfig} className="h-56 w-full aspect-auto">
+                                <BarChart data={sessions} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+                                    <CartesianGrid vertical={false} />
+                                    <XAxis dataKey="label" tickLine={false} axisLine={false} tick={{ fontSize: 10 }} />
+                                    <YAxis tickLine={false} axisLine={false} />
+                                    <ChartTooltip content={<ChartTooltipContent formatter={(value, _name, item) => (
+                                        <span>{Number(value).toFixed(1)} AP/hour <span className="text-muted-foreground">({item.payload.points} AP in {item.payload.minutes} min)</span></span>
+                                    )} />} />
+                                    <Bar dataKey="apPerHour" fill="var(--color-apPerHour)" radius={[4, 4, 0, 0]} />
+                                </BarChart>
+                            </ChartContainer>
+                        )}
+                    </TabsContent>
+                </Tabs>
+            )}
+        </div>
+    );
+};
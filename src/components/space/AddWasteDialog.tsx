@@ -0,0 +1,181 @@
+/**
+ * @fileOverview Dialog for logging waste: pick one or more categories and optionally record
+ * why it happened, how bad it was, time lost, photo evidence and the quest or to-do it relates to.
+ */
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter, DialogClose } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Upload, Camera, X as CloseIcon } from 'lucide-react';
+import { handleImageUploadUtil } from '@/utils/imageUtils';
+import type { WasteEntry, WasteEntryDetails, WasteSeverity } from '@/core/domain/WasteEntry';
+import type { WasteCategory } from '@/core/domain/WasteCategory';
+import type { MultiStepAction } from '@/core/domain/MultiStepAction';
+import type { TodoItem } from '@/core/domain/TodoItem';
+import { CameraCapture } from './CameraCapture';
+
+export const WASTE_SEVERITY_LABELS: Record<WasteSeverity, string> = {
+    low: 'Low',
+    medium: 'Medium',
+    high: 'High',
+};
+
+const NONE = 'none'; // Select items can't use an empty value
+
+interface AddWasteDialogProps {
+    categories: WasteCategory[]; // Active categories only
+    multiStepActions: MultiStepAction[];
+    todos: TodoItem[];
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onSave: (categoryIds: string[], details: WasteEntryDetails) => Promise<WasteEntry[]>;
+}
+
+export const AddWasteDialog: React.FC<AddWasteDialogProps> = ({ categories, multiStepActions, todos, open, onOpenChange, onSave }) => {
+    const [selectedCategoryIds, setSelectedCategoryIds] = useState<string[]>([]);
+    const [note, setNote] = useState('');
+    const [severity, setSeverity] = useState<WasteSeverity | typeof NONE>(NONE);
+    const [minutesLost, setMinutesLost] = useState<number | string>('');
+    const [image, setImage] = useState<string | null>(null);
+    const [multiStepActionId, setMultiStepActionId] = useState(NONE);
+    const [todoId, setTodoId] = useState(NONE);
+    const [showCamera, setShowCamera] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const resetForm = () => {
+        setSelectedCategoryIds([]); setNote(''); setSeverity(NONE); setMinutesLost(''); setImage(null);
+        setMultiStepActionId(NONE); setTodoId(NONE);
+    };
+
+    const toggleCategory = (categoryId: string) =>
+        setSelectedCategoryIds(prev => prev.includes(categoryId) ? prev.filter(id => id !== categoryId) : [...prev, categoryId]);
+
+    const isValid = selectedCategoryIds.length > 0 && (minutesLost === '' || Number(minutesLost) >= 0);
+
+    const handleSave = async () => {
+        if (!isValid) return;
+        setIsSaving(true);
+        try {
+            const added = await onSave(selectedCategoryIds, {
+                note: note.trim() || undefined,
+                severity: severity !== NONE ? severity : undefined,
+                minutesLost: minutesLost !== '' ? Number(minutesLost) : undefined,
+                imageUrl: image,
+                multiStepActionId: multiStepActionId !== NONE ? multiStepActionId : undefined,
+                todoId: todoId !== NONE ? todoId : undefined,
+            });
+            if (added.length > 0) {
+                resetForm();
+                onOpenChange(false);
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        handleImageUploadUtil(event, setImage);
+        if (event.target) event.target.value = '';
+    };
+
+    const openTodos = todos.filter(t => !t.completed);
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>Add Waste</DialogTitle>
+                    <DialogDescription>Select observed waste categories, then add any details that explain it.</DialogDescription>
+                </DialogHeader>
+                <ScrollArea className="max-h-[65vh] pr-2">
+                    <div className="grid gap-3 p-1">
+                        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                            {categories.length === 0 && <p className="col-span-full text-muted-foreground text-sm text-center p-4">No active waste categories. Add or restore one under Categories.</p>}
+                            {categories.map((category) => (
+                                <Button key={category.id} variant={selectedCategoryIds.includes(category.id) ? 'default' : 'outline'} onClick={() => toggleCategory(category.id)} size="sm" className="text-xs h-auto py-2 flex flex-col items-start">
+                                    <span className="font-semibold">{category.name} (+{category.points})</span>
+                                    {category.description && <span className="text-xs text-muted-foreground font-normal text-left whitespace-normal">{category.description}</span>}
+                                </Button>
+                            ))}
+                        </div>
+
+                        <div><Label htmlFor="waste-note">Note</Label><Textarea id="waste-note" className="text-xs" value={note} onChange={(e) => setNote(e.target.value)} placeholder="What happened and why?" /></div>
+
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <Label>Severity</Label>
+                                <Select value={severity} onValueChange={(value) => setSeverity(value as WasteSeverity | typeof NONE)}>
+                                    <SelectTrigger className="mt-1 h-8 text-xs"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={NONE}>Not set</SelectItem>
+                                        {(Object.keys(WASTE_SEVERITY_LABELS) as WasteSeverity[]).map(s => <SelectItem key={s} value={s}>{WASTE_SEVERITY_LABELS[s]}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div><Label htmlFor="waste-minutes">Minutes Lost</Label><Input id="waste-minutes" type="number" min="0" className="mt-1 h-8 text-xs" value={minutesLost} onChange={(e) => setMinutesLost(e.target.value)} placeholder="Optional" /></div>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <Label>Related Quest</Label>
+                                <Select value={multiStepActionId} onValueChange={setMultiStepActionId}>
+                                    <SelectTrigger className="mt-1 h-8 text-xs"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={NONE}>None</SelectItem>
+                                        {multiStepActions.map(a => <SelectItem key={a.id} value={a.id}>{a.name}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div>
+                                <Label>Related To-Do</Label>
+                                <Select value={todoId} onValueChange={setTodoId}>
+                                    <SelectTrigger className="mt-1 h-8 text-xs"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={NONE}>None</SelectItem>
+                                        {openTodos.map(t => <SelectItem key={t.id} value={t.id}>{t.description}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+
+                        <div>
+                            <Label>Photo Evidence</Label>
+                            {image ? (
+                                <div className="relative mt-1 w-fit">
+                                    <img src={image} alt="Waste evidence preview" className="rounded max-h-32 object-cover" />
+                                    <Button variant="ghost" size="icon" className="absolute top-1 right-1 h-6 w-6 bg-white/70 hover:bg-white" onClick={() => setImage(null)} disabled={isSaving}>
+                                        <CloseIcon className="h-4 w-4 text-destructive" />
+                                    </Button>
+                                </div>
+                            ) : (
+                                <div className="flex gap-1 mt-1">
+                                    <Button variant="outline" size="sm" className="text-xs h-8" onClick={() => fileInputRef.current?.click()} disabled={isSaving}><Upload className="mr-1 h-3 w-3" /> Pic</Button>
+                                    <Button variant="outline" size="sm" className="text-xs h-8" onClick={() => setShowCamera(true)} disabled={isSaving}><Camera className="mr-1 h-3 w-3" /> Cam</Button>
+                                </div>
+                            )}
+                            <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="image/*" className="hidden" />
+                        </div>
+                    </div>
+                </ScrollArea>
+                <DialogFooter>
+                    <DialogClose asChild><Button type="button" variant="secondary" onClick={resetForm} disabled={isSaving}>Cancel</Button></DialogClose>
+                    <Button type="button" onClick={handleSave} disabled={isSaving || !isValid}>Add Selected Waste</Button>
+                </DialogFooter>
+            </DialogContent>
+
+            {showCamera && (
+                <CameraCapture
+                    onCapture={(dataUrl) => { setImage(dataUrl); setShowCamera(false); }}
+                    onClose={() => setShowCamera(false)}
+                />
+            )}
+        </Dialog>
+    );
+};
@@ -0,0 +1,152 @@
+/**
+ * @fileOverview Component for raising, acknowledging and resolving Andon signals in a space.
+ */
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter, DialogClose } from "@/components/ui/dialog";
+import { AlertTriangle } from 'lucide-react';
+import { formatDateTime } from '@/utils/dateUtils';
+import { getAverageTimeToResolveMinutes, getTimeToResolveMinutes } from '@/core/analytics/andons';
+import type { Andon } from '@/core/domain/Andon';
+
+interface AndonPanelProps {
+    andons: Andon[];
+    isLoading: boolean;
+    onRaise: (comment: string) => Promise<unknown>;
+    onAcknowledge: (id: string) => Promise<unknown>;
+    onResolve: (id: string, resolutionNote: string) => Promise<unknown>;
+}
+
+export const AndonPanel: React.FC<AndonPanelProps> = ({
+    andons,
+    isLoading,
+    onRaise,
+    onAcknowledge,
+    onResolve,
+}) => {
+    const [isRaiseOpen, setIsRaiseOpen] = useState(false);
+    const [raiseComment, setRaiseComment] = useState('');
+    const [resolvingAndon, setResolvingAndon] = useState<Andon | null>(null);
+    const [resolutionNote, setResolutionNote] = useState('');
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const activeAndons = useMemo(() => andons.filter(a => a.status !== 'resolved'), [andons]);
+    const resolvedAndons = useMemo(() => andons.filter(a => a.status === 'resolved'), [andons]);
+    const averageMinutes = useMemo(() => getAverageTimeToResolveMinutes(resolvedAndons), [resolvedAndons]);
+
+    const handleRaise = async () => {
+        if (!raiseComment.trim()) return;
+        setIsSaving(true);
+        try {
+            const result = await onRaise(raiseComment);
+            if (result) {
+                setRaiseComment('');
+                setIsRaiseOpen(false);
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleResolve = async () => {
+        if (!resolvingAndon || !resolutionNote.trim()) return;
+        setIsSaving(true);
+        try {
+            const result = await onResolve(resolvingAndon.id, resolutionNote);
+            if (result) {
+                setResolutionNote('');
+                setResolvingAndon(null);
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="mt-3 w-full max-w-4xl">
+            <div className="flex justify-between items-center mb-1">
+                <h2 className="text-base font-bold flex items-center">
+                    Andon
+                    {activeAndons.length > 0 && <Badge variant="destructive" className="ml-2">{activeAndons.length} active</Badge>}
+                </h2>
+                <Button size="sm" variant="destructive" onClick={() => setIsRaiseOpen(true)} disabled={isLoading}>
+                    <AlertTriangle className="mr-1 h-3 w-3" /> Raise Andon
+                </Button>
+            </div>
+
+            {activeAndons.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No active problems.</p>
+            ) : (
+                <div className="space-y-1">
+                    {activeAndons.map(andon => (
+                        <div key={andon.id} className="border border-destructive/50 rounded-md p-2 text-xs flex items-start gap-2">
+                            <div className="flex-1">
+                                <div className="flex items-center gap-2 mb-0.5">
+                                    <Badge variant={andon.status === 'open' ? 'destructive' : 'secondary'}>{andon.status === 'open' ? 'Open' : 'Acknowledged'}</Badge>
+                                    <span className="text-muted-foreground">{formatDateTime(andon.raisedAt)}</span>
+                                </div>
+                                <p className="whitespace-pre-wrap">{andon.comment}</p>
+                            </div>
+                            <div className="flex flex-col gap-1">
+                                {andon.status === 'open' && (
+                                    <Button size="sm" variant="outline" className="text-xs h-7" onClick={() => onAcknowledge(andon.id)} disabled={isLoading}>Acknowledge</Button>
+                                )}
+                                <Button size="sm" className="text-xs h-7" onClick={() => setResolvingAndon(andon)} disabled={isLoading}>Resolve</Button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {resolvedAndons.length > 0 && (
+                <div className="text-xs text-muted-foreground mt-1">
+                    <span>{resolvedAndons.length} resolved</span>
+                    {averageMinutes !== undefined && <span> | Avg time to resolve: {Math.round(averageMinutes)} min</span>}
+                    <Button variant="link" size="sm" className="text-xs h-auto px-1 py-0 ml-1" onClick={() => setIsHistoryOpen(true)}>(History)</Button>
+                </div>
+            )}
+
+            {/* Raise Andon Modal */}
+            <Dialog open={isRaiseOpen} onOpenChange={setIsRaiseOpen}>
+                <DialogContent>
+                    <DialogHeader><DialogTitle>Raise Andon</DialogTitle><DialogDescription>Describe the problem or blocker. The space stays flagged until it is resolved.</DialogDescription></DialogHeader>
+                    <div className="py-2"><Label htmlFor="andon-comment">What's wrong? *</Label><Textarea id="andon-comment" value={raiseComment} onChange={(e) => setRaiseComment(e.target.value)} placeholder="e.g., Waiting on access to the build server" /></div>
+                    <DialogFooter><DialogClose asChild><Button type="button" variant="secondary" disabled={isSaving}>Cancel</Button></DialogClose><Button type="button" variant="destructive" onClick={handleRaise} disabled={isSaving || !raiseComment.trim()}>Raise</Button></DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* Resolve Andon Modal */}
+            <Dialog open={resolvingAndon !== null} onOpenChange={(open) => !open && setResolvingAndon(null)}>
+                <DialogContent>
+                    <DialogHeader><DialogTitle>Resolve Andon</DialogTitle><DialogDescription>{resolvingAndon?.comment}</DialogDescription></DialogHeader>
+                    <div className="py-2"><Label htmlFor="andon-resolution">How was it resolved? *</Label><Textarea id="andon-resolution" value={resolutionNote} onChange={(e) => setResolutionNote(e.target.value)} placeholder="e.g., Access granted by IT" /></div>
+                    <DialogFooter><DialogClose asChild><Button type="button" variant="secondary" disabled={isSaving}>Cancel</Button></DialogClose><Button type="button" onClick={handleResolve} disabled={isSaving || !resolutionNote.trim()}>Resolve</Button></DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* Resolved History Modal */}
+            <Dialog open={isHistoryOpen} onOpenChange={setIsHistoryOpen}>
+                <DialogContent className="max-w-md sm:max-w-lg">
+                    <DialogHeader><DialogTitle>Resolved Andons</DialogTitle><DialogDescription>Newest first.</DialogDescription></DialogHeader>
+                    <ScrollArea className="max-h-[60vh] border rounded-md"> <div className="p-2 space-y-2">
+                        {resolvedAndons.map(andon => (
+                            <div key={andon.id} className="text-xs border-b last:border-b-0 pb-1">
+                                <p className="text-muted-foreground">{formatDateTime(andon.raisedAt)} · resolved in {getTimeToResolveMinutes(andon)} min</p>
+                                <p className="whitespace-pre-wrap">{andon.comment}</p>
+                                <p className="text-primary whitespace-pre-wrap">→ {andon.resolutionNote}</p>
+                            </div>
+                        ))}
+                    </div> </ScrollArea>
+                    <DialogFooter><DialogClose asChild><Button type="button" variant="outline">Close</Button></DialogClose></DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+};
@@ -0,0 +1,120 @@
+/**
+ * @fileOverview Component showing an XmR control chart of a space's action rate, with Western Electric
+ * rule violations flagged on the chart and summarised below it. The chart itself is locked until the
+ * Chart views feature is unlocked; the summary is always shown.
+ */
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { AlertTriangle, CheckCircle2, Lock } from 'lucide-react';
+import { useSpaceContext } from '@/contexts/SpaceContext';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { MIN_SPC_POINTS, SPC_METRIC_LABELS, SPC_RULE_LABELS, summarizeViolations, type ControlChart, type SpcMetric, type SpcPoint } from '@/core/analytics/spc';
+import type { LogEntry } from '@/core/domain/LogEntry';
+
+interface ControlChartPanelProps {
+    spaceId: string;
+    logEntries: LogEntry[]; // Only used to refresh the chart when the log changes
+    isUnlocked: boolean; // Chart views reached via Focus Level
+    unlockLevel: number;
+}
+
+const formatValue = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(1));
+
+export const ControlChartPanel: React.FC<ControlChartPanelProps> = ({ spaceId, logEntries, isUnlocked, unlockLevel }) => {
+    const { fetchControlChart } = useSpaceContext();
+    const [metric, setMetric] = useState<SpcMetric>('dailyActions');
+    const [chart, setChart] = useState<ControlChart | undefined>(undefined);
+
+    useEffect(() => {
+        let cancelled = false;
+        fetchControlChart(spaceId, metric).then(result => {
+            if (!cancelled) setChart(result);
+        });
+        return () => { cancelled = true; };
+    }, [spaceId, metric, logEntries, fetchControlChart]);
+
+    const summary = useMemo(() => (chart ? summarizeViolations(chart) : []), [chart]);
+    const config: ChartConfig = { value: { label: SPC_METRIC_LABELS[metric], color: 'hsl(var(--primary))' } };
+
+    return (
+        <div className="mt-3 w-full max-w-4xl">
+            <div className="flex justify-between items-center mb-1">
+                <h2 className="text-base font-bold">Process Control</h2>
+                <Tabs value={metric} onValueChange={(value) => setMetric(value as SpcMetric)}>
+                    <TabsList className="h-8">
+                        <TabsTrigger value="dailyActions" className="text-xs">Actions/Day</TabsTrigger>
+                        <TabsTrigger value="sessionApPerHour" className="text-xs">AP/Hour</TabsTrigger>
+                    </TabsList>
+                </Tabs>
+            </div>
+
+            {!chart ? (
+                <p className="text-xs text-muted-foreground">
+                    {metric === 'dailyActions' ? `Needs at least ${MIN_SPC_POINTS} days of actions.` : `Needs at least ${MIN_SPC_POINTS} finished sessions.`}
+                </p>
+            ) : (
+                <>
+                    <p className="text-xs text-muted-foreground mb-1">
+                        Mean {formatValue(chart.mean)} · UCL {formatValue(chart.ucl)} · LCL {formatValue(chart.lcl)} · {chart.points.length} points
+                    </p>
+                    {isUnlocked ? (
+                        <ChartContainer config={config} className="h-56 w-full aspect-auto">
+                            <LineChart data={chart.points} margin={{ top: 8, right: 40, bottom: 0, left: -16 }}>
+                                <CartesianGrid vertical={false} />
+                                <XAxis dataKey="label" tickLine={false} axisLine={false} tick={{ fontSize: 10 }} />
+                                <YAxis tickLine={false} axisLine={false} domain={[0, (max: number) => Math.ceil(Math.max(max, chart.ucl))]} />
+                                <ChartTooltip content={<ChartTooltipContent formatter={(value, _name, item) => {
+                                    const point = item.payload as SpcPoint;
+                                    return (
+                                        <span>
+                                            {formatValue(Number(value))} {SPC_METRIC_LABELS[metric].toLowerCase()}
+                                            {point.violations.map(rule => <span key={rule} className="block text-destructive">{SPC_RULE_LABELS[rule]}</span>)}
+                                        </span>
+                                    );
+                                }} />} />
+                                <ReferenceLine y={chart.mean} stroke="hsl(var(--muted-foreground))" label={{ value: 'Mean', position: 'right', fontSize: 10 }} />
+                                <ReferenceLine y={chart.ucl} stroke="hsl(var(--destructive))" strokeDasharray="4 4" label={{ value: 'UCL', position: 'right', fontSize: 10 }} />
+                                <ReferenceLine y={chart.lcl} stroke="hsl(var(--destructive))" strokeDasharray="4 4" label={{ value: 'LCL', position: 'right', fontSize: 10 }} />
+                                <Line
+                                    dataKey="value"
+                                    type="linear"
+                                    stroke="var(--color-value)"
+                                    strokeWidth={2}
+                                    isAnimationActive={false}
+                                    dot={({ cx, cy, payload, index }: { cx: number; cy: number; payload: SpcPoint; index: number }) => (
+                                        <circle
+                                            key={index}
+                                            cx={cx}
+                                            cy={cy}
+                                            r={payload.violations.length > 0 ? 4 : 2.5}
+                                            fill={payload.violations.length > 0 ? 'hsl(var(--destructive))' : 'var(--color-value)'}
+                                        />
+                                    )}
+                                />
+                            </LineChart>
+                        </ChartContainer>
+                    ) : (
+                        <p className="text-xs text-muted-foreground flex items-center gap-1 mb-1">
+                            <Lock className="h-3 w-3" /> The control chart unlocks at Focus Level {unlockLevel}.
+                        </p>
+                    )}
+                    {summary.length === 0 ? (
+                        <p className="text-xs text-primary flex items-center gap-1"><CheckCircle2 className="h-3 w-3" /> In control: no rule violations.</p>
+                    ) : (
+                        <ul className="text-xs space-y-0.5">
+                            {summary.map(row => (
+                                <li key={row.rule} className="flex items-center gap-1 text-destructive">
+                                    <AlertTriangle className="h-3 w-3 shrink-0" />
+                                    {SPC_RULE_LABELS[row.rule]}: {row.count}× (latest {row.lastLabel})
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
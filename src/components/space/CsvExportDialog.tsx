@@ -0,0 +1,90 @@
+/**
+ * @fileOverview Dialog for downloading a space's log entries, waste entries or sessions as CSV.
+ */
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter, DialogClose } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from 'lucide-react';
+import { useSpaceContext } from '@/contexts/SpaceContext';
+import { downloadFile, fileTimestamp, slugify } from '@/utils/fileUtils';
+import type { CsvExportKind } from '@/core/services/CsvExportService';
+import type { Space } from '@/core/domain/Space';
+
+interface CsvExportDialogProps {
+    space: Space;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+const EXPORT_KIND_LABELS: Record<CsvExportKind, string> = {
+    logEntries: 'Log entries',
+    wasteEntries: 'Waste entries',
+    sessions: 'Clock sessions',
+};
+
+export const CsvExportDialog: React.FC<CsvExportDialogProps> = ({ space, open, onOpenChange }) => {
+    const { exportCsv } = useSpaceContext();
+    const [kind, setKind] = useState<CsvExportKind>('logEntries');
+    const [fromDate, setFromDate] = useState(''); // yyyy-MM-dd from the date input, local time
+    const [toDate, setToDate] = useState('');
+    const [isExporting, setIsExporting] = useState(false);
+
+    const handleDownload = async () => {
+        setIsExporting(true);
+        try {
+            // Date inputs are local calendar days; widen "to" to the end of that day.
+            const range = {
+                from: fromDate ? new Date(`${fromDate}T00:00:00`) : undefined,
+                to: toDate ? new Date(`${toDate}T23:59:59.999`) : undefined,
+            };
+            const csv = await exportCsv(kind, space.id, range);
+            if (csv !== undefined) {
+                downloadFile(`okapi_${slugify(space.name)}_${kind}_${fileTimestamp()}.csv`, csv, 'text/csv;charset=utf-8');
+                onOpenChange(false);
+            }
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Export CSV</DialogTitle>
+                    <DialogDescription>Download data from "{space.name}" for use in a spreadsheet.</DialogDescription>
+                </DialogHeader>
+                <div className="grid gap-4 py-2">
+                    <div>
+                        <Label>Data</Label>
+                        <Select value={kind} onValueChange={(value) => setKind(value as CsvExportKind)}>
+                            <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                {(Object.keys(EXPORT_KIND_LABELS) as CsvExportKind[]).map(k => (
+                                    <SelectItem key={k} value={k}>{EXPORT_KIND_LABELS[k]}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        <div><Label htmlFor="csv-from">From</Label><Input id="csv-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} /></div>
+                        <div><Label htmlFor="csv-to">To</Label><Input id="csv-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} /></div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">Leave dates empty to export everything.</p>
+                </div>
+                <DialogFooter>
+                    <DialogClose asChild><Button type="button" variant="secondary" disabled={isExporting}>Cancel</Button></DialogClose>
+                    <Button type="button" onClick={handleDownload} disabled={isExporting || (!!fromDate && !!toDate && fromDate > toDate)}>
+                        {isExporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Download
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -0,0 +1,110 @@
+/**
+ * @fileOverview Dialog for defining a quantitative goal (CTQ target) on a space.
+ */
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter, DialogClose } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GOAL_METRIC_LABELS } from '@/core/analytics/goals';
+import type { Goal, GoalMetric } from '@/core/domain/Goal';
+import type { Action } from '@/core/domain/Action';
+
+interface GoalFormDialogProps {
+    spaceId: string;
+    actions: Action[];
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onSave: (goalData: Omit<Goal, 'id' | 'dateCreated' | 'achievedAt'>) => Promise<Goal | undefined>;
+}
+
+const DEFAULT_BONUS_POINTS = 25;
+
+export const GoalFormDialog: React.FC<GoalFormDialogProps> = ({ spaceId, actions, open, onOpenChange, onSave }) => {
+    const [metric, setMetric] = useState<GoalMetric>('totalPoints');
+    const [actionId, setActionId] = useState('');
+    const [targetValue, setTargetValue] = useState<number | string>('');
+    const [deadline, setDeadline] = useState(''); // yyyy-MM-dd from the date input, local time
+    const [bonusPoints, setBonusPoints] = useState<number | string>(DEFAULT_BONUS_POINTS);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const resetForm = () => {
+        setMetric('totalPoints'); setActionId(''); setTargetValue(''); setDeadline(''); setBonusPoints(DEFAULT_BONUS_POINTS);
+    };
+
+    const isValid = targetValue !== '' && Number(targetValue) >= 0
+        && (metric !== 'actionCount' || !!actionId)
+        && (metric !== 'maxWastePoints' || !!deadline);
+
+    const handleSave = async () => {
+        if (!isValid) return;
+        setIsSaving(true);
+        try {
+            const action = actions.find(a => a.id === actionId);
+            const saved = await onSave({
+                spaceId,
+                metric,
+                targetValue: Number(targetValue),
+                actionId: action?.id,
+                actionName: action?.name,
+                // The deadline covers the whole chosen day
+                deadline: deadline ? new Date(`${deadline}T23:59:59.999`) : null,
+                bonusPoints: Number(bonusPoints) || 0,
+            });
+            if (saved) {
+                resetForm();
+                onOpenChange(false);
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Add Goal</DialogTitle>
+                    <DialogDescription>Set a measurable target. Progress counts from today.</DialogDescription>
+                </DialogHeader>
+                <div className="grid gap-4 py-2">
+                    <div>
+                        <Label>Metric *</Label>
+                        <Select value={metric} onValueChange={(value) => setMetric(value as GoalMetric)}>
+                            <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                {(Object.keys(GOAL_METRIC_LABELS) as GoalMetric[]).map(m => (
+                                    <SelectItem key={m} value={m}>{GOAL_METRIC_LABELS[m]}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    {metric === 'actionCount' && (
+                        <div>
+                            <Label>Action *</Label>
+                            <Select value={actionId} onValueChange={setActionId}>
+                                <SelectTrigger className="mt-1"><SelectValue placeholder={actions.length > 0 ? "Select an action..." : "No simple actions yet"} /></SelectTrigger>
+                                <SelectContent>
+                                    {actions.map(a => <SelectItem key={a.id} value={a.id}>{a.name}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+                    <div className="grid grid-cols-2 gap-2">
+                        <div><Label htmlFor="goal-target">{metric === 'maxWastePoints' ? 'Max Waste Points *' : 'Target *'}</Label><Input id="goal-target" type="number" min="0" value={targetValue} onChange={(e) => setTargetValue(e.target.value)} placeholder="e.g., 100" /></div>
+                        <div><Label htmlFor="goal-bonus">Bonus AP</Label><Input id="goal-bonus" type="number" min="0" value={bonusPoints} onChange={(e) => setBonusPoints(e.target.value)} /></div>
+                    </div>
+                    <div><Label htmlFor="goal-deadline">Deadline{metric === 'maxWastePoints' ? ' *' : ''}</Label><Input id="goal-deadline" type="date" value={deadline} onChange={(e) => setDeadline(e.target.value)} /></div>
+                    {metric === 'maxWastePoints' && <p className="text-xs text-muted-foreground">Achieved at the deadline if waste points stay at or below the limit.</p>}
+                </div>
+                <DialogFooter>
+                    <DialogClose asChild><Button type="button" variant="secondary" disabled={isSaving}>Cancel</Button></DialogClose>
+                    <Button type="button" onClick={handleSave} disabled={isSaving || !isValid}>Add Goal</Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -4,21 +4,27 @@
 'use client';
 
 import React from 'react';
+import { Undo2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { formatTime } from '@/utils/dateUtils';
 import type { LogEntry } from '@/core/domain/LogEntry';
+import { formatLoggedActionName } from '@/core/analytics/actionLog';
 
 interface LogDisplayProps {
     logEntries: LogEntry[];
     isLoading: boolean;
     onShowDetailsClick: () => void;
+    latestUndoLabel?: string; // The most recent undoable operation, if any
+    onUndoClick: () => void;
 }
 
 export const LogDisplay: React.FC<LogDisplayProps> = ({
     logEntries,
     isLoading,
     onShowDetailsClick,
+    latestUndoLabel,
+    onUndoClick,
 }) => {
     const latestLog = logEntries.length > 0 ? logEntries[0] : null;
 
@@ -26,6 +32,11 @@ export const LogDisplay: React.FC<LogDisplayProps> = ({
         <div className="mt-3 w-full max-w-4xl">
              <div className="flex justify-between items-center mb-1">
                 <h2 className="text-base font-bold">Log</h2>
+                 {latestUndoLabel && (
+                    <Button variant="ghost" size="sm" className="text-xs h-auto px-1 py-0 ml-auto mr-2" onClick={onUndoClick} title={`Undo: ${latestUndoLabel}`}>
+                        <Undo2 className="h-3 w-3 mr-1" /> Undo
+                    </Button>
+                 )}
                  <Button
                     variant="link"
                     size="sm"
@@ -42,7 +53,7 @@ export const LogDisplay: React.FC<LogDisplayProps> = ({
                  <div className="text-xs text-muted-foreground">
                     {latestLog ? (
                         <span>
-                            Latest: {latestLog.actionName} at {formatTime(latestLog.timestamp)}
+                            Latest: {formatLoggedActionName(latestLog)} at {formatTime(latestLog.timestamp)}
                             {latestLog.points > 0 ? ` (+${latestLog.points} AP)` : ''}
                             {latestLog.type === 'clockOut' && latestLog.minutesClockedIn !== undefined ? ` (${latestLog.minutesClockedIn} min)`: ''}
                         </span>
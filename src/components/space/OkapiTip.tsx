@@ -0,0 +1,46 @@
+/**
+ * @fileOverview The Okapi mascot's speech bubble. Shows the highest-priority tip that applies
+ * to the space, with options to snooze or dismiss it.
+ */
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { MessageCircle } from 'lucide-react';
+import type { TipRule } from '@/core/analytics/tips';
+import type { TipId } from '@/core/domain/Tip';
+import { DEFAULT_TIP_SNOOZE_HOURS } from '@/core/services/TipService';
+
+interface OkapiTipProps {
+    tips: TipRule[]; // Active tips, highest priority first
+    onDismiss: (tipId: TipId, snoozeHours?: number) => Promise<void>;
+}
+
+export const OkapiTip: React.FC<OkapiTipProps> = ({ tips, onDismiss }) => {
+    const [isSaving, setIsSaving] = useState(false);
+    const tip = tips[0];
+    if (!tip) return null;
+
+    const handleDismiss = async (snoozeHours?: number) => {
+        setIsSaving(true);
+        await onDismiss(tip.id, snoozeHours);
+        setIsSaving(false);
+    };
+
+    return (
+        <Card className="w-full max-w-4xl mb-2 border-primary/40 bg-primary/5">
+            <CardContent className="p-2 flex items-start gap-2">
+                <MessageCircle className="h-5 w-5 shrink-0 text-primary mt-0.5" />
+                <div className="flex-1">
+                    <p className="text-xs font-semibold text-primary">Okapi says</p>
+                    <p className="text-sm">{tip.message}</p>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-1">
+                    <Button size="sm" variant="ghost" className="h-7 text-xs" disabled={isSaving} onClick={() => handleDismiss(DEFAULT_TIP_SNOOZE_HOURS)}>Snooze 1 day</Button>
+                    <Button size="sm" variant="ghost" className="h-7 text-xs" disabled={isSaving} onClick={() => handleDismiss()}>Dismiss</Button>
+                </div>
+            </CardContent>
+        </Card>
+    );
+};
@@ -0,0 +1,158 @@
+/**
+ * @fileOverview Dialog for analyzing the root cause of one or more waste entries with a
+ * 5 Whys chain and fishbone causes, plus an optional countermeasure to-do.
+ */
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter, DialogClose } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X as CloseIcon } from 'lucide-react';
+import { FISHBONE_CATEGORY_LABELS, MAX_WHYS } from '@/core/analytics/rootCause';
+import type { FishboneCategory, FishboneCause, RootCauseAnalysis } from '@/core/domain/RootCauseAnalysis';
+import type { WasteEntry } from '@/core/domain/WasteEntry';
+import type { RootCauseAnalysisInput } from '@/core/services/RootCauseAnalysisService';
+
+interface RootCauseAnalysisDialogProps {
+    spaceId: string;
+    wasteEntries: WasteEntry[]; // Newest first
+    analyzedWasteEntryIds: Set<string>;
+    initialWasteEntryIds: string[]; // Entries ticked when the dialog opens
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onSave: (analysisData: RootCauseAnalysisInput, createCountermeasureTodo: boolean) => Promise<RootCauseAnalysis | undefined>;
+}
+
+export const RootCauseAnalysisDialog: React.FC<RootCauseAnalysisDialogProps> = ({
+    spaceId,
+    wasteEntries,
+    analyzedWasteEntryIds,
+    initialWasteEntryIds,
+    open,
+    onOpenChange,
+    onSave,
+}) => {
+    const [wasteEntryIds, setWasteEntryIds] = useState<string[]>([]);
+    const [problem, setProblem] = useState('');
+    const [whys, setWhys] = useState<string[]>(['']);
+    const [causes, setCauses] = useState<FishboneCause[]>([]);
+    const [countermeasure, setCountermeasure] = useState('');
+    const [createTodo, setCreateTodo] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Start each opening from a blank form; a single entry's note is a good first problem statement
+    useEffect(() => {
+        if (!open) return;
+        setWasteEntryIds(initialWasteEntryIds);
+        const single = initialWasteEntryIds.length === 1 ? wasteEntries.find(e => e.id === initialWasteEntryIds[0]) : undefined;
+        setProblem(single ? (single.note ?? single.type) : '');
+        setWhys(['']); setCauses([]); setCountermeasure(''); setCreateTodo(true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [open]);
+
+    const toggleEntry = (id: string) =>
+        setWasteEntryIds(prev => prev.includes(id) ? prev.filter(e => e !== id) : [...prev, id]);
+    const updateWhy = (index: number, value: string) =>
+        setWhys(prev => prev.map((w, i) => i === index ? value : w));
+    const updateCause = (index: number, patch: Partial<FishboneCause>) =>
+        setCauses(prev => prev.map((c, i) => i === index ? { ...c, ...patch } : c));
+
+    const isValid = wasteEntryIds.length > 0 && problem.trim() !== '' && whys.some(w => w.trim());
+
+    const handleSave = async () => {
+        if (!isValid) return;
+        setIsSaving(true);
+        try {
+            const saved = await onSave({ spaceId, wasteEntryIds, problem, whys, causes, countermeasure }, createTodo);
+            if (saved) onOpenChange(false);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>Analyze Root Cause</DialogTitle>
+                    <DialogDescription>Keep asking &quot;why?&quot; until you reach something you can fix.</DialogDescription>
+                </DialogHeader>
+                <ScrollArea className="max-h-[65vh] pr-2">
+                    <div className="grid gap-3 p-1">
+                        <div>
+                            <Label>Waste Entries *</Label>
+                            <div className="border rounded-md mt-1 max-h-32 overflow-y-auto p-1 space-y-1">
+                                {wasteEntries.length === 0 && <p className="text-xs text-muted-foreground p-2">No waste entries yet.</p>}
+                                {wasteEntries.map(entry => (
+                                    <label key={entry.id} className="flex items-center gap-2 text-xs cursor-pointer">
+                                        <Checkbox checked={wasteEntryIds.includes(entry.id)} onCheckedChange={() => toggleEntry(entry.id)} />
+                                        <span className="font-mono text-muted-foreground">{format(entry.timestamp, 'MM/dd HH:mm')}</span>
+                                        <span className="flex-1 truncate">{entry.type}{entry.note ? ` – ${entry.note}` : ''}</span>
+                                        {analyzedWasteEntryIds.has(entry.id) && <Badge variant="secondary" className="text-[10px] px-1 py-0">Analyzed</Badge>}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div><Label htmlFor="rca-problem">Problem *</Label><Textarea id="rca-problem" className="text-xs" value={problem} onChange={(e) => setProblem(e.target.value)} placeholder="What happened?" /></div>
+
+                        <div>
+                            <Label>5 Whys *</Label>
+                            <div className="space-y-1 mt-1">
+                                {whys.map((why, index) => (
+                                    <div key={index} className="flex items-center gap-2">
+                                        <span className="text-xs text-muted-foreground w-12 shrink-0">Why {index + 1}?</span>
+                                        <Input className="h-8 text-xs" value={why} onChange={(e) => updateWhy(index, e.target.value)} placeholder={index === 0 ? 'Because...' : 'And that happened because...'} />
+                                        {whys.length > 1 && <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setWhys(prev => prev.filter((_, i) => i !== index))} aria-label="Remove why"><CloseIcon className="h-3 w-3" /></Button>}
+                                    </div>
+                                ))}
+                                {whys.length < MAX_WHYS && <Button type="button" variant="outline" size="sm" className="text-xs h-7" onClick={() => setWhys(prev => [...prev, ''])}>+ Ask Why Again</Button>}
+                            </div>
+                            <p className="text-xs text-muted-foreground mt-1">The last answer is recorded as the root cause.</p>
+                        </div>
+
+                        <div>
+                            <Label>Fishbone Causes</Label>
+                            <div className="space-y-1 mt-1">
+                                {causes.map((cause, index) => (
+                                    <div key={index} className="flex items-center gap-2">
+                                        <Select value={cause.category} onValueChange={(value) => updateCause(index, { category: value as FishboneCategory })}>
+                                            <SelectTrigger className="h-8 text-xs w-36 shrink-0"><SelectValue /></SelectTrigger>
+                                            <SelectContent>
+                                                {(Object.keys(FISHBONE_CATEGORY_LABELS) as FishboneCategory[]).map(c => <SelectItem key={c} value={c}>{FISHBONE_CATEGORY_LABELS[c]}</SelectItem>)}
+                                            </SelectContent>
+                                        </Select>
+                                        <Input className="h-8 text-xs" value={cause.description} onChange={(e) => updateCause(index, { description: e.target.value })} placeholder="Contributing cause" />
+                                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setCauses(prev => prev.filter((_, i) => i !== index))} aria-label="Remove cause"><CloseIcon className="h-3 w-3" /></Button>
+                                    </div>
+                                ))}
+                                <Button type="button" variant="outline" size="sm" className="text-xs h-7" onClick={() => setCauses(prev => [...prev, { category: 'method', description: '' }])}>+ Add Cause</Button>
+                            </div>
+                        </div>
+
+                        <div>
+                            <Label htmlFor="rca-countermeasure">Countermeasure</Label>
+                            <Textarea id="rca-countermeasure" className="text-xs" value={countermeasure} onChange={(e) => setCountermeasure(e.target.value)} placeholder="What will stop it happening again?" />
+                            <label className="flex items-center gap-2 text-xs mt-1 cursor-pointer">
+                                <Checkbox checked={createTodo} onCheckedChange={(checked) => setCreateTodo(checked === true)} disabled={!countermeasure.trim()} />
+                                Add it to the To-Do list
+                            </label>
+                        </div>
+                    </div>
+                </ScrollArea>
+                <DialogFooter>
+                    <DialogClose asChild><Button type="button" variant="secondary" disabled={isSaving}>Cancel</Button></DialogClose>
+                    <Button type="button" onClick={handleSave} disabled={isSaving || !isValid}>Save Analysis</Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
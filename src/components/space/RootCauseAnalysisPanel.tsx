@@ -0,0 +1,95 @@
+/**
+ * @fileOverview Component listing a space's root-cause analyses and how much of its waste has been analyzed.
+ */
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Search, Trash2 } from 'lucide-react';
+import { formatDateTime } from '@/utils/dateUtils';
+import { FISHBONE_CATEGORY_LABELS, getRootCause } from '@/core/analytics/rootCause';
+import type { RootCauseAnalysis } from '@/core/domain/RootCauseAnalysis';
+import type { TodoItem } from '@/core/domain/TodoItem';
+
+interface RootCauseAnalysisPanelProps {
+    analyses: RootCauseAnalysis[]; // Newest first
+    todos: TodoItem[];
+    analyzedCount: number;
+    wasteCount: number;
+    isLoading: boolean;
+    isReadOnly?: boolean;
+    onAnalyzeClick: () => void;
+    onCreateTodo: (analysisId: string) => Promise<unknown>;
+    onDelete: (analysisId: string) => Promise<unknown>;
+}
+
+export const RootCauseAnalysisPanel: React.FC<RootCauseAnalysisPanelProps> = ({
+    analyses,
+    todos,
+    analyzedCount,
+    wasteCount,
+    isLoading,
+    isReadOnly = false,
+    onAnalyzeClick,
+    onCreateTodo,
+    onDelete,
+}) => {
+    return (
+        <div className="mt-3 w-full max-w-4xl">
+            <div className="flex justify-between items-center mb-1">
+                <h2 className="text-base font-bold">Root Causes</h2>
+                {!isReadOnly && (
+                    <Button size="sm" variant="outline" onClick={onAnalyzeClick} disabled={isLoading || wasteCount === 0}>
+                        <Search className="mr-1 h-3 w-3" /> Analyze Waste
+                    </Button>
+                )}
+            </div>
+            <p className="text-xs text-muted-foreground mb-1">{analyzedCount} of {wasteCount} waste logs analyzed.</p>
+
+            <div className="space-y-1">
+                {analyses.map(analysis => {
+                    const todo = analysis.countermeasureTodoId ? todos.find(t => t.id === analysis.countermeasureTodoId) : undefined;
+                    return (
+                        <div key={analysis.id} className="border rounded-md p-2 text-xs">
+                            <div className="flex items-start gap-2">
+                                <div className="flex-1">
+                                    <p className="text-muted-foreground">{formatDateTime(analysis.dateCreated)} · {analysis.wasteEntryIds.length} waste log{analysis.wasteEntryIds.length === 1 ? '' : 's'}</p>
+                                    <p className="font-semibold whitespace-pre-wrap">{analysis.problem}</p>
+                                    <p className="text-primary">Root cause: {getRootCause(analysis)}</p>
+                                </div>
+                                {!isReadOnly && (
+                                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => onDelete(analysis.id)} disabled={isLoading} aria-label="Delete analysis">
+                                        <Trash2 className="h-3 w-3" />
+                                    </Button>
+                                )}
+                            </div>
+                            {analysis.whys.length > 1 && (
+                                <ol className="list-decimal list-inside text-muted-foreground mt-1">
+                                    {analysis.whys.map((why, index) => <li key={index}>{why}</li>)}
+                                </ol>
+                            )}
+                            {analysis.causes.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mt-1">
+                                    {analysis.causes.map((cause, index) => (
+                                        <Badge key={index} variant="outline" className="font-normal">{FISHBONE_CATEGORY_LABELS[cause.category]}: {cause.description}</Badge>
+                                    ))}
+                                </div>
+                            )}
+                            {analysis.countermeasure && (
+                                <div className="flex items-center gap-2 mt-1">
+                                    <span className="flex-1">→ {analysis.countermeasure}</span>
+                                    {analysis.countermeasureTodoId ? (
+                                        <Badge variant={todo?.completed ? 'default' : 'secondary'}>{todo?.completed ? 'Done' : todo ? 'In To-Do' : 'To-Do removed'}</Badge>
+                                    ) : !isReadOnly && (
+                                        <Button size="sm" variant="outline" className="text-xs h-7" onClick={() => onCreateTodo(analysis.id)} disabled={isLoading}>Create To-Do</Button>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
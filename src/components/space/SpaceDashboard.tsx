@@ -7,8 +7,14 @@ import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
-import { formatElapsedTime } from '@/utils/dateUtils';
-import { Clock, Zap, Trash2, Activity, Timer } from 'lucide-react'; // Example icons
+import { Progress } from '@/components/ui/progress';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { formatElapsedTime, formatShortDate } from '@/utils/dateUtils';
+import { Clock, Zap, Trash2, Activity, Timer, AlertTriangle, Target, X, TrendingUp, TrendingDown, Minus } from 'lucide-react'; // Example icons
+import { describeGoal, type GoalProgress } from '@/core/analytics/goals';
+import type { Goal } from '@/core/domain/Goal';
+import { WASTE_PENALTY_WEIGHT, type EfficiencySummary, type EfficiencyTrend } from '@/core/analytics/efficiency';
+import { format } from 'date-fns';
 
 interface SpaceDashboardProps {
     isClockedIn: boolean;
@@ -20,6 +26,12 @@ interface SpaceDashboardProps {
     totalPoints: number;
     averageApPerHour: number; // Changed prop name
     totalWastePoints: number;
+    openAndonCount?: number; // Unresolved Andons; flags the dashboard when > 0
+    canClockIn?: boolean; // False unless the space is Active
+    goalProgress?: { goal: Goal; progress: GoalProgress }[];
+    onAddGoal?: () => void;
+    onDeleteGoal?: (goalId: string) => void;
+    efficiency?: EfficiencySummary;
 }
 
 export const SpaceDashboard: React.FC<SpaceDashboardProps> = ({
@@ -32,6 +44,12 @@ export const SpaceDashboard: React.FC<SpaceDashboardProps> = ({
     totalPoints,
     averageApPerHour, // Use the new prop name
     totalWastePoints,
+    openAndonCount = 0,
+    canClockIn = true,
+    goalProgress = [],
+    onAddGoal,
+    onDeleteGoal,
+    efficiency,
 }) => {
 
     // Helper to format numbers concisely
@@ -45,12 +63,17 @@ export const SpaceDashboard: React.FC<SpaceDashboardProps> = ({
     };
 
     return (
-        <Card className="w-full max-w-4xl mb-2 card-shadow">
-          <CardContent className="p-2 grid grid-cols-3 sm:grid-cols-6 gap-x-2 gap-y-1 text-xs items-center">
+        <Card className={`w-full max-w-4xl mb-2 card-shadow ${openAndonCount > 0 ? 'border-destructive ring-1 ring-destructive' : ''}`}>
+          {openAndonCount > 0 && (
+              <div className="flex items-center justify-center gap-1 bg-destructive text-destructive-foreground text-xs font-semibold py-0.5 rounded-t-md">
+                  <AlertTriangle className="h-3 w-3" /> Andon: {openAndonCount} unresolved
+              </div>
+          )}
+          <CardContent className="p-2 grid grid-cols-3 sm:grid-cols-7 gap-x-2 gap-y-1 text-xs items-center">
               {/* Clock In/Out Button */}
               <div className="col-span-1 flex items-center justify-center">
                  {!isClockedIn ? (
-                    <Button variant="outline" size="sm" onClick={onClockIn} disabled={isLoading} className="text-xs w-full h-8">
+                    <Button variant="outline" size="sm" onClick={onClockIn} disabled={isLoading || !canClockIn} className="text-xs w-full h-8">
                         <Clock className="mr-1 h-3 w-3" /> Clock In
                     </Button>
                  ) : (
@@ -100,11 +123,110 @@ export const SpaceDashboard: React.FC<SpaceDashboardProps> = ({
                  isLoading={isLoading && totalWastePoints === 0}
              />
 
+             {/* Efficiency (AP/H net of waste) */}
+             <EfficiencyMetric efficiency={efficiency} formatMetric={formatMetric} />
+
           </CardContent>
+
+          {/* Goals */}
+          {(goalProgress.length > 0 || onAddGoal) && (
+              <div className="border-t px-2 py-1 space-y-1">
+                  {goalProgress.map(({ goal, progress }) => (
+                      <GoalProgressRow key={goal.id} goal={goal} progress={progress} onDelete={onDeleteGoal} />
+                  ))}
+                  {onAddGoal && (
+                      <Button variant="link" size="sm" className="text-xs h-auto p-0" onClick={onAddGoal} disabled={isLoading}>
+                          <Target className="mr-1 h-3 w-3" /> Add Goal
+                      </Button>
+                  )}
+              </div>
+          )}
         </Card>
     );
 };
 
+// Internal component for displaying a single goal's progress bar
+const GoalProgressRow: React.FC<{ goal: Goal; progress: GoalProgress; onDelete?: (goalId: string) => void }> = ({ goal, progress, onDelete }) => {
+    const statusText = progress.status === 'achieved'
+        ? `Achieved${goal.achievedAt ? ` ${formatShortDate(goal.achievedAt)}` : ''}`
+        : progress.status === 'missed'
+            ? 'Missed'
+            : goal.deadline ? `Due ${formatShortDate(goal.deadline)}` : '';
+
+    return (
+        <div className="text-xs">
+            <div className="flex items-center gap-1">
+                <span className="font-semibold truncate">{describeGoal(goal)}</span>
+                <span className="font-mono text-muted-foreground ml-auto">{Math.round(progress.current)}/{progress.target}</span>
+                <span className={`ml-1 ${progress.status === 'achieved' ? 'text-primary' : progress.status === 'missed' ? 'text-destructive' : 'text-muted-foreground'}`}>{statusText}</span>
+                {onDelete && (
+                    <Button variant="ghost" size="icon" className="h-4 w-4" onClick={() => onDelete(goal.id)} aria-label="Delete goal"><X className="h-3 w-3" /></Button>
+                )}
+            </div>
+            <Progress
+                value={progress.ratio * 100}
+                className={`h-1.5 ${goal.metric === 'maxWastePoints' || progress.status === 'missed' ? '[&>div]:bg-destructive' : ''}`}
+            />
+        </div>
+    );
+};
+
+const TREND_ICONS: Record<EfficiencyTrend, React.ElementType> = { up: TrendingUp, down: TrendingDown, flat: Minus };
+const TREND_COLORS: Record<EfficiencyTrend, string> = { up: 'text-primary', down: 'text-destructive', flat: 'text-muted-foreground' };
+const WEEKS_SHOWN = 6;
+
+// Internal component for the efficiency score, with a trend arrow and a popover of its history
+const EfficiencyMetric: React.FC<{ efficiency?: EfficiencySummary; formatMetric: (value: number, precision?: number) => string }> = ({ efficiency, formatMetric }) => {
+    const TrendIcon = efficiency?.trend ? TREND_ICONS[efficiency.trend.trend] : null;
+    const headline = efficiency?.currentSession ?? efficiency?.overall;
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <button className="text-center flex flex-col items-center justify-center h-full p-0 text-xs rounded-md hover:bg-muted" aria-label="Efficiency details">
+                    <span className="font-semibold text-muted-foreground">{efficiency?.currentSession ? 'Eff. (session)' : 'Efficiency'}</span>
+                    <span className="font-mono text-sm flex items-center gap-0.5">
+                        {headline ? formatMetric(headline.score, 1) : 'N/A'}
+                        {TrendIcon && efficiency?.trend && <TrendIcon className={`h-3 w-3 ${TREND_COLORS[efficiency.trend.trend]}`} />}
+                    </span>
+                </button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 text-xs space-y-2">
+                <p className="text-muted-foreground">
+                    AP per clocked hour minus {WASTE_PENALTY_WEIGHT === 1 ? '' : `${WASTE_PENALTY_WEIGHT}× `}waste points per hour.
+                </p>
+                <div className="grid grid-cols-2 gap-1">
+                    <span>Overall</span>
+                    <span className="font-mono text-right">{efficiency?.overall ? formatMetric(efficiency.overall.score, 1) : 'N/A'}</span>
+                    <span>Last session</span>
+                    <span className="font-mono text-right">{efficiency?.lastSession ? formatMetric(efficiency.lastSession.score, 1) : 'N/A'}</span>
+                    {efficiency?.trend && (
+                        <>
+                            <span>vs. previous week</span>
+                            <span className={`font-mono text-right ${TREND_COLORS[efficiency.trend.trend]}`}>
+                                {efficiency.trend.change >= 0 ? '+' : ''}{formatMetric(efficiency.trend.change, 1)}
+                            </span>
+                        </>
+                    )}
+                </div>
+                {efficiency && efficiency.weekly.length > 0 && (
+                    <div>
+                        <p className="font-semibold mb-1">By week</p>
+                        <ul className="space-y-0.5">
+                            {efficiency.weekly.slice(-WEEKS_SHOWN).reverse().map(week => (
+                                <li key={week.weekStart.getTime()} className="flex justify-between">
+                                    <span>{format(week.weekStart, 'MMM d')}</span>
+                                    <span className="font-mono">{formatMetric(week.score, 1)}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+            </PopoverContent>
+        </Popover>
+    );
+};
+
 // Internal component for displaying a single metric
 interface DashboardMetricProps {
     icon: React.ElementType;
@@ -0,0 +1,50 @@
+/**
+ * @fileOverview Badge and selector for a Space's lifecycle status.
+ */
+'use client';
+
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SPACE_STATUS_TRANSITIONS, getSpaceStatus } from '@/core/services/SpaceService';
+import type { Space, SpaceStatus } from '@/core/domain/Space';
+
+export const SPACE_STATUS_LABELS: Record<SpaceStatus, string> = {
+    active: 'Active',
+    paused: 'Paused',
+    completed: 'Completed',
+    archived: 'Archived',
+};
+
+const STATUS_BADGE_VARIANTS: Record<SpaceStatus, 'default' | 'secondary' | 'outline'> = {
+    active: 'default',
+    paused: 'secondary',
+    completed: 'outline',
+    archived: 'outline',
+};
+
+export const SpaceStatusBadge: React.FC<{ space: Pick<Space, 'status'>; className?: string }> = ({ space, className }) => {
+    const status = getSpaceStatus(space);
+    return <Badge variant={STATUS_BADGE_VARIANTS[status]} className={className}>{SPACE_STATUS_LABELS[status]}</Badge>;
+};
+
+interface SpaceStatusSelectProps {
+    space: Space;
+    disabled?: boolean;
+    onChange: (status: SpaceStatus) => void;
+}
+
+// Only offers the transitions SpaceService allows from the current status.
+export const SpaceStatusSelect: React.FC<SpaceStatusSelectProps> = ({ space, disabled, onChange }) => {
+    const status = getSpaceStatus(space);
+    return (
+        <Select value={status} onValueChange={(value) => value !== status && onChange(value as SpaceStatus)} disabled={disabled}>
+            <SelectTrigger className="h-8 w-[120px] text-xs" title="Space status"><SelectValue /></SelectTrigger>
+            <SelectContent>
+                {[status, ...SPACE_STATUS_TRANSITIONS[status]].map(s => (
+                    <SelectItem key={s} value={s} className="text-xs">{SPACE_STATUS_LABELS[s]}</SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    );
+};
@@ -0,0 +1,155 @@
+/**
+ * @fileOverview Dialog for managing a space's waste categories: add custom ones,
+ * edit names and point weights, and archive or restore them.
+ */
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter, DialogClose } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Archive, ArchiveRestore, Save } from 'lucide-react';
+import type { WasteCategory } from '@/core/domain/WasteCategory';
+import type { WasteCategoryInput } from '@/core/services/WasteCategoryService';
+
+interface WasteCategoryManagerProps {
+    spaceId: string;
+    categories: WasteCategory[];
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onCreate: (categoryData: WasteCategoryInput) => Promise<WasteCategory | undefined>;
+    onUpdate: (category: WasteCategory) => Promise<WasteCategory | undefined>;
+    onSetArchived: (id: string, archived: boolean) => Promise<WasteCategory | undefined>;
+}
+
+type Draft = { name: string; points: string };
+
+export const WasteCategoryManager: React.FC<WasteCategoryManagerProps> = ({
+    spaceId,
+    categories,
+    open,
+    onOpenChange,
+    onCreate,
+    onUpdate,
+    onSetArchived,
+}) => {
+    const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+    const [newName, setNewName] = useState('');
+    const [newDescription, setNewDescription] = useState('');
+    const [newPoints, setNewPoints] = useState<number | string>(1);
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Drafts only hold rows being edited; start every opening from the stored values
+    useEffect(() => {
+        if (open) setDrafts({});
+    }, [open]);
+
+    const activeCategories = categories.filter(c => !c.archived);
+    const archivedCategories = categories.filter(c => c.archived);
+
+    const isDirty = (category: WasteCategory) => {
+        const draft = drafts[category.id];
+        return !!draft && (draft.name.trim() !== category.name || Number(draft.points) !== category.points);
+    };
+    const isDraftValid = (draft?: Draft) => !!draft && draft.name.trim() !== '' && Number(draft.points) > 0;
+
+    const run = async (operation: () => Promise<unknown>) => {
+        setIsSaving(true);
+        try {
+            await operation();
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSave = (category: WasteCategory) => run(async () => {
+        const draft = drafts[category.id];
+        if (!isDraftValid(draft)) return;
+        const saved = await onUpdate({ ...category, name: draft.name, points: Number(draft.points) });
+        if (saved) {
+            setDrafts(({ [category.id]: _saved, ...rest }) => rest);
+        }
+    });
+
+    const handleCreate = () => run(async () => {
+        if (!newName.trim() || Number(newPoints) <= 0) return;
+        const created = await onCreate({ spaceId, name: newName, description: newDescription, points: Number(newPoints) });
+        if (created) {
+            setNewName(''); setNewDescription(''); setNewPoints(1);
+        }
+    });
+
+    const updateDraft = (category: WasteCategory, patch: Partial<Draft>) =>
+        setDrafts(prev => ({ ...prev, [category.id]: { ...(prev[category.id] ?? { name: category.name, points: String(category.points) }), ...patch } }));
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>Waste Categories</DialogTitle>
+                    <DialogDescription>Edit names and point weights, or add your own. Changes apply to new entries; logged waste keeps its original points.</DialogDescription>
+                </DialogHeader>
+                <ScrollArea className="max-h-72 pr-2">
+                    <div className="space-y-2 p-1">
+                        {activeCategories.map(category => {
+                            const draft = drafts[category.id];
+                            return (
+                                <div key={category.id} className="flex items-center gap-2">
+                                    <Input
+                                        aria-label="Category name"
+                                        className="h-8 text-xs flex-1"
+                                        value={draft?.name ?? category.name}
+                                        onChange={(e) => updateDraft(category, { name: e.target.value })}
+                                    />
+                                    <Input
+                                        aria-label="Points"
+                                        type="number"
+                                        min="1"
+                                        className="h-8 text-xs w-16"
+                                        value={draft?.points ?? category.points}
+                                        onChange={(e) => updateDraft(category, { points: e.target.value })}
+                                    />
+                                    <Button size="icon" variant="ghost" className="h-8 w-8" title="Save" onClick={() => handleSave(category)} disabled={isSaving || !isDirty(category) || !isDraftValid(draft)}>
+                                        <Save className="h-4 w-4" />
+                                    </Button>
+                                    <Button size="icon" variant="ghost" className="h-8 w-8" title="Archive" onClick={() => run(() => onSetArchived(category.id, true))} disabled={isSaving}>
+                                        <Archive className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            );
+                        })}
+                        {activeCategories.length === 0 && <p className="text-xs text-muted-foreground text-center p-2">No active categories. Add one below or restore an archived one.</p>}
+
+                        {archivedCategories.length > 0 && (
+                            <div className="pt-2">
+                                <p className="text-xs font-semibold text-muted-foreground mb-1">Archived</p>
+                                {archivedCategories.map(category => (
+                                    <div key={category.id} className="flex items-center justify-between text-xs text-muted-foreground py-1">
+                                        <span>{category.name} (+{category.points})</span>
+                                        <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => run(() => onSetArchived(category.id, false))} disabled={isSaving}>
+                                            <ArchiveRestore className="h-3 w-3 mr-1" /> Restore
+                                        </Button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </ScrollArea>
+                <div className="grid gap-2 border-t pt-3">
+                    <Label className="text-xs">Add Category</Label>
+                    <div className="flex gap-2">
+                        <Input className="h-8 text-xs flex-1" value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="e.g., Context switching" />
+                        <Input aria-label="Points" type="number" min="1" className="h-8 text-xs w-16" value={newPoints} onChange={(e) => setNewPoints(e.target.value)} />
+                    </div>
+                    <Input className="h-8 text-xs" value={newDescription} onChange={(e) => setNewDescription(e.target.value)} placeholder="Description (optional)" />
+                </div>
+                <DialogFooter>
+                    <DialogClose asChild><Button type="button" variant="secondary" disabled={isSaving}>Close</Button></DialogClose>
+                    <Button type="button" onClick={handleCreate} disabled={isSaving || !newName.trim() || Number(newPoints) <= 0}>Add Category</Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
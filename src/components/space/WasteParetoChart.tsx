@@ -0,0 +1,38 @@
+/**
+ * @fileOverview Pareto chart of waste categories: bars ranked by count or points with a cumulative share line.
+ */
+'use client';
+
+import React from 'react';
+import { Bar, CartesianGrid, ComposedChart, Line, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { PARETO_THRESHOLD, type WasteMetric, type WasteParetoItem } from '@/core/analytics/waste';
+
+interface WasteParetoChartProps {
+    items: WasteParetoItem[];
+    metric: WasteMetric;
+}
+
+export const WasteParetoChart: React.FC<WasteParetoChartProps> = ({ items, metric }) => {
+    const config: ChartConfig = {
+        value: { label: metric === 'count' ? 'Entries' : 'Waste Points', color: 'hsl(var(--destructive))' },
+        cumulativeShare: { label: 'Cumulative %', color: 'hsl(var(--primary))' },
+    };
+
+    return (
+        <ChartContainer config={config} className="h-64 w-full aspect-auto">
+            <ComposedChart data={items} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="name" tickLine={false} axisLine={false} interval={0} tick={{ fontSize: 10 }} />
+                <YAxis yAxisId="value" tickLine={false} axisLine={false} allowDecimals={false} />
+                <YAxis yAxisId="share" orientation="right" domain={[0, 100]} tickLine={false} axisLine={false} tickFormatter={(v: number) => `${v}%`} />
+                <ChartTooltip content={<ChartTooltipContent formatter={(value, name) => (
+                    <span>{config[name as keyof typeof config]?.label}: <span className="font-mono font-medium">{name === 'cumulativeShare' ? `${Number(value).toFixed(0)}%` : value}</span></span>
+                )} />} />
+                <ReferenceLine yAxisId="share" y={PARETO_THRESHOLD} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+                <Bar yAxisId="value" dataKey="value" fill="var(--color-value)" radius={[4, 4, 0, 0]} />
+                <Line yAxisId="share" dataKey="cumulativeShare" type="monotone" stroke="var(--color-cumulativeShare)" strokeWidth={2} dot={{ r: 3 }} />
+            </ComposedChart>
+        </ChartContainer>
+    );
+};
@@ -0,0 +1,32 @@
+/**
+ * @fileOverview Bar chart of waste bucketed by hour of day or day of week.
+ */
+'use client';
+
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import type { WasteMetric, WasteTimeBucket } from '@/core/analytics/waste';
+
+interface WasteTimeChartProps {
+    buckets: WasteTimeBucket[];
+    metric: WasteMetric;
+}
+
+export const WasteTimeChart: React.FC<WasteTimeChartProps> = ({ buckets, metric }) => {
+    const config: ChartConfig = {
+        [metric]: { label: metric === 'count' ? 'Entries' : 'Waste Points', color: 'hsl(var(--destructive))' },
+    };
+
+    return (
+        <ChartContainer config={config} className="h-48 w-full aspect-auto">
+            <BarChart data={buckets} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} tick={{ fontSize: 10 }} />
+                <YAxis tickLine={false} axisLine={false} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey={metric} fill={`var(--color-${metric})`} radius={[4, 4, 0, 0]} />
+            </BarChart>
+        </ChartContainer>
+    );
+};
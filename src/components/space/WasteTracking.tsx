@@ -15,6 +15,9 @@ interface WasteTrackingProps {
     isLoading: boolean;
     onAddWasteClick: () => void;
     onShowDetailsClick: () => void;
+    onManageCategoriesClick: () => void;
+    onAnalyticsClick: () => void;
+    isReadOnly?: boolean; // Completed/Archived spaces: no waste logging
 }
 
 export const WasteTracking: React.FC<WasteTrackingProps> = ({
@@ -23,6 +26,9 @@ export const WasteTracking: React.FC<WasteTrackingProps> = ({
     isLoading,
     onAddWasteClick,
     onShowDetailsClick,
+    onManageCategoriesClick,
+    onAnalyticsClick,
+    isReadOnly = false,
 }) => {
     const latestWaste = wasteEntries.length > 0 ? wasteEntries[0] : null;
 
@@ -30,7 +36,15 @@ export const WasteTracking: React.FC<WasteTrackingProps> = ({
         <div className="mt-3 w-full max-w-4xl">
             <div className="flex justify-between items-center mb-1">
                  <h2 className="text-base font-bold">Waste</h2>
-                 <Button size="sm" onClick={onAddWasteClick} disabled={isLoading}>Add Waste</Button>
+                 <div className="flex gap-1">
+                    <Button size="sm" variant="outline" onClick={onAnalyticsClick} disabled={wasteEntries.length === 0}>Analytics</Button>
+                    {!isReadOnly && (
+                        <>
+                            <Button size="sm" variant="outline" onClick={onManageCategoriesClick} disabled={isLoading}>Categories</Button>
+                            <Button size="sm" onClick={onAddWasteClick} disabled={isLoading}>Add Waste</Button>
+                        </>
+                    )}
+                 </div>
             </div>
 
             {isLoading && wasteEntries.length === 0 && <Skeleton className="h-10 w-full" />}
@@ -12,26 +12,63 @@ import {
   useEffect,
   useContext,
   useMemo,
+  useRef,
 } from 'react';
 import { toast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import { imageUrlToDataUri } from '@/utils/imageUtils';
 
 // Import Domain Models
-import type { Space } from '@/core/domain/Space';
+import type { Space, SpaceStatus } from '@/core/domain/Space';
 import type { Action } from '@/core/domain/Action';
 import type { MultiStepAction, ActionStep } from '@/core/domain/MultiStepAction';
-import type { LogEntry } from '@/core/domain/LogEntry';
-import type { WasteEntry } from '@/core/domain/WasteEntry';
+import type { LogEntry, LogEntryCursor, LogEntryFilter, LogEntryPage } from '@/core/domain/LogEntry';
+import type { WasteEntry, WasteEntryDetails } from '@/core/domain/WasteEntry';
+import type { WasteCategory } from '@/core/domain/WasteCategory';
+import type { RootCauseAnalysis } from '@/core/domain/RootCauseAnalysis';
 import type { Comment } from '@/core/domain/Comment';
 import type { TodoItem } from '@/core/domain/TodoItem'; // Import TodoItem
+import type { Andon } from '@/core/domain/Andon';
+import type { Goal } from '@/core/domain/Goal';
+import type { TipDismissal, TipId } from '@/core/domain/Tip';
+import type { FocusProgress, LevelUpEvent } from '@/core/domain/Progression';
+import type { StreakSummary, UnlockedAchievement } from '@/core/domain/Achievement';
+import type { InsightPurchase, InsightWallet } from '@/core/domain/Insight';
+import type { WorkspaceBackup, SpaceBundle, ImportOptions, ImportSummary } from '@/core/domain/WorkspaceBackup';
 
 // Import Service Layer
-import { SpaceService } from '@/core/services/SpaceService';
+import { SpaceService, getSpaceStatus, isSpaceReadOnly } from '@/core/services/SpaceService';
 import { ActionService } from '@/core/services/ActionService';
 import { MultiStepActionService } from '@/core/services/MultiStepActionService';
 import { LogEntryService } from '@/core/services/LogEntryService';
 import { WasteEntryService } from '@/core/services/WasteEntryService';
+import { WasteCategoryService, type WasteCategoryInput } from '@/core/services/WasteCategoryService';
+import { RootCauseAnalysisService, type RootCauseAnalysisInput } from '@/core/services/RootCauseAnalysisService';
 import { CommentService } from '@/core/services/CommentService';
 import { TodoService } from '@/core/services/TodoService'; // Import TodoService
+import { AndonService } from '@/core/services/AndonService';
+import { GoalService, type GoalEvaluationResult } from '@/core/services/GoalService';
+import { TipService } from '@/core/services/TipService';
+import { ProgressionService } from '@/core/services/ProgressionService';
+import { AchievementService } from '@/core/services/AchievementService';
+import { InsightService } from '@/core/services/InsightService';
+import { WorkspaceBackupService } from '@/core/services/WorkspaceBackupService';
+import { CsvExportService, type CsvExportKind } from '@/core/services/CsvExportService';
+import type { DateRange } from '@/core/analytics/sessions';
+import { PortfolioService } from '@/core/services/PortfolioService';
+import type { PortfolioSummary } from '@/core/analytics/portfolio';
+import type { ActivityRecords } from '@/core/analytics/heatmap';
+import { ControlChartService } from '@/core/services/ControlChartService';
+import type { ControlChart, SpcMetric } from '@/core/analytics/spc';
+import type { WorkSession } from '@/core/analytics/sessions';
+import { getTimeToResolveMinutes } from '@/core/analytics/andons';
+import { describeGoal, goalBonusEntryId } from '@/core/analytics/goals';
+import { formatLoggedActionName } from '@/core/analytics/actionLog';
+import { formatCycleTime } from '@/core/analytics/quests';
+import type { LogCorrectionKind } from '@/core/analytics/logCorrections';
+import { ACHIEVEMENTS_BY_ID } from '@/core/analytics/achievements';
+import { INSIGHT_SHOP_ITEMS_BY_ID, parseInsightRate } from '@/core/analytics/insight';
+import { getFocusProgress, getActionSlotLimit, FEATURE_UNLOCK_LEVELS, FEATURE_LABELS } from '@/core/analytics/progression';
 
 // Import Repository Factory (using the singleton instance)
 import { repositoryFactory } from '@/infrastructure/persistence/IndexedDBRepositoryFactory';
@@ -43,17 +80,33 @@ const actionRepository = repositoryFactory.createActionRepository();
 const multiStepActionRepository = repositoryFactory.createMultiStepActionRepository();
 const logEntryRepository = repositoryFactory.createLogEntryRepository();
 const wasteEntryRepository = repositoryFactory.createWasteEntryRepository();
+const wasteCategoryRepository = repositoryFactory.createWasteCategoryRepository();
+const rootCauseAnalysisRepository = repositoryFactory.createRootCauseAnalysisRepository();
 const commentRepository = repositoryFactory.createCommentRepository();
 const todoRepository = repositoryFactory.createTodoRepository(); // Create Todo repository
+const andonRepository = repositoryFactory.createAndonRepository();
+const goalRepository = repositoryFactory.createGoalRepository();
+const tipDismissalRepository = repositoryFactory.createTipDismissalRepository();
+const levelUpRepository = repositoryFactory.createLevelUpRepository();
+const achievementRepository = repositoryFactory.createAchievementRepository();
+const insightRepository = repositoryFactory.createInsightRepository();
 
 // Create instances of services, injecting repositories
 // Instantiate dependent services first
 const logEntryService = new LogEntryService(logEntryRepository);
 const actionService = new ActionService(actionRepository);
 const multiStepActionService = new MultiStepActionService(multiStepActionRepository);
-const wasteEntryService = new WasteEntryService(wasteEntryRepository);
+const wasteEntryService = new WasteEntryService(wasteEntryRepository, wasteCategoryRepository);
+const wasteCategoryService = new WasteCategoryService(wasteCategoryRepository);
 const commentService = new CommentService(commentRepository);
 const todoService = new TodoService(todoRepository); // Instantiate TodoService
+const rootCauseAnalysisService = new RootCauseAnalysisService(rootCauseAnalysisRepository, todoService);
+const andonService = new AndonService(andonRepository);
+const goalService = new GoalService(goalRepository, logEntryService, wasteEntryService);
+const tipService = new TipService(tipDismissalRepository);
+const progressionService = new ProgressionService(levelUpRepository, logEntryRepository);
+const insightService = new InsightService(insightRepository, spaceRepository, parseInsightRate(process.env.NEXT_PUBLIC_INSIGHT_PER_HOUR));
+const achievementService = new AchievementService(achievementRepository, logEntryRepository, wasteEntryRepository, todoRepository, multiStepActionRepository, rootCauseAnalysisRepository);
 // Inject all services into SpaceService for cascading deletes and duplication
 const spaceService = new SpaceService(
     spaceRepository,
@@ -62,11 +115,33 @@ const spaceService = new SpaceService(
     logEntryService,
     wasteEntryService,
     commentService,
-    todoService // Inject TodoService
+    todoService, // Inject TodoService
+    andonService,
+    goalService,
+    tipService,
+    wasteCategoryService,
+    rootCauseAnalysisService
 );
+// Backup service reads every store directly through the repository factory
+const workspaceBackupService = new WorkspaceBackupService(repositoryFactory);
+const csvExportService = new CsvExportService(logEntryService, wasteEntryService);
+const controlChartService = new ControlChartService(logEntryService);
+const portfolioService = new PortfolioService(spaceRepository, logEntryRepository, wasteEntryRepository, multiStepActionRepository, commentRepository);
+
+// How many operations can be undone; older ones drop off the stack
+const UNDO_STACK_LIMIT = 10;
 
 // --- Context Props Interface ---
 
+// A recent operation that can be taken back from its toast or with undoLastOperation
+interface UndoableOperation {
+  id: number;
+  label: string; // What the operation did, e.g. 'Logged "Process Inbox (x2)"'
+  logEntryIds: string[]; // Log entries it created, so correcting one of them retires the undo
+  undo: () => Promise<void>;
+}
+
+
 interface SpaceContextProps {
   // State
   spaces: Space[];
@@ -75,8 +150,20 @@ interface SpaceContextProps {
   multiStepActions: MultiStepAction[];
   logEntries: LogEntry[];
   wasteEntries: WasteEntry[];
+  wasteCategories: WasteCategory[]; // Waste categories for the current space, archived included, oldest first
+  rootCauseAnalyses: RootCauseAnalysis[]; // Root-cause analyses of the current space's waste, newest first
   comments: Comment[];
   todos: TodoItem[]; // Add todos state
+  andons: Andon[]; // All Andons for the current space, newest first
+  activeAndons: Andon[]; // Unresolved Andons across all spaces (for flagging the home list)
+  goals: Goal[]; // Quantitative goals for the current space, oldest first
+  tipDismissals: TipDismissal[]; // Dismissed or snoozed mascot tips for the current space
+  focusProgress: FocusProgress; // User-level XP and Focus Level across all spaces
+  levelUps: LevelUpEvent[]; // Levels reached so far, lowest first
+  achievements: UnlockedAchievement[]; // Unlocked achievements across all spaces, oldest first
+  clockInStreak: StreakSummary; // Consecutive clock-in days across all spaces
+  insightWallet: InsightWallet; // Passive currency earned while clocked in
+  insightRatePerHour: number;
   isLoading: boolean; // Flag for loading states
   error: string | null; // To display errors
 
@@ -91,15 +178,37 @@ interface SpaceContextProps {
   duplicateSpace: (spaceId: string) => Promise<void>;
   setClockInState: (spaceId: string, startTime: Date) => Promise<void>; // New method for clock state
   clearClockInState: (spaceId: string) => Promise<void>; // New method for clock state
+  changeSpaceStatus: (spaceId: string, status: SpaceStatus) => Promise<Space | undefined>;
 
   createAction: (actionData: Omit<Action, 'id'>) => Promise<Action | undefined>;
 
   createMultiStepAction: (actionData: Omit<MultiStepAction, 'id' | 'currentStepIndex' | 'steps'> & { steps: Omit<ActionStep, 'id' | 'completed'>[] }) => Promise<MultiStepAction | undefined>;
   completeMultiStepActionStep: (actionId: string) => Promise<MultiStepAction | undefined>;
 
+  // Action Management (archived actions stay in state; the action list filters them out)
+  updateAction: (action: Action) => Promise<Action | undefined>;
+  setActionArchived: (id: string, archived: boolean) => Promise<Action | undefined>;
+  deleteAction: (id: string) => Promise<void>;
+  reorderActions: (spaceId: string, orderedIds: string[]) => Promise<void>;
+  updateMultiStepAction: (action: MultiStepAction) => Promise<MultiStepAction | undefined>;
+  setMultiStepActionArchived: (id: string, archived: boolean) => Promise<MultiStepAction | undefined>;
+  resetMultiStepAction: (id: string) => Promise<MultiStepAction | undefined>; // Back to step 1; an unfinished run is abandoned
+  deleteMultiStepAction: (id: string) => Promise<void>;
+  reorderMultiStepActions: (spaceId: string, orderedIds: string[]) => Promise<void>;
+
   addLogEntry: (logEntryData: Omit<LogEntry, 'id' | 'timestamp'>) => Promise<LogEntry | undefined>;
 
-  addWasteEntries: (spaceId: string, categoryIds: string[]) => Promise<WasteEntry[]>;
+  addWasteEntries: (spaceId: string, categoryIds: string[], details?: WasteEntryDetails) => Promise<WasteEntry[]>;
+
+  // Waste Category Actions
+  createWasteCategory: (categoryData: WasteCategoryInput) => Promise<WasteCategory | undefined>;
+  updateWasteCategory: (category: WasteCategory) => Promise<WasteCategory | undefined>;
+  setWasteCategoryArchived: (id: string, archived: boolean) => Promise<WasteCategory | undefined>;
+
+  // Root-Cause Analysis Actions
+  createRootCauseAnalysis: (analysisData: RootCauseAnalysisInput, createCountermeasureTodo: boolean) => Promise<RootCauseAnalysis | undefined>;
+  createCountermeasureTodo: (analysisId: string) => Promise<TodoItem | undefined>;
+  deleteRootCauseAnalysis: (id: string) => Promise<void>;
 
   addComment: (commentData: Omit<Comment, 'id' | 'timestamp'>) => Promise<Comment | undefined>;
 
@@ -107,6 +216,42 @@ interface SpaceContextProps {
   createTodoItem: (itemData: Omit<TodoItem, 'id' | 'dateCreated' | 'completed'>) => Promise<TodoItem | undefined>;
   updateTodoItem: (item: TodoItem) => Promise<void>;
   deleteTodoItem: (id: string) => Promise<void>;
+
+  // Andon Actions
+  raiseAndon: (spaceId: string, comment: string) => Promise<Andon | undefined>;
+  acknowledgeAndon: (id: string) => Promise<Andon | undefined>;
+  resolveAndon: (id: string, resolutionNote: string) => Promise<Andon | undefined>;
+
+  // Goal Actions
+  createGoal: (goalData: Omit<Goal, 'id' | 'dateCreated' | 'achievedAt'>) => Promise<Goal | undefined>;
+  deleteGoal: (id: string) => Promise<void>;
+
+  // Tip Actions
+  dismissTip: (spaceId: string, tipId: TipId, snoozeHours?: number) => Promise<void>;
+
+  // Insight Actions
+  purchaseInsightItem: (itemId: string) => Promise<InsightPurchase | undefined>;
+
+  // Backup Actions
+  exportWorkspace: () => Promise<WorkspaceBackup | undefined>;
+  importWorkspace: (raw: unknown, options: ImportOptions) => Promise<ImportSummary | undefined>;
+  exportSpaceBundle: (spaceId: string) => Promise<SpaceBundle | undefined>;
+  importSpaceBundle: (raw: unknown) => Promise<Space | undefined>;
+  exportCsv: (kind: CsvExportKind, spaceId: string, range?: DateRange) => Promise<string | undefined>;
+
+  // Analytics Queries (read any space without making it the current one)
+  fetchWasteEntries: (spaceId: string) => Promise<WasteEntry[] | undefined>;
+  fetchPortfolioSummary: () => Promise<PortfolioSummary | undefined>;
+  fetchWorkspaceActivity: () => Promise<ActivityRecords | undefined>;
+  fetchControlChart: (spaceId: string, metric: SpcMetric) => Promise<ControlChart | undefined>;
+  fetchLogEntryPage: (spaceId: string, filter: LogEntryFilter, cursor?: LogEntryCursor) => Promise<LogEntryPage | undefined>;
+  fetchWorkSessions: (spaceId: string) => Promise<WorkSession[] | undefined>;
+
+  // Undo & Log Corrections
+  undoStack: Pick<UndoableOperation, 'id' | 'label'>[]; // Most recent last; logging actions and steps and adding waste push onto it
+  undoOperation: (id: number) => Promise<void>;
+  undoLastOperation: () => Promise<void>;
+  correctLogEntry: (id: string, kind: LogCorrectionKind, reason?: string) => Promise<{ entry: LogEntry; correction: LogEntry; revokedGoals: Goal[] } | undefined>; // The corrected entry, its audit entry and the goals it took back
 }
 
 // --- Context Definition ---
@@ -134,10 +279,25 @@ export const SpaceProvider = ({ children }: SpaceProviderProps) => {
   const [multiStepActions, setMultiStepActions] = useState<MultiStepAction[]>([]);
   const [logEntries, setLogEntries] = useState<LogEntry[]>([]);
   const [wasteEntries, setWasteEntries] = useState<WasteEntry[]>([]);
+  const [wasteCategories, setWasteCategories] = useState<WasteCategory[]>([]);
+  const [rootCauseAnalyses, setRootCauseAnalyses] = useState<RootCauseAnalysis[]>([]);
   const [comments, setComments] = useState<Comment[]>([]);
   const [todos, setTodos] = useState<TodoItem[]>([]); // Add todos state
+  const [andons, setAndons] = useState<Andon[]>([]);
+  const [activeAndons, setActiveAndons] = useState<Andon[]>([]);
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [tipDismissals, setTipDismissals] = useState<TipDismissal[]>([]);
+  const [focusProgress, setFocusProgress] = useState<FocusProgress>(() => getFocusProgress(0));
+  const [levelUps, setLevelUps] = useState<LevelUpEvent[]>([]);
+  const [achievements, setAchievements] = useState<UnlockedAchievement[]>([]);
+  const [clockInStreak, setClockInStreak] = useState<StreakSummary>({ current: 0, longest: 0 });
+  const [insightWallet, setInsightWallet] = useState<InsightWallet>({ balance: 0, totalEarned: 0, totalSpent: 0, purchases: [] });
+  const [undoStack, setUndoStack] = useState<UndoableOperation[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true); // Start loading initially
   const [error, setError] = useState<string | null>(null);
+  // Toast Undo buttons outlive the render that created them, so they read the stack through a ref
+  const undoStackRef = useRef<UndoableOperation[]>([]);
+  const nextUndoIdRef = useRef(1);
 
   // --- Helper Functions ---
   const handleAsyncOperation = async <T>(operation: () => Promise<T>, loadingMessage: string = "Loading...", errorMessagePrefix: string = "Error"): Promise<T | undefined> => {
@@ -157,15 +317,182 @@ export const SpaceProvider = ({ children }: SpaceProviderProps) => {
     }
   };
 
+  // Recomputes XP across all spaces and records newly reached levels.
+  // Pass `announce` to toast level-ups caused by the user's latest action.
+  const refreshProgress = useCallback(async (announce: boolean) => {
+    try {
+      const { progress, levelUps: history, newLevelUps } = await progressionService.refreshProgress();
+      setFocusProgress(progress);
+      setLevelUps(history);
+      if (!announce) return;
+      newLevelUps.forEach(event => {
+        const unlocked = (Object.keys(FEATURE_UNLOCK_LEVELS) as (keyof typeof FEATURE_UNLOCK_LEVELS)[])
+          .filter(feature => FEATURE_UNLOCK_LEVELS[feature] === event.level)
+          .map(feature => FEATURE_LABELS[feature]);
+        const slots = `Action slots per space: ${getActionSlotLimit(event.level)}.`;
+        toast({ title: `Focus Level ${event.level}!`, description: unlocked.length > 0 ? `Unlocked: ${unlocked.join(', ')}. ${slots}` : slots });
+      });
+    } catch (err) {
+      console.error("Failed to refresh Focus Level progress:", err);
+    }
+  }, []);
+
+  // Runs the achievement rules against all spaces' data and records new unlocks.
+  // Pass `announce` to toast unlocks caused by the user's latest action.
+  const evaluateAchievements = useCallback(async (announce: boolean) => {
+    try {
+      const { unlocked, newlyUnlocked, clockInStreak: streak } = await achievementService.evaluateAchievements();
+      setAchievements(unlocked);
+      setClockInStreak(streak);
+      if (!announce) return;
+      newlyUnlocked.forEach(({ achievementId }) => {
+        const definition = ACHIEVEMENTS_BY_ID.get(achievementId);
+        if (definition) {
+          toast({ title: "Achievement Unlocked!", description: `${definition.title}: ${definition.description}` });
+        }
+      });
+    } catch (err) {
+      console.error("Failed to evaluate achievements:", err);
+    }
+  }, []);
+
+  // Credits Insight for clocked-in time (derived from clock-in times, so time while the app was
+  // closed counts too) and reloads the wallet. Pass a clockOut entry to settle its session first.
+  const refreshInsight = useCallback(async (clockOutEntry?: LogEntry) => {
+    try {
+      if (clockOutEntry?.clockInTime && clockOutEntry.clockOutTime) {
+        await insightService.accrueSession(clockOutEntry.spaceId, clockOutEntry.clockInTime, clockOutEntry.clockOutTime);
+      }
+      await insightService.accrueOpenSessions();
+      setInsightWallet(await insightService.getWallet());
+    } catch (err) {
+      console.error("Failed to update Insight:", err);
+    }
+  }, []);
+
+  // Records goals hit by the latest change and awards their bonus points; returns them so an undo
+  // of the change can take them back. Failures are logged rather than surfaced so they never undo
+  // the write that triggered them.
+  const evaluateGoals = useCallback(async (spaceId: string): Promise<GoalEvaluationResult> => {
+    try {
+      const result = await goalService.evaluateGoals(spaceId);
+      const { achievedGoals, bonusEntries } = result;
+      if (achievedGoals.length === 0) return result;
+      setGoals(prev => prev.map(g => achievedGoals.find(a => a.id === g.id) ?? g));
+      if (bonusEntries.length > 0) {
+        setLogEntries(prev => [...bonusEntries, ...prev].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()));
+        await refreshProgress(true);
+      }
+      achievedGoals.forEach(goal => {
+        toast({ title: "Goal Achieved!", description: `${describeGoal(goal)}${goal.bonusPoints > 0 ? ` (+${goal.bonusPoints} bonus AP)` : ''}` });
+      });
+      return result;
+    } catch (err) {
+      console.error("Failed to evaluate goals:", err);
+      return { achievedGoals: [], bonusEntries: [] };
+    }
+  }, [refreshProgress]);
+
+  // Takes back the goals an undone change achieved, with their bonus points. Goals the remaining
+  // data still meets are achieved again straight away.
+  const revokeGoals = useCallback(async (spaceId: string, { achievedGoals, bonusEntries }: GoalEvaluationResult) => {
+    if (achievedGoals.length === 0) return;
+    const revoked = await goalService.revokeGoals(spaceId, achievedGoals);
+    setGoals(prev => prev.map(g => revoked.find(r => r.id === g.id) ?? g));
+    setLogEntries(prev => prev.filter(e => !bonusEntries.some(b => b.id === e.id)));
+    if (bonusEntries.length > 0) {
+      await refreshProgress(false);
+    }
+    await evaluateGoals(spaceId);
+  }, [evaluateGoals, refreshProgress]);
+
+  // Takes back achieved goals the space's counted entries no longer meet, e.g. after a void or
+  // delete, with their bonus points. Failures are logged like evaluateGoals'.
+  const revokeUnmetGoals = useCallback(async (spaceId: string): Promise<Goal[]> => {
+    try {
+      const revoked = await goalService.revokeUnmetGoals(spaceId);
+      if (revoked.length === 0) return revoked;
+      const bonusIds = revoked.map(g => goalBonusEntryId(g.id));
+      setGoals(prev => prev.map(g => revoked.find(r => r.id === g.id) ?? g));
+      setLogEntries(prev => prev.filter(e => !bonusIds.includes(e.id)));
+      if (revoked.some(g => g.bonusPoints > 0)) {
+        await refreshProgress(false);
+      }
+      revoked.forEach(goal => {
+        toast({ title: "Goal No Longer Met", description: `${describeGoal(goal)}${goal.bonusPoints > 0 ? ` (-${goal.bonusPoints} bonus AP)` : ''}` });
+      });
+      return revoked;
+    } catch (err) {
+      console.error("Failed to re-check goals:", err);
+      return [];
+    }
+  }, [refreshProgress]);
+
+  // --- Undo ---
+  const replaceUndoStack = (stack: UndoableOperation[]) => {
+    undoStackRef.current = stack;
+    setUndoStack(stack);
+  };
+
+  const undoOperation = useCallback(async (id: number) => {
+    const operation = undoStackRef.current.find(o => o.id === id);
+    if (!operation) {
+      toast({ title: "Nothing to Undo", description: "That change can no longer be undone." });
+      return;
+    }
+    replaceUndoStack(undoStackRef.current.filter(o => o.id !== id));
+    const undone = await handleAsyncOperation(async () => {
+      await operation.undo();
+      return true;
+    }, "Undoing...", "Failed to undo");
+    if (undone) {
+      toast({ title: "Undone", description: operation.label });
+    }
+  }, []);
+
+  const undoLastOperation = useCallback(async () => {
+    const latest = undoStackRef.current[undoStackRef.current.length - 1];
+    if (latest) await undoOperation(latest.id);
+  }, [undoOperation]);
+
+  // Pushes an operation onto the undo stack and shows its confirmation toast with an Undo button.
+  const registerUndo = useCallback((toastContent: { title: string; description: string }, operation: Omit<UndoableOperation, 'id'>) => {
+    const id = nextUndoIdRef.current++;
+    replaceUndoStack([...undoStackRef.current, { ...operation, id }].slice(-UNDO_STACK_LIMIT));
+    toast({
+      ...toastContent,
+      action: <ToastAction altText={`Undo: ${operation.label}`} onClick={() => undoOperation(id)}>Undo</ToastAction>,
+    });
+  }, [undoOperation]);
+
+  // Deletes a log entry created moments ago, taking back the goals it achieved.
+  const removeLogEntry = useCallback(async (entry: LogEntry, goalResult?: GoalEvaluationResult) => {
+    await logEntryService.deleteLogEntry(entry.id);
+    setLogEntries(prev => prev.filter(e => e.id !== entry.id));
+    if (entry.points !== 0) {
+      await refreshProgress(false);
+    }
+    if (goalResult) {
+      await revokeGoals(entry.spaceId, goalResult);
+    }
+  }, [refreshProgress, revokeGoals]);
+
   // --- Data Loading ---
   const loadSpaces = useCallback(async () => {
     setIsLoading(true); // Set loading true when starting to load spaces
     await handleAsyncOperation(async () => {
-        const loadedSpaces = await spaceService.getAllSpaces();
+        const [loadedSpaces, loadedActiveAndons] = await Promise.all([
+            spaceService.getAllSpaces(),
+            andonService.getActiveAndons(),
+        ]);
         setSpaces(loadedSpaces);
+        setActiveAndons(loadedActiveAndons);
     }, "Loading spaces...", "Failed to load spaces");
+    await refreshProgress(false); // XP can change after deletes and imports, so recompute with the list
+    await evaluateAchievements(false); // Backfills unlocks earned before achievements existed
+    await refreshInsight();
     setIsLoading(false); // Set loading false after spaces are loaded
-  }, []);
+  }, [refreshProgress, evaluateAchievements, refreshInsight]);
 
   const loadSpaceDetails = useCallback(async (spaceId: string) => {
     setIsLoading(true);
@@ -175,8 +502,13 @@ export const SpaceProvider = ({ children }: SpaceProviderProps) => {
     setMultiStepActions([]);
     setLogEntries([]);
     setWasteEntries([]);
+    setWasteCategories([]);
+    setRootCauseAnalyses([]);
     setComments([]);
     setTodos([]); // Clear previous todos
+    setAndons([]);
+    setGoals([]);
+    setTipDismissals([]);
 
     await handleAsyncOperation(async () => {
         const spaceDetails = await spaceService.getSpace(spaceId);
@@ -192,23 +524,38 @@ export const SpaceProvider = ({ children }: SpaceProviderProps) => {
             loadedMultiStepActions,
             loadedLogEntries,
             loadedWasteEntries,
+            loadedWasteCategories,
+            loadedRootCauseAnalyses,
             loadedComments,
-            loadedTodos // Load todos
+            loadedTodos, // Load todos
+            loadedAndons,
+            loadedGoals,
+            loadedTipDismissals,
         ] = await Promise.all([
             actionService.getActionsForSpace(spaceId),
             multiStepActionService.getMultiStepActionsForSpace(spaceId),
             logEntryService.getLogEntriesForSpace(spaceId),
             wasteEntryService.getWasteEntriesForSpace(spaceId),
+            wasteCategoryService.getCategoriesForSpace(spaceId), // Seeds TIMWOODS on first load
+            rootCauseAnalysisService.getAnalysesForSpace(spaceId),
             commentService.getCommentsForSpace(spaceId),
             todoService.getTodoItemsForSpace(spaceId), // Fetch todos
+            andonService.getAndonsForSpace(spaceId),
+            goalService.getGoalsForSpace(spaceId),
+            tipService.getDismissalsForSpace(spaceId),
         ]);
 
         setActions(loadedActions);
         setMultiStepActions(loadedMultiStepActions);
         setLogEntries(loadedLogEntries);
         setWasteEntries(loadedWasteEntries);
+        setWasteCategories(loadedWasteCategories);
+        setRootCauseAnalyses(loadedRootCauseAnalyses);
         setComments(loadedComments);
         setTodos(loadedTodos); // Set todos state
+        setAndons(loadedAndons);
+        setGoals(loadedGoals);
+        setTipDismissals(loadedTipDismissals);
 
          console.log(`Details loaded for space ${spaceId}:`, {
             spaceDetails,
@@ -216,20 +563,34 @@ export const SpaceProvider = ({ children }: SpaceProviderProps) => {
             loadedMultiStepActions,
             loadedLogEntries,
             loadedWasteEntries,
+            loadedWasteCategories,
+            loadedRootCauseAnalyses,
             loadedComments,
             loadedTodos, // Log loaded todos
+            loadedAndons,
+            loadedGoals,
+            loadedTipDismissals,
         });
 
+        // Deadline-based goals (waste ceilings) can be met without any new writes
+        await evaluateGoals(spaceId);
+
     }, `Loading details for space ${spaceId}...`, `Failed to load details for space ${spaceId}`);
 
     setIsLoading(false);
-  }, []);
+  }, [evaluateGoals]);
 
   // Initial load of all spaces
   useEffect(() => {
     loadSpaces();
   }, [loadSpaces]);
 
+  // Keep Insight ticking while the app is open; accrual is idempotent, so other tabs doing the same is harmless
+  useEffect(() => {
+    const intervalId = setInterval(() => { refreshInsight(); }, 60 * 1000);
+    return () => clearInterval(intervalId);
+  }, [refreshInsight]);
+
   // --- Data Modification Wrappers ---
 
   const createSpace = useCallback(async (spaceData: Omit<Space, 'id' | 'dateCreated' | 'dateModified' | 'totalClockedInTime' | 'isClockedIn' | 'clockInStartTime'>) => {
@@ -288,6 +649,30 @@ export const SpaceProvider = ({ children }: SpaceProviderProps) => {
     }, "Clearing clock-in state...", "Failed to clear clock-in state");
    }, [currentSpace]);
 
+   const changeSpaceStatus = useCallback(async (spaceId: string, status: SpaceStatus) => {
+    return handleAsyncOperation(async () => {
+        const { space: updatedSpace, clockOutEntry } = await spaceService.changeSpaceStatus(spaceId, status);
+        setSpaces(prev => prev.map(s => s.id === spaceId ? updatedSpace : s));
+        if (currentSpace?.id === spaceId) {
+            setCurrentSpace(updatedSpace); // useClock re-initializes from the cleared clock state
+            if (clockOutEntry) {
+                setLogEntries(prev => [clockOutEntry, ...prev].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()));
+                await evaluateGoals(spaceId); // Clocked minutes may have completed a goal
+            }
+        }
+        if (clockOutEntry) {
+            await refreshInsight(clockOutEntry);
+        }
+        toast({
+            title: "Status Updated",
+            description: clockOutEntry
+                ? `Space is now ${status}. Clocked out automatically (${clockOutEntry.minutesClockedIn ?? 0} min).`
+                : `Space is now ${status}.`,
+        });
+        return updatedSpace;
+    }, "Updating status...", "Failed to update space status");
+   }, [currentSpace, evaluateGoals, refreshInsight]);
+
 
   const deleteSpace = useCallback(async (spaceId: string) => {
     await handleAsyncOperation(async () => {
@@ -300,12 +685,19 @@ export const SpaceProvider = ({ children }: SpaceProviderProps) => {
              setMultiStepActions([]);
              setLogEntries([]);
              setWasteEntries([]);
+             setWasteCategories([]);
+             setRootCauseAnalyses([]);
              setComments([]);
              setTodos([]); // Clear todos
+             setAndons([]);
+             setGoals([]);
+             setTipDismissals([]);
         }
+        setActiveAndons(prev => prev.filter(a => a.spaceId !== spaceId));
+        await refreshProgress(false); // XP drops with the space's logs; reached levels are kept
         toast({ title: "Space Deleted", description: "Space and all associated data removed." });
     }, "Deleting space...", "Failed to delete space");
-  }, [currentSpace]);
+  }, [currentSpace, refreshProgress]);
 
   const duplicateSpace = useCallback(async (spaceId: string) => {
     await handleAsyncOperation(async () => {
@@ -337,6 +729,15 @@ export const SpaceProvider = ({ children }: SpaceProviderProps) => {
       }, "Updating clocked time...", "Failed to update clocked time");
   }, [currentSpace]);
 
+  // Single and multi-step actions share the slot budget granted by the Focus Level; archived ones don't use a slot.
+  const usedActionSlots = actions.filter(a => !a.archived).length + multiStepActions.filter(a => !a.archived).length;
+  const assertActionSlotAvailable = useCallback(() => {
+    const limit = getActionSlotLimit(focusProgress.level);
+    if (usedActionSlots >= limit) {
+        throw new Error(`All ${limit} action slots are in use. Reach Focus Level ${focusProgress.level + 1} for more.`);
+    }
+  }, [usedActionSlots, focusProgress.level]);
+
   const createAction = useCallback(async (actionData: Omit<Action, 'id'>) => {
     if (currentSpace?.id !== actionData.spaceId) {
         console.error("Mismatch between current space and action data");
@@ -344,12 +745,13 @@ export const SpaceProvider = ({ children }: SpaceProviderProps) => {
         return undefined;
     }
     return handleAsyncOperation(async () => {
+        assertActionSlotAvailable();
         const newAction = await actionService.createAction(actionData);
         setActions(prev => [...prev, newAction]); // Optimistic update
         await updateSpace({...currentSpace, dateModified: new Date()}); // Trigger space modified update
         return newAction;
     }, "Creating action...", "Failed to create action");
-  }, [currentSpace, updateSpace]);
+  }, [currentSpace, updateSpace, assertActionSlotAvailable]);
 
   const createMultiStepAction = useCallback(async (actionData: Omit<MultiStepAction, 'id' | 'currentStepIndex' | 'steps'> & { steps: Omit<ActionStep, 'id' | 'completed'>[] }) => {
     if (currentSpace?.id !== actionData.spaceId) {
@@ -358,12 +760,31 @@ export const SpaceProvider = ({ children }: SpaceProviderProps) => {
         return undefined;
     }
     return handleAsyncOperation(async () => {
+        assertActionSlotAvailable();
         const newAction = await multiStepActionService.createMultiStepAction(actionData);
         setMultiStepActions(prev => [...prev, newAction]); // Optimistic update
         await updateSpace({...currentSpace, dateModified: new Date()}); // Trigger space modified update
         return newAction;
     }, "Creating multi-step action...", "Failed to create multi-step action");
-  }, [currentSpace, updateSpace]);
+  }, [currentSpace, updateSpace, assertActionSlotAvailable]);
+
+  // Writes a log entry and runs everything it can trigger. Also returns the goals it achieved,
+  // so an undo can take them back.
+  const recordLogEntry = useCallback(async (logEntryData: Omit<LogEntry, 'id' | 'timestamp'>) => {
+    const newLogEntry = await logEntryService.addLogEntry(logEntryData);
+    // Add to the beginning and ensure sorted order
+    setLogEntries(prev => [newLogEntry, ...prev].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()));
+    // Don't update space modified time for every log entry
+    const goalResult = newLogEntry.type !== 'goalBonus' ? await evaluateGoals(newLogEntry.spaceId) : undefined;
+    if (newLogEntry.points !== 0) {
+        await refreshProgress(true);
+    }
+    await evaluateAchievements(true);
+    if (newLogEntry.type === 'clockIn' || newLogEntry.type === 'clockOut') {
+        await refreshInsight(newLogEntry.type === 'clockOut' ? newLogEntry : undefined);
+    }
+    return { entry: newLogEntry, goalResult };
+  }, [evaluateGoals, refreshProgress, evaluateAchievements, refreshInsight]);
 
   const addLogEntry = useCallback(async (logEntryData: Omit<LogEntry, 'id' | 'timestamp'>) => {
     if (currentSpace?.id !== logEntryData.spaceId) {
@@ -371,60 +792,252 @@ export const SpaceProvider = ({ children }: SpaceProviderProps) => {
         setError("Cannot add log entry to a different space.");
         return undefined;
     }
+    if (isSpaceReadOnly(currentSpace) && (logEntryData.type === 'action' || logEntryData.type === 'multiStepAction')) {
+        toast({ title: "Space is Read-Only", description: `Actions cannot be logged in a ${getSpaceStatus(currentSpace)} space.`, variant: "destructive" });
+        return undefined;
+    }
     return handleAsyncOperation(async () => {
-        const newLogEntry = await logEntryService.addLogEntry(logEntryData);
-         // Add to the beginning and ensure sorted order
-         setLogEntries(prev => [newLogEntry, ...prev].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()));
-         // Don't update space modified time for every log entry
+        const { entry: newLogEntry, goalResult } = await recordLogEntry(logEntryData);
+        if (newLogEntry.type === 'action') {
+            registerUndo(
+                { title: 'Action Logged!', description: `Earned ${newLogEntry.points} points.` },
+                { label: `Logged "${formatLoggedActionName(newLogEntry)}"`, logEntryIds: [newLogEntry.id], undo: () => removeLogEntry(newLogEntry, goalResult) }
+            );
+        }
         return newLogEntry;
     }, "Adding log entry...", "Failed to add log entry");
-  }, [currentSpace]);
+  }, [currentSpace, recordLogEntry, registerUndo, removeLogEntry]);
 
   const completeMultiStepActionStep = useCallback(async (actionId: string) => {
+    if (currentSpace && isSpaceReadOnly(currentSpace)) {
+        toast({ title: "Space is Read-Only", description: `Actions cannot be logged in a ${getSpaceStatus(currentSpace)} space.`, variant: "destructive" });
+        return undefined;
+    }
     return handleAsyncOperation(async () => {
-        const updatedAction = await multiStepActionService.completeCurrentStep(actionId);
-        if (updatedAction && currentSpace) {
-            setMultiStepActions(prev => prev.map(a => a.id === actionId ? updatedAction : a));
-             await updateSpace({...currentSpace, dateModified: new Date()}); // Trigger space modified update
+        const completion = await multiStepActionService.completeCurrentStep(actionId);
+        if (!completion || !currentSpace) return completion?.action;
+        const { action: updatedAction, stepIndex, completedRun } = completion;
+        setMultiStepActions(prev => prev.map(a => a.id === actionId ? updatedAction : a));
+        await updateSpace({...currentSpace, dateModified: new Date()}); // Trigger space modified update
 
-            // Find the completed step index (it's now currentStepIndex - 1)
-            const completedStepIndex = updatedAction.currentStepIndex - 1;
-            if (completedStepIndex >= 0) {
-                 // Use the already wrapped addLogEntry function
-                 await addLogEntry({
-                    spaceId: updatedAction.spaceId,
-                    actionName: `${updatedAction.name} - Step ${completedStepIndex + 1}: ${updatedAction.steps[completedStepIndex].name}`,
-                    points: updatedAction.pointsPerStep,
-                    type: 'multiStepAction',
-                    multiStepActionId: actionId,
-                    stepIndex: completedStepIndex,
-                });
-                 toast({
-                    title: 'Step Completed!',
-                    description: `Earned ${updatedAction.pointsPerStep} points for completing a step in "${updatedAction.name}".`,
-                });
+        const step = await recordLogEntry({
+            spaceId: updatedAction.spaceId,
+            actionName: `${updatedAction.name} - Step ${stepIndex + 1}: ${updatedAction.steps[stepIndex].name}`,
+            points: updatedAction.pointsPerStep,
+            type: 'multiStepAction',
+            multiStepActionId: actionId,
+            stepIndex,
+        });
+        // Finishing a run also earns the completion bonus, logged separately from the step
+        const bonus = completedRun && updatedAction.completionBonus
+            ? await recordLogEntry({
+                spaceId: updatedAction.spaceId,
+                actionName: `Completed "${updatedAction.name}" (run ${updatedAction.runs?.length ?? 1})`,
+                points: updatedAction.completionBonus,
+                type: 'questBonus',
+                multiStepActionId: actionId,
+            })
+            : undefined;
+        const earned = updatedAction.pointsPerStep + (bonus?.entry.points ?? 0);
+
+        registerUndo(
+            completedRun
+                ? { title: 'Quest Completed!', description: `Earned ${earned} points finishing "${updatedAction.name}" in ${formatCycleTime(completedRun.cycleTimeMinutes)}.${updatedAction.repeatable ? ' It starts over from step 1.' : ''}` }
+                : { title: 'Step Completed!', description: `Earned ${updatedAction.pointsPerStep} points for completing a step in "${updatedAction.name}".` },
+            {
+                label: `Completed step ${stepIndex + 1} of "${updatedAction.name}"`,
+                logEntryIds: [step.entry.id, ...(bonus ? [bonus.entry.id] : [])],
+                undo: async () => {
+                    const reverted = await multiStepActionService.revertStep(completion);
+                    setMultiStepActions(prev => prev.map(a => a.id === actionId ? reverted : a));
+                    if (bonus) await removeLogEntry(bonus.entry, bonus.goalResult);
+                    await removeLogEntry(step.entry, step.goalResult);
+                },
             }
-        }
+        );
         return updatedAction;
     }, "Completing step...", "Failed to complete step");
- }, [addLogEntry, currentSpace, updateSpace]); // Add dependencies
+ }, [recordLogEntry, currentSpace, updateSpace, registerUndo, removeLogEntry]); // Add dependencies
+
+   // --- Action Management ---
+   const updateAction = useCallback(async (action: Action) => {
+    return handleAsyncOperation(async () => {
+      const updated = await actionService.updateAction(action);
+      setActions(prev => prev.map(a => a.id === updated.id ? updated : a));
+      return updated;
+    }, "Saving action...", "Failed to save action");
+  }, []);
+
+  const setActionArchived = useCallback(async (id: string, archived: boolean) => {
+    return handleAsyncOperation(async () => {
+      if (!archived) assertActionSlotAvailable();
+      const updated = await actionService.setActionArchived(id, archived);
+      setActions(prev => prev.map(a => a.id === updated.id ? updated : a));
+      toast({ title: archived ? "Action Archived" : "Action Restored", description: updated.name });
+      return updated;
+    }, archived ? "Archiving action..." : "Restoring action...", archived ? "Failed to archive action" : "Failed to restore action");
+  }, [assertActionSlotAvailable]);
+
+  const deleteAction = useCallback(async (id: string) => {
+    await handleAsyncOperation(async () => {
+      await actionService.deleteAction(id);
+      setActions(prev => prev.filter(a => a.id !== id));
+    }, "Deleting action...", "Failed to delete action");
+  }, []);
+
+  const reorderActions = useCallback(async (spaceId: string, orderedIds: string[]) => {
+    await handleAsyncOperation(async () => {
+      setActions(await actionService.reorderActions(spaceId, orderedIds));
+    }, "Reordering actions...", "Failed to reorder actions");
+  }, []);
+
+  const updateMultiStepAction = useCallback(async (action: MultiStepAction) => {
+    return handleAsyncOperation(async () => {
+      const updated = await multiStepActionService.updateMultiStepActionDetails(action);
+      setMultiStepActions(prev => prev.map(a => a.id === updated.id ? updated : a));
+      return updated;
+    }, "Saving multi-step action...", "Failed to save multi-step action");
+  }, []);
+
+  const setMultiStepActionArchived = useCallback(async (id: string, archived: boolean) => {
+    return handleAsyncOperation(async () => {
+      if (!archived) assertActionSlotAvailable();
+      const updated = await multiStepActionService.setMultiStepActionArchived(id, archived);
+      setMultiStepActions(prev => prev.map(a => a.id === updated.id ? updated : a));
+      toast({ title: archived ? "Multi-Step Action Archived" : "Multi-Step Action Restored", description: updated.name });
+      return updated;
+    }, archived ? "Archiving multi-step action..." : "Restoring multi-step action...", archived ? "Failed to archive multi-step action" : "Failed to restore multi-step action");
+  }, [assertActionSlotAvailable]);
+
+  const resetMultiStepAction = useCallback(async (id: string) => {
+    return handleAsyncOperation(async () => {
+      const updated = await multiStepActionService.resetMultiStepAction(id);
+      setMultiStepActions(prev => prev.map(a => a.id === updated.id ? updated : a));
+      toast({ title: "Multi-Step Action Reset", description: `"${updated.name}" is back at step 1.` });
+      return updated;
+    }, "Resetting multi-step action...", "Failed to reset multi-step action");
+  }, []);
+
+  const deleteMultiStepAction = useCallback(async (id: string) => {
+    await handleAsyncOperation(async () => {
+      await multiStepActionService.deleteMultiStepAction(id);
+      setMultiStepActions(prev => prev.filter(a => a.id !== id));
+    }, "Deleting multi-step action...", "Failed to delete multi-step action");
+  }, []);
+
+  const reorderMultiStepActions = useCallback(async (spaceId: string, orderedIds: string[]) => {
+    await handleAsyncOperation(async () => {
+      setMultiStepActions(await multiStepActionService.reorderMultiStepActions(spaceId, orderedIds));
+    }, "Reordering multi-step actions...", "Failed to reorder multi-step actions");
+  }, []);
 
-  const addWasteEntries = useCallback(async (spaceId: string, categoryIds: string[]) => {
+  const addWasteEntries = useCallback(async (spaceId: string, categoryIds: string[], details?: WasteEntryDetails) => {
     if (currentSpace?.id !== spaceId) {
          console.error("Mismatch between current space and waste entry data");
          setError("Cannot add waste entry to a different space.");
          return [];
      }
+    if (isSpaceReadOnly(currentSpace)) {
+        toast({ title: "Space is Read-Only", description: `Waste cannot be logged in a ${getSpaceStatus(currentSpace)} space.`, variant: "destructive" });
+        return [];
+    }
     return await handleAsyncOperation(async () => {
-         const addedEntries = await wasteEntryService.addWasteEntries(spaceId, categoryIds);
+         const addedEntries = await wasteEntryService.addWasteEntries(spaceId, categoryIds, details);
          if (addedEntries.length > 0) {
              // Add to the beginning and ensure sorted order
              setWasteEntries(prev => [...addedEntries, ...prev].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()));
              await updateSpace({...currentSpace, dateModified: new Date()}); // Trigger space modified update
+             const goalResult = await evaluateGoals(spaceId);
+             await evaluateAchievements(true);
+             const count = `${addedEntries.length} waste entr${addedEntries.length > 1 ? 'ies' : 'y'}`;
+             registerUndo({ title: 'Waste Added!', description: `Added ${count}.` }, {
+                 label: `Added ${count}`,
+                 logEntryIds: [],
+                 undo: async () => {
+                     await Promise.all(addedEntries.map(e => wasteEntryService.deleteWasteEntry(e.id)));
+                     setWasteEntries(prev => prev.filter(e => !addedEntries.some(added => added.id === e.id)));
+                     await revokeGoals(spaceId, goalResult);
+                 },
+             });
          }
          return addedEntries;
      }, "Adding waste entries...", "Failed to add waste entries") ?? []; // Return empty array on error
- }, [currentSpace, updateSpace]);
+ }, [currentSpace, updateSpace, evaluateGoals, revokeGoals, evaluateAchievements, registerUndo]);
+
+   // --- Waste Category Actions ---
+   const applyWasteCategoryChange = useCallback((category: WasteCategory) => {
+    setWasteCategories(prev => prev.map(c => c.id === category.id ? category : c));
+  }, []);
+
+  const createWasteCategory = useCallback(async (categoryData: WasteCategoryInput) => {
+    if (currentSpace?.id !== categoryData.spaceId) {
+      console.error("Mismatch between current space and waste category data");
+      setError("Cannot add a waste category to a different space.");
+      return undefined;
+    }
+    return handleAsyncOperation(async () => {
+      const newCategory = await wasteCategoryService.createCategory(categoryData);
+      setWasteCategories(prev => [...prev, newCategory]);
+      toast({ title: "Waste Category Added", description: `${newCategory.name} (+${newCategory.points})` });
+      return newCategory;
+    }, "Adding waste category...", "Failed to add waste category");
+  }, [currentSpace]);
+
+  const updateWasteCategory = useCallback(async (category: WasteCategory) => {
+    return handleAsyncOperation(async () => {
+      const updated = await wasteCategoryService.updateCategory(category);
+      applyWasteCategoryChange(updated);
+      return updated;
+    }, "Saving waste category...", "Failed to save waste category");
+  }, [applyWasteCategoryChange]);
+
+  const setWasteCategoryArchived = useCallback(async (id: string, archived: boolean) => {
+    return handleAsyncOperation(async () => {
+      const updated = await wasteCategoryService.setCategoryArchived(id, archived);
+      applyWasteCategoryChange(updated);
+      toast({ title: archived ? "Waste Category Archived" : "Waste Category Restored", description: updated.name });
+      return updated;
+    }, archived ? "Archiving waste category..." : "Restoring waste category...", archived ? "Failed to archive waste category" : "Failed to restore waste category");
+  }, [applyWasteCategoryChange]);
+
+   // --- Root-Cause Analysis Actions ---
+   const addSpawnedTodo = useCallback((todo: TodoItem) => {
+    setTodos(prev => [...prev, todo].sort((a, b) => a.dateCreated.getTime() - b.dateCreated.getTime()));
+  }, []);
+
+  const createRootCauseAnalysis = useCallback(async (analysisData: RootCauseAnalysisInput, createCountermeasureTodo: boolean) => {
+    if (currentSpace?.id !== analysisData.spaceId) {
+      console.error("Mismatch between current space and root-cause analysis data");
+      setError("Cannot add a root-cause analysis to a different space.");
+      return undefined;
+    }
+    return handleAsyncOperation(async () => {
+      const { analysis, todo } = await rootCauseAnalysisService.createAnalysis(analysisData, createCountermeasureTodo);
+      setRootCauseAnalyses(prev => [analysis, ...prev]);
+      if (todo) addSpawnedTodo(todo);
+      await updateSpace({...currentSpace, dateModified: new Date()}); // Trigger space modified update
+      toast({ title: "Analysis Saved", description: todo ? `Countermeasure added to To-Do: ${todo.description}` : undefined });
+      await evaluateAchievements(true);
+      return analysis;
+    }, "Saving analysis...", "Failed to save analysis");
+  }, [currentSpace, updateSpace, evaluateAchievements, addSpawnedTodo]);
+
+  const createCountermeasureTodo = useCallback(async (analysisId: string) => {
+    return handleAsyncOperation(async () => {
+      const { analysis, todo } = await rootCauseAnalysisService.createCountermeasureTodo(analysisId);
+      setRootCauseAnalyses(prev => prev.map(a => a.id === analysis.id ? analysis : a));
+      if (todo) addSpawnedTodo(todo);
+      toast({ title: "To-Do Created", description: todo?.description });
+      return todo;
+    }, "Creating to-do...", "Failed to create to-do");
+  }, [addSpawnedTodo]);
+
+  const deleteRootCauseAnalysis = useCallback(async (id: string) => {
+    await handleAsyncOperation(async () => {
+      await rootCauseAnalysisService.deleteAnalysis(id);
+      setRootCauseAnalyses(prev => prev.filter(a => a.id !== id));
+    }, "Deleting analysis...", "Failed to delete analysis");
+  }, []);
 
   const addComment = useCallback(async (commentData: Omit<Comment, 'id' | 'timestamp'>) => {
     if (currentSpace?.id !== commentData.spaceId) {
@@ -462,8 +1075,11 @@ export const SpaceProvider = ({ children }: SpaceProviderProps) => {
       await todoService.updateTodoItem(item);
       setTodos(prev => prev.map(t => t.id === item.id ? item : t).sort((a, b) => a.dateCreated.getTime() - b.dateCreated.getTime()));
        await updateSpace({...currentSpace, dateModified: new Date()}); // Trigger space modified update
+      if (item.completed) {
+        await evaluateAchievements(true);
+      }
     }, "Updating to-do item...", "Failed to update to-do item");
-  }, [currentSpace, updateSpace]);
+  }, [currentSpace, updateSpace, evaluateAchievements]);
 
   const deleteTodoItem = useCallback(async (id: string) => {
     if (!currentSpace) return;
@@ -476,14 +1092,197 @@ export const SpaceProvider = ({ children }: SpaceProviderProps) => {
   }, [currentSpace, updateSpace]);
 
 
+   // --- Andon Actions ---
+   // Keeps the current space's list and the cross-space active list in sync with a changed Andon.
+   const applyAndonChange = useCallback((andon: Andon) => {
+    setAndons(prev => [andon, ...prev.filter(a => a.id !== andon.id)].sort((a, b) => b.raisedAt.getTime() - a.raisedAt.getTime()));
+    setActiveAndons(prev => {
+      const others = prev.filter(a => a.id !== andon.id);
+      return andon.status === 'resolved' ? others : [...others, andon];
+    });
+  }, []);
+
+   const raiseAndon = useCallback(async (spaceId: string, comment: string) => {
+    if (currentSpace?.id !== spaceId) {
+      console.error("Mismatch between current space and andon data");
+      setError("Cannot raise an Andon on a different space.");
+      return undefined;
+    }
+    return handleAsyncOperation(async () => {
+      const newAndon = await andonService.raiseAndon(spaceId, comment);
+      applyAndonChange(newAndon);
+      await updateSpace({...currentSpace, dateModified: new Date()}); // Trigger space modified update
+      toast({ title: "Andon Raised", description: "The space is flagged until the problem is resolved.", variant: "destructive" });
+      return newAndon;
+    }, "Raising Andon...", "Failed to raise Andon");
+  }, [currentSpace, updateSpace, applyAndonChange]);
+
+  const acknowledgeAndon = useCallback(async (id: string) => {
+    return handleAsyncOperation(async () => {
+      const updated = await andonService.acknowledgeAndon(id);
+      applyAndonChange(updated);
+      toast({ title: "Andon Acknowledged" });
+      return updated;
+    }, "Acknowledging Andon...", "Failed to acknowledge Andon");
+  }, [applyAndonChange]);
+
+  const resolveAndon = useCallback(async (id: string, resolutionNote: string) => {
+    return handleAsyncOperation(async () => {
+      const resolved = await andonService.resolveAndon(id, resolutionNote);
+      applyAndonChange(resolved);
+      const minutes = getTimeToResolveMinutes(resolved);
+      toast({ title: "Andon Resolved", description: minutes !== undefined ? `Resolved in ${minutes} min.` : undefined });
+      return resolved;
+    }, "Resolving Andon...", "Failed to resolve Andon");
+  }, [applyAndonChange]);
+
+
+   // --- Goal Actions ---
+   const createGoal = useCallback(async (goalData: Omit<Goal, 'id' | 'dateCreated' | 'achievedAt'>) => {
+    if (currentSpace?.id !== goalData.spaceId) {
+      console.error("Mismatch between current space and goal data");
+      setError("Cannot add a goal to a different space.");
+      return undefined;
+    }
+    return handleAsyncOperation(async () => {
+      const newGoal = await goalService.createGoal(goalData);
+      setGoals(prev => [...prev, newGoal]);
+      await updateSpace({...currentSpace, dateModified: new Date()}); // Trigger space modified update
+      toast({ title: "Goal Added", description: describeGoal(newGoal) });
+      return newGoal;
+    }, "Adding goal...", "Failed to add goal");
+  }, [currentSpace, updateSpace]);
+
+  const deleteGoal = useCallback(async (id: string) => {
+    await handleAsyncOperation(async () => {
+      await goalService.deleteGoal(id);
+      setGoals(prev => prev.filter(g => g.id !== id));
+    }, "Deleting goal...", "Failed to delete goal");
+  }, []);
+
+
+   // --- Tip Actions ---
+   const dismissTip = useCallback(async (spaceId: string, tipId: TipId, snoozeHours?: number) => {
+    await handleAsyncOperation(async () => {
+      const dismissal = await tipService.dismissTip(spaceId, tipId, snoozeHours);
+      setTipDismissals(prev => [...prev.filter(d => d.id !== dismissal.id), dismissal]);
+    }, "Dismissing tip...", "Failed to dismiss tip");
+  }, []);
+
+
+   // --- Insight Actions ---
+   const purchaseInsightItem = useCallback(async (itemId: string) => {
+    return handleAsyncOperation(async () => {
+      const purchase = await insightService.purchase(itemId);
+      setInsightWallet(await insightService.getWallet());
+      toast({ title: "Unlocked!", description: `${INSIGHT_SHOP_ITEMS_BY_ID.get(itemId)?.name ?? itemId} (-${purchase.cost} Insight)` });
+      return purchase;
+    }, "Purchasing item...", "Failed to purchase item");
+  }, []);
+
+
+   // --- Backup Actions ---
+   const exportWorkspace = useCallback(async () => {
+    return handleAsyncOperation(async () => {
+      return workspaceBackupService.exportWorkspace();
+    }, "Exporting workspace...", "Failed to export workspace");
+  }, []);
+
+  const importWorkspace = useCallback(async (raw: unknown, options: ImportOptions) => {
+    return handleAsyncOperation(async () => {
+      const backup = workspaceBackupService.parseBackup(raw); // Throws with a readable message if invalid
+      const summary = await workspaceBackupService.importWorkspace(backup, options);
+      await loadSpaces(); // Reload the list to reflect imported spaces
+      return summary;
+    }, "Importing workspace...", "Failed to import workspace");
+  }, [loadSpaces]);
+
+  const exportSpaceBundle = useCallback(async (spaceId: string) => {
+    return handleAsyncOperation(async () => {
+      return workspaceBackupService.exportSpaceBundle(spaceId, imageUrlToDataUri);
+    }, "Exporting space...", "Failed to export space");
+  }, []);
+
+  const importSpaceBundle = useCallback(async (raw: unknown) => {
+    return handleAsyncOperation(async () => {
+      const bundle = workspaceBackupService.parseSpaceBundle(raw); // Throws with a readable message if invalid
+      const newSpace = await workspaceBackupService.importSpaceBundle(bundle);
+      await loadSpaces(); // Reload the list to include the imported space
+      return newSpace;
+    }, "Importing space...", "Failed to import space");
+  }, [loadSpaces]);
+
+  const exportCsv = useCallback(async (kind: CsvExportKind, spaceId: string, range?: DateRange) => {
+    return handleAsyncOperation(async () => {
+      return csvExportService.export(kind, spaceId, range);
+    }, "Exporting CSV...", "Failed to export CSV");
+  }, []);
+
+  const fetchWasteEntries = useCallback(async (spaceId: string) => {
+    return handleAsyncOperation(async () => {
+      return wasteEntryService.getWasteEntriesForSpace(spaceId);
+    }, "Loading waste...", "Failed to load waste entries");
+  }, []);
+
+  const fetchPortfolioSummary = useCallback(async () => {
+    return handleAsyncOperation(async () => {
+      return portfolioService.getPortfolioSummary();
+    }, "Loading portfolio...", "Failed to load portfolio");
+  }, []);
+
+  const fetchWorkspaceActivity = useCallback(async () => {
+    return handleAsyncOperation(async () => {
+      return portfolioService.getWorkspaceActivity();
+    }, "Loading activity...", "Failed to load activity");
+  }, []);
+
+  const fetchControlChart = useCallback(async (spaceId: string, metric: SpcMetric) => {
+    return handleAsyncOperation(async () => {
+      return controlChartService.getControlChart(spaceId, metric);
+    }, "Loading control chart...", "Failed to load control chart");
+  }, []);
+
+  const fetchLogEntryPage = useCallback(async (spaceId: string, filter: LogEntryFilter, cursor?: LogEntryCursor) => {
+    return handleAsyncOperation(async () => {
+      return logEntryService.getLogEntryPage(spaceId, filter, cursor);
+    }, "Loading log...", "Failed to load log entries");
+  }, []);
+
+  const fetchWorkSessions = useCallback(async (spaceId: string) => {
+    return handleAsyncOperation(async () => {
+      return logEntryService.getWorkSessions(spaceId);
+    }, "Loading sessions...", "Failed to load sessions");
+  }, []);
+
+  // --- Log Corrections ---
+  const correctLogEntry = useCallback(async (id: string, kind: LogCorrectionKind, reason?: string) => {
+    return handleAsyncOperation(async () => {
+      const result = await logEntryService.correctLogEntry(id, kind, reason);
+      setLogEntries(prev => prev.filter(e => e.id !== id)); // Corrected entries no longer count
+      replaceUndoStack(undoStackRef.current.filter(o => !o.logEntryIds.includes(id)));
+      if (result.entry.points !== 0) {
+        await refreshProgress(false);
+      }
+      toast({ title: kind === 'void' ? "Entry Voided" : "Entry Deleted", description: formatLoggedActionName(result.entry) });
+      const revokedGoals = await revokeUnmetGoals(result.entry.spaceId);
+      return { ...result, revokedGoals };
+    }, kind === 'void' ? "Voiding log entry..." : "Deleting log entry...", kind === 'void' ? "Failed to void log entry" : "Failed to delete log entry");
+  }, [refreshProgress, revokeUnmetGoals]);
+
+
   const clearCurrentSpace = useCallback(() => {
       setCurrentSpace(null);
       setActions([]);
       setMultiStepActions([]);
       setLogEntries([]);
       setWasteEntries([]);
+      setWasteCategories([]);
+      setRootCauseAnalyses([]);
       setComments([]);
       setTodos([]); // Clear todos
+      setAndons([]);
+      setGoals([]);
+      setTipDismissals([]);
       setError(null);
       // Don't set isLoading here, let loadSpaceDetails handle it
   }, []);
@@ -497,8 +1296,20 @@ export const SpaceProvider = ({ children }: SpaceProviderProps) => {
     multiStepActions,
     logEntries,
     wasteEntries,
+    wasteCategories,
+    rootCauseAnalyses,
     comments,
     todos, // Include todos state
+    andons,
+    activeAndons,
+    goals,
+    tipDismissals,
+    focusProgress,
+    levelUps,
+    achievements,
+    clockInStreak,
+    insightWallet,
+    insightRatePerHour: insightService.getRatePerHour(),
     isLoading,
     error,
 
@@ -513,16 +1324,36 @@ export const SpaceProvider = ({ children }: SpaceProviderProps) => {
     addClockedTime,
     setClockInState, // Provide clock state function
     clearClockInState, // Provide clock state function
+    changeSpaceStatus,
 
     createAction,
 
     createMultiStepAction,
     completeMultiStepActionStep,
+    updateAction,
+    setActionArchived,
+    deleteAction,
+    reorderActions,
+    updateMultiStepAction,
+    setMultiStepActionArchived,
+    resetMultiStepAction,
+    deleteMultiStepAction,
+    reorderMultiStepActions,
 
     addLogEntry,
 
     addWasteEntries,
 
+    // Waste Category Actions
+    createWasteCategory,
+    updateWasteCategory,
+    setWasteCategoryArchived,
+
+    // Root-Cause Analysis Actions
+    createRootCauseAnalysis,
+    createCountermeasureTodo,
+    deleteRootCauseAnalysis,
+
     addComment,
 
     // Todo Actions
@@ -530,11 +1361,57 @@ export const SpaceProvider = ({ children }: SpaceProviderProps) => {
     updateTodoItem,
     deleteTodoItem,
 
+    // Andon Actions
+    raiseAndon,
+    acknowledgeAndon,
+    resolveAndon,
+
+    // Goal Actions
+    createGoal,
+    deleteGoal,
+
+    // Tip Actions
+    dismissTip,
+
+    // Insight Actions
+    purchaseInsightItem,
+
+    // Backup Actions
+    exportWorkspace,
+    importWorkspace,
+    exportSpaceBundle,
+    importSpaceBundle,
+    exportCsv,
+
+    // Analytics Queries
+    fetchWasteEntries,
+    fetchPortfolioSummary,
+    fetchWorkspaceActivity,
+    fetchControlChart,
+    fetchLogEntryPage,
+    fetchWorkSessions,
+
+    // Undo & Log Corrections
+    undoStack,
+    undoOperation,
+    undoLastOperation,
+    correctLogEntry,
+
   }), [
-      spaces, currentSpace, actions, multiStepActions, logEntries, wasteEntries, comments, todos, isLoading, error, // State (added todos)
-      loadSpaces, loadSpaceDetails, clearCurrentSpace, createSpace, updateSpace, deleteSpace, duplicateSpace, addClockedTime, setClockInState, clearClockInState, // Space Actions
+      spaces, currentSpace, actions, multiStepActions, logEntries, wasteEntries, wasteCategories, rootCauseAnalyses, comments, todos, andons, activeAndons, goals, tipDismissals, focusProgress, levelUps, achievements, clockInStreak, insightWallet, isLoading, error, // State (added todos)
+      loadSpaces, loadSpaceDetails, clearCurrentSpace, createSpace, updateSpace, deleteSpace, duplicateSpace, addClockedTime, setClockInState, clearClockInState, changeSpaceStatus, // Space Actions
       createAction, createMultiStepAction, completeMultiStepActionStep, addLogEntry, addWasteEntries, addComment, // Other Actions
-      createTodoItem, updateTodoItem, deleteTodoItem // Todo Actions
+      updateAction, setActionArchived, deleteAction, reorderActions, updateMultiStepAction, setMultiStepActionArchived, resetMultiStepAction, deleteMultiStepAction, reorderMultiStepActions, // Action Management
+      createWasteCategory, updateWasteCategory, setWasteCategoryArchived, // Waste Category Actions
+      createRootCauseAnalysis, createCountermeasureTodo, deleteRootCauseAnalysis, // Root-Cause Analysis Actions
+      createTodoItem, updateTodoItem, deleteTodoItem, // Todo Actions
+      raiseAndon, acknowledgeAndon, resolveAndon, // Andon Actions
+      createGoal, deleteGoal, // Goal Actions
+      dismissTip, // Tip Actions
+      purchaseInsightItem, // Insight Actions
+      exportWorkspace, importWorkspace, exportSpaceBundle, importSpaceBundle, exportCsv, // Backup Actions
+      fetchWasteEntries, fetchPortfolioSummary, fetchWorkspaceActivity, fetchControlChart, fetchLogEntryPage, fetchWorkSessions, // Analytics Queries
+      undoStack, undoOperation, undoLastOperation, correctLogEntry // Undo & Log Corrections
     ]);
 
   return (
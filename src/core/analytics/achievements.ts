@@ -0,0 +1,134 @@
+/**
+ * @fileOverview Achievement rules and clock-in streak math.
+ * Pure functions only: no persistence, no React.
+ */
+
+import { differenceInCalendarDays, format } from 'date-fns';
+import type { AchievementId, StreakSummary, UnlockedAchievement } from '@/core/domain/Achievement';
+import type { LogEntry } from '@/core/domain/LogEntry';
+import type { WasteEntry } from '@/core/domain/WasteEntry';
+import type { TodoItem } from '@/core/domain/TodoItem';
+import type { MultiStepAction } from '@/core/domain/MultiStepAction';
+import type { RootCauseAnalysis } from '@/core/domain/RootCauseAnalysis';
+import { countAnalyzedWasteEntries } from './rootCause';
+import { getLoggedAction } from './actionLog';
+import { countCompletedRuns } from './quests';
+
+// Everything the rules look at, across all spaces.
+export interface AchievementInput {
+  logEntries: LogEntry[];
+  wasteEntries: WasteEntry[];
+  todos: TodoItem[];
+  multiStepActions: MultiStepAction[];
+  rootCauseAnalyses: RootCauseAnalysis[];
+  now: Date;
+}
+
+// Aggregates computed once per evaluation and shared by every rule.
+export interface AchievementStats {
+  actionUnits: number; // Simple action completions, counting multipliers
+  questsCompleted: number;
+  goalsAchieved: number;
+  clockInStreak: StreakSummary;
+  clockedMinutes: number;
+  wasteObservations: number;
+  wasteAnalyzed: number; // Waste entries covered by a root-cause analysis
+  todosCompleted: number;
+}
+
+export interface AchievementDefinition {
+  id: AchievementId;
+  title: string;
+  description: string;
+  isUnlocked: (stats: AchievementStats) => boolean;
+}
+
+// Gallery order: grouped by theme, easiest first.
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  { id: 'firstAction', title: 'First Step', description: 'Log your first action.', isUnlocked: s => s.actionUnits >= 1 },
+  { id: 'actions100', title: 'Getting Into It', description: 'Log 100 actions.', isUnlocked: s => s.actionUnits >= 100 },
+  { id: 'actions1000', title: 'Thousand Taps', description: 'Log 1000 actions.', isUnlocked: s => s.actionUnits >= 1000 },
+  { id: 'firstQuest', title: 'Quest Complete', description: 'Finish every step of a multi-step action.', isUnlocked: s => s.questsCompleted >= 1 },
+  { id: 'quests10', title: 'Seasoned Adventurer', description: 'Finish 10 multi-step action runs.', isUnlocked: s => s.questsCompleted >= 10 },
+  { id: 'firstGoal', title: 'On Target', description: 'Meet your first goal.', isUnlocked: s => s.goalsAchieved >= 1 },
+  { id: 'clockInStreak3', title: 'Warming Up', description: 'Clock in 3 days in a row.', isUnlocked: s => s.clockInStreak.longest >= 3 },
+  { id: 'clockInStreak7', title: 'Steady Week', description: 'Clock in 7 days in a row.', isUnlocked: s => s.clockInStreak.longest >= 7 },
+  { id: 'clockedHours10', title: 'Deep Focus', description: 'Spend 10 hours clocked in.', isUnlocked: s => s.clockedMinutes >= 600 },
+  { id: 'waste10', title: 'Keen Eye', description: 'Log 10 waste observations.', isUnlocked: s => s.wasteObservations >= 10 },
+  { id: 'waste50', title: 'Waste Hunter', description: 'Log 50 waste observations.', isUnlocked: s => s.wasteObservations >= 50 },
+  { id: 'wasteAnalyzed5', title: 'Root Seeker', description: 'Analyze the root cause of 5 waste logs.', isUnlocked: s => s.wasteAnalyzed >= 5 },
+  { id: 'firstTodoDone', title: 'Checked Off', description: 'Complete a to-do item.', isUnlocked: s => s.todosCompleted >= 1 },
+  { id: 'todos25', title: 'Clean Slate', description: 'Complete 25 to-do items.', isUnlocked: s => s.todosCompleted >= 25 },
+];
+
+export const ACHIEVEMENTS_BY_ID = new Map(ACHIEVEMENTS.map(a => [a.id, a] as const));
+
+/**
+ * Measures consecutive days that contain at least one clock-in.
+ * @param logEntries - Log entries from any number of spaces.
+ * @param now - The current time. A streak stays "current" through the day after its last clock-in.
+ * @returns The current and longest streak lengths in days.
+ */
+export const getClockInStreak = (logEntries: LogEntry[], now: Date = new Date()): StreakSummary => {
+  const days = Array.from(new Set(
+    logEntries.filter(e => e.type === 'clockIn').map(e => format(e.timestamp, 'yyyy-MM-dd'))
+  )).sort().map(day => new Date(`${day}T00:00:00`));
+
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, i) => {
+    run = i > 0 && differenceInCalendarDays(day, days[i - 1]) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const last = days[days.length - 1];
+  const current = last && differenceInCalendarDays(now, last) <= 1 ? run : 0;
+  return { current, longest };
+};
+
+/**
+ * Computes the aggregates the achievement rules are written against.
+ * @param input - Records from every space.
+ * @returns The shared stats.
+ */
+export const computeAchievementStats = (input: AchievementInput): AchievementStats => {
+  const { logEntries, wasteEntries, todos, multiStepActions, rootCauseAnalyses, now } = input;
+  return {
+    actionUnits: logEntries.filter(e => e.type === 'action').reduce((sum, e) => sum + getLoggedAction(e).units, 0),
+    questsCompleted: multiStepActions.reduce((sum, a) => sum + countCompletedRuns(a), 0), // Each run of a repeatable quest counts
+    goalsAchieved: logEntries.filter(e => e.type === 'goalBonus').length,
+    clockInStreak: getClockInStreak(logEntries, now),
+    clockedMinutes: logEntries.filter(e => e.type === 'clockOut').reduce((sum, e) => sum + (e.minutesClockedIn ?? 0), 0),
+    wasteObservations: wasteEntries.length,
+    wasteAnalyzed: countAnalyzedWasteEntries(wasteEntries, rootCauseAnalyses),
+    todosCompleted: todos.filter(t => t.completed).length,
+  };
+};
+
+/**
+ * Lists the achievements whose rules are satisfied.
+ * @param stats - Stats from computeAchievementStats.
+ * @returns The IDs of every satisfied achievement, in gallery order.
+ */
+export const getSatisfiedAchievements = (stats: AchievementStats): AchievementId[] => {
+  return ACHIEVEMENTS.filter(a => a.isUnlocked(stats)).map(a => a.id);
+};
+
+/**
+ * Re-keys unlocks recorded under random IDs by their achievement, keeping the earliest unlock
+ * of each achievement.
+ * @param unlocks - The recorded unlocks.
+ * @returns One unlock per achievement, oldest first.
+ */
+export const keyUnlocksByAchievement = (unlocks: UnlockedAchievement[]): UnlockedAchievement[] => {
+  const earliest = new Map<AchievementId, UnlockedAchievement>();
+  for (const unlock of unlocks) {
+    const kept = earliest.get(unlock.achievementId);
+    if (!kept || new Date(unlock.unlockedAt).getTime() < new Date(kept.unlockedAt).getTime()) {
+      earliest.set(unlock.achievementId, unlock);
+    }
+  }
+  return [...earliest.values()]
+    .map(unlock => ({ ...unlock, id: unlock.achievementId }))
+    .sort((a, b) => new Date(a.unlockedAt).getTime() - new Date(b.unlockedAt).getTime());
+};
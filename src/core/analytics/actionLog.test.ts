@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { LogEntry } from '@/core/domain/LogEntry';
+import { parseLegacyActionName, upgradeLegacyActionEntry } from './actionLog';
+
+const entry = (overrides: Partial<LogEntry> = {}): LogEntry => ({
+  id: 'entry',
+  spaceId: 'space',
+  timestamp: new Date('2025-03-10T12:00:00Z'),
+  actionName: 'Process Inbox (x5)',
+  points: 10,
+  type: 'action',
+  ...overrides,
+});
+
+const actions = [
+  { id: 'inbox', spaceId: 'space', name: 'Process Inbox' },
+  { id: 'other-inbox', spaceId: 'other', name: 'Process Inbox' },
+  { id: 'tidy', spaceId: 'space', name: 'Tidy Desk' },
+];
+
+describe('parseLegacyActionName', () => {
+  it('splits the multiplier suffix from the name', () => {
+    expect(parseLegacyActionName('Process Inbox (x5)')).toEqual({ name: 'Process Inbox', quantity: 5 });
+    expect(parseLegacyActionName('Process Inbox (x10)')).toEqual({ name: 'Process Inbox', quantity: 10 });
+  });
+
+  it('keeps parentheses that are part of the name', () => {
+    expect(parseLegacyActionName('Call (urgent) (x2)')).toEqual({ name: 'Call (urgent)', quantity: 2 });
+    expect(parseLegacyActionName('Call (urgent)')).toBeUndefined();
+  });
+
+  it('returns undefined without a well-formed suffix', () => {
+    expect(parseLegacyActionName('Process Inbox')).toBeUndefined();
+    expect(parseLegacyActionName('Process Inbox(x5)')).toBeUndefined();
+    expect(parseLegacyActionName('Process Inbox (x5) later')).toBeUndefined();
+    expect(parseLegacyActionName('Process Inbox (x)')).toBeUndefined();
+    expect(parseLegacyActionName('Process Inbox (x-2)')).toBeUndefined();
+  });
+
+  it('rejects a zero multiplier', () => {
+    expect(parseLegacyActionName('Process Inbox (x0)')).toBeUndefined();
+  });
+});
+
+describe('upgradeLegacyActionEntry', () => {
+  it('moves the suffix into the quantity and links the action of that name in the same space', () => {
+    expect(upgradeLegacyActionEntry(entry(), actions)).toEqual(entry({ actionName: 'Process Inbox', quantity: 5, actionId: 'inbox' }));
+  });
+
+  it('gives entries without a suffix a quantity of one', () => {
+    expect(upgradeLegacyActionEntry(entry({ actionName: 'Tidy Desk' }), actions)).toEqual(entry({ actionName: 'Tidy Desk', quantity: 1, actionId: 'tidy' }));
+  });
+
+  it('leaves the action unlinked when no action of that name is left in the space', () => {
+    const upgraded = upgradeLegacyActionEntry(entry({ actionName: 'Water Plants (x3)' }), actions);
+    expect(upgraded).toEqual(entry({ actionName: 'Water Plants', quantity: 3, actionId: undefined }));
+  });
+
+  it('does not link an action from another space', () => {
+    const upgraded = upgradeLegacyActionEntry(entry({ spaceId: 'third' }), actions);
+    expect(upgraded.actionId).toBeUndefined();
+  });
+
+  it('keeps an action ID the entry already has', () => {
+    expect(upgradeLegacyActionEntry(entry({ actionId: 'renamed' }), actions).actionId).toBe('renamed');
+  });
+
+  it('returns structured and non-action entries unchanged', () => {
+    const structured = entry({ actionName: 'Process Inbox', quantity: 5, actionId: 'inbox' });
+    const step = entry({ type: 'multiStepAction', actionName: 'Ship it - Step 1: Plan (x2)' });
+    expect(upgradeLegacyActionEntry(structured, actions)).toBe(structured);
+    expect(upgradeLegacyActionEntry(step, actions)).toBe(step);
+  });
+
+  it('keeps the extra fields of the entry type it is given', () => {
+    const withExtras = { ...entry(), importedFrom: 'backup' };
+    expect(upgradeLegacyActionEntry(withExtras, actions).importedFrom).toBe('backup');
+  });
+});
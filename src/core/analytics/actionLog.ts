@@ -0,0 +1,59 @@
+/**
+ * @fileOverview Reading work log entries by action: which action an entry was for, how many units
+ * it stands for, and upgrading legacy entries that encoded the multiplier as an "(xN)" name suffix.
+ * Pure functions only: no persistence, no React.
+ */
+
+import type { LogEntry } from '@/core/domain/LogEntry';
+import type { Action } from '@/core/domain/Action';
+
+export interface LoggedAction {
+  key: string; // Action or quest ID; the logged name for legacy entries no action could be matched to
+  name: string; // The name at the time it was logged
+  units: number;
+}
+
+/**
+ * Reads the action a work log entry was for and how many units it stands for.
+ * Quest steps count once each.
+ * @param entry - An 'action' or 'multiStepAction' log entry.
+ * @returns The action's key, name and unit count.
+ */
+export const getLoggedAction = (entry: LogEntry): LoggedAction => {
+  const key = entry.type === 'action' ? entry.actionId : entry.multiStepActionId;
+  return { key: key ?? entry.actionName, name: entry.actionName, units: entry.type === 'action' ? entry.quantity ?? 1 : 1 };
+};
+
+/**
+ * Formats a log entry's name for display, adding the quantity to simple actions logged more than once.
+ * @param entry - The log entry.
+ * @returns e.g. "Process Inbox (x5)".
+ */
+export const formatLoggedActionName = (entry: LogEntry): string => {
+  return entry.type === 'action' && (entry.quantity ?? 1) > 1 ? `${entry.actionName} (x${entry.quantity})` : entry.actionName;
+};
+
+/**
+ * Splits a legacy action log name such as "Process Inbox (x5)" into the action name and multiplier.
+ * @param actionName - The logged name.
+ * @returns The name and quantity, or undefined if the name has no multiplier suffix.
+ */
+export const parseLegacyActionName = (actionName: string): { name: string; quantity: number } | undefined => {
+  const match = /^(.*) \(x(\d+)\)$/.exec(actionName);
+  return match && Number(match[2]) > 0 ? { name: match[1], quantity: Number(match[2]) } : undefined;
+};
+
+/**
+ * Upgrades a legacy 'action' log entry to the structured form: the "(xN)" suffix becomes the quantity
+ * and the entry is linked to the space's action of that name, if one still exists.
+ * Entries that already have a quantity, and other types, are returned unchanged.
+ * @param entry - The log entry.
+ * @param actions - Actions to match by space and name; may span several spaces.
+ * @returns The upgraded entry, or the same object if nothing changed.
+ */
+export const upgradeLegacyActionEntry = <T extends LogEntry>(entry: T, actions: Pick<Action, 'id' | 'spaceId' | 'name'>[]): T => {
+  if (entry.type !== 'action' || entry.quantity !== undefined) return entry;
+  const { name, quantity } = parseLegacyActionName(entry.actionName) ?? { name: entry.actionName, quantity: 1 };
+  const actionId = entry.actionId ?? actions.find(a => a.spaceId === entry.spaceId && a.name === name)?.id;
+  return { ...entry, actionName: name, quantity, actionId };
+};
@@ -0,0 +1,29 @@
+/**
+ * @fileOverview Time-to-resolve metrics for Andon signals.
+ * Pure functions only: no persistence, no React.
+ */
+
+import type { Andon } from '@/core/domain/Andon';
+
+/**
+ * Calculates how long an Andon took to resolve.
+ * @param andon - The Andon.
+ * @returns Minutes from raised to resolved, or undefined if it is not resolved.
+ */
+export const getTimeToResolveMinutes = (andon: Andon): number | undefined => {
+  if (andon.status !== 'resolved' || !andon.resolvedAt) return undefined;
+  return Math.max(0, Math.round((andon.resolvedAt.getTime() - andon.raisedAt.getTime()) / 60000));
+};
+
+/**
+ * Calculates the mean time-to-resolve over a set of Andons.
+ * @param andons - The Andons to consider; unresolved ones are ignored.
+ * @returns The average in minutes, or undefined if none are resolved.
+ */
+export const getAverageTimeToResolveMinutes = (andons: Andon[]): number | undefined => {
+  const durations = andons
+    .map(getTimeToResolveMinutes)
+    .filter((m): m is number => m !== undefined);
+  if (durations.length === 0) return undefined;
+  return durations.reduce((sum, m) => sum + m, 0) / durations.length;
+};
@@ -0,0 +1,147 @@
+/**
+ * @fileOverview Efficiency score: action points earned per clocked-in hour, penalised by waste points
+ * logged per hour. Computed per session, per space and per week (for trends).
+ * Pure functions only: no persistence, no React.
+ */
+
+import { startOfWeek } from 'date-fns';
+import type { LogEntry } from '@/core/domain/LogEntry';
+import type { WasteEntry } from '@/core/domain/WasteEntry';
+import { reconstructSessions, isWithinRange, type WorkSession } from './sessions';
+
+// Each waste point cancels this many action points.
+export const WASTE_PENALTY_WEIGHT = 1;
+
+// Week-over-week changes smaller than this fraction count as flat.
+const TREND_TOLERANCE = 0.05;
+
+export interface EfficiencyScore {
+  points: number;
+  wastePoints: number;
+  apPerHour: number;
+  wastePerHour: number;
+  score: number; // apPerHour - WASTE_PENALTY_WEIGHT * wastePerHour
+  minutes: number; // Clocked-in minutes the score is based on
+}
+
+export interface SessionEfficiency extends EfficiencyScore {
+  session: WorkSession;
+}
+
+export interface WeeklyEfficiency extends EfficiencyScore {
+  weekStart: Date; // Monday of the week
+}
+
+export type EfficiencyTrend = 'up' | 'down' | 'flat';
+
+export interface EfficiencyTrendSummary {
+  trend: EfficiencyTrend;
+  change: number; // Latest week's score minus the previous week's
+}
+
+/**
+ * Combines points, waste and time into a score.
+ * @param points - Action points earned.
+ * @param wastePoints - Waste points logged.
+ * @param minutes - Clocked-in minutes.
+ * @returns The score, or undefined when no time was clocked.
+ */
+export const computeEfficiency = (points: number, wastePoints: number, minutes: number): EfficiencyScore | undefined => {
+  if (minutes <= 0) return undefined;
+  const hours = minutes / 60;
+  const apPerHour = points / hours;
+  const wastePerHour = wastePoints / hours;
+  return { points, wastePoints, apPerHour, wastePerHour, score: apPerHour - WASTE_PENALTY_WEIGHT * wastePerHour, minutes };
+};
+
+/**
+ * Scores every clock-in session of a space. Waste counts toward the session it was logged in.
+ * @param logEntries - The space's log entries.
+ * @param wasteEntries - The space's waste entries.
+ * @param now - The current time, used to size an open session.
+ * @returns Scored sessions, oldest first. Sessions shorter than a minute are skipped.
+ */
+export const getSessionEfficiencies = (logEntries: LogEntry[], wasteEntries: WasteEntry[], now: Date = new Date()): SessionEfficiency[] => {
+  return reconstructSessions(logEntries, now).flatMap(session => {
+    const wastePoints = wasteEntries
+      .filter(w => isWithinRange(w.timestamp, { from: session.start, to: session.end ?? now }))
+      .reduce((sum, w) => sum + w.points, 0);
+    const efficiency = computeEfficiency(session.points, wastePoints, session.minutes);
+    return efficiency ? [{ ...efficiency, session }] : [];
+  });
+};
+
+/**
+ * Scores the space as a whole across all of its sessions.
+ * @param sessions - Scored sessions from getSessionEfficiencies.
+ * @returns The overall score, or undefined if no time was clocked.
+ */
+export const getOverallEfficiency = (sessions: SessionEfficiency[]): EfficiencyScore | undefined => {
+  const points = sessions.reduce((sum, s) => sum + s.points, 0);
+  const wastePoints = sessions.reduce((sum, s) => sum + s.wastePoints, 0);
+  const minutes = sessions.reduce((sum, s) => sum + s.minutes, 0);
+  return computeEfficiency(points, wastePoints, minutes);
+};
+
+/**
+ * Groups scored sessions by the week they started in.
+ * @param sessions - Scored sessions from getSessionEfficiencies.
+ * @returns One score per week with clocked time, oldest first.
+ */
+export const getWeeklyEfficiency = (sessions: SessionEfficiency[]): WeeklyEfficiency[] => {
+  const byWeek = new Map<number, SessionEfficiency[]>();
+  for (const s of sessions) {
+    const key = startOfWeek(s.session.start, { weekStartsOn: 1 }).getTime();
+    const week = byWeek.get(key);
+    if (week) week.push(s);
+    else byWeek.set(key, [s]);
+  }
+  return Array.from(byWeek.entries())
+    .sort(([a], [b]) => a - b)
+    .flatMap(([weekStart, weekSessions]) => {
+      const efficiency = getOverallEfficiency(weekSessions);
+      return efficiency ? [{ ...efficiency, weekStart: new Date(weekStart) }] : [];
+    });
+};
+
+/**
+ * Compares the two most recent weeks with clocked time.
+ * @param weeks - Weekly scores from getWeeklyEfficiency.
+ * @returns The trend, or undefined with fewer than two weeks of history.
+ */
+export const getEfficiencyTrend = (weeks: WeeklyEfficiency[]): EfficiencyTrendSummary | undefined => {
+  if (weeks.length < 2) return undefined;
+  const latest = weeks[weeks.length - 1].score;
+  const previous = weeks[weeks.length - 2].score;
+  const change = latest - previous;
+  const tolerance = Math.abs(previous) * TREND_TOLERANCE;
+  return { trend: change > tolerance ? 'up' : change < -tolerance ? 'down' : 'flat', change };
+};
+
+export interface EfficiencySummary {
+  overall?: EfficiencyScore;
+  currentSession?: EfficiencyScore; // Only while clocked in
+  lastSession?: EfficiencyScore; // Most recent session, open or closed
+  weekly: WeeklyEfficiency[];
+  trend?: EfficiencyTrendSummary;
+}
+
+/**
+ * Computes everything the dashboard shows about a space's efficiency.
+ * @param logEntries - The space's log entries.
+ * @param wasteEntries - The space's waste entries.
+ * @param now - The current time.
+ * @returns The summary.
+ */
+export const summarizeEfficiency = (logEntries: LogEntry[], wasteEntries: WasteEntry[], now: Date = new Date()): EfficiencySummary => {
+  const sessions = getSessionEfficiencies(logEntries, wasteEntries, now);
+  const weekly = getWeeklyEfficiency(sessions);
+  const last = sessions[sessions.length - 1];
+  return {
+    overall: getOverallEfficiency(sessions),
+    currentSession: last && last.session.end === null ? last : undefined,
+    lastSession: last,
+    weekly,
+    trend: getEfficiencyTrend(weekly),
+  };
+};
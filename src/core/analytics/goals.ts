@@ -0,0 +1,115 @@
+/**
+ * @fileOverview Progress calculation for quantitative goals.
+ * Pure functions only: no persistence, no React.
+ */
+
+import type { Goal, GoalMetric } from '@/core/domain/Goal';
+import type { LogEntry } from '@/core/domain/LogEntry';
+import type { WasteEntry } from '@/core/domain/WasteEntry';
+import { isWithinRange, type DateRange } from './sessions';
+import { getLoggedAction } from './actionLog';
+
+// 'achieved' means the goal's criteria are met (whether or not achievedAt has been recorded yet).
+export type GoalStatus = 'inProgress' | 'achieved' | 'missed';
+
+export interface GoalProgress {
+  current: number;
+  target: number;
+  ratio: number; // 0..1 share of the target reached (for maxWastePoints: share of the budget used)
+  status: GoalStatus;
+}
+
+export const GOAL_METRIC_LABELS: Record<GoalMetric, string> = {
+  actionCount: 'Action count',
+  totalPoints: 'Total AP',
+  clockedMinutes: 'Clocked minutes',
+  maxWastePoints: 'Max waste points',
+};
+
+/**
+ * The fixed ID of a goal's bonus log entry, so a goal can pay out its bonus only once.
+ * @param goalId - The ID of the goal.
+ * @returns The log entry ID.
+ */
+export const goalBonusEntryId = (goalId: string): string => `goalBonus:${goalId}`;
+
+/**
+ * Builds a short human-readable description of a goal, e.g. "50 × Process Inbox".
+ * @param goal - The goal.
+ * @returns The description.
+ */
+export const describeGoal = (goal: Pick<Goal, 'metric' | 'targetValue' | 'actionName'>): string => {
+  switch (goal.metric) {
+    case 'actionCount':
+      return `${goal.targetValue} × ${goal.actionName ?? 'action'}`;
+    case 'totalPoints':
+      return `${goal.targetValue} AP`;
+    case 'clockedMinutes':
+      return `${goal.targetValue} min clocked`;
+    case 'maxWastePoints':
+      return `Waste ≤ ${goal.targetValue} pts`;
+  }
+};
+
+/**
+ * Measures a goal's metric over its window (dateCreated to deadline, inclusive).
+ * @param goal - The goal.
+ * @param logEntries - Log entries for the goal's space.
+ * @param wasteEntries - Waste entries for the goal's space.
+ * @returns The current value of the metric.
+ */
+export const measureGoalMetric = (goal: Goal, logEntries: LogEntry[], wasteEntries: WasteEntry[]): number => {
+  const range: DateRange = { from: goal.dateCreated, to: goal.deadline ?? undefined };
+  const entries = logEntries.filter(e => isWithinRange(e.timestamp, range));
+
+  switch (goal.metric) {
+    case 'actionCount':
+      return entries
+        .filter(e => e.type === 'action' && goal.actionId !== undefined && e.actionId === goal.actionId)
+        .reduce((sum, e) => sum + getLoggedAction(e).units, 0);
+    case 'totalPoints':
+      // Bonus points are excluded so one goal's reward cannot complete another
+      return entries
+        .filter(e => e.type === 'action' || e.type === 'multiStepAction')
+        .reduce((sum, e) => sum + e.points, 0);
+    case 'clockedMinutes':
+      return entries
+        .filter(e => e.type === 'clockOut')
+        .reduce((sum, e) => sum + (e.minutesClockedIn ?? 0), 0);
+    case 'maxWastePoints':
+      return wasteEntries
+        .filter(e => isWithinRange(e.timestamp, range))
+        .reduce((sum, e) => sum + e.points, 0);
+  }
+};
+
+/**
+ * Computes a goal's progress and status.
+ * Target goals are achieved once the metric reaches the target and missed if the deadline passes first.
+ * Waste ceilings are missed as soon as the budget is exceeded and achieved once the deadline passes within it.
+ * @param goal - The goal.
+ * @param logEntries - Log entries for the goal's space.
+ * @param wasteEntries - Waste entries for the goal's space.
+ * @param now - The current time.
+ * @returns The goal's progress.
+ */
+export const computeGoalProgress = (
+  goal: Goal,
+  logEntries: LogEntry[],
+  wasteEntries: WasteEntry[],
+  now: Date = new Date(),
+): GoalProgress => {
+  const current = measureGoalMetric(goal, logEntries, wasteEntries);
+  const target = goal.targetValue;
+  const deadlinePassed = !!goal.deadline && now.getTime() > goal.deadline.getTime();
+
+  if (goal.metric === 'maxWastePoints') {
+    const ratio = target > 0 ? Math.min(1, current / target) : current > 0 ? 1 : 0;
+    const status: GoalStatus = goal.achievedAt ? 'achieved' : current > target ? 'missed' : deadlinePassed ? 'achieved' : 'inProgress';
+    return { current, target, ratio, status };
+  }
+
+  const ratio = target > 0 ? Math.min(1, current / target) : 1;
+  const status: GoalStatus = goal.achievedAt || current >= target ? 'achieved' : deadlinePassed ? 'missed' : 'inProgress';
+  return { current, target, ratio, status };
+};
@@ -0,0 +1,172 @@
+/**
+ * @fileOverview Calendar heatmap of daily activity (AP earned, minutes clocked, waste logged) and the
+ * chronological timeline behind a single day. Works for one space or for every space at once.
+ * Pure functions only: no persistence, no React.
+ */
+
+import { addDays, addWeeks, format, startOfDay, startOfWeek } from 'date-fns';
+import type { LogEntry } from '@/core/domain/LogEntry';
+import type { WasteEntry } from '@/core/domain/WasteEntry';
+import type { Comment } from '@/core/domain/Comment';
+import { reconstructSessions } from './sessions';
+
+export type HeatmapMetric = 'points' | 'minutes' | 'waste';
+
+// Weeks shown in the calendar, ending with the current week (a year, like GitHub's contribution graph).
+export const HEATMAP_WEEKS = 53;
+
+// Number of shading steps above "no activity".
+export const HEATMAP_LEVELS = 4;
+
+export interface DailyActivity {
+  points: number; // AP earned, including goal bonuses
+  minutes: number; // Minutes clocked, with sessions split at midnight
+  wastePoints: number;
+  wasteCount: number;
+}
+
+export interface HeatmapDay {
+  date: Date; // Local midnight
+  key: string; // yyyy-MM-dd
+  value: number; // The selected metric
+  level: number; // 0 (none) to HEATMAP_LEVELS
+  isFuture: boolean;
+}
+
+export interface ActivityRecords {
+  logEntries: LogEntry[]; // Any order; may span several spaces
+  wasteEntries: WasteEntry[];
+  comments: Comment[];
+}
+
+export type DayTimelineItem =
+  | { kind: 'session'; timestamp: Date; spaceId: string; end: Date | null; minutes: number }
+  | { kind: 'log'; timestamp: Date; spaceId: string; entry: LogEntry }
+  | { kind: 'waste'; timestamp: Date; spaceId: string; entry: WasteEntry }
+  | { kind: 'comment'; timestamp: Date; spaceId: string; comment: Comment };
+
+const EMPTY_DAY: DailyActivity = { points: 0, minutes: 0, wastePoints: 0, wasteCount: 0 };
+
+/**
+ * Builds the key used to look up a day's activity.
+ * @param date - Any time on the day.
+ * @returns The local calendar date as yyyy-MM-dd.
+ */
+export const getDayKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+// Sessions are reconstructed per space so clock events from different spaces are never paired.
+const getAllSessions = (logEntries: LogEntry[], now: Date) => {
+  const bySpace = new Map<string, LogEntry[]>();
+  for (const e of logEntries) {
+    const entries = bySpace.get(e.spaceId);
+    if (entries) entries.push(e);
+    else bySpace.set(e.spaceId, [e]);
+  }
+  return Array.from(bySpace.values()).flatMap(entries => reconstructSessions(entries, now));
+};
+
+/**
+ * Totals AP, clocked minutes and waste per local calendar day.
+ * @param logEntries - Log entries for one or more spaces.
+ * @param wasteEntries - Waste entries for the same spaces.
+ * @param now - The current time, used to size a running session.
+ * @returns Activity keyed by getDayKey; days without activity are absent.
+ */
+export const buildDailyActivity = (logEntries: LogEntry[], wasteEntries: WasteEntry[], now: Date = new Date()): Map<string, DailyActivity> => {
+  const days = new Map<string, DailyActivity>();
+  const dayFor = (date: Date) => {
+    const key = getDayKey(date);
+    const day = days.get(key) ?? { ...EMPTY_DAY };
+    days.set(key, day);
+    return day;
+  };
+
+  for (const entry of logEntries) {
+    if (entry.type === 'clockIn' || entry.type === 'clockOut') continue;
+    dayFor(entry.timestamp).points += entry.points;
+  }
+  for (const entry of wasteEntries) {
+    const day = dayFor(entry.timestamp);
+    day.wastePoints += entry.points;
+    day.wasteCount += 1;
+  }
+  for (const session of getAllSessions(logEntries, now)) {
+    const end = (session.end ?? now).getTime();
+    for (let dayStart = startOfDay(session.start); dayStart.getTime() < end; dayStart = addDays(dayStart, 1)) {
+      const from = Math.max(dayStart.getTime(), session.start.getTime());
+      const to = Math.min(addDays(dayStart, 1).getTime(), end);
+      const minutes = Math.floor((to - from) / 60000);
+      if (minutes > 0) dayFor(dayStart).minutes += minutes;
+    }
+  }
+  return days;
+};
+
+/**
+ * Reads one metric from a day's activity.
+ * @param day - The day's activity.
+ * @param metric - The metric shown in the heatmap.
+ * @returns The value.
+ */
+export const getHeatmapValue = (day: DailyActivity, metric: HeatmapMetric): number => {
+  return metric === 'points' ? day.points : metric === 'minutes' ? day.minutes : day.wastePoints;
+};
+
+/**
+ * Lays out daily activity as calendar columns, one per week (Monday first), ending with the current week.
+ * Shading is relative to the busiest day shown.
+ * @param daily - Activity from buildDailyActivity.
+ * @param metric - The metric to shade by.
+ * @param now - The current time.
+ * @param weeks - How many weeks to show.
+ * @returns Weeks oldest first, each with 7 days.
+ */
+export const buildHeatmapWeeks = (daily: Map<string, DailyActivity>, metric: HeatmapMetric, now: Date = new Date(), weeks: number = HEATMAP_WEEKS): HeatmapDay[][] => {
+  const firstWeek = addWeeks(startOfWeek(now, { weekStartsOn: 1 }), -(weeks - 1));
+  const today = startOfDay(now).getTime();
+  const grid = Array.from({ length: weeks }, (_, w) =>
+    Array.from({ length: 7 }, (_, d) => {
+      const date = addDays(addWeeks(firstWeek, w), d);
+      const key = getDayKey(date);
+      return { date, key, value: getHeatmapValue(daily.get(key) ?? EMPTY_DAY, metric), level: 0, isFuture: date.getTime() > today };
+    })
+  );
+
+  const max = Math.max(0, ...grid.flat().map(day => day.value));
+  if (max > 0) {
+    grid.flat().forEach(day => {
+      day.level = day.value > 0 ? Math.ceil((day.value / max) * HEATMAP_LEVELS) : 0;
+    });
+  }
+  return grid;
+};
+
+/**
+ * Lists everything that happened on a day in chronological order: clock-in sessions, logged
+ * actions and bonuses, waste and comments. A session is listed if any part of it falls on the day.
+ * @param date - Any time on the day.
+ * @param records - Records for one or more spaces.
+ * @param now - The current time, used to size a running session.
+ * @returns Timeline items, earliest first.
+ */
+export const buildDayTimeline = (date: Date, { logEntries, wasteEntries, comments }: ActivityRecords, now: Date = new Date()): DayTimelineItem[] => {
+  const dayStart = startOfDay(date).getTime();
+  const dayEnd = addDays(startOfDay(date), 1).getTime();
+  const onDay = (d: Date) => d.getTime() >= dayStart && d.getTime() < dayEnd;
+
+  const items: DayTimelineItem[] = [
+    ...getAllSessions(logEntries, now)
+      .filter(s => s.start.getTime() < dayEnd && (s.end ?? now).getTime() >= dayStart)
+      .map(s => ({ kind: 'session' as const, timestamp: s.start, spaceId: s.spaceId, end: s.end, minutes: s.minutes })),
+    ...logEntries
+      .filter(e => e.type !== 'clockIn' && e.type !== 'clockOut' && onDay(e.timestamp))
+      .map(entry => ({ kind: 'log' as const, timestamp: entry.timestamp, spaceId: entry.spaceId, entry })),
+    ...wasteEntries
+      .filter(e => onDay(e.timestamp))
+      .map(entry => ({ kind: 'waste' as const, timestamp: entry.timestamp, spaceId: entry.spaceId, entry })),
+    ...comments
+      .filter(c => onDay(c.timestamp))
+      .map(comment => ({ kind: 'comment' as const, timestamp: comment.timestamp, spaceId: comment.spaceId, comment })),
+  ];
+  return items.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+};
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_INSIGHT_PER_HOUR, parseInsightRate } from './insight';
+
+describe('parseInsightRate', () => {
+  it('reads a configured rate', () => {
+    expect(parseInsightRate('10')).toBe(10);
+    expect(parseInsightRate(' 2.5 ')).toBe(2.5);
+    expect(parseInsightRate('0')).toBe(0);
+  });
+
+  it('falls back to the default when unset or invalid', () => {
+    expect(parseInsightRate(undefined)).toBe(DEFAULT_INSIGHT_PER_HOUR);
+    expect(parseInsightRate('')).toBe(DEFAULT_INSIGHT_PER_HOUR);
+    expect(parseInsightRate('fast')).toBe(DEFAULT_INSIGHT_PER_HOUR);
+    expect(parseInsightRate('-3')).toBe(DEFAULT_INSIGHT_PER_HOUR);
+    expect(parseInsightRate('Infinity')).toBe(DEFAULT_INSIGHT_PER_HOUR);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * @fileOverview Insight accrual math and the Insight shop catalogue.
+ * Pure functions only: no persistence, no React.
+ */
+
+import type { InsightAccrual, InsightPurchase, InsightShopItem, InsightWallet } from '@/core/domain/Insight';
+
+export const DEFAULT_INSIGHT_PER_HOUR = 6;
+
+/**
+ * Reads the Insight rate from configuration (NEXT_PUBLIC_INSIGHT_PER_HOUR).
+ * Changing it only affects time accrued afterwards; Insight already earned is kept.
+ * @param value - The configured value, if any.
+ * @returns The rate per clocked-in hour, or DEFAULT_INSIGHT_PER_HOUR if unset or not a non-negative number.
+ */
+export const parseInsightRate = (value: string | undefined): number => {
+  if (value === undefined || value.trim() === '') return DEFAULT_INSIGHT_PER_HOUR;
+  const rate = Number(value);
+  return Number.isFinite(rate) && rate >= 0 ? rate : DEFAULT_INSIGHT_PER_HOUR;
+};
+
+// A forgotten clock-out (or a clock jumping forward) should not mint a fortune.
+export const MAX_ACCRUAL_MINUTES_PER_SESSION = 8 * 60;
+
+export const INSIGHT_SHOP_ITEMS: InsightShopItem[] = [
+  { id: 'tip-batching', kind: 'tip', name: 'Batch the small stuff', cost: 3, content: 'Group similar small actions into one block. Fewer switches means less Motion and Waiting waste.' },
+  { id: 'tip-andon-early', kind: 'tip', name: 'Pull the cord early', cost: 3, content: 'Raise an Andon the moment you are blocked. A problem flagged early is cheaper than one discovered at the end.' },
+  { id: 'tip-waste-review', kind: 'tip', name: 'Read your waste log', cost: 4, content: 'Once a week, look at which waste category shows up most. Fixing the biggest one usually helps more than fixing several small ones.' },
+  { id: 'tip-small-goals', kind: 'tip', name: 'Small goals, often', cost: 4, content: 'Short goals with near deadlines give quicker feedback than one large target.' },
+  { id: 'tip-steady-pace', kind: 'tip', name: 'Steady beats heroic', cost: 5, content: 'A consistent daily clock-in does more for flow than occasional marathon sessions.' },
+  { id: 'tip-quests', kind: 'tip', name: 'Turn routines into quests', cost: 5, content: 'If you repeat the same sequence of steps, make it a multi-step action so nothing gets skipped.' },
+  { id: 'accent-plum', kind: 'accent', name: 'Plum accent', cost: 15, accent: 'plum' },
+  { id: 'accent-amber', kind: 'accent', name: 'Amber accent', cost: 15, accent: 'amber' },
+  { id: 'accent-sky', kind: 'accent', name: 'Sky accent', cost: 15, accent: 'sky' },
+];
+
+export const INSIGHT_SHOP_ITEMS_BY_ID = new Map(INSIGHT_SHOP_ITEMS.map(item => [item.id, item] as const));
+
+/**
+ * Builds the deterministic accrual ID for a clock-in session.
+ * @param spaceId - The space that is clocked in.
+ * @param sessionStart - The session's clock-in time.
+ * @returns The accrual ID.
+ */
+export const getSessionAccrualId = (spaceId: string, sessionStart: Date): string => {
+  return `${spaceId}@${sessionStart.toISOString()}`;
+};
+
+/**
+ * Brings a session's accrual up to date.
+ * Minutes are clamped to [0, MAX_ACCRUAL_MINUTES_PER_SESSION] and never go backwards, so a clock
+ * that jumps back (or a stale tab) cannot reduce or re-credit earnings.
+ * @param existing - The accrual recorded so far, if any.
+ * @param spaceId - The space that is clocked in.
+ * @param sessionStart - The session's clock-in time.
+ * @param until - The time to accrue up to (now, or the clock-out time).
+ * @param ratePerHour - Insight earned per clocked-in hour.
+ * @returns The updated accrual, or undefined if there is nothing new to credit.
+ */
+export const computeSessionAccrual = (
+  existing: InsightAccrual | undefined,
+  spaceId: string,
+  sessionStart: Date,
+  until: Date,
+  ratePerHour: number,
+): InsightAccrual | undefined => {
+  const elapsed = Math.floor((until.getTime() - sessionStart.getTime()) / 60000);
+  const minutes = Math.min(MAX_ACCRUAL_MINUTES_PER_SESSION, Math.max(0, elapsed));
+  const alreadyCredited = existing?.minutesCredited ?? 0;
+  if (minutes <= alreadyCredited) return undefined;
+
+  return {
+    id: getSessionAccrualId(spaceId, sessionStart),
+    spaceId,
+    sessionStart,
+    minutesCredited: minutes,
+    insightEarned: (existing?.insightEarned ?? 0) + ((minutes - alreadyCredited) / 60) * ratePerHour,
+    lastAccruedAt: until,
+  };
+};
+
+/**
+ * Totals accruals and purchases into a wallet.
+ * @param accruals - Every session accrual.
+ * @param purchases - Every purchase.
+ * @returns The wallet summary.
+ */
+export const computeInsightWallet = (accruals: InsightAccrual[], purchases: InsightPurchase[]): InsightWallet => {
+  const totalEarned = accruals.reduce((sum, a) => sum + a.insightEarned, 0);
+  const totalSpent = purchases.reduce((sum, p) => sum + p.cost, 0);
+  return { balance: totalEarned - totalSpent, totalEarned, totalSpent, purchases };
+};
@@ -0,0 +1,51 @@
+/**
+ * @fileOverview Corrections to the work log: which entries can be voided or deleted, which entries
+ * still count toward points and statistics, and the audit entry that records each correction.
+ * Pure functions only: no persistence, no React.
+ */
+
+import { format } from 'date-fns';
+import type { LogEntry } from '@/core/domain/LogEntry';
+import { formatLoggedActionName } from './actionLog';
+
+export type LogCorrectionKind = 'void' | 'delete';
+
+/**
+ * Whether an entry still counts toward points, goals, achievements and charts.
+ * Voided entries and the 'correction' entries that audit them are kept for the history only.
+ * @param entry - The log entry.
+ * @returns True if the entry counts.
+ */
+export const isCountedEntry = (entry: LogEntry): boolean => {
+  return entry.type !== 'correction' && !entry.voidedAt;
+};
+
+/**
+ * Whether an entry can be voided or deleted from the history.
+ * Clock events can't: they define the work sessions that time and Insight are derived from.
+ * @param entry - The log entry.
+ * @returns True for counted action, quest step and bonus entries.
+ */
+export const isCorrectableEntry = (entry: LogEntry): boolean => {
+  return (entry.type === 'action' || entry.type === 'multiStepAction' || entry.type === 'goalBonus' || entry.type === 'questBonus') && isCountedEntry(entry);
+};
+
+/**
+ * Builds the audit entry recording that an entry was voided or deleted. It earns no points and
+ * keeps what the entry was, so the history still explains itself after a deletion.
+ * @param entry - The entry being corrected.
+ * @param kind - Whether it is being voided or deleted.
+ * @param reason - Optional note on why.
+ * @returns The 'correction' entry's data, without an ID or timestamp.
+ */
+export const buildCorrectionEntry = (entry: LogEntry, kind: LogCorrectionKind, reason?: string): Omit<LogEntry, 'id' | 'timestamp'> => {
+  const verb = kind === 'void' ? 'Voided' : 'Deleted';
+  return {
+    spaceId: entry.spaceId,
+    actionName: `${verb}: ${formatLoggedActionName(entry)} (+${entry.points} AP, logged ${format(entry.timestamp, 'MM/dd HH:mm')})`,
+    points: 0,
+    type: 'correction',
+    correctedEntryId: entry.id,
+    comment: reason,
+  };
+};
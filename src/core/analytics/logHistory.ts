@@ -0,0 +1,53 @@
+/**
+ * @fileOverview Filtering and session grouping for the log history page.
+ * Pure functions only: no persistence, no React.
+ */
+
+import type { LogEntry, LogEntryFilter } from '@/core/domain/LogEntry';
+import { isWithinRange, type WorkSession } from './sessions';
+import { getLoggedAction } from './actionLog';
+
+export interface LogSessionGroup {
+  session?: WorkSession; // Absent for entries logged outside any clock-in session
+  entries: LogEntry[]; // In the order they were given
+}
+
+/**
+ * Checks a log entry against the log history filters.
+ * @param entry - The log entry.
+ * @param filter - The filters; unset fields match everything.
+ * @returns True if the entry passes every set filter.
+ */
+export const matchesLogEntryFilter = (entry: LogEntry, filter: LogEntryFilter): boolean => {
+  if (filter.types && filter.types.length > 0 && !filter.types.includes(entry.type)) return false;
+  if (filter.actionId && getLoggedAction(entry).key !== filter.actionId) return false;
+  if (filter.search) {
+    const search = filter.search.trim().toLowerCase();
+    if (!entry.actionName.toLowerCase().includes(search) && !(entry.comment ?? '').toLowerCase().includes(search)) return false;
+  }
+  if (!isWithinRange(entry.timestamp, { from: filter.from, to: filter.to })) return false;
+  if (filter.minPoints !== undefined && entry.points < filter.minPoints) return false;
+  if (filter.maxPoints !== undefined && entry.points > filter.maxPoints) return false;
+  return true;
+};
+
+/**
+ * Groups consecutive log entries by the clock-in session they fall in.
+ * @param entries - Log entries, newest first (as paged from the log history).
+ * @param sessions - The space's sessions from reconstructSessions.
+ * @param now - The current time, bounding a running session.
+ * @returns Groups in the order of the entries; a session can appear twice if other entries interleave.
+ */
+export const groupEntriesBySession = (entries: LogEntry[], sessions: WorkSession[], now: Date = new Date()): LogSessionGroup[] => {
+  const groups: LogSessionGroup[] = [];
+  for (const entry of entries) {
+    const session = sessions.find(s => isWithinRange(entry.timestamp, { from: s.start, to: s.end ?? now }));
+    const last = groups[groups.length - 1];
+    if (last && last.session === session) {
+      last.entries.push(entry);
+    } else {
+      groups.push({ session, entries: [entry] });
+    }
+  }
+  return groups;
+};
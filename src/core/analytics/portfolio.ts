@@ -0,0 +1,150 @@
+/**
+ * @fileOverview Portfolio summary across all spaces: time clocked this week, an AP leaderboard,
+ * waste hot spots, spaces left clocked in and stalled multi-step actions.
+ * Pure functions only: no persistence, no React.
+ */
+
+import { startOfWeek } from 'date-fns';
+import type { Space } from '@/core/domain/Space';
+import type { LogEntry } from '@/core/domain/LogEntry';
+import type { WasteEntry } from '@/core/domain/WasteEntry';
+import type { MultiStepAction } from '@/core/domain/MultiStepAction';
+import { reconstructSessions } from './sessions';
+import { buildWastePareto } from './waste';
+import { getStalledMultiStepActions } from './tips';
+
+// Clocked-in sessions older than this are probably forgotten rather than still running.
+export const LONG_CLOCK_IN_HOURS = 8;
+
+export interface PortfolioInput {
+  spaces: Space[];
+  logEntries: LogEntry[]; // Every space's log entries, any order
+  wasteEntries: WasteEntry[]; // Every space's waste entries, any order
+  multiStepActions: MultiStepAction[];
+  now: Date;
+}
+
+export interface SpaceLeaderboardRow {
+  space: Space;
+  weekPoints: number; // AP earned since Monday
+  totalPoints: number;
+  weekMinutes: number; // Minutes clocked since Monday, including a running session
+}
+
+export interface WasteHotSpot {
+  space: Space;
+  wastePoints: number; // Waste points logged since Monday
+  entryCount: number;
+  topCategory: string; // Category with the most waste points
+}
+
+export interface ClockedInSpace {
+  space: Space;
+  since: Date;
+  minutes: number;
+  isLong: boolean; // Running for LONG_CLOCK_IN_HOURS or more
+}
+
+export interface StalledQuest {
+  space: Space;
+  action: MultiStepAction;
+  lastStepAt: Date;
+}
+
+export interface PortfolioSummary {
+  weekStart: Date; // Monday of the current week
+  weekMinutes: number;
+  weekPoints: number;
+  leaderboard: SpaceLeaderboardRow[]; // Most AP this week first
+  wasteHotSpots: WasteHotSpot[]; // Most waste points this week first; spaces without waste omitted
+  clockedIn: ClockedInSpace[]; // Longest running first
+  stalledQuests: StalledQuest[]; // Longest stalled first
+}
+
+const groupBySpace = <T extends { spaceId: string }>(items: T[]): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const group = groups.get(item.spaceId);
+    if (group) group.push(item);
+    else groups.set(item.spaceId, [item]);
+  }
+  return groups;
+};
+
+/**
+ * Measures how many minutes of a space's sessions fall between a start time and now.
+ * @param logEntries - A single space's log entries.
+ * @param from - The start of the window.
+ * @param now - The current time; a running session counts up to it.
+ * @returns The clocked minutes inside the window.
+ */
+export const getClockedMinutesSince = (logEntries: LogEntry[], from: Date, now: Date): number => {
+  return reconstructSessions(logEntries, now).reduce((sum, session) => {
+    const start = Math.max(session.start.getTime(), from.getTime());
+    const end = Math.min((session.end ?? now).getTime(), now.getTime());
+    return sum + Math.max(0, Math.floor((end - start) / 60000));
+  }, 0);
+};
+
+/**
+ * Aggregates every space into the home page's portfolio dashboard.
+ * @param input - All spaces and their records.
+ * @returns The summary.
+ */
+export const buildPortfolioSummary = ({ spaces, logEntries, wasteEntries, multiStepActions, now }: PortfolioInput): PortfolioSummary => {
+  const weekStart = startOfWeek(now, { weekStartsOn: 1 });
+  const isThisWeek = (date: Date) => date.getTime() >= weekStart.getTime() && date.getTime() <= now.getTime();
+  const logsBySpace = groupBySpace(logEntries);
+  const wasteBySpace = groupBySpace(wasteEntries);
+  const spacesById = new Map(spaces.map(s => [s.id, s] as const));
+
+  const leaderboard = spaces
+    .map(space => {
+      const logs = logsBySpace.get(space.id) ?? [];
+      const earning = logs.filter(e => e.type !== 'clockIn' && e.type !== 'clockOut');
+      return {
+        space,
+        weekPoints: earning.filter(e => isThisWeek(e.timestamp)).reduce((sum, e) => sum + e.points, 0),
+        totalPoints: earning.reduce((sum, e) => sum + e.points, 0),
+        weekMinutes: getClockedMinutesSince(logs, weekStart, now),
+      };
+    })
+    .sort((a, b) => b.weekPoints - a.weekPoints || b.totalPoints - a.totalPoints);
+
+  const wasteHotSpots = spaces
+    .flatMap(space => {
+      const weekWaste = (wasteBySpace.get(space.id) ?? []).filter(e => isThisWeek(e.timestamp));
+      if (weekWaste.length === 0) return [];
+      return [{
+        space,
+        wastePoints: weekWaste.reduce((sum, e) => sum + e.points, 0),
+        entryCount: weekWaste.length,
+        topCategory: buildWastePareto(weekWaste, 'points')[0].name,
+      }];
+    })
+    .sort((a, b) => b.wastePoints - a.wastePoints || b.entryCount - a.entryCount);
+
+  const clockedIn = spaces
+    .flatMap(space => {
+      if (!space.isClockedIn || !space.clockInStartTime) return [];
+      const minutes = Math.max(0, Math.floor((now.getTime() - space.clockInStartTime.getTime()) / 60000));
+      return [{ space, since: space.clockInStartTime, minutes, isLong: minutes >= LONG_CLOCK_IN_HOURS * 60 }];
+    })
+    .sort((a, b) => b.minutes - a.minutes);
+
+  const stalledQuests = getStalledMultiStepActions(multiStepActions, logEntries, now)
+    .flatMap(({ action, lastStepAt }) => {
+      const space = spacesById.get(action.spaceId);
+      return space ? [{ space, action, lastStepAt }] : [];
+    });
+
+  return {
+    weekStart,
+    weekMinutes: leaderboard.reduce((sum, row) => sum + row.weekMinutes, 0),
+    weekPoints: leaderboard.reduce((sum, row) => sum + row.weekPoints, 0),
+    leaderboard,
+    wasteHotSpots,
+    clockedIn,
+    stalledQuests,
+  };
+};
@@ -0,0 +1,105 @@
+/**
+ * @fileOverview Focus Level curve and feature unlock rules.
+ * Pure functions only: no persistence, no React.
+ */
+
+import type { FocusProgress, LevelUpEvent, UnlockableFeature } from '@/core/domain/Progression';
+
+// XP to go from level L to L+1 is XP_PER_LEVEL_STEP * L, so each level takes a little longer.
+const XP_PER_LEVEL_STEP = 100;
+
+// Base number of custom action slots (single + multi-step) per space, and the slots each level adds.
+const BASE_ACTION_SLOTS = 4;
+const ACTION_SLOTS_PER_LEVEL = 2;
+
+export const FEATURE_UNLOCK_LEVELS: Record<UnlockableFeature, number> = {
+  chartViews: 3,
+  themes: 5,
+};
+
+export const FEATURE_LABELS: Record<UnlockableFeature, string> = {
+  chartViews: 'Chart views',
+  themes: 'Interface themes',
+};
+
+/**
+ * The fixed ID of a level's level-up event, so each level is recorded only once.
+ * @param level - The level reached.
+ * @returns The event ID.
+ */
+export const levelUpEventId = (level: number): string => `level:${level}`;
+
+/**
+ * Re-keys level-up events recorded under random IDs by their level, keeping the earliest
+ * record of each level.
+ * @param events - The recorded events.
+ * @returns One event per level, sorted by level ascending.
+ */
+export const keyLevelUpsByLevel = (events: LevelUpEvent[]): LevelUpEvent[] => {
+  const earliest = new Map<number, LevelUpEvent>();
+  for (const event of events) {
+    const kept = earliest.get(event.level);
+    if (!kept || new Date(event.reachedAt).getTime() < new Date(kept.reachedAt).getTime()) {
+      earliest.set(event.level, event);
+    }
+  }
+  return [...earliest.values()]
+    .map(event => ({ ...event, id: levelUpEventId(event.level) }))
+    .sort((a, b) => a.level - b.level);
+};
+
+/**
+ * Calculates the total XP needed to reach a level.
+ * @param level - The level (1 is the starting level).
+ * @returns The cumulative XP threshold for that level.
+ */
+export const getXpForLevel = (level: number): number => {
+  const l = Math.max(1, Math.floor(level));
+  return (XP_PER_LEVEL_STEP / 2) * l * (l - 1);
+};
+
+/**
+ * Finds the level a given amount of XP corresponds to.
+ * @param totalXp - The accumulated XP. Negative totals count as zero.
+ * @returns The level, starting at 1.
+ */
+export const getLevelForXp = (totalXp: number): number => {
+  let level = 1;
+  while (getXpForLevel(level + 1) <= Math.max(0, totalXp)) {
+    level += 1;
+  }
+  return level;
+};
+
+/**
+ * Builds the progress summary shown in the header.
+ * @param totalXp - The accumulated XP.
+ * @param minLevel - A level already reached earlier; levels never go down once recorded.
+ * @returns The level and the XP position within it.
+ */
+export const getFocusProgress = (totalXp: number, minLevel = 1): FocusProgress => {
+  const level = Math.max(getLevelForXp(totalXp), minLevel);
+  const levelStart = getXpForLevel(level);
+  const xpForNextLevel = getXpForLevel(level + 1) - levelStart;
+  const xpIntoLevel = Math.min(xpForNextLevel, Math.max(0, totalXp - levelStart));
+  return { totalXp, level, xpIntoLevel, xpForNextLevel };
+};
+
+/**
+ * Checks whether a feature is available at a level.
+ * @param feature - The gated feature.
+ * @param level - The current Focus Level.
+ * @returns True if the feature is unlocked.
+ */
+export const isFeatureUnlocked = (feature: UnlockableFeature, level: number): boolean => {
+  return level >= FEATURE_UNLOCK_LEVELS[feature];
+};
+
+/**
+ * Calculates how many custom actions a space may hold at a level.
+ * @param level - The current Focus Level.
+ * @returns The combined limit for single and multi-step actions.
+ */
+export const getActionSlotLimit = (level: number): number => {
+  return BASE_ACTION_SLOTS + ACTION_SLOTS_PER_LEVEL * Math.max(1, level);
+};
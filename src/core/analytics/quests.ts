@@ -0,0 +1,72 @@
+/**
+ * @fileOverview Multi-step action (quest) runs: whether a quest is done, how many times it has been
+ * completed, and the cycle time of its runs. Pure functions only: no persistence, no React.
+ */
+
+import type { MultiStepAction, QuestRun } from '@/core/domain/MultiStepAction';
+
+export interface QuestRunSummary {
+  count: number; // Completed runs, legacy completions included
+  averageCycleTimeMinutes?: number; // Over recorded runs; absent if none were recorded
+  lastCycleTimeMinutes?: number;
+}
+
+/**
+ * Whether every step of a quest's current run is complete. Repeatable quests start over on
+ * completion, so they are only done if they were completed before becoming repeatable.
+ * @param action - The multi-step action.
+ * @returns True if no step is left to complete.
+ */
+export const isQuestDone = (action: MultiStepAction): boolean => {
+  return action.currentStepIndex >= action.steps.length;
+};
+
+/**
+ * Records a run that has just finished.
+ * @param startedAt - When the run started: the quest's creation or reset, or the previous run's finish.
+ * @param finishedAt - When its last step was completed.
+ * @returns The run, with its cycle time in whole minutes.
+ */
+export const buildQuestRun = (startedAt: Date, finishedAt: Date): QuestRun => ({
+  startedAt,
+  finishedAt,
+  cycleTimeMinutes: Math.max(0, Math.floor((finishedAt.getTime() - startedAt.getTime()) / 60000)),
+});
+
+/**
+ * Counts a quest's completed runs. Quests finished before runs were recorded count once.
+ * @param action - The multi-step action.
+ * @returns The number of completed runs.
+ */
+export const countCompletedRuns = (action: MultiStepAction): number => {
+  if (action.runs && action.runs.length > 0) return action.runs.length;
+  return action.steps.length > 0 && isQuestDone(action) ? 1 : 0;
+};
+
+/**
+ * Summarizes a quest's completed runs and their cycle times.
+ * @param action - The multi-step action.
+ * @returns The run count and average and latest cycle times.
+ */
+export const summarizeQuestRuns = (action: MultiStepAction): QuestRunSummary => {
+  const runs = action.runs ?? [];
+  if (runs.length === 0) return { count: countCompletedRuns(action) };
+  return {
+    count: runs.length,
+    averageCycleTimeMinutes: Math.round(runs.reduce((sum, run) => sum + run.cycleTimeMinutes, 0) / runs.length),
+    lastCycleTimeMinutes: runs[runs.length - 1].cycleTimeMinutes,
+  };
+};
+
+/**
+ * Formats a cycle time for display.
+ * @param minutes - The cycle time in minutes.
+ * @returns e.g. "45 min", "3 h 5 min" or "2 d 4 h".
+ */
+export const formatCycleTime = (minutes: number): string => {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return minutes % 60 > 0 ? `${hours} h ${minutes % 60} min` : `${hours} h`;
+  const days = Math.floor(hours / 24);
+  return hours % 24 > 0 ? `${days} d ${hours % 24} h` : `${days} d`;
+};
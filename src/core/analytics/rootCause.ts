@@ -0,0 +1,47 @@
+/**
+ * @fileOverview Helpers for root-cause analyses of waste (5 Whys and fishbone).
+ * Pure functions only: no persistence, no React.
+ */
+
+import type { FishboneCategory, RootCauseAnalysis } from '@/core/domain/RootCauseAnalysis';
+import type { WasteEntry } from '@/core/domain/WasteEntry';
+
+export const MAX_WHYS = 5;
+
+export const FISHBONE_CATEGORY_LABELS: Record<FishboneCategory, string> = {
+  method: 'Method',
+  machine: 'Machine',
+  material: 'Material',
+  manpower: 'People',
+  measurement: 'Measurement',
+  environment: 'Environment',
+};
+
+/**
+ * The root cause is the answer to the last "why?" in the chain.
+ * @param analysis - The analysis.
+ * @returns The root cause, or undefined if no whys were recorded.
+ */
+export const getRootCause = (analysis: Pick<RootCauseAnalysis, 'whys'>): string | undefined => {
+  return analysis.whys.length > 0 ? analysis.whys[analysis.whys.length - 1] : undefined;
+};
+
+/**
+ * Collects the IDs of every waste entry covered by at least one analysis.
+ * @param analyses - Root-cause analyses.
+ * @returns The analyzed waste entry IDs.
+ */
+export const getAnalyzedWasteEntryIds = (analyses: RootCauseAnalysis[]): Set<string> => {
+  return new Set(analyses.flatMap(a => a.wasteEntryIds));
+};
+
+/**
+ * Counts waste entries that have been analyzed. Analyses pointing at deleted entries don't count.
+ * @param wasteEntries - The waste entries to check.
+ * @param analyses - Root-cause analyses covering them.
+ * @returns The number of analyzed entries.
+ */
+export const countAnalyzedWasteEntries = (wasteEntries: WasteEntry[], analyses: RootCauseAnalysis[]): number => {
+  const analyzedIds = getAnalyzedWasteEntryIds(analyses);
+  return wasteEntries.filter(e => analyzedIds.has(e.id)).length;
+};
@@ -0,0 +1,92 @@
+/**
+ * @fileOverview Reconstructs clock-in sessions from a space's log entries.
+ * Pure functions only: no persistence, no React.
+ */
+
+import type { LogEntry } from '@/core/domain/LogEntry';
+
+export interface WorkSession {
+  spaceId: string;
+  start: Date;
+  end: Date | null; // null while the session is still open (clocked in)
+  minutes: number; // Whole minutes, as recorded on the clockOut entry when available
+  points: number; // Points logged between start and end
+  entryCount: number; // Number of point-earning entries logged in the session
+  clockOutEntryId?: string;
+}
+
+export interface DateRange {
+  from?: Date; // Inclusive
+  to?: Date; // Inclusive
+}
+
+/**
+ * Checks whether a date falls within an optional, inclusive range.
+ * @param date - The date to check.
+ * @param range - The range; missing bounds are open-ended.
+ * @returns True if the date is within the range.
+ */
+export const isWithinRange = (date: Date, range: DateRange = {}): boolean => {
+  const time = date.getTime();
+  if (range.from && time < range.from.getTime()) return false;
+  if (range.to && time > range.to.getTime()) return false;
+  return true;
+};
+
+/**
+ * Pairs clockIn and clockOut log entries into sessions.
+ * A clockOut's own clockInTime is preferred as the session start since it is what was
+ * persisted at clock-out; a dangling clockIn at the end becomes an open session.
+ * @param logEntries - Log entries for a single space, in any order.
+ * @param now - The current time, used to size an open session.
+ * @returns Sessions sorted by start time ascending.
+ */
+export const reconstructSessions = (logEntries: LogEntry[], now: Date = new Date()): WorkSession[] => {
+  const sorted = [...logEntries].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const sessions: WorkSession[] = [];
+  let openClockIn: LogEntry | null = null;
+
+  for (const entry of sorted) {
+    if (entry.type === 'clockIn') {
+      openClockIn = entry;
+    } else if (entry.type === 'clockOut') {
+      const start = entry.clockInTime ?? openClockIn?.timestamp;
+      if (start) {
+        const end = entry.clockOutTime ?? entry.timestamp;
+        sessions.push({
+          spaceId: entry.spaceId,
+          start,
+          end,
+          minutes: entry.minutesClockedIn ?? Math.floor((end.getTime() - start.getTime()) / 60000),
+          points: 0,
+          entryCount: 0,
+          clockOutEntryId: entry.id,
+        });
+      }
+      openClockIn = null;
+    }
+  }
+
+  if (openClockIn) {
+    sessions.push({
+      spaceId: openClockIn.spaceId,
+      start: openClockIn.timestamp,
+      end: null,
+      minutes: Math.max(0, Math.floor((now.getTime() - openClockIn.timestamp.getTime()) / 60000)),
+      points: 0,
+      entryCount: 0,
+    });
+  }
+
+  // Attribute point-earning entries to the session they fall in. Goal and quest bonuses are rewards, not session work.
+  for (const entry of sorted) {
+    if (entry.type === 'clockIn' || entry.type === 'clockOut' || entry.type === 'goalBonus' || entry.type === 'questBonus' || entry.type === 'correction') continue;
+    const session = sessions.find(s => isWithinRange(entry.timestamp, { from: s.start, to: s.end ?? now }));
+    if (session) {
+      session.points += entry.points;
+      session.entryCount += 1;
+    }
+  }
+
+  return sessions;
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { MIN_SPC_POINTS, buildControlChart, summarizeViolations, type SpcRuleId } from './spc';
+
+const series = (values: number[]) => values.map((value, i) => ({ label: `p${i}`, value }));
+const chartOf = (values: number[]) => buildControlChart(series(values), 'dailyActions')!;
+const firedAt = (values: number[], rule: SpcRuleId) => chartOf(values).violations.filter(v => v.rule === rule).map(v => v.index);
+
+// Steady alternation: small moving ranges, so sigma is about 0.9
+const steady = [10, 11, 10, 11, 10, 11, 10, 11, 10, 11, 10, 11, 10, 11];
+
+describe('buildControlChart', () => {
+  it('computes the mean, sigma from the average moving range, and 3-sigma limits', () => {
+    const chart = chartOf([10, 12, 11, 13, 9]);
+    expect(chart.mean).toBe(11);
+    expect(chart.movingRangeMean).toBe(2.25);
+    expect(chart.sigma).toBeCloseTo(2.25 / 1.128);
+    expect(chart.ucl).toBeCloseTo(11 + 3 * (2.25 / 1.128));
+    expect(chart.lcl).toBeCloseTo(11 - 3 * (2.25 / 1.128));
+    expect(chart.movingRangeUcl).toBeCloseTo(3.267 * 2.25);
+    expect(chart.points.map(p => p.movingRange)).toEqual([undefined, 2, 1, 2, 4]);
+    expect(chart.violations).toEqual([]);
+  });
+
+  it('never puts the lower limit below zero', () => {
+    expect(chartOf([1, 5, 1, 5, 1]).lcl).toBe(0);
+  });
+
+  it('returns no chart with fewer than the minimum number of points', () => {
+    expect(buildControlChart(series([10, 12, 11, 13]), 'dailyActions')).toBeUndefined();
+    expect(buildControlChart([], 'sessionApPerHour')).toBeUndefined();
+    expect(buildControlChart(series(Array(MIN_SPC_POINTS).fill(10)), 'dailyActions')).toBeDefined();
+  });
+
+  it('flags a point beyond 3 sigma', () => {
+    const values = [...steady, 30];
+    const chart = chartOf(values);
+    expect(30).toBeGreaterThan(chart.ucl);
+    expect(firedAt(values, 'beyondLimits')).toEqual([14]);
+    expect(chart.points[14].violations).toContain('beyondLimits');
+  });
+
+  it('flags 8 points in a row on one side of the centre line', () => {
+    const values = [12, 8, 12, 8, 12, 8, 11, 11, 11, 11, 11, 11, 11, 11];
+    expect(chartOf(values).violations).toEqual([{ rule: 'run', index: 13, label: 'p13' }]);
+  });
+
+  it('flags 6 points in a row rising', () => {
+    const values = [5, 9, 5, 9, 4, 5, 6, 7, 8, 9];
+    expect(chartOf(values).violations).toEqual([{ rule: 'trend', index: 9, label: 'p9' }]);
+  });
+
+  it('flags 6 points in a row falling', () => {
+    expect(firedAt([5, 1, 5, 1, 9, 8, 7, 6, 5, 4], 'trend')).toEqual([9]);
+  });
+
+  it('flags 2 of 3 points beyond 2 sigma on the same side, but not a lone one', () => {
+    const values = [...steady, 13, 11, 13];
+    const chart = chartOf(values);
+    expect(13).toBeLessThan(chart.ucl);
+    expect(chart.violations).toEqual([{ rule: 'twoOfThree', index: 16, label: 'p16' }]);
+  });
+
+  it('flags nothing on a flat series', () => {
+    expect(chartOf([10, 10, 10, 10, 10]).violations).toEqual([]);
+  });
+});
+
+describe('summarizeViolations', () => {
+  it('lists each rule once with its count and latest point, most recent first', () => {
+    const chart = chartOf([...steady, 30]);
+    const summary = summarizeViolations(chart);
+    expect(summary[0]).toEqual({ rule: 'beyondLimits', count: 1, lastLabel: 'p14', lastIndex: 14 });
+    expect(summary.map(s => s.rule)).toEqual(['beyondLimits', 'run']);
+    expect(summary[1].count).toBe(chart.violations.filter(v => v.rule === 'run').length);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * @fileOverview Statistical process control: XmR (individuals and moving range) charts with
+ * Western Electric rule checks, for daily action counts or AP/hour per session.
+ * Pure functions only: no persistence, no React.
+ */
+
+import type { LogEntry } from '@/core/domain/LogEntry';
+import { buildSessionThroughput, buildThroughputSeries } from './throughput';
+
+export type SpcMetric = 'dailyActions' | 'sessionApPerHour';
+
+export type SpcRuleId = 'beyondLimits' | 'twoOfThree' | 'fourOfFive' | 'run' | 'trend';
+
+export interface SpcPoint {
+  label: string;
+  value: number;
+  movingRange?: number; // |value - previous value|; absent on the first point
+  violations: SpcRuleId[];
+}
+
+export interface SpcViolation {
+  rule: SpcRuleId;
+  index: number; // Point that completed the pattern
+  label: string;
+}
+
+export interface ControlChart {
+  metric: SpcMetric;
+  points: SpcPoint[]; // Oldest first
+  mean: number;
+  sigma: number; // Estimated from the average moving range
+  ucl: number; // Upper control limit, mean + 3 sigma
+  lcl: number; // Lower control limit, mean - 3 sigma, never below zero since rates cannot be negative
+  movingRangeMean: number;
+  movingRangeUcl: number;
+  violations: SpcViolation[];
+}
+
+// XmR constants: sigma = MR-bar / d2, and the moving range chart's upper limit is D4 * MR-bar (n = 2).
+const D2 = 1.128;
+const D4 = 3.267;
+
+// Fewer points than this give limits too unstable to act on.
+export const MIN_SPC_POINTS = 5;
+
+const RUN_LENGTH = 8;
+const TREND_LENGTH = 6;
+
+export const SPC_METRIC_LABELS: Record<SpcMetric, string> = {
+  dailyActions: 'Actions per day',
+  sessionApPerHour: 'AP/hour per session',
+};
+
+export const SPC_RULE_LABELS: Record<SpcRuleId, string> = {
+  beyondLimits: 'Beyond control limits',
+  twoOfThree: '2 of 3 beyond 2σ',
+  fourOfFive: '4 of 5 beyond 1σ',
+  run: `${RUN_LENGTH} in a row on one side`,
+  trend: `${TREND_LENGTH} rising or falling`,
+};
+
+/**
+ * Extracts the series to chart from a space's log entries.
+ * @param logEntries - The space's log entries.
+ * @param metric - Daily action counts (quiet days between active ones count as zero) or AP/hour per finished session.
+ * @returns Labelled values, oldest first.
+ */
+export const getSpcSeries = (logEntries: LogEntry[], metric: SpcMetric): { label: string; value: number }[] => {
+  return metric === 'dailyActions'
+    ? buildThroughputSeries(logEntries, 'day').map(b => ({ label: b.label, value: b.count }))
+    : buildSessionThroughput(logEntries).map(s => ({ label: s.label, value: s.apPerHour }));
+};
+
+// Checks whether at least `needed` of the last `window` points (ending at i, which must be one of them)
+// sit more than `zones` sigmas from the mean on the same side.
+const zoneRule = (values: number[], i: number, window: number, needed: number, zones: number, mean: number, sigma: number): boolean => {
+  if (i < window - 1 || sigma === 0) return false;
+  const recent = values.slice(i - window + 1, i + 1);
+  return [1, -1].some(side =>
+    side * (values[i] - mean) > zones * sigma &&
+    recent.filter(v => side * (v - mean) > zones * sigma).length >= needed
+  );
+};
+
+const runRule = (values: number[], i: number, mean: number): boolean => {
+  if (i < RUN_LENGTH - 1) return false;
+  const recent = values.slice(i - RUN_LENGTH + 1, i + 1);
+  return recent.every(v => v > mean) || recent.every(v => v < mean);
+};
+
+const trendRule = (values: number[], i: number): boolean => {
+  if (i < TREND_LENGTH - 1) return false;
+  const recent = values.slice(i - TREND_LENGTH + 1, i + 1);
+  const steps = recent.slice(1).map((v, k) => v - recent[k]);
+  return steps.every(d => d > 0) || steps.every(d => d < 0);
+};
+
+/**
+ * Builds an XmR chart and flags Western Electric rule violations.
+ * @param series - Labelled values, oldest first.
+ * @param metric - The metric the values measure.
+ * @returns The chart, or undefined with fewer than MIN_SPC_POINTS values.
+ */
+export const buildControlChart = (series: { label: string; value: number }[], metric: SpcMetric): ControlChart | undefined => {
+  if (series.length < MIN_SPC_POINTS) return undefined;
+  const values = series.map(p => p.value);
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const movingRanges = values.slice(1).map((v, k) => Math.abs(v - values[k]));
+  const movingRangeMean = movingRanges.reduce((sum, r) => sum + r, 0) / movingRanges.length;
+  const sigma = movingRangeMean / D2;
+  const ucl = mean + 3 * sigma;
+  const lcl = Math.max(0, mean - 3 * sigma);
+
+  const violations: SpcViolation[] = [];
+  const points = series.map(({ label, value }, i) => {
+    const rules: SpcRuleId[] = [];
+    if (value > ucl || value < lcl) rules.push('beyondLimits');
+    if (zoneRule(values, i, 3, 2, 2, mean, sigma)) rules.push('twoOfThree');
+    if (zoneRule(values, i, 5, 4, 1, mean, sigma)) rules.push('fourOfFive');
+    if (runRule(values, i, mean)) rules.push('run');
+    if (trendRule(values, i)) rules.push('trend');
+    rules.forEach(rule => violations.push({ rule, index: i, label }));
+    return { label, value, movingRange: i > 0 ? movingRanges[i - 1] : undefined, violations: rules };
+  });
+
+  return { metric, points, mean, sigma, ucl, lcl, movingRangeMean, movingRangeUcl: D4 * movingRangeMean, violations };
+};
+
+/**
+ * Summarizes which rules fired and when they last did.
+ * @param chart - A chart from buildControlChart.
+ * @returns One row per rule that fired, most recent first.
+ */
+export const summarizeViolations = (chart: ControlChart): { rule: SpcRuleId; count: number; lastLabel: string; lastIndex: number }[] => {
+  const byRule = new Map<SpcRuleId, { rule: SpcRuleId; count: number; lastLabel: string; lastIndex: number }>();
+  for (const v of chart.violations) {
+    const row = byRule.get(v.rule) ?? { rule: v.rule, count: 0, lastLabel: v.label, lastIndex: v.index };
+    row.count += 1;
+    if (v.index >= row.lastIndex) {
+      row.lastIndex = v.index;
+      row.lastLabel = v.label;
+    }
+    byRule.set(v.rule, row);
+  }
+  return Array.from(byRule.values()).sort((a, b) => b.lastIndex - a.lastIndex);
+};
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import type { LogEntry } from '@/core/domain/LogEntry';
+import { buildActionBreakdown, buildSessionThroughput, buildThroughputSeries } from './throughput';
+
+// Monday 10 March 2025, local time
+const at = (day: number, hour = 9, minute = 0) => new Date(2025, 2, day, hour, minute);
+
+let nextId = 0;
+const logged = (type: LogEntry['type'], timestamp: Date, extra: Partial<LogEntry> = {}): LogEntry => ({
+  id: `log-${nextId++}`,
+  spaceId: 'space',
+  timestamp,
+  actionName: 'Process Inbox',
+  points: 2,
+  type,
+  ...extra,
+});
+
+const action = (timestamp: Date, extra: Partial<LogEntry> = {}) => logged('action', timestamp, { actionId: 'inbox', ...extra });
+
+describe('buildThroughputSeries', () => {
+  it('buckets weeks from Monday', () => {
+    const series = buildThroughputSeries([action(at(9, 23)), action(at(10, 0, 30)), action(at(16, 22))], 'week');
+    expect(series.map(b => b.start)).toEqual([at(3, 0), at(10, 0)]);
+    expect(series.map(b => b.count)).toEqual([1, 2]);
+  });
+
+  it('fills quiet periods between active ones with zeros', () => {
+    const series = buildThroughputSeries([action(at(10)), action(at(13))], 'day');
+    expect(series.map(b => b.points)).toEqual([2, 0, 0, 2]);
+    expect(series.map(b => b.label)).toEqual(['03/10', '03/11', '03/12', '03/13']);
+  });
+
+  it('keeps running totals of points and counts', () => {
+    const series = buildThroughputSeries([
+      action(at(10), { quantity: 5, points: 10 }),
+      logged('multiStepAction', at(11), { multiStepActionId: 'quest', points: 3 }),
+      action(at(12), { points: 2 }),
+    ], 'day');
+    expect(series.map(b => b.cumulativePoints)).toEqual([10, 13, 15]);
+    expect(series.map(b => b.cumulativeCount)).toEqual([5, 6, 7]);
+  });
+
+  it('counts only actions and quest steps', () => {
+    const series = buildThroughputSeries([
+      logged('clockIn', at(10), { points: 0 }),
+      logged('goalBonus', at(10), { points: 20 }),
+      logged('questBonus', at(10), { points: 5 }),
+      action(at(10)),
+    ], 'day');
+    expect(series).toEqual([expect.objectContaining({ points: 2, count: 1 })]);
+  });
+
+  it('is empty when nothing was logged', () => {
+    expect(buildThroughputSeries([logged('clockIn', at(10))], 'week')).toEqual([]);
+  });
+});
+
+describe('buildActionBreakdown', () => {
+  it('keeps a renamed action on one row under its latest name', () => {
+    const rows = buildActionBreakdown([
+      action(at(10), { actionName: 'Inbox' }),
+      action(at(12), { actionName: 'Process Inbox', quantity: 3, points: 6 }),
+      action(at(11), { actionName: 'Old Inbox' }),
+    ]);
+    expect(rows).toEqual([{ key: 'inbox', name: 'Process Inbox', count: 5, points: 10 }]);
+  });
+
+  it('prefers the current name when one is given', () => {
+    const rows = buildActionBreakdown([action(at(10))], new Map([['inbox', 'Triage Inbox']]));
+    expect(rows[0].name).toBe('Triage Inbox');
+  });
+
+  it('keys legacy entries without an action ID by their logged name', () => {
+    const rows = buildActionBreakdown([
+      action(at(10), { actionId: undefined, actionName: 'Tidy Desk' }),
+      action(at(11), { actionId: undefined, actionName: 'Tidy Desk' }),
+      action(at(12)),
+    ]);
+    expect(rows.map(r => [r.key, r.count])).toEqual([['Tidy Desk', 2], ['inbox', 1]]);
+  });
+
+  it('keys quest steps by their quest and sorts by points', () => {
+    const rows = buildActionBreakdown([
+      action(at(10)),
+      logged('multiStepAction', at(10), { multiStepActionId: 'quest', actionName: 'Ship it - Step 1: Plan', points: 5 }),
+    ]);
+    expect(rows.map(r => r.key)).toEqual(['quest', 'inbox']);
+  });
+});
+
+describe('buildSessionThroughput', () => {
+  it('scores finished sessions by AP per hour', () => {
+    const sessions = buildSessionThroughput([
+      logged('clockIn', at(10, 9), { points: 0 }),
+      action(at(10, 9, 30), { points: 4 }),
+      action(at(10, 10), { points: 2 }),
+      logged('clockOut', at(10, 10, 30), { points: 0, clockInTime: at(10, 9), clockOutTime: at(10, 10, 30), minutesClockedIn: 90 }),
+    ]);
+    expect(sessions).toEqual([{ start: at(10, 9), label: '03/10 09:00', minutes: 90, points: 6, apPerHour: 4 }]);
+  });
+
+  it('leaves out open sessions', () => {
+    const sessions = buildSessionThroughput([
+      logged('clockIn', at(10, 9), { points: 0 }),
+      action(at(10, 9, 30)),
+    ]);
+    expect(sessions).toEqual([]);
+  });
+
+  it('leaves out sessions shorter than a minute instead of dividing by zero', () => {
+    const sessions = buildSessionThroughput([
+      logged('clockIn', at(10, 9), { points: 0 }),
+      action(at(10, 9)),
+      logged('clockOut', at(10, 9), { points: 0, clockInTime: at(10, 9), clockOutTime: at(10, 9), minutesClockedIn: 0 }),
+    ]);
+    expect(sessions).toEqual([]);
+  });
+});
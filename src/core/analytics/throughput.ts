@@ -0,0 +1,123 @@
+/**
+ * @fileOverview Action throughput: action points and action counts per day or week, per action,
+ * and per clock-in session. Pure functions only: no persistence, no React.
+ */
+
+import { addDays, addWeeks, format, startOfDay, startOfWeek } from 'date-fns';
+import type { LogEntry } from '@/core/domain/LogEntry';
+import { reconstructSessions } from './sessions';
+import { getLoggedAction } from './actionLog';
+
+export type ThroughputPeriod = 'day' | 'week';
+
+export interface ThroughputBucket {
+  start: Date; // Start of the day, or Monday of the week
+  label: string;
+  points: number;
+  count: number;
+  cumulativePoints: number;
+  cumulativeCount: number;
+}
+
+export interface ActionThroughput {
+  key: string; // From getLoggedAction
+  name: string;
+  count: number;
+  points: number;
+}
+
+export interface SessionThroughput {
+  start: Date;
+  label: string;
+  minutes: number;
+  points: number;
+  apPerHour: number;
+}
+
+/**
+ * Checks whether a log entry records work done (a simple action or a quest step).
+ * Clock events and goal bonuses are excluded.
+ * @param entry - The log entry.
+ * @returns True for 'action' and 'multiStepAction' entries.
+ */
+export const isThroughputEntry = (entry: LogEntry): boolean => {
+  return entry.type === 'action' || entry.type === 'multiStepAction';
+};
+
+const getPeriodStart = (date: Date, period: ThroughputPeriod): Date =>
+  period === 'day' ? startOfDay(date) : startOfWeek(date, { weekStartsOn: 1 });
+
+/**
+ * Totals action points and action counts per day or week, with running totals.
+ * Periods without activity between the first and last active one are included as zeros.
+ * @param logEntries - The space's log entries, in any order.
+ * @param period - Whether to bucket by day or by week.
+ * @returns Buckets oldest first; empty when nothing was logged.
+ */
+export const buildThroughputSeries = (logEntries: LogEntry[], period: ThroughputPeriod): ThroughputBucket[] => {
+  const totals = new Map<number, { points: number; count: number }>();
+  for (const entry of logEntries) {
+    if (!isThroughputEntry(entry)) continue;
+    const key = getPeriodStart(entry.timestamp, period).getTime();
+    const total = totals.get(key) ?? { points: 0, count: 0 };
+    total.points += entry.points;
+    total.count += getLoggedAction(entry).units;
+    totals.set(key, total);
+  }
+  if (totals.size === 0) return [];
+
+  const keys = Array.from(totals.keys());
+  const last = Math.max(...keys);
+  const buckets: ThroughputBucket[] = [];
+  let cumulativePoints = 0;
+  let cumulativeCount = 0;
+  for (let start = new Date(Math.min(...keys)); start.getTime() <= last; start = period === 'day' ? addDays(start, 1) : addWeeks(start, 1)) {
+    const total = totals.get(start.getTime()) ?? { points: 0, count: 0 };
+    cumulativePoints += total.points;
+    cumulativeCount += total.count;
+    buckets.push({ start, label: format(start, 'MM/dd'), points: total.points, count: total.count, cumulativePoints, cumulativeCount });
+  }
+  return buckets;
+};
+
+/**
+ * Totals action points and action counts per action, keyed by action ID so renames keep their history.
+ * @param logEntries - The space's log entries.
+ * @param currentNames - Current action and quest names by ID; otherwise the most recently logged name is shown.
+ * @returns One row per action, most points first.
+ */
+export const buildActionBreakdown = (logEntries: LogEntry[], currentNames: Map<string, string> = new Map()): ActionThroughput[] => {
+  const byKey = new Map<string, ActionThroughput & { lastLoggedAt: number }>();
+  for (const entry of logEntries) {
+    if (!isThroughputEntry(entry)) continue;
+    const { key, name, units } = getLoggedAction(entry);
+    const row = byKey.get(key) ?? { key, name, count: 0, points: 0, lastLoggedAt: 0 };
+    row.count += units;
+    row.points += entry.points;
+    if (entry.timestamp.getTime() >= row.lastLoggedAt) {
+      row.lastLoggedAt = entry.timestamp.getTime();
+      row.name = name;
+    }
+    byKey.set(key, row);
+  }
+  return Array.from(byKey.values())
+    .map(row => ({ key: row.key, name: currentNames.get(row.key) ?? row.name, count: row.count, points: row.points }))
+    .sort((a, b) => b.points - a.points || b.count - a.count || a.name.localeCompare(b.name));
+};
+
+/**
+ * Scores every finished clock-in session by action points per hour.
+ * @param logEntries - The space's log entries.
+ * @returns Sessions with a clockOut entry and at least a minute of time, oldest first.
+ */
+export const buildSessionThroughput = (logEntries: LogEntry[]): SessionThroughput[] => {
+  return reconstructSessions(logEntries)
+    .filter(s => s.end !== null && s.minutes > 0)
+    .map(s => ({
+      start: s.start,
+      label: format(s.start, 'MM/dd HH:mm'),
+      minutes: s.minutes,
+      points: s.points,
+      apPerHour: s.points / (s.minutes / 60),
+    }));
+};
@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest';
+import type { Space } from '@/core/domain/Space';
+import type { LogEntry } from '@/core/domain/LogEntry';
+import type { WasteEntry } from '@/core/domain/WasteEntry';
+import type { WasteCategory } from '@/core/domain/WasteCategory';
+import type { MultiStepAction } from '@/core/domain/MultiStepAction';
+import type { TipDismissal, TipId } from '@/core/domain/Tip';
+import { TIP_RULES, getActiveTips, getStalledMultiStepActions, isTipSuppressed, type TipContext } from './tips';
+
+const NOW = new Date('2025-03-10T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(NOW.getTime() - minutes * 60 * 1000);
+const daysAgo = (days: number) => minutesAgo(days * 24 * 60);
+
+const space: Space = {
+  id: 'space',
+  name: 'Workbench',
+  dateCreated: daysAgo(30),
+  dateModified: daysAgo(1),
+  totalClockedInTime: 0,
+};
+
+const waitingCategory: WasteCategory = { id: 'waiting', spaceId: 'space', name: 'Waiting', points: 5, archived: false, timwoods: 'waiting', dateCreated: daysAgo(30) };
+const motionCategory: WasteCategory = { id: 'motion', spaceId: 'space', name: 'Motion', points: 3, archived: false, timwoods: 'motion', dateCreated: daysAgo(30) };
+const customCategory: WasteCategory = { id: 'custom', spaceId: 'space', name: 'Waiting', points: 2, archived: false, dateCreated: daysAgo(5) };
+
+let nextId = 0;
+const waste = (category: WasteCategory | string, at: Date, points = 5): WasteEntry => ({
+  id: `waste-${nextId++}`,
+  spaceId: 'space',
+  timestamp: at,
+  ...(typeof category === 'string' ? { type: category } : { type: category.name, categoryId: category.id }),
+  points,
+});
+
+const logged = (type: LogEntry['type'], at: Date, extra: Partial<LogEntry> = {}): LogEntry => ({
+  id: `log-${nextId++}`,
+  spaceId: 'space',
+  timestamp: at,
+  actionName: type,
+  points: 1,
+  type,
+  ...extra,
+});
+
+const quest = (currentStepIndex: number, extra: Partial<MultiStepAction> = {}): MultiStepAction => ({
+  id: 'quest',
+  spaceId: 'space',
+  name: 'Ship it',
+  pointsPerStep: 2,
+  steps: ['Plan', 'Build', 'Review'].map((name, index) => ({ id: `step-${index}`, name, completed: index < currentStepIndex })),
+  currentStepIndex,
+  ...extra,
+});
+
+const context = (overrides: Partial<TipContext> = {}): TipContext => ({
+  space,
+  logEntries: [],
+  wasteEntries: [],
+  wasteCategories: [waitingCategory, motionCategory, customCategory],
+  multiStepActions: [],
+  now: NOW,
+  ...overrides,
+});
+
+const rule = (id: TipId) => TIP_RULES.find(r => r.id === id)!;
+
+const dismissal = (tipId: TipId, snoozedUntil: Date | null): TipDismissal => ({
+  id: `dismissal-${tipId}`,
+  spaceId: 'space',
+  tipId,
+  dismissedAt: minutesAgo(10),
+  snoozedUntil,
+});
+
+describe('wasteRising', () => {
+  it('matches when the last hour has enough waste and well over the hour before', () => {
+    const wasteEntries = [waste(motionCategory, minutesAgo(10), 6), waste(motionCategory, minutesAgo(20), 6), waste(motionCategory, minutesAgo(90), 4)];
+    expect(rule('wasteRising').matches(context({ wasteEntries }))).toBe(true);
+  });
+
+  it('ignores a small last hour', () => {
+    const wasteEntries = [waste(motionCategory, minutesAgo(10), 9)];
+    expect(rule('wasteRising').matches(context({ wasteEntries }))).toBe(false);
+  });
+
+  it('ignores waste that is steady rather than rising', () => {
+    const wasteEntries = [waste(motionCategory, minutesAgo(10), 12), waste(motionCategory, minutesAgo(90), 10)];
+    expect(rule('wasteRising').matches(context({ wasteEntries }))).toBe(false);
+  });
+});
+
+describe('waitingDominates', () => {
+  it('matches when most recent waste is logged against the Waiting category', () => {
+    const wasteEntries = [
+      ...[1, 2, 3, 4].map(day => waste(waitingCategory, daysAgo(day))),
+      waste(motionCategory, daysAgo(1)),
+    ];
+    expect(rule('waitingDominates').matches(context({ wasteEntries }))).toBe(true);
+  });
+
+  it('follows the Waiting category after it is renamed', () => {
+    const renamed = { ...waitingCategory, name: 'Blocked' };
+    const wasteEntries = [1, 2, 3, 4].map(day => waste(renamed, daysAgo(day)));
+    expect(rule('waitingDominates').matches(context({ wasteEntries, wasteCategories: [renamed] }))).toBe(true);
+  });
+
+  it('does not count a custom category that happens to be named Waiting', () => {
+    const wasteEntries = [1, 2, 3, 4].map(day => waste(customCategory, daysAgo(day)));
+    expect(rule('waitingDominates').matches(context({ wasteEntries }))).toBe(false);
+  });
+
+  it('counts legacy entries without a category by their name', () => {
+    const wasteEntries = [1, 2, 3, 4].map(day => waste('Waiting', daysAgo(day)));
+    expect(rule('waitingDominates').matches(context({ wasteEntries }))).toBe(true);
+  });
+
+  it('needs a few entries and ignores waste older than a week', () => {
+    const wasteEntries = [
+      ...[1, 2, 3].map(day => waste(waitingCategory, daysAgo(day))),
+      waste(waitingCategory, daysAgo(8)),
+    ];
+    expect(rule('waitingDominates').matches(context({ wasteEntries }))).toBe(false);
+  });
+
+  it('ignores Waiting when it is not at least half of recent waste', () => {
+    const wasteEntries = [
+      ...[1, 2, 3, 4].map(day => waste(waitingCategory, daysAgo(day))),
+      ...[1, 2, 3, 4, 5].map(day => waste(motionCategory, daysAgo(day))),
+    ];
+    expect(rule('waitingDominates').matches(context({ wasteEntries }))).toBe(false);
+  });
+});
+
+describe('idleSession', () => {
+  const clockedIn = { ...space, isClockedIn: true, clockInStartTime: minutesAgo(60) };
+
+  it('matches when clocked in for a while without logging work', () => {
+    expect(rule('idleSession').matches(context({ space: clockedIn }))).toBe(true);
+  });
+
+  it('counts from the latest work logged in the session', () => {
+    const logEntries = [logged('action', minutesAgo(30))];
+    expect(rule('idleSession').matches(context({ space: clockedIn, logEntries }))).toBe(false);
+  });
+
+  it('ignores entries that are not work', () => {
+    const logEntries = [logged('goalBonus', minutesAgo(5)), logged('clockIn', minutesAgo(60))];
+    expect(rule('idleSession').matches(context({ space: clockedIn, logEntries }))).toBe(true);
+  });
+
+  it('never matches when clocked out', () => {
+    expect(rule('idleSession').matches(context())).toBe(false);
+  });
+
+  it('stops matching once clocked out, even with the old start time still set', () => {
+    const clockedOut = { ...clockedIn, isClockedIn: false };
+    expect(rule('idleSession').matches(context({ space: clockedOut }))).toBe(false);
+    expect(getActiveTips(context({ space: clockedOut })).map(t => t.id)).not.toContain('idleSession');
+  });
+});
+
+describe('stalledQuest', () => {
+  it('matches a started quest with no step for a few days', () => {
+    const logEntries = [logged('multiStepAction', daysAgo(4), { multiStepActionId: 'quest', stepIndex: 0 })];
+    expect(rule('stalledQuest').matches(context({ multiStepActions: [quest(1)], logEntries }))).toBe(true);
+  });
+
+  it('ignores recent progress, unstarted, finished and archived quests', () => {
+    const stale = [logged('multiStepAction', daysAgo(4), { multiStepActionId: 'quest', stepIndex: 0 })];
+    const recent = [logged('multiStepAction', daysAgo(1), { multiStepActionId: 'quest', stepIndex: 0 })];
+    expect(getStalledMultiStepActions([quest(1)], recent, NOW)).toEqual([]);
+    expect(getStalledMultiStepActions([quest(0)], stale, NOW)).toEqual([]);
+    expect(getStalledMultiStepActions([quest(3)], stale, NOW)).toEqual([]);
+    expect(getStalledMultiStepActions([quest(1, { archived: true })], stale, NOW)).toEqual([]);
+  });
+});
+
+describe('getActiveTips', () => {
+  // Matches every rule at once
+  const busy = context({
+    space: { ...space, isClockedIn: true, clockInStartTime: minutesAgo(60) },
+    wasteEntries: [1, 2, 3, 4].map(minutes => waste(waitingCategory, minutesAgo(minutes))),
+    logEntries: [logged('multiStepAction', daysAgo(4), { multiStepActionId: 'quest', stepIndex: 0 })],
+    multiStepActions: [quest(1)],
+  });
+
+  it('lists matching tips highest priority first', () => {
+    expect(getActiveTips(busy).map(t => t.id)).toEqual(['wasteRising', 'waitingDominates', 'idleSession', 'stalledQuest']);
+  });
+
+  it('returns nothing for a quiet space', () => {
+    expect(getActiveTips(context())).toEqual([]);
+  });
+
+  it('hides dismissed and still-snoozed tips', () => {
+    const dismissals = [dismissal('wasteRising', null), dismissal('idleSession', minutesAgo(-30))];
+    expect(getActiveTips(busy, dismissals).map(t => t.id)).toEqual(['waitingDominates', 'stalledQuest']);
+  });
+
+  it('shows a tip again once its snooze has passed', () => {
+    const dismissals = [dismissal('wasteRising', minutesAgo(1))];
+    expect(isTipSuppressed(dismissals[0], NOW)).toBe(false);
+    expect(getActiveTips(busy, dismissals).map(t => t.id)).toContain('wasteRising');
+  });
+});
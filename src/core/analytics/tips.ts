@@ -0,0 +1,144 @@
+/**
+ * @fileOverview Declarative rules behind the Okapi mascot's contextual tips.
+ * Each rule is a predicate over a space's recent data, so rules can be checked against fixture data.
+ * Pure functions only: no persistence, no React.
+ */
+
+import type { Space } from '@/core/domain/Space';
+import type { LogEntry } from '@/core/domain/LogEntry';
+import type { WasteEntry } from '@/core/domain/WasteEntry';
+import type { WasteCategory } from '@/core/domain/WasteCategory';
+import type { MultiStepAction } from '@/core/domain/MultiStepAction';
+import type { TipDismissal, TipId } from '@/core/domain/Tip';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Rule thresholds
+const WASTE_RISE_MIN_POINTS = 10; // Waste points in the last hour before a rise is worth mentioning
+const WASTE_RISE_FACTOR = 1.5; // Last hour vs the hour before
+const WAITING_WINDOW_DAYS = 7;
+const WAITING_MIN_ENTRIES = 4;
+const WAITING_SHARE = 0.5;
+const IDLE_SESSION_MINUTES = 45;
+const STALLED_QUEST_DAYS = 3;
+
+export interface TipContext {
+  space: Space;
+  logEntries: LogEntry[]; // The space's log entries, any order
+  wasteEntries: WasteEntry[]; // The space's waste entries, any order
+  wasteCategories: WasteCategory[]; // The space's waste categories, archived included
+  multiStepActions: MultiStepAction[];
+  now: Date;
+}
+
+export interface TipRule {
+  id: TipId;
+  priority: number; // Higher wins when several tips match
+  message: string;
+  matches: (context: TipContext) => boolean;
+}
+
+const sumWastePoints = (entries: WasteEntry[], from: number, to: number): number =>
+  entries
+    .filter(e => e.timestamp.getTime() > from && e.timestamp.getTime() <= to)
+    .reduce((sum, e) => sum + e.points, 0);
+
+const isWorkEntry = (entry: LogEntry): boolean => entry.type === 'action' || entry.type === 'multiStepAction';
+
+export interface StalledMultiStepAction {
+  action: MultiStepAction;
+  lastStepAt: Date;
+}
+
+/**
+ * Finds multi-step actions that were started but have had no step completed for a few days.
+ * Archived actions are parked on purpose and never count as stalled.
+ * @param multiStepActions - Multi-step actions, from one or more spaces.
+ * @param logEntries - Log entries for the same spaces, any order.
+ * @param now - The current time.
+ * @returns The stalled actions with their latest step time, longest stalled first.
+ */
+export const getStalledMultiStepActions = (multiStepActions: MultiStepAction[], logEntries: LogEntry[], now: Date): StalledMultiStepAction[] => {
+  const cutoff = now.getTime() - STALLED_QUEST_DAYS * 24 * HOUR_MS;
+  const lastStepById = new Map<string, number>();
+  for (const e of logEntries) {
+    if (e.type !== 'multiStepAction' || !e.multiStepActionId) continue;
+    lastStepById.set(e.multiStepActionId, Math.max(lastStepById.get(e.multiStepActionId) ?? 0, e.timestamp.getTime()));
+  }
+  return multiStepActions
+    .flatMap(action => {
+      if (action.archived || action.currentStepIndex <= 0 || action.currentStepIndex >= action.steps.length) return [];
+      const lastStep = lastStepById.get(action.id) ?? 0;
+      return lastStep > 0 && lastStep < cutoff ? [{ action, lastStepAt: new Date(lastStep) }] : [];
+    })
+    .sort((a, b) => a.lastStepAt.getTime() - b.lastStepAt.getTime());
+};
+
+export const TIP_RULES: TipRule[] = [
+  {
+    id: 'wasteRising',
+    priority: 40,
+    message: 'Waste is climbing faster than an hour ago. Perhaps pause and look at what keeps interrupting you?',
+    matches: ({ wasteEntries, now }) => {
+      const t = now.getTime();
+      const lastHour = sumWastePoints(wasteEntries, t - HOUR_MS, t);
+      const hourBefore = sumWastePoints(wasteEntries, t - 2 * HOUR_MS, t - HOUR_MS);
+      return lastHour >= WASTE_RISE_MIN_POINTS && lastHour > hourBefore * WASTE_RISE_FACTOR;
+    },
+  },
+  {
+    id: 'waitingDominates',
+    priority: 30,
+    message: 'Most of your recent waste is Waiting. Could you line up a second task to switch to while you wait?',
+    matches: ({ wasteEntries, wasteCategories, now }) => {
+      const since = now.getTime() - WAITING_WINDOW_DAYS * 24 * HOUR_MS;
+      const recent = wasteEntries.filter(e => e.timestamp.getTime() >= since);
+      const waitingIds = new Set(wasteCategories.filter(c => c.timwoods === 'waiting').map(c => c.id));
+      // Entries logged before categories were configurable only have the category name
+      const waiting = recent.filter(e => (e.categoryId ? waitingIds.has(e.categoryId) : e.type === 'Waiting')).length;
+      return waiting >= WAITING_MIN_ENTRIES && waiting / recent.length >= WAITING_SHARE;
+    },
+  },
+  {
+    id: 'idleSession',
+    priority: 20,
+    message: 'You have been clocked in a while without logging anything. Stuck? Try logging a small win, or raise an Andon.',
+    matches: ({ space, logEntries, now }) => {
+      if (!space.isClockedIn || !space.clockInStartTime) return false;
+      const start = space.clockInStartTime.getTime();
+      const lastWork = logEntries
+        .filter(e => isWorkEntry(e) && e.timestamp.getTime() >= start)
+        .reduce((latest, e) => Math.max(latest, e.timestamp.getTime()), start);
+      return now.getTime() - lastWork >= IDLE_SESSION_MINUTES * 60 * 1000;
+    },
+  },
+  {
+    id: 'stalledQuest',
+    priority: 10,
+    message: 'A multi-step action has been sitting half-done for a few days. Finishing the next step keeps it from going stale.',
+    matches: ({ multiStepActions, logEntries, now }) => getStalledMultiStepActions(multiStepActions, logEntries, now).length > 0,
+  },
+];
+
+/**
+ * Checks whether a dismissal currently hides its tip.
+ * @param dismissal - The stored dismissal.
+ * @param now - The current time.
+ * @returns True if the tip was dismissed for good or is still snoozed.
+ */
+export const isTipSuppressed = (dismissal: TipDismissal, now: Date): boolean => {
+  return dismissal.snoozedUntil === null || dismissal.snoozedUntil.getTime() > now.getTime();
+};
+
+/**
+ * Lists the tips that match a space's data and are not dismissed or snoozed.
+ * @param context - The space's recent data.
+ * @param dismissals - The space's stored dismissals.
+ * @returns Matching rules, highest priority first.
+ */
+export const getActiveTips = (context: TipContext, dismissals: TipDismissal[] = []): TipRule[] => {
+  const suppressed = new Set(dismissals.filter(d => isTipSuppressed(d, context.now)).map(d => d.tipId));
+  return TIP_RULES
+    .filter(rule => !suppressed.has(rule.id) && rule.matches(context))
+    .sort((a, b) => b.priority - a.priority);
+};
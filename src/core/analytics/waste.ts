@@ -0,0 +1,109 @@
+/**
+ * @fileOverview Waste analytics: Pareto ranking of waste categories and time-of-day / day-of-week
+ * breakdowns. Pure functions only: no persistence, no React.
+ */
+
+import type { WasteEntry } from '@/core/domain/WasteEntry';
+import { TIMWOODS_WASTES, type WasteCategory } from '@/core/domain/WasteCategory';
+
+export type WasteMetric = 'count' | 'points';
+
+export interface WasteParetoItem {
+  key: string; // categoryId, or the category name for entries logged before categories were configurable
+  name: string; // Category name on the most recent entry
+  count: number;
+  points: number;
+  value: number; // count or points, depending on the metric ranked by
+  share: number; // Percentage of the total value
+  cumulativeShare: number; // Running percentage, 0–100
+}
+
+export interface WasteTimeBucket {
+  label: string;
+  count: number;
+  points: number;
+}
+
+// Monday-first, matching the weekly buckets used for efficiency trends.
+export const DAY_OF_WEEK_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Share of the total that marks the "vital few" categories in a Pareto chart.
+export const PARETO_THRESHOLD = 80;
+
+/**
+ * Tags a category seeded before categories recorded their TIMWOODS waste, going by the name
+ * it was seeded with.
+ * @param category - The category.
+ * @returns The category, tagged if its name is one of the TIMWOODS wastes.
+ */
+export const tagTimwoodsCategory = (category: WasteCategory): WasteCategory => {
+  if (category.timwoods) return category;
+  const timwoods = TIMWOODS_WASTES.find(waste => waste === category.name.trim().toLowerCase());
+  return timwoods ? { ...category, timwoods } : category;
+};
+
+/**
+ * Ranks waste categories by count or points, with each category's running share of the total.
+ * @param wasteEntries - The waste entries to rank.
+ * @param metric - Whether to rank by number of entries or by waste points.
+ * @returns Categories sorted from largest to smallest value.
+ */
+export const buildWastePareto = (wasteEntries: WasteEntry[], metric: WasteMetric): WasteParetoItem[] => {
+  const groups = new Map<string, { name: string; latest: number; count: number; points: number }>();
+  for (const entry of wasteEntries) {
+    const key = entry.categoryId ?? entry.type;
+    const time = entry.timestamp.getTime();
+    const group = groups.get(key) ?? { name: entry.type, latest: time, count: 0, points: 0 };
+    if (time >= group.latest) {
+      group.name = entry.type;
+      group.latest = time;
+    }
+    group.count += 1;
+    group.points += entry.points;
+    groups.set(key, group);
+  }
+
+  const items = Array.from(groups, ([key, g]) => ({ key, name: g.name, count: g.count, points: g.points, value: metric === 'count' ? g.count : g.points }))
+    .sort((a, b) => b.value - a.value || a.name.localeCompare(b.name));
+  const total = items.reduce((sum, item) => sum + item.value, 0);
+
+  let running = 0;
+  return items.map(item => {
+    running += item.value;
+    return {
+      ...item,
+      share: total > 0 ? (item.value / total) * 100 : 0,
+      cumulativeShare: total > 0 ? (running / total) * 100 : 0,
+    };
+  });
+};
+
+/**
+ * Buckets waste entries by the local hour they were logged in.
+ * @param wasteEntries - The waste entries to bucket.
+ * @returns 24 buckets, midnight first.
+ */
+export const buildWasteByHourOfDay = (wasteEntries: WasteEntry[]): WasteTimeBucket[] => {
+  const buckets = Array.from({ length: 24 }, (_, hour) => ({ label: `${String(hour).padStart(2, '0')}:00`, count: 0, points: 0 }));
+  for (const entry of wasteEntries) {
+    const bucket = buckets[entry.timestamp.getHours()];
+    bucket.count += 1;
+    bucket.points += entry.points;
+  }
+  return buckets;
+};
+
+/**
+ * Buckets waste entries by the local day of the week they were logged on.
+ * @param wasteEntries - The waste entries to bucket.
+ * @returns 7 buckets, Monday first.
+ */
+export const buildWasteByDayOfWeek = (wasteEntries: WasteEntry[]): WasteTimeBucket[] => {
+  const buckets = DAY_OF_WEEK_LABELS.map(label => ({ label, count: 0, points: 0 }));
+  for (const entry of wasteEntries) {
+    const bucket = buckets[(entry.timestamp.getDay() + 6) % 7];
+    bucket.count += 1;
+    bucket.points += entry.points;
+  }
+  return buckets;
+};
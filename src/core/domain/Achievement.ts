@@ -0,0 +1,31 @@
+/**
+ * @fileOverview Defines the domain models for achievements (workspace-wide milestones) and streaks.
+ * The rules themselves live in core/analytics/achievements; only unlocks are persisted.
+ */
+
+export type AchievementId =
+  | 'firstAction'
+  | 'actions100'
+  | 'actions1000'
+  | 'firstQuest'
+  | 'quests10'
+  | 'firstGoal'
+  | 'clockInStreak3'
+  | 'clockInStreak7'
+  | 'clockedHours10'
+  | 'waste10'
+  | 'waste50'
+  | 'wasteAnalyzed5'
+  | 'firstTodoDone'
+  | 'todos25';
+
+export interface UnlockedAchievement {
+  id: string; // Same as achievementId, so an achievement is unlocked once
+  achievementId: AchievementId;
+  unlockedAt: Date;
+}
+
+export interface StreakSummary {
+  current: number; // Consecutive days with a clock-in, ending today or yesterday
+  longest: number; // Longest run of consecutive clock-in days ever
+}
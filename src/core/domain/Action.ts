@@ -8,4 +8,6 @@ export interface Action {
   spaceId: string; // Foreign key linking to Space
   description?: string;
   points: number; // Points awarded for completing the action once.
+  sortOrder?: number; // Position in the space's action list, lowest first; absent on actions created before reordering existed
+  archived?: boolean; // Hidden from the action list and free of a slot; entries already logged stay in the history
 }
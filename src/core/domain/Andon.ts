@@ -0,0 +1,17 @@
+/**
+ * @fileOverview Defines the domain model for an Andon signal (a raised problem or blocker) within a Space.
+ */
+
+// open -> acknowledged -> resolved. An open Andon may also be resolved directly.
+export type AndonStatus = 'open' | 'acknowledged' | 'resolved';
+
+export interface Andon {
+  id: string;
+  spaceId: string; // Foreign key linking to Space
+  comment: string; // Description of the problem when raised
+  status: AndonStatus;
+  raisedAt: Date;
+  acknowledgedAt?: Date | null; // Set when someone takes ownership
+  resolvedAt?: Date | null; // Set when the blocker is cleared
+  resolutionNote?: string; // How the blocker was cleared
+}
@@ -0,0 +1,23 @@
+/**
+ * @fileOverview Defines the domain model for a quantitative goal (CTQ target) within a Space.
+ */
+
+// What a goal measures. All metrics are counted from the goal's dateCreated onwards.
+// - actionCount: completions of one simple Action (multipliers count, e.g. x5 = 5)
+// - totalPoints: AP earned from actions and steps (bonus points are excluded)
+// - clockedMinutes: minutes recorded on clock-out entries
+// - maxWastePoints: a ceiling; achieved at the deadline if waste points stayed at or below the target
+export type GoalMetric = 'actionCount' | 'totalPoints' | 'clockedMinutes' | 'maxWastePoints';
+
+export interface Goal {
+  id: string;
+  spaceId: string; // Foreign key linking to Space
+  metric: GoalMetric;
+  targetValue: number;
+  actionId?: string; // Required for 'actionCount'
+  actionName?: string; // Name of the Action at creation time, for display; log entries are matched by actionId
+  deadline?: Date | null; // Required for 'maxWastePoints'
+  bonusPoints: number; // Awarded via a 'goalBonus' log entry when achieved
+  dateCreated: Date;
+  achievedAt?: Date | null; // Set once the goal is hit
+}
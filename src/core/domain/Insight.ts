@@ -0,0 +1,41 @@
+/**
+ * @fileOverview Defines the domain models for Insight, the passive currency earned while clocked in.
+ * Earnings are recorded per clock-in session so recomputing them is idempotent.
+ */
+
+// Insight credited for one clock-in session. The ID is derived from the space and the
+// session start, so every tab computing the same session writes the same record.
+export interface InsightAccrual {
+  id: string;
+  spaceId: string;
+  sessionStart: Date;
+  minutesCredited: number; // Whole minutes of the session already converted into Insight
+  insightEarned: number; // May be fractional; balances are shown rounded down
+  lastAccruedAt: Date;
+}
+
+export type InsightItemKind = 'tip' | 'accent';
+
+export interface InsightShopItem {
+  id: string;
+  kind: InsightItemKind;
+  name: string;
+  cost: number;
+  content?: string; // The tip text, for 'tip' items
+  accent?: string; // The accent key applied to the interface, for 'accent' items
+}
+
+// Items are bought once. The ID is the item ID, so a double purchase from two tabs collapses into one.
+export interface InsightPurchase {
+  id: string;
+  itemId: string;
+  cost: number;
+  purchasedAt: Date;
+}
+
+export interface InsightWallet {
+  balance: number;
+  totalEarned: number;
+  totalSpent: number;
+  purchases: InsightPurchase[];
+}
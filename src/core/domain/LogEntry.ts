@@ -2,20 +2,49 @@
  * @fileOverview Defines the domain model for a Log Entry within a Space, tracking actions, clock events, etc.
  */
 
-export type LogEntryType = 'action' | 'multiStepAction' | 'clockIn' | 'clockOut';
+export type LogEntryType = 'action' | 'multiStepAction' | 'clockIn' | 'clockOut' | 'goalBonus' | 'questBonus' | 'correction';
 
 export interface LogEntry {
   id: string;
   spaceId: string; // Foreign key linking to Space
   timestamp: Date;
-  actionName: string; // Name of the action or event ('Clock In', 'Clock Out', action name)
+  actionName: string; // Name of the action or event ('Clock In', 'Clock Out', action name as it was when logged, or what a correction did)
   points: number; // Points awarded for this entry (0 for clock events)
   type: LogEntryType;
 
   // Optional fields for specific types
-  multiStepActionId?: string; // ID of the multi-step action if type is 'multiStepAction'
+  actionId?: string; // ID of the action if type is 'action'; absent for legacy entries whose action no longer existed
+  quantity?: number; // Times the action was done if type is 'action' (the x2/x5/x10 multiplier)
+  comment?: string; // Optional note written when logging
+  multiStepActionId?: string; // ID of the multi-step action if type is 'multiStepAction' or 'questBonus'
   stepIndex?: number; // Index of the completed step if type is 'multiStepAction'
   clockInTime?: Date; // Relevant for 'clockOut' type
   clockOutTime?: Date; // Relevant for 'clockOut' type
   minutesClockedIn?: number; // Relevant for 'clockOut' type
+  goalId?: string; // ID of the achieved goal if type is 'goalBonus'
+  correctedEntryId?: string; // ID of the voided or deleted entry if type is 'correction'
+  voidedAt?: Date; // Set when the entry was voided: it stays in the history but no longer counts
+  voidReason?: string;
+}
+
+// Criteria for browsing a space's log history. Every field is optional; set fields must all match.
+export interface LogEntryFilter {
+  types?: LogEntryType[];
+  actionId?: string; // The action or quest ID
+  search?: string; // Case-insensitive text within actionName or comment
+  from?: Date; // Inclusive
+  to?: Date; // Inclusive
+  minPoints?: number;
+  maxPoints?: number;
+}
+
+// Position after the last entry of a page; entries are ordered newest first, ties broken by ID.
+export interface LogEntryCursor {
+  timestamp: Date;
+  id: string;
+}
+
+export interface LogEntryPage {
+  entries: LogEntry[]; // Newest first
+  nextCursor?: LogEntryCursor; // Absent on the last page
 }
@@ -8,6 +8,13 @@ export interface ActionStep {
   completed: boolean;
 }
 
+// One completed run through a multi-step action's steps.
+export interface QuestRun {
+  startedAt: Date; // When the run started: the quest's creation or reset, or the previous run's finish
+  finishedAt: Date; // When its last step was completed
+  cycleTimeMinutes: number; // finishedAt - startedAt, in whole minutes
+}
+
 export interface MultiStepAction {
   id: string;
   name: string;
@@ -16,4 +23,10 @@ export interface MultiStepAction {
   pointsPerStep: number; // Points awarded for completing each step
   steps: ActionStep[];
   currentStepIndex: number; // Index of the next step to be completed (0-based)
+  sortOrder?: number; // Position among the space's multi-step actions, lowest first
+  archived?: boolean; // Hidden from the action list and free of a slot; steps already logged stay in the history
+  completionBonus?: number; // Extra points logged when the last step is completed, on top of pointsPerStep
+  repeatable?: boolean; // Starts over after the last step instead of staying done
+  runStartedAt?: Date; // When the current run started (creation, reset or the previous run's finish); absent once a one-off quest is done
+  runs?: QuestRun[]; // Completed runs, oldest first; absent for quests finished before runs were recorded
 }
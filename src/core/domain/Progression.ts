@@ -0,0 +1,21 @@
+/**
+ * @fileOverview Defines the domain models for user-level progression ("Focus Level").
+ * XP is the AP earned across every space; levels unlock features.
+ */
+
+// Features gated behind Focus Level. Action slots grow with every level; the others unlock once.
+export type UnlockableFeature = 'chartViews' | 'themes';
+
+export interface LevelUpEvent {
+  id: string;
+  level: number; // The level that was reached
+  reachedAt: Date;
+  totalXp: number; // XP at the moment the level was reached
+}
+
+export interface FocusProgress {
+  totalXp: number;
+  level: number;
+  xpIntoLevel: number; // XP earned since the current level was reached
+  xpForNextLevel: number; // XP needed to go from the current level to the next
+}
@@ -0,0 +1,24 @@
+/**
+ * @fileOverview Defines the domain model for a root-cause analysis of one or more waste entries,
+ * combining a 5 Whys chain with an Ishikawa (fishbone) categorisation of contributing causes.
+ */
+
+// The six classic fishbone "bones" (6M)
+export type FishboneCategory = 'method' | 'machine' | 'material' | 'manpower' | 'measurement' | 'environment';
+
+export interface FishboneCause {
+  category: FishboneCategory;
+  description: string;
+}
+
+export interface RootCauseAnalysis {
+  id: string;
+  spaceId: string; // Foreign key linking to Space
+  wasteEntryIds: string[]; // Waste entries this analysis explains; each counts as analyzed
+  problem: string; // Problem statement the first "why?" is asked about
+  whys: string[]; // Answers to successive "why?" questions, at most five; the last one is the root cause
+  causes: FishboneCause[];
+  countermeasure?: string;
+  countermeasureTodoId?: string; // To-do spawned to carry out the countermeasure
+  dateCreated: Date;
+}
@@ -2,6 +2,9 @@
  * @fileOverview Defines the core domain model for a Space.
  */
 
+// Lifecycle of a space. Completed and Archived spaces are read-only.
+export type SpaceStatus = 'active' | 'paused' | 'completed' | 'archived';
+
 export interface Space {
   id: string;
   name: string;
@@ -16,4 +19,7 @@ export interface Space {
   // Fields for persisting clock state
   isClockedIn?: boolean; // Added: Track if currently clocked into this space
   clockInStartTime?: Date | null; // Added: Track start time if clocked in
+
+  status?: SpaceStatus; // Defaults to 'active' for spaces created before statuses existed
+  statusChangedAt?: Date | null; // When the status last changed
 }
@@ -0,0 +1,14 @@
+/**
+ * @fileOverview Defines the domain models for the Okapi mascot's contextual tips.
+ * The rules live in core/analytics/tips; only per-space dismissals and snoozes are persisted.
+ */
+
+export type TipId = 'wasteRising' | 'waitingDominates' | 'idleSession' | 'stalledQuest';
+
+export interface TipDismissal {
+  id: string;
+  spaceId: string; // Foreign key linking to Space
+  tipId: TipId;
+  dismissedAt: Date;
+  snoozedUntil: Date | null; // null means dismissed for good
+}
@@ -0,0 +1,20 @@
+/**
+ * @fileOverview Defines the domain model for a Waste Category within a Space.
+ * Every space starts with the eight TIMWOODS categories and can add its own.
+ */
+
+// The eight TIMWOODS wastes every space is seeded with.
+export type TimwoodsWaste = 'transportation' | 'inventory' | 'motion' | 'waiting' | 'overprocessing' | 'overproduction' | 'defects' | 'skills';
+
+export const TIMWOODS_WASTES: TimwoodsWaste[] = ['transportation', 'inventory', 'motion', 'waiting', 'overprocessing', 'overproduction', 'defects', 'skills'];
+
+export interface WasteCategory {
+  id: string;
+  spaceId: string; // Foreign key linking to Space
+  name: string;
+  description?: string;
+  points: number; // Points recorded on each waste entry logged against this category
+  archived: boolean; // Hidden from the picker; entries already logged keep their name and points
+  timwoods?: TimwoodsWaste; // The TIMWOODS waste a seeded category stands for, kept if it is renamed; absent for custom ones
+  dateCreated: Date;
+}
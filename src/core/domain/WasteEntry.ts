@@ -2,10 +2,22 @@
  * @fileOverview Defines the domain model for a Waste Entry within a Space.
  */
 
+export type WasteSeverity = 'low' | 'medium' | 'high';
+
 export interface WasteEntry {
   id: string;
   spaceId: string; // Foreign key linking to Space
   timestamp: Date;
-  type: string; // TIMWOODS category name (e.g., 'Transportation', 'Inventory')
-  points: number; // Points associated with this type of waste
+  type: string; // Category name at the time of logging (e.g., 'Transportation', 'Inventory')
+  points: number; // Category points at the time of logging
+  categoryId?: string; // WasteCategory the entry was logged against; absent on entries from before categories were configurable
+  note?: string; // Why the waste happened
+  severity?: WasteSeverity;
+  minutesLost?: number;
+  imageUrl?: string | null; // Photo evidence, usually a data URI from upload or CameraCapture
+  multiStepActionId?: string; // Quest the waste relates to
+  todoId?: string; // To-do the waste relates to
 }
+
+// The optional context shared by every entry logged together from the add-waste dialog.
+export type WasteEntryDetails = Pick<WasteEntry, 'note' | 'severity' | 'minutesLost' | 'imageUrl' | 'multiStepActionId' | 'todoId'>;
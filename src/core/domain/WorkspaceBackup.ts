@@ -0,0 +1,78 @@
+/**
+ * @fileOverview Defines the versioned envelope used to export and import the entire workspace.
+ */
+
+import type { Space } from './Space';
+import type { Action } from './Action';
+import type { MultiStepAction } from './MultiStepAction';
+import type { LogEntry } from './LogEntry';
+import type { WasteEntry } from './WasteEntry';
+import type { Comment } from './Comment';
+import type { TodoItem } from './TodoItem';
+import type { Andon } from './Andon';
+import type { Goal } from './Goal';
+import type { TipDismissal } from './Tip';
+import type { WasteCategory } from './WasteCategory';
+import type { RootCauseAnalysis } from './RootCauseAnalysis';
+import type { LevelUpEvent } from './Progression';
+import type { UnlockedAchievement } from './Achievement';
+import type { InsightAccrual, InsightPurchase } from './Insight';
+
+export const WORKSPACE_BACKUP_FORMAT = 'okapi-workspace';
+export const WORKSPACE_BACKUP_VERSION = 18; // Bump whenever the data shape changes; see backupSchemas for the history
+export const SPACE_BUNDLE_FORMAT = 'okapi-space-bundle';
+export const SPACE_BUNDLE_VERSION = WORKSPACE_BACKUP_VERSION; // Bundles share the data shape, so they share its versions
+
+// One array per object store. Keys mirror the IndexedDB store names.
+export interface WorkspaceBackupData {
+  spaces: Space[];
+  actions: Action[];
+  multiStepActions: MultiStepAction[];
+  logEntries: LogEntry[];
+  wasteEntries: WasteEntry[];
+  comments: Comment[];
+  todos: TodoItem[];
+  andons: Andon[];
+  goals: Goal[];
+  tipDismissals: TipDismissal[];
+  wasteCategories: WasteCategory[];
+  rootCauseAnalyses: RootCauseAnalysis[];
+  levelUps?: LevelUpEvent[]; // Workspace-level history; space bundles leave it out
+  achievements?: UnlockedAchievement[]; // Workspace-level history; space bundles leave it out
+  insightAccruals?: InsightAccrual[]; // Workspace-level wallet; space bundles leave it out
+  insightPurchases?: InsightPurchase[]; // Workspace-level wallet; space bundles leave it out
+}
+
+export interface WorkspaceBackup {
+  format: typeof WORKSPACE_BACKUP_FORMAT;
+  version: number; // Schema version of the envelope, bumped when the data shape changes
+  exportedAt: Date;
+  data: WorkspaceBackupData;
+}
+
+// A single space with all of its records, for handing to someone else.
+// Images are embedded as data URIs so the bundle is self-contained.
+export interface SpaceBundle {
+  format: typeof SPACE_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: Date;
+  data: WorkspaceBackupData; // `spaces` holds exactly one space
+}
+
+// 'merge' keeps existing data and adds the imported records; 'replace' swaps the whole workspace for the backup.
+export type ImportMode = 'merge' | 'replace';
+
+// How to treat an imported space whose ID already exists (merge mode only).
+export type ImportConflictStrategy = 'skip' | 'overwrite' | 'duplicate';
+
+export interface ImportOptions {
+  mode: ImportMode;
+  onConflict: ImportConflictStrategy;
+}
+
+export interface ImportSummary {
+  spacesImported: number;
+  spacesSkipped: number;
+  spacesDuplicated: number;
+  recordsImported: number; // Total of all non-space records written
+}
@@ -0,0 +1,27 @@
+/**
+ * @fileOverview Defines the port (interface) for interacting with unlocked achievement storage.
+ */
+
+import type { UnlockedAchievement } from '@/core/domain/Achievement';
+
+export interface IAchievementRepository {
+  /**
+   * Retrieves all unlocked achievements, oldest unlock first.
+   * @returns A promise resolving to an array of UnlockedAchievements.
+   */
+  getAll(): Promise<UnlockedAchievement[]>;
+
+  /**
+   * Inserts or replaces an unlocked achievement, keeping its ID. Unlocks are keyed by
+   * achievementId, so recording an achievement twice leaves a single unlock.
+   * @param achievement - The unlock to store.
+   * @returns A promise resolving when the write is complete.
+   */
+  put(achievement: UnlockedAchievement): Promise<void>;
+
+  /**
+   * Deletes every unlocked achievement.
+   * @returns A promise resolving when the deletion is complete.
+   */
+  deleteAll(): Promise<void>;
+}
@@ -19,6 +19,13 @@ export interface IActionRepository {
    */
   getBySpaceId(spaceId: string): Promise<Action[]>;
 
+  /**
+   * Retrieves all actions across every space.
+   * Used for full-workspace exports.
+   * @returns A promise resolving to an array of all Actions.
+   */
+  getAll(): Promise<Action[]>;
+
   /**
    * Adds a new action to the storage.
    * @param action - The action data to add (ID will be assigned).
@@ -0,0 +1,56 @@
+/**
+ * @fileOverview Defines the port (interface) for interacting with Andon data storage.
+ */
+
+import type { Andon } from '@/core/domain/Andon';
+
+export interface IAndonRepository {
+  /**
+   * Retrieves an Andon by its unique ID.
+   * @param id - The ID of the Andon.
+   * @returns A promise resolving to the Andon or undefined if not found.
+   */
+  getById(id: string): Promise<Andon | undefined>;
+
+  /**
+   * Retrieves all Andons associated with a specific space, sorted by raisedAt descending.
+   * @param spaceId - The ID of the space.
+   * @returns A promise resolving to an array of Andons.
+   */
+  getBySpaceId(spaceId: string): Promise<Andon[]>;
+
+  /**
+   * Retrieves all Andons across every space.
+   * Used for flagging spaces on the home list and for full-workspace exports.
+   * @returns A promise resolving to an array of all Andons.
+   */
+  getAll(): Promise<Andon[]>;
+
+  /**
+   * Adds a new Andon to the storage.
+   * @param andon - The Andon data to add (ID will be assigned).
+   * @returns A promise resolving to the newly added Andon with its ID.
+   */
+  add(andon: Omit<Andon, 'id'>): Promise<Andon>;
+
+  /**
+   * Updates an existing Andon in the storage.
+   * @param andon - The Andon data to update.
+   * @returns A promise resolving when the update is complete.
+   */
+  update(andon: Andon): Promise<void>;
+
+  /**
+   * Deletes an Andon from the storage by its ID.
+   * @param id - The ID of the Andon to delete.
+   * @returns A promise resolving when the deletion is complete.
+   */
+  delete(id: string): Promise<void>;
+
+  /**
+   * Deletes all Andons associated with a specific space.
+   * @param spaceId - The ID of the space.
+   * @returns A promise resolving when the deletion is complete.
+   */
+  deleteBySpaceId(spaceId: string): Promise<void>;
+}
@@ -19,6 +19,13 @@ export interface ICommentRepository {
    */
   getBySpaceId(spaceId: string): Promise<Comment[]>;
 
+  /**
+   * Retrieves all comments across every space.
+   * Used for full-workspace exports.
+   * @returns A promise resolving to an array of all Comments.
+   */
+  getAll(): Promise<Comment[]>;
+
   /**
    * Adds a new comment to the storage.
    * @param comment - The comment data to add (ID will be assigned).
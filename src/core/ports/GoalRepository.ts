@@ -0,0 +1,56 @@
+/**
+ * @fileOverview Defines the port (interface) for interacting with Goal data storage.
+ */
+
+import type { Goal } from '@/core/domain/Goal';
+
+export interface IGoalRepository {
+  /**
+   * Retrieves a Goal by its unique ID.
+   * @param id - The ID of the Goal.
+   * @returns A promise resolving to the Goal or undefined if not found.
+   */
+  getById(id: string): Promise<Goal | undefined>;
+
+  /**
+   * Retrieves all Goals associated with a specific space, sorted by dateCreated ascending.
+   * @param spaceId - The ID of the space.
+   * @returns A promise resolving to an array of Goals.
+   */
+  getBySpaceId(spaceId: string): Promise<Goal[]>;
+
+  /**
+   * Retrieves all Goals across every space.
+   * Used for full-workspace exports.
+   * @returns A promise resolving to an array of all Goals.
+   */
+  getAll(): Promise<Goal[]>;
+
+  /**
+   * Adds a new Goal to the storage.
+   * @param goal - The Goal data to add (ID will be assigned).
+   * @returns A promise resolving to the newly added Goal with its ID.
+   */
+  add(goal: Omit<Goal, 'id'>): Promise<Goal>;
+
+  /**
+   * Updates an existing Goal in the storage.
+   * @param goal - The Goal data to update.
+   * @returns A promise resolving when the update is complete.
+   */
+  update(goal: Goal): Promise<void>;
+
+  /**
+   * Deletes a Goal from the storage by its ID.
+   * @param id - The ID of the Goal to delete.
+   * @returns A promise resolving when the deletion is complete.
+   */
+  delete(id: string): Promise<void>;
+
+  /**
+   * Deletes all Goals associated with a specific space.
+   * @param spaceId - The ID of the space.
+   * @returns A promise resolving when the deletion is complete.
+   */
+  deleteBySpaceId(spaceId: string): Promise<void>;
+}
@@ -0,0 +1,46 @@
+/**
+ * @fileOverview Defines the port (interface) for interacting with Insight accrual and purchase storage.
+ */
+
+import type { InsightAccrual, InsightPurchase } from '@/core/domain/Insight';
+
+export interface IInsightRepository {
+  /**
+   * Retrieves every session accrual.
+   * @returns A promise resolving to an array of InsightAccruals.
+   */
+  getAllAccruals(): Promise<InsightAccrual[]>;
+
+  /**
+   * Retrieves the accrual for one session.
+   * @param id - The accrual (session) ID.
+   * @returns A promise resolving to the accrual or undefined if none was recorded yet.
+   */
+  getAccrualById(id: string): Promise<InsightAccrual | undefined>;
+
+  /**
+   * Inserts or replaces a session accrual, keeping its ID.
+   * @param accrual - The accrual to store.
+   * @returns A promise resolving when the write is complete.
+   */
+  putAccrual(accrual: InsightAccrual): Promise<void>;
+
+  /**
+   * Retrieves every purchase, oldest first.
+   * @returns A promise resolving to an array of InsightPurchases.
+   */
+  getAllPurchases(): Promise<InsightPurchase[]>;
+
+  /**
+   * Inserts or replaces a purchase, keeping its ID.
+   * @param purchase - The purchase to store.
+   * @returns A promise resolving when the write is complete.
+   */
+  putPurchase(purchase: InsightPurchase): Promise<void>;
+
+  /**
+   * Deletes every accrual and purchase.
+   * @returns A promise resolving when the deletion is complete.
+   */
+  deleteAll(): Promise<void>;
+}
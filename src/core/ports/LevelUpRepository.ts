@@ -0,0 +1,27 @@
+/**
+ * @fileOverview Defines the port (interface) for interacting with level-up event storage.
+ */
+
+import type { LevelUpEvent } from '@/core/domain/Progression';
+
+export interface ILevelUpRepository {
+  /**
+   * Retrieves all level-up events, sorted by level ascending.
+   * @returns A promise resolving to an array of LevelUpEvents.
+   */
+  getAll(): Promise<LevelUpEvent[]>;
+
+  /**
+   * Inserts or replaces a level-up event, keeping its ID. Events are keyed by level
+   * (see levelUpEventId), so recording a level twice leaves a single event.
+   * @param event - The event to store.
+   * @returns A promise resolving when the write is complete.
+   */
+  put(event: LevelUpEvent): Promise<void>;
+
+  /**
+   * Deletes every level-up event.
+   * @returns A promise resolving when the deletion is complete.
+   */
+  deleteAll(): Promise<void>;
+}
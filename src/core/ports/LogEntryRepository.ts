@@ -2,7 +2,7 @@
  * @fileOverview Defines the port (interface) for interacting with LogEntry data storage.
  */
 
-import type { LogEntry } from '@/core/domain/LogEntry';
+import type { LogEntry, LogEntryCursor, LogEntryFilter, LogEntryPage } from '@/core/domain/LogEntry';
 
 export interface ILogEntryRepository {
   /**
@@ -19,6 +19,32 @@ export interface ILogEntryRepository {
    */
   getBySpaceId(spaceId: string): Promise<LogEntry[]>;
 
+  /**
+   * Retrieves one page of a space's log entries, newest first, walking the timestamp index
+   * so only the requested page is read.
+   * @param spaceId - The ID of the space.
+   * @param filter - Criteria every returned entry must match.
+   * @param limit - The maximum number of entries to return.
+   * @param cursor - Where the previous page ended; omit for the first page.
+   * @returns A promise resolving to the page and the cursor for the next one.
+   */
+  getPageBySpaceId(spaceId: string, filter: LogEntryFilter, limit: number, cursor?: LogEntryCursor): Promise<LogEntryPage>;
+
+  /**
+   * Retrieves a space's clockIn and clockOut entries, oldest first, reading only those entries
+   * through the type index.
+   * @param spaceId - The ID of the space.
+   * @returns A promise resolving to the space's clock events.
+   */
+  getClockEventsBySpaceId(spaceId: string): Promise<LogEntry[]>;
+
+  /**
+   * Retrieves all log entries across every space.
+   * Used for full-workspace exports.
+   * @returns A promise resolving to an array of all LogEntrys.
+   */
+  getAll(): Promise<LogEntry[]>;
+
   /**
    * Adds a new log entry to the storage.
    * @param logEntry - The log entry data to add (ID will be assigned).
@@ -19,6 +19,13 @@ export interface IMultiStepActionRepository {
    */
   getBySpaceId(spaceId: string): Promise<MultiStepAction[]>;
 
+  /**
+   * Retrieves all multi-step actions across every space.
+   * Used for full-workspace exports.
+   * @returns A promise resolving to an array of all MultiStepActions.
+   */
+  getAll(): Promise<MultiStepAction[]>;
+
   /**
    * Adds a new multi-step action to the storage.
    * @param action - The multi-step action data to add (ID will be assigned).
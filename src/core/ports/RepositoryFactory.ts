@@ -10,6 +10,15 @@ import type { IMultiStepActionRepository } from './MultiStepActionRepository';
 import type { ISpaceRepository } from './SpaceRepository';
 import type { IWasteEntryRepository } from './WasteEntryRepository';
 import type { ITodoRepository } from './TodoRepository'; // Import Todo interface
+import type { IAndonRepository } from './AndonRepository';
+import type { IGoalRepository } from './GoalRepository';
+import type { ILevelUpRepository } from './LevelUpRepository';
+import type { IAchievementRepository } from './AchievementRepository';
+import type { IInsightRepository } from './InsightRepository';
+import type { ITipDismissalRepository } from './TipDismissalRepository';
+import type { IWasteCategoryRepository } from './WasteCategoryRepository';
+import type { IRootCauseAnalysisRepository } from './RootCauseAnalysisRepository';
+import type { IWorkspaceRepository } from './WorkspaceRepository';
 
 export interface IRepositoryFactory {
   createSpaceRepository(): ISpaceRepository;
@@ -19,4 +28,13 @@ export interface IRepositoryFactory {
   createWasteEntryRepository(): IWasteEntryRepository;
   createCommentRepository(): ICommentRepository;
   createTodoRepository(): ITodoRepository; // Add method for Todo repository
+  createAndonRepository(): IAndonRepository;
+  createGoalRepository(): IGoalRepository;
+  createLevelUpRepository(): ILevelUpRepository;
+  createAchievementRepository(): IAchievementRepository;
+  createInsightRepository(): IInsightRepository;
+  createTipDismissalRepository(): ITipDismissalRepository;
+  createWasteCategoryRepository(): IWasteCategoryRepository;
+  createRootCauseAnalysisRepository(): IRootCauseAnalysisRepository;
+  createWorkspaceRepository(): IWorkspaceRepository;
 }
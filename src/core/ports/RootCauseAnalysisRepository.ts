@@ -0,0 +1,56 @@
+/**
+ * @fileOverview Defines the port (interface) for interacting with RootCauseAnalysis data storage.
+ */
+
+import type { RootCauseAnalysis } from '@/core/domain/RootCauseAnalysis';
+
+export interface IRootCauseAnalysisRepository {
+  /**
+   * Retrieves a root-cause analysis by its unique ID.
+   * @param id - The ID of the analysis.
+   * @returns A promise resolving to the RootCauseAnalysis or undefined if not found.
+   */
+  getById(id: string): Promise<RootCauseAnalysis | undefined>;
+
+  /**
+   * Retrieves all root-cause analyses for a specific space, newest first.
+   * @param spaceId - The ID of the space.
+   * @returns A promise resolving to an array of RootCauseAnalyses.
+   */
+  getBySpaceId(spaceId: string): Promise<RootCauseAnalysis[]>;
+
+  /**
+   * Retrieves all root-cause analyses across every space.
+   * Used for full-workspace exports and achievements.
+   * @returns A promise resolving to an array of all RootCauseAnalyses.
+   */
+  getAll(): Promise<RootCauseAnalysis[]>;
+
+  /**
+   * Adds a new root-cause analysis to the storage.
+   * @param analysis - The analysis data to add (ID will be assigned).
+   * @returns A promise resolving to the newly added RootCauseAnalysis with its ID.
+   */
+  add(analysis: Omit<RootCauseAnalysis, 'id'>): Promise<RootCauseAnalysis>;
+
+  /**
+   * Updates an existing root-cause analysis in the storage.
+   * @param analysis - The analysis data to update.
+   * @returns A promise resolving when the update is complete.
+   */
+  update(analysis: RootCauseAnalysis): Promise<void>;
+
+  /**
+   * Deletes a root-cause analysis from the storage by its ID.
+   * @param id - The ID of the analysis to delete.
+   * @returns A promise resolving when the deletion is complete.
+   */
+  delete(id: string): Promise<void>;
+
+  /**
+   * Deletes all root-cause analyses associated with a specific space.
+   * @param spaceId - The ID of the space.
+   * @returns A promise resolving when the deletion is complete.
+   */
+  deleteBySpaceId(spaceId: string): Promise<void>;
+}
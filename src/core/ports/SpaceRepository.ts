@@ -33,6 +33,14 @@ export interface ISpaceRepository {
    */
   update(space: Space): Promise<void>;
 
+  /**
+   * Writes a space exactly as given, preserving its ID and timestamps.
+   * Unlike update, dateModified is not refreshed. Used when importing backups.
+   * @param space - The space data to write.
+   * @returns A promise resolving when the write is complete.
+   */
+  restore(space: Space): Promise<void>;
+
   /**
    * Deletes a space from the storage by its ID.
    * @param id - The ID of the space to delete.
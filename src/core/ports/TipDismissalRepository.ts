@@ -0,0 +1,42 @@
+/**
+ * @fileOverview Defines the port (interface) for interacting with TipDismissal data storage.
+ */
+
+import type { TipDismissal } from '@/core/domain/Tip';
+
+export interface ITipDismissalRepository {
+  /**
+   * Retrieves all TipDismissals associated with a specific space.
+   * @param spaceId - The ID of the space.
+   * @returns A promise resolving to an array of TipDismissals.
+   */
+  getBySpaceId(spaceId: string): Promise<TipDismissal[]>;
+
+  /**
+   * Retrieves all TipDismissals across every space.
+   * Used for full-workspace exports.
+   * @returns A promise resolving to an array of all TipDismissals.
+   */
+  getAll(): Promise<TipDismissal[]>;
+
+  /**
+   * Adds a new TipDismissal to the storage.
+   * @param dismissal - The TipDismissal data to add (ID will be assigned).
+   * @returns A promise resolving to the newly added TipDismissal with its ID.
+   */
+  add(dismissal: Omit<TipDismissal, 'id'>): Promise<TipDismissal>;
+
+  /**
+   * Updates an existing TipDismissal in the storage.
+   * @param dismissal - The TipDismissal data to update.
+   * @returns A promise resolving when the update is complete.
+   */
+  update(dismissal: TipDismissal): Promise<void>;
+
+  /**
+   * Deletes all TipDismissals associated with a specific space.
+   * @param spaceId - The ID of the space.
+   * @returns A promise resolving when the deletion is complete.
+   */
+  deleteBySpaceId(spaceId: string): Promise<void>;
+}
@@ -19,6 +19,13 @@ export interface ITodoRepository {
    */
   getBySpaceId(spaceId: string): Promise<TodoItem[]>;
 
+  /**
+   * Retrieves all To-Do items across every space.
+   * Used for full-workspace exports.
+   * @returns A promise resolving to an array of all TodoItems.
+   */
+  getAll(): Promise<TodoItem[]>;
+
   /**
    * Adds a new To-Do item to the storage.
    * @param item - The item data to add (ID will be assigned).
@@ -0,0 +1,49 @@
+/**
+ * @fileOverview Defines the port (interface) for interacting with WasteCategory data storage.
+ */
+
+import type { WasteCategory } from '@/core/domain/WasteCategory';
+
+export interface IWasteCategoryRepository {
+  /**
+   * Retrieves a waste category by its unique ID.
+   * @param id - The ID of the waste category.
+   * @returns A promise resolving to the WasteCategory or undefined if not found.
+   */
+  getById(id: string): Promise<WasteCategory | undefined>;
+
+  /**
+   * Retrieves all waste categories (archived included) for a specific space, oldest first.
+   * @param spaceId - The ID of the space.
+   * @returns A promise resolving to an array of WasteCategories.
+   */
+  getBySpaceId(spaceId: string): Promise<WasteCategory[]>;
+
+  /**
+   * Retrieves all waste categories across every space.
+   * Used for full-workspace exports.
+   * @returns A promise resolving to an array of all WasteCategories.
+   */
+  getAll(): Promise<WasteCategory[]>;
+
+  /**
+   * Adds a new waste category to the storage.
+   * @param category - The waste category data to add (ID will be assigned).
+   * @returns A promise resolving to the newly added WasteCategory with its ID.
+   */
+  add(category: Omit<WasteCategory, 'id'>): Promise<WasteCategory>;
+
+  /**
+   * Updates an existing waste category in the storage.
+   * @param category - The waste category data to update.
+   * @returns A promise resolving when the update is complete.
+   */
+  update(category: WasteCategory): Promise<void>;
+
+  /**
+   * Deletes all waste categories associated with a specific space.
+   * @param spaceId - The ID of the space.
+   * @returns A promise resolving when the deletion is complete.
+   */
+  deleteBySpaceId(spaceId: string): Promise<void>;
+}
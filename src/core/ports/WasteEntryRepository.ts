@@ -19,6 +19,13 @@ export interface IWasteEntryRepository {
    */
   getBySpaceId(spaceId: string): Promise<WasteEntry[]>;
 
+  /**
+   * Retrieves all waste entries across every space.
+   * Used for full-workspace exports.
+   * @returns A promise resolving to an array of all WasteEntrys.
+   */
+  getAll(): Promise<WasteEntry[]>;
+
   /**
    * Adds a new waste entry to the storage.
    * @param wasteEntry - The waste entry data to add (ID will be assigned).
@@ -0,0 +1,15 @@
+/**
+ * @fileOverview Defines the port (interface) for writing the whole workspace at once.
+ */
+
+import type { WorkspaceBackupData } from '@/core/domain/WorkspaceBackup';
+
+export interface IWorkspaceRepository {
+  /**
+   * Replaces every stored record with the given ones as a single atomic write, keeping their IDs.
+   * If any record fails to store, nothing is deleted and the existing workspace stays as it was.
+   * @param data - The records to store, one array per object store.
+   * @returns A promise resolving when the replacement has been committed.
+   */
+  replaceAll(data: WorkspaceBackupData): Promise<void>;
+}
@@ -0,0 +1,85 @@
+/**
+ * @fileOverview Service layer for achievements. Gathers records from every space, runs the
+ * rules in core/analytics/achievements and persists newly unlocked achievements.
+ * Unlocks are never revoked, even if the records that earned them are later deleted.
+ */
+
+import type { IAchievementRepository } from '@/core/ports/AchievementRepository';
+import type { ILogEntryRepository } from '@/core/ports/LogEntryRepository';
+import type { IWasteEntryRepository } from '@/core/ports/WasteEntryRepository';
+import type { ITodoRepository } from '@/core/ports/TodoRepository';
+import type { IMultiStepActionRepository } from '@/core/ports/MultiStepActionRepository';
+import type { IRootCauseAnalysisRepository } from '@/core/ports/RootCauseAnalysisRepository';
+import type { StreakSummary, UnlockedAchievement } from '@/core/domain/Achievement';
+import { computeAchievementStats, getSatisfiedAchievements } from '@/core/analytics/achievements';
+import { isCountedEntry } from '@/core/analytics/logCorrections';
+
+export interface AchievementEvaluationResult {
+  unlocked: UnlockedAchievement[]; // All unlocks, oldest first
+  newlyUnlocked: UnlockedAchievement[]; // Unlocks recorded during this evaluation
+  clockInStreak: StreakSummary;
+}
+
+export class AchievementService {
+  // Latest evaluation; each run waits for the previous one so an unlock is reported only once
+  private evaluating?: Promise<AchievementEvaluationResult>;
+
+  constructor(
+    private achievementRepository: IAchievementRepository,
+    private logEntryRepository: ILogEntryRepository,
+    private wasteEntryRepository: IWasteEntryRepository,
+    private todoRepository: ITodoRepository,
+    private multiStepActionRepository: IMultiStepActionRepository,
+    private rootCauseAnalysisRepository: IRootCauseAnalysisRepository,
+  ) {}
+
+  /**
+   * Retrieves every unlocked achievement.
+   * @returns A promise resolving to the unlocks, oldest first.
+   */
+  async getUnlockedAchievements(): Promise<UnlockedAchievement[]> {
+    return this.achievementRepository.getAll();
+  }
+
+  /**
+   * Evaluates every rule against the current data and records achievements unlocked for the first time.
+   * Evaluations run one after another.
+   * @param now - The time to evaluate streaks against and stamp new unlocks with.
+   * @returns A promise resolving to the evaluation result.
+   */
+  async evaluateAchievements(now: Date = new Date()): Promise<AchievementEvaluationResult> {
+    const run = (this.evaluating ?? Promise.resolve())
+      .catch(() => undefined) // A failed run has already been reported to its caller
+      .then(() => this.recordUnlocks(now));
+    this.evaluating = run;
+    const cleanUp = () => {
+      if (this.evaluating === run) this.evaluating = undefined;
+    };
+    run.then(cleanUp, cleanUp);
+    return run;
+  }
+
+  private async recordUnlocks(now: Date): Promise<AchievementEvaluationResult> {
+    const [unlocked, logEntries, wasteEntries, todos, multiStepActions, rootCauseAnalyses] = await Promise.all([
+      this.achievementRepository.getAll(),
+      this.logEntryRepository.getAll(),
+      this.wasteEntryRepository.getAll(),
+      this.todoRepository.getAll(),
+      this.multiStepActionRepository.getAll(),
+      this.rootCauseAnalysisRepository.getAll(),
+    ]);
+
+    const stats = computeAchievementStats({ logEntries: logEntries.filter(isCountedEntry), wasteEntries, todos, multiStepActions, rootCauseAnalyses, now });
+    const alreadyUnlocked = new Set(unlocked.map(a => a.achievementId));
+
+    const newlyUnlocked: UnlockedAchievement[] = [];
+    for (const achievementId of getSatisfiedAchievements(stats)) {
+      if (alreadyUnlocked.has(achievementId)) continue;
+      const unlock: UnlockedAchievement = { id: achievementId, achievementId, unlockedAt: now };
+      await this.achievementRepository.put(unlock);
+      newlyUnlocked.push(unlock);
+    }
+
+    return { unlocked: [...unlocked, ...newlyUnlocked], newlyUnlocked, clockInStreak: stats.clockInStreak };
+  }
+}
@@ -6,12 +6,15 @@
 import type { IActionRepository } from '@/core/ports/ActionRepository';
 import type { Action } from '@/core/domain/Action';
 
+// Actions without a sortOrder (created before reordering existed) keep their stored order after the rest.
+const bySortOrder = (a: Action, b: Action) => (a.sortOrder ?? Number.MAX_SAFE_INTEGER) - (b.sortOrder ?? Number.MAX_SAFE_INTEGER);
+
 export class ActionService {
   constructor(private actionRepository: IActionRepository) {}
 
   /**
-   * Creates a new action for a given space.
-   * @param actionData - Data for the new action (spaceId, name, points, description).
+   * Creates a new action for a given space, placed at the end of the list unless a sortOrder is given.
+   * @param actionData - Data for the new action (spaceId, name, points, description, optional sortOrder).
    * @returns A promise resolving to the created Action.
    */
   async createAction(actionData: Omit<Action, 'id'>): Promise<Action> {
@@ -24,26 +27,71 @@ export class ActionService {
       actionData.points = 1;
     }
     // Additional validation or business rules can be added here.
-    return this.actionRepository.add(actionData);
+    const sortOrder = actionData.sortOrder ?? await this.getNextSortOrder(actionData.spaceId);
+    return this.actionRepository.add({ ...actionData, sortOrder, archived: false });
   }
 
   /**
-   * Retrieves all actions for a specific space.
+   * Retrieves all actions for a specific space, archived included, in list order.
    * @param spaceId - The ID of the space.
    * @returns A promise resolving to an array of Actions.
    */
   async getActionsForSpace(spaceId: string): Promise<Action[]> {
-    return this.actionRepository.getBySpaceId(spaceId);
+    return (await this.actionRepository.getBySpaceId(spaceId)).sort(bySortOrder);
   }
 
   /**
-   * Updates an existing action.
+   * Saves an action's name, description and points. Log entries already recorded
+   * keep the name and points they were logged with.
    * @param action - The action with updated data.
-   * @returns A promise resolving when the update is complete.
+   * @returns A promise resolving to the saved action.
+   * @throws Error if the name is empty or the points are not positive.
+   */
+  async updateAction(action: Action): Promise<Action> {
+    const name = action.name.trim();
+    if (!name) {
+      throw new Error("Action name cannot be empty.");
+    }
+    if (!Number.isFinite(action.points) || action.points <= 0) {
+      throw new Error("Action points must be a positive number.");
+    }
+    const updated: Action = { ...action, name, description: action.description?.trim() || undefined };
+    await this.actionRepository.update(updated);
+    return updated;
+  }
+
+  /**
+   * Archives or restores an action. Archived actions are hidden from the action list,
+   * but their log entries stay in the history and analytics.
+   * @param id - The ID of the action.
+   * @param archived - True to archive, false to restore.
+   * @returns A promise resolving to the saved action.
+   * @throws Error if the action does not exist.
    */
-  async updateAction(action: Action): Promise<void> {
-    // Add validation or business rules for updating if needed.
-    return this.actionRepository.update(action);
+  async setActionArchived(id: string, archived: boolean): Promise<Action> {
+    const action = await this.actionRepository.getById(id);
+    if (!action) {
+      throw new Error(`Action with ID ${id} not found.`);
+    }
+    return this.updateAction({ ...action, archived });
+  }
+
+  /**
+   * Persists a new order for a space's actions.
+   * @param spaceId - The ID of the space.
+   * @param orderedIds - Action IDs in their new order; actions left out keep their place after them.
+   * @returns A promise resolving to all of the space's actions in the new order.
+   */
+  async reorderActions(spaceId: string, orderedIds: string[]): Promise<Action[]> {
+    const actions = await this.getActionsForSpace(spaceId);
+    const ordered = [
+      ...orderedIds.flatMap(id => actions.filter(a => a.id === id)),
+      ...actions.filter(a => !orderedIds.includes(a.id)),
+    ].map((action, index) => ({ ...action, sortOrder: index }));
+    await Promise.all(ordered
+      .filter(action => actions.find(a => a.id === action.id)?.sortOrder !== action.sortOrder)
+      .map(action => this.actionRepository.update(action)));
+    return ordered;
   }
 
   /**
@@ -64,4 +112,10 @@ export class ActionService {
     async deleteActionsForSpace(spaceId: string): Promise<void> {
         return this.actionRepository.deleteBySpaceId(spaceId);
     }
+
+  private async getNextSortOrder(spaceId: string): Promise<number> {
+    // Numbers any actions from before reordering existed, so the new one lands after them
+    const actions = await this.reorderActions(spaceId, []);
+    return actions.length;
+  }
 }
@@ -0,0 +1,113 @@
+/**
+ * @fileOverview Service layer for managing Andon signals. Encapsulates the
+ * open -> acknowledged -> resolved lifecycle. Metrics live in core/analytics/andons.
+ */
+
+import type { IAndonRepository } from '@/core/ports/AndonRepository';
+import type { Andon } from '@/core/domain/Andon';
+
+export class AndonService {
+  constructor(private andonRepository: IAndonRepository) {}
+
+  /**
+   * Raises a new Andon for a space.
+   * @param spaceId - The ID of the space.
+   * @param comment - Description of the problem or blocker.
+   * @returns A promise resolving to the created Andon.
+   */
+  async raiseAndon(spaceId: string, comment: string): Promise<Andon> {
+    if (!comment.trim()) {
+      throw new Error("Andon must include a comment describing the problem.");
+    }
+
+    const andonToAdd: Omit<Andon, 'id'> = {
+      spaceId,
+      comment: comment.trim(),
+      status: 'open',
+      raisedAt: new Date(),
+      acknowledgedAt: null,
+      resolvedAt: null,
+    };
+
+    return this.andonRepository.add(andonToAdd);
+  }
+
+  /**
+   * Acknowledges an open Andon.
+   * @param id - The ID of the Andon.
+   * @returns A promise resolving to the updated Andon.
+   */
+  async acknowledgeAndon(id: string): Promise<Andon> {
+    const andon = await this.getAndonOrThrow(id);
+    if (andon.status !== 'open') {
+      throw new Error(`Only open Andons can be acknowledged (current status: ${andon.status}).`);
+    }
+
+    const updated: Andon = { ...andon, status: 'acknowledged', acknowledgedAt: new Date() };
+    await this.andonRepository.update(updated);
+    return updated;
+  }
+
+  /**
+   * Resolves an open or acknowledged Andon.
+   * @param id - The ID of the Andon.
+   * @param resolutionNote - How the problem was cleared.
+   * @returns A promise resolving to the updated Andon.
+   */
+  async resolveAndon(id: string, resolutionNote: string): Promise<Andon> {
+    if (!resolutionNote.trim()) {
+      throw new Error("A resolution note is required to resolve an Andon.");
+    }
+    const andon = await this.getAndonOrThrow(id);
+    if (andon.status === 'resolved') {
+      throw new Error("Andon is already resolved.");
+    }
+
+    const now = new Date();
+    const updated: Andon = {
+      ...andon,
+      status: 'resolved',
+      acknowledgedAt: andon.acknowledgedAt ?? now, // Resolving implies acknowledgement
+      resolvedAt: now,
+      resolutionNote: resolutionNote.trim(),
+    };
+    await this.andonRepository.update(updated);
+    return updated;
+  }
+
+  /**
+   * Retrieves all Andons for a specific space, sorted by raisedAt descending.
+   * @param spaceId - The ID of the space.
+   * @returns A promise resolving to an array of Andons.
+   */
+  async getAndonsForSpace(spaceId: string): Promise<Andon[]> {
+    return this.andonRepository.getBySpaceId(spaceId); // Repository handles sorting
+  }
+
+  /**
+   * Retrieves all unresolved Andons across every space.
+   * @returns A promise resolving to an array of open or acknowledged Andons.
+   */
+  async getActiveAndons(): Promise<Andon[]> {
+    const andons = await this.andonRepository.getAll();
+    return andons.filter(a => a.status !== 'resolved');
+  }
+
+  /**
+   * Deletes all Andons associated with a specific space.
+   * This is typically used when deleting a space.
+   * @param spaceId - The ID of the space.
+   * @returns A promise resolving when the deletion is complete.
+   */
+  async deleteAndonsForSpace(spaceId: string): Promise<void> {
+    return this.andonRepository.deleteBySpaceId(spaceId);
+  }
+
+  private async getAndonOrThrow(id: string): Promise<Andon> {
+    const andon = await this.andonRepository.getById(id);
+    if (!andon) {
+      throw new Error(`Andon with ID ${id} not found.`);
+    }
+    return andon;
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * @fileOverview Service layer for statistical process control charts. Reads a space's log entries
+ * through LogEntryService and charts them with the rules in core/analytics/spc.
+ */
+
+import type { LogEntryService } from './LogEntryService';
+import { buildControlChart, getSpcSeries, type ControlChart, type SpcMetric } from '@/core/analytics/spc';
+
+export class ControlChartService {
+  constructor(private logEntryService: LogEntryService) {}
+
+  /**
+   * Builds an XmR chart of a space's action rate.
+   * @param spaceId - The ID of the space.
+   * @param metric - Daily action counts or AP/hour per session.
+   * @returns A promise resolving to the chart, or undefined when there is too little data.
+   */
+  async getControlChart(spaceId: string, metric: SpcMetric): Promise<ControlChart | undefined> {
+    const logEntries = await this.logEntryService.getLogEntriesForSpace(spaceId);
+    return buildControlChart(getSpcSeries(logEntries, metric), metric);
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * @fileOverview Service layer for exporting a space's log entries, waste entries and
+ * clock sessions as CSV for use in spreadsheets.
+ */
+
+import type { LogEntryService } from './LogEntryService';
+import type { WasteEntryService } from './WasteEntryService';
+import { reconstructSessions, isWithinRange, type DateRange } from '@/core/analytics/sessions';
+import { toCsv, formatLocalDateTime } from '@/utils/csvUtils';
+
+export type CsvExportKind = 'logEntries' | 'wasteEntries' | 'sessions';
+
+export class CsvExportService {
+  constructor(
+    private logEntryService: LogEntryService,
+    private wasteEntryService: WasteEntryService,
+  ) {}
+
+  /**
+   * Builds the requested CSV export for a space.
+   * @param kind - Which sheet to export.
+   * @param spaceId - The ID of the space.
+   * @param range - Optional inclusive date range.
+   * @returns A promise resolving to the CSV document.
+   */
+  async export(kind: CsvExportKind, spaceId: string, range: DateRange = {}): Promise<string> {
+    switch (kind) {
+      case 'logEntries':
+        return this.exportLogEntries(spaceId, range);
+      case 'wasteEntries':
+        return this.exportWasteEntries(spaceId, range);
+      case 'sessions':
+        return this.exportSessions(spaceId, range);
+    }
+  }
+
+  /**
+   * Exports one row per log entry, oldest first.
+   * @param spaceId - The ID of the space.
+   * @param range - Optional inclusive date range, applied to the entry timestamp.
+   * @returns A promise resolving to the CSV document.
+   */
+  async exportLogEntries(spaceId: string, range: DateRange = {}): Promise<string> {
+    const entries = (await this.logEntryService.getLogEntriesForSpace(spaceId))
+      .filter(e => isWithinRange(e.timestamp, range))
+      .reverse(); // Service returns newest first
+
+    const headers = [
+      'Timestamp (ISO)', 'Timestamp (Local)', 'Type', 'Action', 'Action ID', 'Quantity', 'Points',
+      'Minutes Clocked In', 'Clock In (ISO)', 'Clock In (Local)', 'Clock Out (ISO)', 'Clock Out (Local)',
+      'Multi-Step Action ID', 'Step', 'Comment',
+    ];
+    const rows = entries.map(e => [
+      e.timestamp, formatLocalDateTime(e.timestamp), e.type, e.actionName, e.actionId, e.quantity, e.points,
+      e.minutesClockedIn, e.clockInTime, formatLocalDateTime(e.clockInTime), e.clockOutTime, formatLocalDateTime(e.clockOutTime),
+      e.multiStepActionId, e.stepIndex !== undefined ? e.stepIndex + 1 : undefined, e.comment,
+    ]);
+    return toCsv(headers, rows);
+  }
+
+  /**
+   * Exports one row per waste entry, oldest first.
+   * @param spaceId - The ID of the space.
+   * @param range - Optional inclusive date range, applied to the entry timestamp.
+   * @returns A promise resolving to the CSV document.
+   */
+  async exportWasteEntries(spaceId: string, range: DateRange = {}): Promise<string> {
+    const entries = (await this.wasteEntryService.getWasteEntriesForSpace(spaceId))
+      .filter(e => isWithinRange(e.timestamp, range))
+      .reverse(); // Service returns newest first
+
+    const headers = [
+      'Timestamp (ISO)', 'Timestamp (Local)', 'Category', 'Points', 'Severity', 'Minutes Lost', 'Note',
+      'Multi-Step Action ID', 'To-Do ID', 'Has Photo',
+    ];
+    const rows = entries.map(e => [
+      e.timestamp, formatLocalDateTime(e.timestamp), e.type, e.points, e.severity, e.minutesLost, e.note,
+      e.multiStepActionId, e.todoId, e.imageUrl ? 'yes' : undefined,
+    ]);
+    return toCsv(headers, rows);
+  }
+
+  /**
+   * Exports one row per clock session, reconstructed from clockIn/clockOut pairs.
+   * A session is included if it starts within the range.
+   * @param spaceId - The ID of the space.
+   * @param range - Optional inclusive date range, applied to the session start.
+   * @returns A promise resolving to the CSV document.
+   */
+  async exportSessions(spaceId: string, range: DateRange = {}): Promise<string> {
+    const entries = await this.logEntryService.getLogEntriesForSpace(spaceId);
+    const sessions = reconstructSessions(entries).filter(s => isWithinRange(s.start, range));
+
+    const headers = [
+      'Start (ISO)', 'Start (Local)', 'End (ISO)', 'End (Local)', 'Minutes', 'Points', 'Entries', 'Points per Hour', 'Status',
+    ];
+    const rows = sessions.map(s => [
+      s.start, formatLocalDateTime(s.start), s.end, formatLocalDateTime(s.end),
+      s.minutes, s.points, s.entryCount,
+      s.minutes > 0 ? Math.round((s.points / (s.minutes / 60)) * 10) / 10 : undefined,
+      s.end ? 'closed' : 'open',
+    ]);
+    return toCsv(headers, rows);
+  }
+}
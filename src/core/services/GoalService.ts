@@ -0,0 +1,199 @@
+/**
+ * @fileOverview Service layer for managing quantitative goals. Validates goal definitions and
+ * awards bonus points when a goal is hit. Progress math lives in core/analytics/goals.
+ */
+
+import type { IGoalRepository } from '@/core/ports/GoalRepository';
+import type { Goal } from '@/core/domain/Goal';
+import type { LogEntry } from '@/core/domain/LogEntry';
+import type { LogEntryService } from './LogEntryService';
+import type { WasteEntryService } from './WasteEntryService';
+import { computeGoalProgress, describeGoal, goalBonusEntryId } from '@/core/analytics/goals';
+
+export interface GoalEvaluationResult {
+  achievedGoals: Goal[]; // Goals that were hit during this evaluation
+  bonusEntries: LogEntry[]; // One 'goalBonus' log entry per achieved goal
+}
+
+export class GoalService {
+  // Latest evaluation or revocation per space; each waits for the previous one so a goal is never awarded twice
+  private pending = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private goalRepository: IGoalRepository,
+    private logEntryService: LogEntryService,
+    private wasteEntryService: WasteEntryService,
+  ) {}
+
+  /**
+   * Creates a new goal for a space.
+   * @param goalData - The goal definition.
+   * @returns A promise resolving to the created Goal.
+   */
+  async createGoal(goalData: Omit<Goal, 'id' | 'dateCreated' | 'achievedAt'>): Promise<Goal> {
+    if (!Number.isFinite(goalData.targetValue) || goalData.targetValue < 0) {
+      throw new Error("Goal target must be a non-negative number.");
+    }
+    if (goalData.metric !== 'maxWastePoints' && goalData.targetValue <= 0) {
+      throw new Error("Goal target must be greater than zero.");
+    }
+    if (goalData.metric === 'actionCount' && (!goalData.actionId || !goalData.actionName)) {
+      throw new Error("An action must be selected for an action count goal.");
+    }
+    if (goalData.metric === 'maxWastePoints' && !goalData.deadline) {
+      throw new Error("A waste ceiling goal needs a deadline.");
+    }
+    if (goalData.deadline && goalData.deadline.getTime() <= Date.now()) {
+      throw new Error("Goal deadline must be in the future.");
+    }
+    if (goalData.bonusPoints < 0) {
+      throw new Error("Bonus points cannot be negative.");
+    }
+
+    const goalToAdd: Omit<Goal, 'id'> = {
+      ...goalData,
+      actionId: goalData.metric === 'actionCount' ? goalData.actionId : undefined,
+      actionName: goalData.metric === 'actionCount' ? goalData.actionName : undefined,
+      deadline: goalData.deadline ?? null,
+      dateCreated: new Date(),
+      achievedAt: null,
+    };
+
+    return this.goalRepository.add(goalToAdd);
+  }
+
+  /**
+   * Retrieves all goals for a specific space, oldest first.
+   * @param spaceId - The ID of the space.
+   * @returns A promise resolving to an array of Goals.
+   */
+  async getGoalsForSpace(spaceId: string): Promise<Goal[]> {
+    return this.goalRepository.getBySpaceId(spaceId); // Repository handles sorting
+  }
+
+  /**
+   * Checks every unachieved goal in a space and records the ones that have been hit:
+   * sets achievedAt and logs a 'goalBonus' entry with the goal's bonus points.
+   * Evaluations of the same space run one after another.
+   * @param spaceId - The ID of the space.
+   * @param now - The current time.
+   * @returns A promise resolving to the newly achieved goals and their bonus entries.
+   */
+  async evaluateGoals(spaceId: string, now: Date = new Date()): Promise<GoalEvaluationResult> {
+    return this.enqueue(spaceId, () => this.awardAchievedGoals(spaceId, now));
+  }
+
+  /**
+   * Takes back goals achieved by a change that is being undone: clears achievedAt and
+   * deletes their bonus entries.
+   * @param spaceId - The ID of the space.
+   * @param goals - The goals to revoke, as returned by evaluateGoals.
+   * @returns A promise resolving to the revoked goals; goals deleted since are skipped.
+   */
+  async revokeGoals(spaceId: string, goals: Goal[]): Promise<Goal[]> {
+    return this.enqueue(spaceId, () => this.revoke(goals));
+  }
+
+  /**
+   * Re-checks a space's achieved goals after entries stopped counting (voided or deleted) and
+   * takes back the ones the remaining entries no longer meet, with their bonus entries.
+   * @param spaceId - The ID of the space.
+   * @param now - The current time.
+   * @returns A promise resolving to the revoked goals.
+   */
+  async revokeUnmetGoals(spaceId: string, now: Date = new Date()): Promise<Goal[]> {
+    return this.enqueue(spaceId, async () => {
+      const achieved = (await this.goalRepository.getBySpaceId(spaceId)).filter(g => g.achievedAt);
+      if (achieved.length === 0) return [];
+      const [logEntries, wasteEntries] = await Promise.all([
+        this.logEntryService.getLogEntriesForSpace(spaceId),
+        this.wasteEntryService.getWasteEntriesForSpace(spaceId),
+      ]);
+      // Measured as if never achieved, since an achieved goal always reports 'achieved'
+      const unmet = achieved.filter(g => computeGoalProgress({ ...g, achievedAt: null }, logEntries, wasteEntries, now).status !== 'achieved');
+      return this.revoke(unmet);
+    });
+  }
+
+  /**
+   * Deletes a goal. Bonus points already awarded stay in the log.
+   * @param id - The ID of the goal.
+   * @returns A promise resolving when the deletion is complete.
+   */
+  async deleteGoal(id: string): Promise<void> {
+    return this.goalRepository.delete(id);
+  }
+
+  /**
+   * Deletes all goals associated with a specific space.
+   * This is typically used when deleting a space.
+   * @param spaceId - The ID of the space.
+   * @returns A promise resolving when the deletion is complete.
+   */
+  async deleteGoalsForSpace(spaceId: string): Promise<void> {
+    return this.goalRepository.deleteBySpaceId(spaceId);
+  }
+
+  // Runs a task after the space's previous evaluation or revocation has settled.
+  private enqueue<T>(spaceId: string, task: () => Promise<T>): Promise<T> {
+    const run = (this.pending.get(spaceId) ?? Promise.resolve())
+      .catch(() => undefined) // A failed run has already been reported to its caller
+      .then(task);
+    this.pending.set(spaceId, run);
+    const cleanUp = () => {
+      if (this.pending.get(spaceId) === run) this.pending.delete(spaceId);
+    };
+    run.then(cleanUp, cleanUp);
+    return run;
+  }
+
+  private async revoke(goals: Goal[]): Promise<Goal[]> {
+    const revoked: Goal[] = [];
+    for (const goal of goals) {
+      await this.logEntryService.deleteLogEntry(goalBonusEntryId(goal.id));
+      const current = await this.goalRepository.getById(goal.id);
+      if (!current) continue;
+      const revokedGoal: Goal = { ...current, achievedAt: null };
+      await this.goalRepository.update(revokedGoal);
+      revoked.push(revokedGoal);
+    }
+    return revoked;
+  }
+
+  private async awardAchievedGoals(spaceId: string, now: Date): Promise<GoalEvaluationResult> {
+    const pending = (await this.goalRepository.getBySpaceId(spaceId)).filter(g => !g.achievedAt);
+    if (pending.length === 0) {
+      return { achievedGoals: [], bonusEntries: [] };
+    }
+
+    const [logEntries, wasteEntries] = await Promise.all([
+      this.logEntryService.getLogEntriesForSpace(spaceId),
+      this.wasteEntryService.getWasteEntriesForSpace(spaceId),
+    ]);
+
+    const achievedGoals: Goal[] = [];
+    const bonusEntries: LogEntry[] = [];
+    for (const goal of pending) {
+      if (computeGoalProgress(goal, logEntries, wasteEntries, now).status !== 'achieved') continue;
+
+      // Waste ceilings are achieved at their deadline, not when they are evaluated
+      const achievedAt = goal.metric === 'maxWastePoints' && goal.deadline ? goal.deadline : now;
+      const achievedGoal: Goal = { ...goal, achievedAt };
+      await this.goalRepository.update(achievedGoal);
+      achievedGoals.push(achievedGoal);
+
+      if (goal.bonusPoints > 0) {
+        // A fixed ID, so the bonus is stored once even if the goal were evaluated twice
+        bonusEntries.push(await this.logEntryService.putLogEntry(goalBonusEntryId(goal.id), {
+          spaceId,
+          actionName: `Goal achieved: ${describeGoal(goal)}`,
+          points: goal.bonusPoints,
+          type: 'goalBonus',
+          goalId: goal.id,
+        }));
+      }
+    }
+
+    return { achievedGoals, bonusEntries };
+  }
+}
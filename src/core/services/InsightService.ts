@@ -0,0 +1,104 @@
+/**
+ * @fileOverview Service layer for Insight, the passive currency earned while a space is clocked in.
+ * Earnings are derived from clock-in times on demand, so they are correct even if the app was closed
+ * during the session, and are stored per session under a deterministic ID so that several tabs
+ * accruing the same session overwrite each other instead of double-counting.
+ */
+
+import type { IInsightRepository } from '@/core/ports/InsightRepository';
+import type { ISpaceRepository } from '@/core/ports/SpaceRepository';
+import type { InsightPurchase, InsightWallet } from '@/core/domain/Insight';
+import {
+  DEFAULT_INSIGHT_PER_HOUR,
+  INSIGHT_SHOP_ITEMS_BY_ID,
+  computeInsightWallet,
+  computeSessionAccrual,
+  getSessionAccrualId,
+} from '@/core/analytics/insight';
+
+export class InsightService {
+  constructor(
+    private insightRepository: IInsightRepository,
+    private spaceRepository: ISpaceRepository,
+    private ratePerHour: number = DEFAULT_INSIGHT_PER_HOUR,
+  ) {
+    if (!Number.isFinite(ratePerHour) || ratePerHour < 0) {
+      throw new Error("Insight rate must be a non-negative number.");
+    }
+  }
+
+  /**
+   * @returns The Insight earned per clocked-in hour.
+   */
+  getRatePerHour(): number {
+    return this.ratePerHour;
+  }
+
+  /**
+   * Credits one session up to a point in time.
+   * @param spaceId - The space of the session.
+   * @param sessionStart - The session's clock-in time.
+   * @param until - The time to accrue up to.
+   * @returns A promise resolving to the Insight newly credited by this call.
+   */
+  async accrueSession(spaceId: string, sessionStart: Date, until: Date): Promise<number> {
+    const existing = await this.insightRepository.getAccrualById(getSessionAccrualId(spaceId, sessionStart));
+    const updated = computeSessionAccrual(existing, spaceId, sessionStart, until, this.ratePerHour);
+    if (!updated) return 0;
+    await this.insightRepository.putAccrual(updated);
+    return updated.insightEarned - (existing?.insightEarned ?? 0);
+  }
+
+  /**
+   * Credits every space that is currently clocked in, up to `now`.
+   * @param now - The current time.
+   * @returns A promise resolving to the Insight newly credited by this call.
+   */
+  async accrueOpenSessions(now: Date = new Date()): Promise<number> {
+    const spaces = await this.spaceRepository.getAll();
+    let credited = 0;
+    for (const space of spaces) {
+      if (space.isClockedIn && space.clockInStartTime) {
+        credited += await this.accrueSession(space.id, space.clockInStartTime, now);
+      }
+    }
+    return credited;
+  }
+
+  /**
+   * Summarises earnings, spending and purchases.
+   * @returns A promise resolving to the wallet.
+   */
+  async getWallet(): Promise<InsightWallet> {
+    const [accruals, purchases] = await Promise.all([
+      this.insightRepository.getAllAccruals(),
+      this.insightRepository.getAllPurchases(),
+    ]);
+    return computeInsightWallet(accruals, purchases);
+  }
+
+  /**
+   * Buys a shop item with Insight.
+   * @param itemId - The ID of the item in INSIGHT_SHOP_ITEMS.
+   * @param now - The purchase time.
+   * @returns A promise resolving to the recorded purchase.
+   * @throws Error if the item is unknown, already owned, or the balance is too low.
+   */
+  async purchase(itemId: string, now: Date = new Date()): Promise<InsightPurchase> {
+    const item = INSIGHT_SHOP_ITEMS_BY_ID.get(itemId);
+    if (!item) {
+      throw new Error(`Shop item ${itemId} not found.`);
+    }
+    const wallet = await this.getWallet();
+    if (wallet.purchases.some(p => p.itemId === itemId)) {
+      throw new Error(`"${item.name}" is already unlocked.`);
+    }
+    if (wallet.balance < item.cost) {
+      throw new Error(`Not enough Insight: "${item.name}" costs ${item.cost}, you have ${Math.floor(wallet.balance)}.`);
+    }
+
+    const purchase: InsightPurchase = { id: item.id, itemId: item.id, cost: item.cost, purchasedAt: now };
+    await this.insightRepository.putPurchase(purchase);
+    return purchase;
+  }
+}
@@ -4,7 +4,12 @@
  */
 
 import type { ILogEntryRepository } from '@/core/ports/LogEntryRepository';
-import type { LogEntry } from '@/core/domain/LogEntry';
+import type { LogEntry, LogEntryCursor, LogEntryFilter, LogEntryPage } from '@/core/domain/LogEntry';
+import { reconstructSessions, type WorkSession } from '@/core/analytics/sessions';
+import { buildCorrectionEntry, isCorrectableEntry, isCountedEntry, type LogCorrectionKind } from '@/core/analytics/logCorrections';
+
+// Entries per page in the log history
+export const LOG_PAGE_SIZE = 50;
 
 export class LogEntryService {
   constructor(private logEntryRepository: ILogEntryRepository) {}
@@ -14,6 +19,7 @@ export class LogEntryService {
    * Handles setting the timestamp.
    * @param logEntryData - Data for the new log entry (spaceId, actionName, points, type, etc.).
    * @returns A promise resolving to the created LogEntry.
+   * @throws Error if an action's quantity is not a whole number of at least 1.
    */
   async addLogEntry(logEntryData: Omit<LogEntry, 'id' | 'timestamp'>): Promise<LogEntry> {
     const entryToAdd: Omit<LogEntry, 'id'> = {
@@ -22,8 +28,13 @@ export class LogEntryService {
       // Ensure dates are Date objects if passed differently
        clockInTime: logEntryData.clockInTime ? new Date(logEntryData.clockInTime) : undefined,
        clockOutTime: logEntryData.clockOutTime ? new Date(logEntryData.clockOutTime) : undefined,
+       comment: logEntryData.comment?.trim() || undefined,
     };
 
+    if (entryToAdd.type === 'action' && entryToAdd.quantity !== undefined && (!Number.isInteger(entryToAdd.quantity) || entryToAdd.quantity < 1)) {
+        throw new Error("Quantity must be a whole number of at least 1.");
+    }
+
     // Add validation or specific logic based on log type if needed
     if (entryToAdd.type === 'clockOut' && !entryToAdd.clockInTime) {
         console.warn("Clock out entry added without clock in time.");
@@ -38,13 +49,27 @@ export class LogEntryService {
   }
 
   /**
-   * Retrieves all log entries for a specific space, sorted by timestamp descending.
+   * Records a log entry under a fixed ID, replacing any entry already stored under it, so an
+   * entry that must exist at most once can't be written twice.
+   * @param id - The ID to store the entry under.
+   * @param logEntryData - Data for the log entry.
+   * @returns A promise resolving to the stored LogEntry.
+   */
+  async putLogEntry(id: string, logEntryData: Omit<LogEntry, 'id' | 'timestamp'>): Promise<LogEntry> {
+    const entry: LogEntry = { ...logEntryData, id, timestamp: new Date() };
+    await this.logEntryRepository.update(entry);
+    return entry;
+  }
+
+  /**
+   * Retrieves the log entries of a specific space that still count, sorted by timestamp descending.
+   * Voided entries and correction entries are left out; the paged history includes them.
    * @param spaceId - The ID of the space.
    * @returns A promise resolving to an array of LogEntries.
    */
   async getLogEntriesForSpace(spaceId: string): Promise<LogEntry[]> {
     // Repository already handles sorting
-    const entries = await this.logEntryRepository.getBySpaceId(spaceId);
+    const entries = (await this.logEntryRepository.getBySpaceId(spaceId)).filter(isCountedEntry);
     // Ensure dates are Date objects after retrieval
     return entries.map(e => ({
         ...e,
@@ -54,6 +79,34 @@ export class LogEntryService {
     }));
   }
 
+  /**
+   * Retrieves one page of a space's log history, newest first.
+   * @param spaceId - The ID of the space.
+   * @param filter - Criteria every returned entry must match.
+   * @param cursor - The previous page's nextCursor; omit for the first page.
+   * @param limit - The page size.
+   * @returns A promise resolving to the page.
+   * @throws Error if minPoints is greater than maxPoints or from is after to.
+   */
+  async getLogEntryPage(spaceId: string, filter: LogEntryFilter = {}, cursor?: LogEntryCursor, limit: number = LOG_PAGE_SIZE): Promise<LogEntryPage> {
+    if (filter.minPoints !== undefined && filter.maxPoints !== undefined && filter.minPoints > filter.maxPoints) {
+      throw new Error("Minimum points cannot be greater than maximum points.");
+    }
+    if (filter.from && filter.to && filter.from.getTime() > filter.to.getTime()) {
+      throw new Error("The start date must be on or before the end date.");
+    }
+    return this.logEntryRepository.getPageBySpaceId(spaceId, filter, limit, cursor);
+  }
+
+  /**
+   * Reconstructs a space's clock-in sessions from its clock events only.
+   * @param spaceId - The ID of the space.
+   * @returns A promise resolving to the sessions, oldest first. Session points are not attributed.
+   */
+  async getWorkSessions(spaceId: string): Promise<WorkSession[]> {
+    return reconstructSessions(await this.logEntryRepository.getClockEventsBySpaceId(spaceId));
+  }
+
   /**
    * Deletes a log entry.
    * @param id - The ID of the log entry to delete.
@@ -63,6 +116,36 @@ export class LogEntryService {
     return this.logEntryRepository.delete(id);
   }
 
+  /**
+   * Voids or deletes a log entry from the history and records the correction as a 'correction' entry.
+   * A voided entry stays visible in the history but no longer counts toward points or statistics.
+   * @param id - The ID of the log entry to correct.
+   * @param kind - Whether to void or delete it.
+   * @param reason - Optional note on why, kept on the correction entry.
+   * @returns A promise resolving to the voided entry (or the deleted one, as it was) and the correction entry.
+   * @throws Error if the entry doesn't exist, is a clock event, or was already voided.
+   */
+  async correctLogEntry(id: string, kind: LogCorrectionKind, reason?: string): Promise<{ entry: LogEntry; correction: LogEntry }> {
+    const entry = await this.logEntryRepository.getById(id);
+    if (!entry) {
+      throw new Error("Log entry not found.");
+    }
+    if (!isCorrectableEntry(entry)) {
+      throw new Error(entry.voidedAt ? "This entry has already been voided." : "Clock events can't be voided or deleted; they define your work sessions.");
+    }
+
+    const note = reason?.trim() || undefined;
+    let corrected = entry;
+    if (kind === 'void') {
+      corrected = { ...entry, voidedAt: new Date(), voidReason: note };
+      await this.logEntryRepository.update(corrected);
+    } else {
+      await this.logEntryRepository.delete(id);
+    }
+    const correction = await this.addLogEntry(buildCorrectionEntry(entry, kind, note));
+    return { entry: corrected, correction };
+  }
+
   /**
    * Deletes all log entries associated with a specific space.
    * This is typically used when deleting a space.
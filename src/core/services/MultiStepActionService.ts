@@ -5,16 +5,43 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import type { IMultiStepActionRepository } from '@/core/ports/MultiStepActionRepository';
-import type { MultiStepAction, ActionStep } from '@/core/domain/MultiStepAction';
+import type { MultiStepAction, ActionStep, QuestRun } from '@/core/domain/MultiStepAction';
+import { buildQuestRun, isQuestDone } from '@/core/analytics/quests';
+
+// Actions without a sortOrder (created before reordering existed) keep their stored order after the rest.
+const bySortOrder = (a: MultiStepAction, b: MultiStepAction) => (a.sortOrder ?? Number.MAX_SAFE_INTEGER) - (b.sortOrder ?? Number.MAX_SAFE_INTEGER);
+
+// What completing a step did: which step, and the run it finished if it was the last one.
+export interface StepCompletion {
+  action: MultiStepAction;
+  stepIndex: number;
+  completedRun?: QuestRun;
+}
+
+const assertValidCompletionBonus = (completionBonus?: number) => {
+  if (completionBonus !== undefined && (!Number.isFinite(completionBonus) || completionBonus < 0)) {
+    throw new Error("Completion bonus cannot be negative.");
+  }
+};
+
+// Clears every step and starts a new run, timed from now.
+const startOver = (action: MultiStepAction, now: Date): MultiStepAction => ({
+  ...action,
+  steps: action.steps.map(step => ({ ...step, completed: false })),
+  currentStepIndex: 0,
+  runStartedAt: now,
+});
 
 export class MultiStepActionService {
   constructor(private multiStepActionRepository: IMultiStepActionRepository) {}
 
   /**
    * Creates a new multi-step action for a given space.
-   * Assigns IDs to steps and sets initial state.
-   * @param actionData - Data for the new action (spaceId, name, pointsPerStep, steps, description).
+   * Assigns IDs to steps and sets initial state; placed at the end of the list unless a sortOrder is given.
+   * Its first run starts now, so the cycle time covers the time to the first step too.
+   * @param actionData - Data for the new action (spaceId, name, pointsPerStep, steps, description, optional sortOrder, completionBonus and repeatable).
    * @returns A promise resolving to the created MultiStepAction.
+   * @throws Error if the name is empty, there are no steps, or the completion bonus is negative.
    */
   async createMultiStepAction(actionData: Omit<MultiStepAction, 'id' | 'currentStepIndex' | 'steps'> & { steps: Omit<ActionStep, 'id' | 'completed'>[] }): Promise<MultiStepAction> {
     if (!actionData.name) {
@@ -27,9 +54,16 @@ export class MultiStepActionService {
       console.warn("Multi-step action points per step are non-positive. Setting to 1.");
       actionData.pointsPerStep = 1;
     }
+    assertValidCompletionBonus(actionData.completionBonus);
 
     const newAction: Omit<MultiStepAction, 'id'> = {
         ...actionData,
+        sortOrder: actionData.sortOrder ?? await this.getNextSortOrder(actionData.spaceId),
+        archived: false,
+        completionBonus: actionData.completionBonus ?? 0,
+        repeatable: actionData.repeatable ?? false,
+        runs: [],
+        runStartedAt: new Date(),
         currentStepIndex: 0,
         steps: actionData.steps.map(step => ({
             ...step,
@@ -42,12 +76,12 @@ export class MultiStepActionService {
   }
 
   /**
-   * Retrieves all multi-step actions for a specific space.
+   * Retrieves all multi-step actions for a specific space, archived included, in list order.
    * @param spaceId - The ID of the space.
    * @returns A promise resolving to an array of MultiStepActions.
    */
   async getMultiStepActionsForSpace(spaceId: string): Promise<MultiStepAction[]> {
-    return this.multiStepActionRepository.getBySpaceId(spaceId);
+    return (await this.multiStepActionRepository.getBySpaceId(spaceId)).sort(bySortOrder);
   }
 
   /**
@@ -65,32 +99,156 @@ export class MultiStepActionService {
     return this.multiStepActionRepository.update(action);
   }
 
-   /**
+  /**
+   * Saves a multi-step action's name, description, points per step, completion bonus and whether
+   * it repeats. Steps already logged keep the name and points they were logged with. A finished
+   * action that is made repeatable starts over.
+   * @param action - The action with updated details.
+   * @returns A promise resolving to the saved action.
+   * @throws Error if the name is empty, the points are not positive or the completion bonus is negative.
+   */
+  async updateMultiStepActionDetails(action: MultiStepAction): Promise<MultiStepAction> {
+    const name = action.name.trim();
+    if (!name) {
+      throw new Error("Multi-step action name cannot be empty.");
+    }
+    if (!Number.isFinite(action.pointsPerStep) || action.pointsPerStep <= 0) {
+      throw new Error("Multi-step action points per step must be a positive number.");
+    }
+    assertValidCompletionBonus(action.completionBonus);
+    let updated: MultiStepAction = { ...action, name, description: action.description?.trim() || undefined };
+    if (updated.repeatable && isQuestDone(updated)) {
+      updated = startOver(updated, new Date()); // A finished quest made repeatable is ready for its next run
+    }
+    await this.updateMultiStepAction(updated);
+    return updated;
+  }
+
+  /**
+   * Archives or restores a multi-step action. Archived actions are hidden from the action
+   * list, but their logged steps stay in the history and analytics.
+   * @param id - The ID of the multi-step action.
+   * @param archived - True to archive, false to restore.
+   * @returns A promise resolving to the saved action.
+   * @throws Error if the action does not exist.
+   */
+  async setMultiStepActionArchived(id: string, archived: boolean): Promise<MultiStepAction> {
+    const action = await this.multiStepActionRepository.getById(id);
+    if (!action) {
+      throw new Error(`Multi-step action with ID ${id} not found.`);
+    }
+    return this.updateMultiStepActionDetails({ ...action, archived });
+  }
+
+  /**
+   * Persists a new order for a space's multi-step actions.
+   * @param spaceId - The ID of the space.
+   * @param orderedIds - Multi-step action IDs in their new order; actions left out keep their place after them.
+   * @returns A promise resolving to all of the space's multi-step actions in the new order.
+   */
+  async reorderMultiStepActions(spaceId: string, orderedIds: string[]): Promise<MultiStepAction[]> {
+    const actions = await this.getMultiStepActionsForSpace(spaceId);
+    const ordered = [
+      ...orderedIds.flatMap(id => actions.filter(a => a.id === id)),
+      ...actions.filter(a => !orderedIds.includes(a.id)),
+    ].map((action, index) => ({ ...action, sortOrder: index }));
+    await Promise.all(ordered
+      .filter(action => actions.find(a => a.id === action.id)?.sortOrder !== action.sortOrder)
+      .map(action => this.multiStepActionRepository.update(action)));
+    return ordered;
+  }
+
+  /**
    * Marks the current step of a multi-step action as complete and advances to the next.
+   * Completing the last step records a run; repeatable actions then start over from the first step,
+   * with the next run starting at this completion.
    * @param actionId - The ID of the multi-step action.
-   * @returns A promise resolving to the updated MultiStepAction, or undefined if not found or already completed.
+   * @param now - The completion time.
+   * @returns A promise resolving to what was completed, or undefined if not found or already done.
    */
-   async completeCurrentStep(actionId: string): Promise<MultiStepAction | undefined> {
+  async completeCurrentStep(actionId: string, now: Date = new Date()): Promise<StepCompletion | undefined> {
     const action = await this.multiStepActionRepository.getById(actionId);
     if (!action) {
         console.error(`Multi-step action with ID ${actionId} not found.`);
         return undefined;
     }
 
-    if (action.currentStepIndex >= action.steps.length) {
+    if (isQuestDone(action)) {
         console.warn(`Multi-step action ${actionId} is already completed.`);
-        return action; // Return the completed action
+        return undefined;
     }
 
-    // Mark current step as complete
-    action.steps[action.currentStepIndex].completed = true;
-    // Advance to the next step
-    action.currentStepIndex += 1;
+    const stepIndex = action.currentStepIndex;
+    const runStartedAt = action.runStartedAt ?? now; // Absent on quests created before runs were timed from their start
+    let updated: MultiStepAction = {
+        ...action,
+        steps: action.steps.map((step, index) => (index === stepIndex ? { ...step, completed: true } : step)),
+        currentStepIndex: stepIndex + 1,
+        runStartedAt,
+    };
 
-    await this.updateMultiStepAction(action);
-    return action; // Return the updated action
-   }
+    let completedRun: QuestRun | undefined;
+    if (isQuestDone(updated)) {
+        completedRun = buildQuestRun(runStartedAt, now);
+        updated = { ...updated, runs: [...(action.runs ?? []), completedRun], runStartedAt: undefined };
+        if (updated.repeatable) {
+            updated = startOver(updated, now);
+        }
+    }
 
+    await this.updateMultiStepAction(updated);
+    return { action: updated, stepIndex, completedRun };
+  }
+
+  /**
+   * Reverts a step completion, making that step current again; reverting a last step also removes
+   * the run it finished. Only the most recent completion can be reverted, so undoing an older one
+   * never reopens the wrong step.
+   * @param completion - The completion to revert, as returned by completeCurrentStep.
+   * @returns A promise resolving to the updated MultiStepAction.
+   * @throws Error if the action doesn't exist or has moved on since.
+   */
+  async revertStep({ action: { id }, stepIndex, completedRun }: StepCompletion): Promise<MultiStepAction> {
+    const action = await this.multiStepActionRepository.getById(id);
+    if (!action) {
+      throw new Error("Multi-step action not found.");
+    }
+    const runs = action.runs ?? [];
+    const lastRun = runs[runs.length - 1];
+    const isLatest = completedRun
+      ? lastRun?.finishedAt.getTime() === completedRun.finishedAt.getTime() && action.currentStepIndex === (action.repeatable ? 0 : action.steps.length)
+      : action.currentStepIndex - 1 === stepIndex;
+    if (!isLatest) {
+      throw new Error(`"${action.name}" has moved on since this step; undo its later steps first.`);
+    }
+
+    const reverted: MultiStepAction = {
+      ...action,
+      steps: action.steps.map((step, index) => ({ ...step, completed: index < stepIndex })),
+      currentStepIndex: stepIndex,
+      runStartedAt: completedRun?.startedAt ?? action.runStartedAt,
+      runs: completedRun ? runs.slice(0, -1) : action.runs,
+    };
+    await this.updateMultiStepAction(reverted);
+    return reverted;
+  }
+
+  /**
+   * Resets a multi-step action to its first step and starts a new run. An unfinished run is
+   * abandoned without being recorded; steps already logged stay in the history with their points.
+   * @param id - The ID of the multi-step action.
+   * @returns A promise resolving to the saved action.
+   * @throws Error if the action does not exist.
+   */
+  async resetMultiStepAction(id: string): Promise<MultiStepAction> {
+    const action = await this.multiStepActionRepository.getById(id);
+    if (!action) {
+      throw new Error(`Multi-step action with ID ${id} not found.`);
+    }
+    const reset = startOver(action, new Date());
+    await this.updateMultiStepAction(reset);
+    return reset;
+  }
 
   /**
    * Deletes a multi-step action.
@@ -110,4 +268,10 @@ export class MultiStepActionService {
   async deleteMultiStepActionsForSpace(spaceId: string): Promise<void> {
     return this.multiStepActionRepository.deleteBySpaceId(spaceId);
   }
+
+  private async getNextSortOrder(spaceId: string): Promise<number> {
+    // Numbers any actions from before reordering existed, so the new one lands after them
+    const actions = await this.reorderMultiStepActions(spaceId, []);
+    return actions.length;
+  }
 }
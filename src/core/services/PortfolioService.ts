@@ -0,0 +1,51 @@
+/**
+ * @fileOverview Service layer for the cross-space portfolio dashboard and global activity heatmap.
+ * Gathers records from every space and summarizes them with the rules in core/analytics/portfolio.
+ */
+
+import type { ISpaceRepository } from '@/core/ports/SpaceRepository';
+import type { ILogEntryRepository } from '@/core/ports/LogEntryRepository';
+import type { IWasteEntryRepository } from '@/core/ports/WasteEntryRepository';
+import type { IMultiStepActionRepository } from '@/core/ports/MultiStepActionRepository';
+import type { ICommentRepository } from '@/core/ports/CommentRepository';
+import { buildPortfolioSummary, type PortfolioSummary } from '@/core/analytics/portfolio';
+import type { ActivityRecords } from '@/core/analytics/heatmap';
+import { isCountedEntry } from '@/core/analytics/logCorrections';
+
+export class PortfolioService {
+  constructor(
+    private spaceRepository: ISpaceRepository,
+    private logEntryRepository: ILogEntryRepository,
+    private wasteEntryRepository: IWasteEntryRepository,
+    private multiStepActionRepository: IMultiStepActionRepository,
+    private commentRepository: ICommentRepository,
+  ) {}
+
+  /**
+   * Summarizes every space for the portfolio dashboard.
+   * @param now - The time that defines "this week" and how long sessions have been running.
+   * @returns A promise resolving to the summary.
+   */
+  async getPortfolioSummary(now: Date = new Date()): Promise<PortfolioSummary> {
+    const [spaces, logEntries, wasteEntries, multiStepActions] = await Promise.all([
+      this.spaceRepository.getAll(),
+      this.logEntryRepository.getAll(),
+      this.wasteEntryRepository.getAll(),
+      this.multiStepActionRepository.getAll(),
+    ]);
+    return buildPortfolioSummary({ spaces, logEntries: logEntries.filter(isCountedEntry), wasteEntries, multiStepActions, now });
+  }
+
+  /**
+   * Retrieves every space's log entries, waste entries and comments for the global activity heatmap.
+   * @returns A promise resolving to the records, in no particular order.
+   */
+  async getWorkspaceActivity(): Promise<ActivityRecords> {
+    const [logEntries, wasteEntries, comments] = await Promise.all([
+      this.logEntryRepository.getAll(),
+      this.wasteEntryRepository.getAll(),
+      this.commentRepository.getAll(),
+    ]);
+    return { logEntries: logEntries.filter(isCountedEntry), wasteEntries, comments };
+  }
+}
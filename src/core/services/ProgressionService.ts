@@ -0,0 +1,83 @@
+/**
+ * @fileOverview Service layer for user-level progression ("Focus Level").
+ * XP is the total AP across every space's log entries. Reached levels are persisted so
+ * unlocks stay earned even if XP later drops (e.g. a space is deleted).
+ */
+
+import type { ILevelUpRepository } from '@/core/ports/LevelUpRepository';
+import type { ILogEntryRepository } from '@/core/ports/LogEntryRepository';
+import type { FocusProgress, LevelUpEvent } from '@/core/domain/Progression';
+import { getFocusProgress, getLevelForXp, levelUpEventId } from '@/core/analytics/progression';
+import { isCountedEntry } from '@/core/analytics/logCorrections';
+
+export interface ProgressionSnapshot {
+  progress: FocusProgress;
+  levelUps: LevelUpEvent[]; // Full history, sorted by level
+  newLevelUps: LevelUpEvent[]; // Levels reached during this call
+}
+
+export class ProgressionService {
+  // Latest refresh; each run waits for the previous one so a level-up is reported only once
+  private refreshing?: Promise<ProgressionSnapshot>;
+
+  constructor(
+    private levelUpRepository: ILevelUpRepository,
+    private logEntryRepository: ILogEntryRepository,
+  ) {}
+
+  /**
+   * Sums the points of every counted log entry in every space.
+   * @returns A promise resolving to the total XP.
+   */
+  async getTotalXp(): Promise<number> {
+    const entries = (await this.logEntryRepository.getAll()).filter(isCountedEntry);
+    return entries.reduce((sum, entry) => sum + (entry.points || 0), 0);
+  }
+
+  /**
+   * Retrieves the recorded level-up history.
+   * @returns A promise resolving to the events, sorted by level ascending.
+   */
+  async getLevelUpHistory(): Promise<LevelUpEvent[]> {
+    return this.levelUpRepository.getAll();
+  }
+
+  /**
+   * Recomputes XP, records any levels reached since the last call and returns the current progress.
+   * Levels already recorded are skipped and each event is keyed by its level; refreshes run one
+   * after another, so a level is never recorded or reported twice.
+   * @param now - The time to stamp new level-up events with.
+   * @returns A promise resolving to the progress snapshot.
+   */
+  async refreshProgress(now: Date = new Date()): Promise<ProgressionSnapshot> {
+    const run = (this.refreshing ?? Promise.resolve())
+      .catch(() => undefined) // A failed run has already been reported to its caller
+      .then(() => this.recordLevelUps(now));
+    this.refreshing = run;
+    const cleanUp = () => {
+      if (this.refreshing === run) this.refreshing = undefined;
+    };
+    run.then(cleanUp, cleanUp);
+    return run;
+  }
+
+  private async recordLevelUps(now: Date): Promise<ProgressionSnapshot> {
+    const totalXp = await this.getTotalXp();
+    const history = await this.levelUpRepository.getAll();
+    const highestRecorded = history.reduce((max, event) => Math.max(max, event.level), 1);
+    const xpLevel = getLevelForXp(totalXp);
+
+    const newLevelUps: LevelUpEvent[] = [];
+    for (let level = highestRecorded + 1; level <= xpLevel; level++) {
+      const event: LevelUpEvent = { id: levelUpEventId(level), level, reachedAt: now, totalXp };
+      await this.levelUpRepository.put(event);
+      newLevelUps.push(event);
+    }
+
+    return {
+      progress: getFocusProgress(totalXp, Math.max(highestRecorded, xpLevel)),
+      levelUps: [...history, ...newLevelUps],
+      newLevelUps,
+    };
+  }
+}
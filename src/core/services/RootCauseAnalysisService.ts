@@ -0,0 +1,121 @@
+/**
+ * @fileOverview Service layer for root-cause analyses of waste entries. Validates the 5 Whys chain
+ * and fishbone causes, and turns a countermeasure into a to-do through TodoService.
+ */
+
+import type { IRootCauseAnalysisRepository } from '@/core/ports/RootCauseAnalysisRepository';
+import type { RootCauseAnalysis } from '@/core/domain/RootCauseAnalysis';
+import type { TodoItem } from '@/core/domain/TodoItem';
+import type { TodoService } from './TodoService';
+import { MAX_WHYS } from '@/core/analytics/rootCause';
+
+export type RootCauseAnalysisInput = Omit<RootCauseAnalysis, 'id' | 'dateCreated' | 'countermeasureTodoId'>;
+
+export interface RootCauseAnalysisResult {
+  analysis: RootCauseAnalysis;
+  todo?: TodoItem; // Set when a countermeasure to-do was created
+}
+
+export class RootCauseAnalysisService {
+  constructor(
+    private rootCauseAnalysisRepository: IRootCauseAnalysisRepository,
+    private todoService: TodoService,
+  ) {}
+
+  /**
+   * Retrieves all analyses for a space, newest first.
+   * @param spaceId - The ID of the space.
+   * @returns A promise resolving to the space's analyses.
+   */
+  async getAnalysesForSpace(spaceId: string): Promise<RootCauseAnalysis[]> {
+    return this.rootCauseAnalysisRepository.getBySpaceId(spaceId);
+  }
+
+  /**
+   * Records an analysis, optionally creating a to-do for its countermeasure.
+   * Blank whys and causes are dropped.
+   * @param analysisData - The analysis to record.
+   * @param createCountermeasureTodo - True to create a to-do from the countermeasure.
+   * @returns A promise resolving to the stored analysis and the to-do, if one was created.
+   * @throws Error if no waste entry, problem statement or why is given, or there are more than five whys.
+   */
+  async createAnalysis(analysisData: RootCauseAnalysisInput, createCountermeasureTodo: boolean = false): Promise<RootCauseAnalysisResult> {
+    const whys = analysisData.whys.map(w => w.trim()).filter(Boolean);
+    const problem = analysisData.problem.trim();
+    if (analysisData.wasteEntryIds.length === 0) {
+      throw new Error("Select at least one waste entry to analyze.");
+    }
+    if (!problem) {
+      throw new Error("Problem statement cannot be empty.");
+    }
+    if (whys.length === 0) {
+      throw new Error("Answer at least one \"why?\".");
+    }
+    if (whys.length > MAX_WHYS) {
+      throw new Error(`A 5 Whys chain has at most ${MAX_WHYS} answers.`);
+    }
+
+    const analysis = await this.rootCauseAnalysisRepository.add({
+      spaceId: analysisData.spaceId,
+      wasteEntryIds: Array.from(new Set(analysisData.wasteEntryIds)),
+      problem,
+      whys,
+      causes: analysisData.causes
+        .map(c => ({ ...c, description: c.description.trim() }))
+        .filter(c => c.description),
+      countermeasure: analysisData.countermeasure?.trim() || undefined,
+      dateCreated: new Date(),
+    });
+
+    if (createCountermeasureTodo && analysis.countermeasure) {
+      return this.createCountermeasureTodo(analysis.id);
+    }
+    return { analysis };
+  }
+
+  /**
+   * Creates a to-do from an analysis's countermeasure and links it to the analysis.
+   * @param id - The ID of the analysis.
+   * @returns A promise resolving to the updated analysis and the new to-do.
+   * @throws Error if the analysis does not exist, has no countermeasure, or already has a to-do.
+   */
+  async createCountermeasureTodo(id: string): Promise<RootCauseAnalysisResult> {
+    const analysis = await this.rootCauseAnalysisRepository.getById(id);
+    if (!analysis) {
+      throw new Error(`Root-cause analysis with ID ${id} not found.`);
+    }
+    if (!analysis.countermeasure) {
+      throw new Error("This analysis has no countermeasure to turn into a to-do.");
+    }
+    if (analysis.countermeasureTodoId) {
+      throw new Error("A to-do was already created for this countermeasure.");
+    }
+
+    const todo = await this.todoService.createTodoItem({
+      spaceId: analysis.spaceId,
+      description: analysis.countermeasure,
+      beforeImage: null,
+    });
+    const updated: RootCauseAnalysis = { ...analysis, countermeasureTodoId: todo.id };
+    await this.rootCauseAnalysisRepository.update(updated);
+    return { analysis: updated, todo };
+  }
+
+  /**
+   * Deletes an analysis. Its waste entries count as unanalyzed again; a spawned to-do is kept.
+   * @param id - The ID of the analysis to delete.
+   * @returns A promise resolving when the deletion is complete.
+   */
+  async deleteAnalysis(id: string): Promise<void> {
+    return this.rootCauseAnalysisRepository.delete(id);
+  }
+
+  /**
+   * Deletes all analyses for a space (used when deleting a space).
+   * @param spaceId - The ID of the space.
+   * @returns A promise resolving when the deletion is complete.
+   */
+  async deleteAnalysesForSpace(spaceId: string): Promise<void> {
+    return this.rootCauseAnalysisRepository.deleteBySpaceId(spaceId);
+  }
+}
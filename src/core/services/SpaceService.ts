@@ -4,7 +4,8 @@
  */
 import { v4 as uuidv4 } from 'uuid';
 import type { ISpaceRepository } from '@/core/ports/SpaceRepository';
-import type { Space } from '@/core/domain/Space';
+import type { Space, SpaceStatus } from '@/core/domain/Space';
+import type { LogEntry } from '@/core/domain/LogEntry';
 import type { Action } from '@/core/domain/Action';
 import type { MultiStepAction, ActionStep } from '@/core/domain/MultiStepAction';
 
@@ -15,6 +16,64 @@ import type { LogEntryService } from './LogEntryService';
 import type { WasteEntryService } from './WasteEntryService';
 import type { CommentService } from './CommentService';
 import type { TodoService } from './TodoService'; // Import TodoService type
+import type { AndonService } from './AndonService';
+import type { GoalService } from './GoalService';
+import type { TipService } from './TipService';
+import type { WasteCategoryService } from './WasteCategoryService';
+import type { RootCauseAnalysisService } from './RootCauseAnalysisService';
+
+/**
+ * Builds the data for a new space copied from an existing one.
+ * Resets dates and clock state so the copy starts fresh. Shared by duplication and space bundle import.
+ * @param original - The space to copy.
+ * @param name - The name for the copy.
+ * @param totalClockedInTime - Clocked minutes to carry over (0 unless the copy brings its logs along).
+ * @returns The new space data, without an ID.
+ */
+export const createSpaceCopyData = (original: Space, name: string, totalClockedInTime: number = 0): Omit<Space, 'id'> => {
+  const now = new Date();
+  return {
+    name,
+    description: original.description,
+    goal: original.goal,
+    beforeImage: original.beforeImage,
+    afterImage: original.afterImage,
+    dateCreated: now,
+    dateModified: now,
+    totalClockedInTime, // Reset clocked time unless told otherwise
+    isClockedIn: false, // Reset clock state
+    clockInStartTime: null, // Reset clock state
+    status: 'active', // A copy always starts active
+    statusChangedAt: null,
+  };
+};
+
+/**
+ * Allowed status transitions. Completed spaces can be reopened; archived spaces can be restored.
+ */
+export const SPACE_STATUS_TRANSITIONS: Record<SpaceStatus, SpaceStatus[]> = {
+  active: ['paused', 'completed', 'archived'],
+  paused: ['active', 'completed', 'archived'],
+  completed: ['active', 'archived'],
+  archived: ['active', 'completed'],
+};
+
+/**
+ * Resolves a space's status, treating spaces saved before statuses existed as active.
+ * @param space - The space.
+ * @returns The space's status.
+ */
+export const getSpaceStatus = (space: Pick<Space, 'status'>): SpaceStatus => space.status ?? 'active';
+
+/**
+ * Checks whether a space is read-only (Completed or Archived): no action or waste logging.
+ * @param space - The space.
+ * @returns True if the space is read-only.
+ */
+export const isSpaceReadOnly = (space: Pick<Space, 'status'>): boolean => {
+  const status = getSpaceStatus(space);
+  return status === 'completed' || status === 'archived';
+};
 
 export class SpaceService {
   // Allow injecting other services for dependency management (like cascading deletes)
@@ -26,6 +85,11 @@ export class SpaceService {
     private wasteEntryService?: WasteEntryService, // Optional for delete
     private commentService?: CommentService, // Optional for delete
     private todoService?: TodoService, // Optional for delete
+    private andonService?: AndonService, // Optional for delete
+    private goalService?: GoalService, // Optional for delete
+    private tipService?: TipService, // Optional for delete
+    private wasteCategoryService?: WasteCategoryService, // Optional for delete and duplication
+    private rootCauseAnalysisService?: RootCauseAnalysisService, // Optional for delete
     ) {}
 
   /**
@@ -47,6 +111,8 @@ export class SpaceService {
       totalClockedInTime: 0,
       isClockedIn: false, // Default clock state
       clockInStartTime: null, // Default clock state
+      status: 'active',
+      statusChangedAt: null,
     };
 
     return this.spaceRepository.add(newSpace);
@@ -117,6 +183,9 @@ export class SpaceService {
         if (!space) {
             throw new Error(`Space with ID ${spaceId} not found.`);
         }
+        if (getSpaceStatus(space) !== 'active') {
+            throw new Error(`Cannot clock in to a ${getSpaceStatus(space)} space.`);
+        }
         const updatedSpace: Space = {
             ...space,
             isClockedIn: true,
@@ -145,7 +214,55 @@ export class SpaceService {
 
 
   /**
-   * Deletes a space and all associated data (actions, logs, todos, etc.).
+   * Moves a space to a new status, enforcing SPACE_STATUS_TRANSITIONS.
+   * A space that leaves Active while clocked in is clocked out first: the session time is added
+   * to its total and, if the log entry service is available, a clockOut entry is recorded.
+   * @param spaceId - The ID of the space.
+   * @param newStatus - The status to move to.
+   * @returns A promise resolving to the updated Space and the clockOut entry, if one was logged.
+   */
+  async changeSpaceStatus(spaceId: string, newStatus: SpaceStatus): Promise<{ space: Space; clockOutEntry?: LogEntry }> {
+    const space = await this.getSpace(spaceId);
+    if (!space) {
+      throw new Error(`Space with ID ${spaceId} not found.`);
+    }
+    const currentStatus = getSpaceStatus(space);
+    if (!SPACE_STATUS_TRANSITIONS[currentStatus].includes(newStatus)) {
+      throw new Error(`Cannot change space status from ${currentStatus} to ${newStatus}.`);
+    }
+
+    const now = new Date();
+    let updatedSpace: Space = { ...space, status: newStatus, statusChangedAt: now };
+    let clockOutEntry: LogEntry | undefined;
+
+    // Auto clock-out: only Active spaces accept clocked time
+    if (newStatus !== 'active' && space.isClockedIn && space.clockInStartTime) {
+      const minutesClockedIn = Math.max(0, Math.floor((now.getTime() - space.clockInStartTime.getTime()) / (1000 * 60)));
+      if (this.logEntryService) {
+        clockOutEntry = await this.logEntryService.addLogEntry({
+          spaceId,
+          actionName: 'Clock Out',
+          points: 0,
+          type: 'clockOut',
+          clockInTime: space.clockInStartTime,
+          clockOutTime: now,
+          minutesClockedIn,
+        });
+      }
+      updatedSpace = {
+        ...updatedSpace,
+        totalClockedInTime: space.totalClockedInTime + minutesClockedIn,
+        isClockedIn: false,
+        clockInStartTime: null,
+      };
+    }
+
+    await this.spaceRepository.update(updatedSpace);
+    return { space: { ...updatedSpace, dateModified: now }, clockOutEntry };
+  }
+
+  /**
+   * Deletes a space and all associated data (actions, logs, todos, andons, goals, etc.).
    * Requires other services to be injected for cascading deletes.
    * @param id - The ID of the space to delete.
    * @returns A promise resolving when the deletion is complete.
@@ -171,6 +288,21 @@ export class SpaceService {
      if (this.todoService) { // Add deletion for todos
         deletionPromises.push(this.todoService.deleteTodoItemsForSpace(id));
      }
+     if (this.andonService) {
+        deletionPromises.push(this.andonService.deleteAndonsForSpace(id));
+     }
+     if (this.goalService) {
+        deletionPromises.push(this.goalService.deleteGoalsForSpace(id));
+     }
+     if (this.tipService) {
+        deletionPromises.push(this.tipService.deleteDismissalsForSpace(id));
+     }
+     if (this.wasteCategoryService) {
+        deletionPromises.push(this.wasteCategoryService.deleteCategoriesForSpace(id));
+     }
+     if (this.rootCauseAnalysisService) {
+        deletionPromises.push(this.rootCauseAnalysisService.deleteAnalysesForSpace(id));
+     }
 
     await Promise.all(deletionPromises);
 
@@ -179,8 +311,8 @@ export class SpaceService {
   }
 
   /**
-   * Duplicates an existing space, including its simple and multi-step actions.
-   * Does NOT duplicate logs, waste entries, comments, todos, or clocked time.
+   * Duplicates an existing space, including its simple and multi-step actions and active waste categories.
+   * Does NOT duplicate logs, waste entries, root-cause analyses, comments, todos, andons, goals, or clocked time.
    * Adds "(Copy)" to the name and resets dates and clock state.
    * @param originalSpaceId - The ID of the space to duplicate.
    * @returns A promise resolving to the newly created duplicated Space, or undefined if the original doesn't exist.
@@ -193,39 +325,28 @@ export class SpaceService {
     }
 
     // 1. Create the new space data
-    const now = new Date();
-    const newSpaceData: Omit<Space, 'id'> = {
-      name: `${originalSpace.name} (Copy)`,
-      description: originalSpace.description,
-      goal: originalSpace.goal,
-      beforeImage: originalSpace.beforeImage,
-      afterImage: originalSpace.afterImage,
-      dateCreated: now,
-      dateModified: now,
-      totalClockedInTime: 0, // Reset clocked time
-      isClockedIn: false, // Reset clock state
-      clockInStartTime: null, // Reset clock state
-    };
+    const newSpaceData = createSpaceCopyData(originalSpace, `${originalSpace.name} (Copy)`);
     // ID is assigned by repository
 
     const newSpace = await this.spaceRepository.add(newSpaceData);
     const newSpaceId = newSpace.id;
 
     // 2. Duplicate Simple Actions
-    const originalActions = await this.actionService.getActionsForSpace(originalSpaceId);
-    const actionDuplicationPromises = originalActions.map(action => {
+    const originalActions = (await this.actionService.getActionsForSpace(originalSpaceId)).filter(a => !a.archived);
+    const actionDuplicationPromises = originalActions.map((action, index) => {
       const newActionData: Omit<Action, 'id'> = {
         spaceId: newSpaceId, // Link to the new space
         name: action.name,
         description: action.description,
         points: action.points,
+        sortOrder: index, // Created in parallel, so the order is given rather than appended
       };
       return this.actionService.createAction(newActionData);
     });
 
     // 3. Duplicate Multi-Step Actions
-    const originalMultiStepActions = await this.multiStepActionService.getMultiStepActionsForSpace(originalSpaceId);
-    const multiStepActionDuplicationPromises = originalMultiStepActions.map(action => {
+    const originalMultiStepActions = (await this.multiStepActionService.getMultiStepActionsForSpace(originalSpaceId)).filter(a => !a.archived);
+    const multiStepActionDuplicationPromises = originalMultiStepActions.map((action, index) => {
         // Create new step objects without original IDs and reset completion status
         const newStepsData: Omit<ActionStep, 'id' | 'completed'>[] = action.steps.map(step => ({
             name: step.name,
@@ -237,17 +358,26 @@ export class SpaceService {
         description: action.description,
         pointsPerStep: action.pointsPerStep,
         steps: newStepsData, // Use the newly prepared step data
+        sortOrder: index,
+        completionBonus: action.completionBonus,
+        repeatable: action.repeatable,
       };
        // ID, currentStepIndex are handled by createMultiStepAction
       return this.multiStepActionService.createMultiStepAction(newMultiStepActionData);
     });
 
+    // 4. Duplicate active Waste Categories (the copy would otherwise be seeded with plain TIMWOODS)
+    const wasteCategoryDuplicationPromises = this.wasteCategoryService
+        ? [this.wasteCategoryService.copyCategories(originalSpaceId, newSpaceId)]
+        : [];
+
     // Note: To-Do items are NOT duplicated by this function.
 
     // Wait for all duplications to complete
     await Promise.all([
         ...actionDuplicationPromises,
-        ...multiStepActionDuplicationPromises
+        ...multiStepActionDuplicationPromises,
+        ...wasteCategoryDuplicationPromises,
     ]);
 
     console.log(`Space ${originalSpaceId} duplicated successfully into new space ${newSpaceId}`);
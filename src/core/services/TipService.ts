@@ -0,0 +1,55 @@
+/**
+ * @fileOverview Service layer for the Okapi mascot's tips. Persists per-space dismissals and snoozes;
+ * which tips apply is decided by the rules in core/analytics/tips.
+ */
+
+import type { ITipDismissalRepository } from '@/core/ports/TipDismissalRepository';
+import type { TipDismissal, TipId } from '@/core/domain/Tip';
+
+export const DEFAULT_TIP_SNOOZE_HOURS = 24;
+
+export class TipService {
+  constructor(private tipDismissalRepository: ITipDismissalRepository) {}
+
+  /**
+   * Retrieves the dismissals recorded for a space.
+   * @param spaceId - The ID of the space.
+   * @returns A promise resolving to the space's dismissals.
+   */
+  async getDismissalsForSpace(spaceId: string): Promise<TipDismissal[]> {
+    return this.tipDismissalRepository.getBySpaceId(spaceId);
+  }
+
+  /**
+   * Hides a tip in a space, either for good or until a snooze runs out.
+   * An existing dismissal for the same tip is replaced.
+   * @param spaceId - The ID of the space.
+   * @param tipId - The tip to hide.
+   * @param snoozeHours - Hours to hide the tip for; omit to dismiss it permanently.
+   * @returns A promise resolving to the stored dismissal.
+   */
+  async dismissTip(spaceId: string, tipId: TipId, snoozeHours?: number): Promise<TipDismissal> {
+    if (snoozeHours !== undefined && (!Number.isFinite(snoozeHours) || snoozeHours <= 0)) {
+      throw new Error("Snooze duration must be a positive number of hours.");
+    }
+    const now = new Date();
+    const snoozedUntil = snoozeHours !== undefined ? new Date(now.getTime() + snoozeHours * 60 * 60 * 1000) : null;
+
+    const existing = (await this.tipDismissalRepository.getBySpaceId(spaceId)).find(d => d.tipId === tipId);
+    if (existing) {
+      const updated: TipDismissal = { ...existing, dismissedAt: now, snoozedUntil };
+      await this.tipDismissalRepository.update(updated);
+      return updated;
+    }
+    return this.tipDismissalRepository.add({ spaceId, tipId, dismissedAt: now, snoozedUntil });
+  }
+
+  /**
+   * Deletes all dismissals for a space (used when deleting a space).
+   * @param spaceId - The ID of the space.
+   * @returns A promise resolving when the deletion is complete.
+   */
+  async deleteDismissalsForSpace(spaceId: string): Promise<void> {
+    await this.tipDismissalRepository.deleteBySpaceId(spaceId);
+  }
+}
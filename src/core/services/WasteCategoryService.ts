@@ -0,0 +1,158 @@
+/**
+ * @fileOverview Service layer for managing per-space Waste Categories. Seeds each space with
+ * the TIMWOODS categories the first time they are requested; after that the space owns its list.
+ */
+
+import type { IWasteCategoryRepository } from '@/core/ports/WasteCategoryRepository';
+import type { WasteCategory } from '@/core/domain/WasteCategory';
+
+type CategoryTemplate = Pick<WasteCategory, 'name' | 'description' | 'points' | 'timwoods'>;
+
+// The default seed for every space. Points are only starting weights and can be edited per space.
+export const TIMWOODS_CATEGORIES: CategoryTemplate[] = [
+    {name: 'Transportation', description: 'Unnecessary movement of materials or products.', points: 1, timwoods: 'transportation'},
+    {name: 'Inventory', description: 'Excess raw materials, work in progress, or finished goods.', points: 2, timwoods: 'inventory'},
+    {name: 'Motion', description: 'Unnecessary movement of people.', points: 3, timwoods: 'motion'},
+    {name: 'Waiting', description: 'Idle time waiting for the next step in a process.', points: 4, timwoods: 'waiting'},
+    {name: 'Overprocessing', description: 'Performing more work than is necessary.', points: 5, timwoods: 'overprocessing'},
+    {name: 'Overproduction', description: 'Producing more than is needed.', points: 6, timwoods: 'overproduction'},
+    {name: 'Defects', description: 'Rework or scrap due to errors or defects.', points: 7, timwoods: 'defects'},
+    {name: 'Skills', description: 'Underutilizing people\'s talents and skills', points: 8, timwoods: 'skills'},
+];
+
+export type WasteCategoryInput = Pick<WasteCategory, 'spaceId' | 'name' | 'description' | 'points'>;
+
+export class WasteCategoryService {
+  // In-flight seeds per space, so concurrent first loads don't seed twice
+  private seeding = new Map<string, Promise<WasteCategory[]>>();
+
+  constructor(private wasteCategoryRepository: IWasteCategoryRepository) {}
+
+  /**
+   * Retrieves all categories for a space, archived included, oldest first.
+   * Seeds the TIMWOODS defaults if the space has no categories yet.
+   * @param spaceId - The ID of the space.
+   * @returns A promise resolving to the space's categories.
+   */
+  async getCategoriesForSpace(spaceId: string): Promise<WasteCategory[]> {
+    const existing = await this.wasteCategoryRepository.getBySpaceId(spaceId);
+    if (existing.length > 0) {
+      return existing;
+    }
+    let seed = this.seeding.get(spaceId);
+    if (!seed) {
+      seed = this.seedDefaults(spaceId).finally(() => this.seeding.delete(spaceId));
+      this.seeding.set(spaceId, seed);
+    }
+    return seed;
+  }
+
+  /**
+   * Adds a custom category to a space.
+   * @param categoryData - The space ID, name, optional description and points.
+   * @returns A promise resolving to the created WasteCategory.
+   * @throws Error if the name is empty or already used by an active category, or the points are invalid.
+   */
+  async createCategory(categoryData: WasteCategoryInput): Promise<WasteCategory> {
+    const siblings = await this.wasteCategoryRepository.getBySpaceId(categoryData.spaceId);
+    const name = categoryData.name.trim();
+    this.validate(name, categoryData.points, siblings);
+    return this.wasteCategoryRepository.add({
+      spaceId: categoryData.spaceId,
+      name,
+      description: categoryData.description?.trim() || undefined,
+      points: categoryData.points,
+      archived: false,
+      dateCreated: new Date(),
+    });
+  }
+
+  /**
+   * Saves a category's name, description and points. Waste entries already logged
+   * keep the name and points they were recorded with.
+   * @param category - The category with updated data.
+   * @returns A promise resolving to the saved category.
+   * @throws Error if the name is empty or already used by another active category, or the points are invalid.
+   */
+  async updateCategory(category: WasteCategory): Promise<WasteCategory> {
+    const siblings = (await this.wasteCategoryRepository.getBySpaceId(category.spaceId)).filter(c => c.id !== category.id);
+    const name = category.name.trim();
+    if (!category.archived) {
+      this.validate(name, category.points, siblings);
+    }
+    const updated: WasteCategory = { ...category, name, description: category.description?.trim() || undefined };
+    await this.wasteCategoryRepository.update(updated);
+    return updated;
+  }
+
+  /**
+   * Archives or restores a category. Archived categories can't be picked for new
+   * waste entries, but their existing entries stay in the history.
+   * @param id - The ID of the category.
+   * @param archived - True to archive, false to restore.
+   * @returns A promise resolving to the saved category.
+   * @throws Error if the category does not exist, or restoring would clash with an active category's name.
+   */
+  async setCategoryArchived(id: string, archived: boolean): Promise<WasteCategory> {
+    const category = await this.wasteCategoryRepository.getById(id);
+    if (!category) {
+      throw new Error(`Waste category with ID ${id} not found.`);
+    }
+    return this.updateCategory({ ...category, archived });
+  }
+
+  /**
+   * Copies a space's active categories, with their current points, into another space
+   * (used when duplicating a space).
+   * @param fromSpaceId - The ID of the space to copy from.
+   * @param toSpaceId - The ID of the space to copy into.
+   * @returns A promise resolving to the created categories.
+   */
+  async copyCategories(fromSpaceId: string, toSpaceId: string): Promise<WasteCategory[]> {
+    const source = await this.getCategoriesForSpace(fromSpaceId);
+    return this.addInOrder(toSpaceId, source.filter(c => !c.archived));
+  }
+
+  /**
+   * Deletes all categories for a space (used when deleting a space).
+   * @param spaceId - The ID of the space.
+   * @returns A promise resolving when the deletion is complete.
+   */
+  async deleteCategoriesForSpace(spaceId: string): Promise<void> {
+    await this.wasteCategoryRepository.deleteBySpaceId(spaceId);
+  }
+
+  private async seedDefaults(spaceId: string): Promise<WasteCategory[]> {
+    return this.addInOrder(spaceId, TIMWOODS_CATEGORIES);
+  }
+
+  private async addInOrder(spaceId: string, categories: CategoryTemplate[]): Promise<WasteCategory[]> {
+    const now = Date.now();
+    const added: WasteCategory[] = [];
+    for (const [index, category] of categories.entries()) {
+      added.push(await this.wasteCategoryRepository.add({
+        spaceId,
+        name: category.name,
+        description: category.description,
+        points: category.points,
+        timwoods: category.timwoods,
+        archived: false,
+        dateCreated: new Date(now + index), // Stagger creation times so the list keeps its order
+      }));
+    }
+    return added;
+  }
+
+  private validate(name: string, points: number, siblings: WasteCategory[]): void {
+    if (!name) {
+      throw new Error("Waste category name cannot be empty.");
+    }
+    if (!Number.isFinite(points) || points <= 0) {
+      throw new Error("Waste category points must be a positive number.");
+    }
+    const clash = siblings.find(c => !c.archived && c.name.toLowerCase() === name.toLowerCase());
+    if (clash) {
+      throw new Error(`A waste category named "${clash.name}" already exists in this space.`);
+    }
+  }
+}
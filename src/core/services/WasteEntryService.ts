@@ -4,47 +4,55 @@
  */
 
 import type { IWasteEntryRepository } from '@/core/ports/WasteEntryRepository';
-import type { WasteEntry } from '@/core/domain/WasteEntry';
-
-// Define TIMWOODS categories centrally if needed, or retrieve from config/db
-const TIMWOODS_CATEGORIES = [
-    {id: 'transportation', name: 'Transportation', description: 'Unnecessary movement of materials or products.', points: 1},
-    {id: 'inventory', name: 'Inventory', description: 'Excess raw materials, work in progress, or finished goods.', points: 2},
-    {id: 'motion', name: 'Motion', description: 'Unnecessary movement of people.', points: 3},
-    {id: 'waiting', name: 'Waiting', description: 'Idle time waiting for the next step in a process.', points: 4},
-    {id: 'overprocessing', name: 'Overprocessing', description: 'Performing more work than is necessary.', points: 5},
-    {id: 'overproduction', name: 'Overproduction', description: 'Producing more than is needed.', points: 6},
-    {id: 'defects', name: 'Defects', description: 'Rework or scrap due to errors or defects.', points: 7},
-    {id: 'skills', name: 'Skills', description: 'Underutilizing people\'s talents and skills', points: 8},
-];
-
+import type { IWasteCategoryRepository } from '@/core/ports/WasteCategoryRepository';
+import type { WasteEntry, WasteEntryDetails } from '@/core/domain/WasteEntry';
 
 export class WasteEntryService {
-  constructor(private wasteEntryRepository: IWasteEntryRepository) {}
+  constructor(
+    private wasteEntryRepository: IWasteEntryRepository,
+    private wasteCategoryRepository: IWasteCategoryRepository,
+  ) {}
 
    /**
-   * Adds new waste entries for selected TIMWOODS categories.
+   * Adds new waste entries for the selected categories of a space.
+   * Each entry records the category's current name and points, so later edits don't rewrite history.
    * @param spaceId - The ID of the space.
-   * @param categoryIds - An array of TIMWOODS category IDs (e.g., ['transportation', 'waiting']).
+   * @param categoryIds - IDs of the space's active WasteCategories.
+   * @param details - Optional note, severity, minutes lost, photo and related quest/to-do, applied to every entry.
    * @returns A promise resolving to an array of the created WasteEntries.
+   * @throws Error if minutes lost is negative or not a number.
    */
-   async addWasteEntries(spaceId: string, categoryIds: string[]): Promise<WasteEntry[]> {
+   async addWasteEntries(spaceId: string, categoryIds: string[], details: WasteEntryDetails = {}): Promise<WasteEntry[]> {
     if (!categoryIds || categoryIds.length === 0) {
         return []; // Nothing to add
     }
+    if (details.minutesLost !== undefined && (!Number.isFinite(details.minutesLost) || details.minutesLost < 0)) {
+        throw new Error("Minutes lost must be zero or a positive number.");
+    }
+    const note = details.note?.trim();
 
     const now = new Date();
     const entriesToAdd: Omit<WasteEntry, 'id'>[] = [];
+    const categories = await this.wasteCategoryRepository.getBySpaceId(spaceId);
 
     for (const categoryId of categoryIds) {
-        const category = TIMWOODS_CATEGORIES.find(cat => cat.id === categoryId);
-        if (category) {
+        const category = categories.find(cat => cat.id === categoryId);
+        if (category && !category.archived) {
             entriesToAdd.push({
                 spaceId: spaceId,
                 timestamp: now,
                 type: category.name,
                 points: category.points,
+                categoryId: category.id,
+                note: note || undefined,
+                severity: details.severity,
+                minutesLost: details.minutesLost,
+                imageUrl: details.imageUrl ?? undefined,
+                multiStepActionId: details.multiStepActionId,
+                todoId: details.todoId,
             });
+        } else if (category) {
+            console.warn(`Waste category ${category.name} is archived; skipping.`);
         } else {
             console.warn(`Unknown waste category ID: ${categoryId}`);
         }
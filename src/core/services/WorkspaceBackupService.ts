@@ -0,0 +1,516 @@
+/**
+ * @fileOverview Service layer for exporting and importing the whole workspace as a single
+ * versioned JSON document. Walks every store through the repository factory.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { IRepositoryFactory } from '@/core/ports/RepositoryFactory';
+import type { ISpaceRepository } from '@/core/ports/SpaceRepository';
+import type { IActionRepository } from '@/core/ports/ActionRepository';
+import type { IMultiStepActionRepository } from '@/core/ports/MultiStepActionRepository';
+import type { ILogEntryRepository } from '@/core/ports/LogEntryRepository';
+import type { IWasteEntryRepository } from '@/core/ports/WasteEntryRepository';
+import type { ICommentRepository } from '@/core/ports/CommentRepository';
+import type { ITodoRepository } from '@/core/ports/TodoRepository';
+import type { IAndonRepository } from '@/core/ports/AndonRepository';
+import type { IGoalRepository } from '@/core/ports/GoalRepository';
+import type { ITipDismissalRepository } from '@/core/ports/TipDismissalRepository';
+import type { IWasteCategoryRepository } from '@/core/ports/WasteCategoryRepository';
+import type { IRootCauseAnalysisRepository } from '@/core/ports/RootCauseAnalysisRepository';
+import type { ILevelUpRepository } from '@/core/ports/LevelUpRepository';
+import type { IAchievementRepository } from '@/core/ports/AchievementRepository';
+import type { IInsightRepository } from '@/core/ports/InsightRepository';
+import type { IWorkspaceRepository } from '@/core/ports/WorkspaceRepository';
+import type { Space } from '@/core/domain/Space';
+import type { LevelUpEvent } from '@/core/domain/Progression';
+import type { UnlockedAchievement } from '@/core/domain/Achievement';
+import type { InsightAccrual, InsightPurchase } from '@/core/domain/Insight';
+import { upgradeLegacyActionEntry } from '@/core/analytics/actionLog';
+import { goalBonusEntryId } from '@/core/analytics/goals';
+import { keyLevelUpsByLevel } from '@/core/analytics/progression';
+import { keyUnlocksByAchievement } from '@/core/analytics/achievements';
+import { tagTimwoodsCategory } from '@/core/analytics/waste';
+import {
+  WORKSPACE_BACKUP_FORMAT,
+  WORKSPACE_BACKUP_VERSION,
+  SPACE_BUNDLE_FORMAT,
+  SPACE_BUNDLE_VERSION,
+  type WorkspaceBackup,
+  type SpaceBundle,
+  type WorkspaceBackupData,
+  type ImportOptions,
+  type ImportSummary,
+} from '@/core/domain/WorkspaceBackup';
+import {
+  workspaceBackupSchema,
+  spaceBundleSchema,
+  describeValidationError,
+  STORE_ADDED_IN_VERSION,
+  ACTION_ID_ADDED_IN_VERSION,
+  LEVEL_UPS_KEYED_IN_VERSION,
+  ACHIEVEMENTS_KEYED_IN_VERSION,
+  TIMWOODS_TAGGED_IN_VERSION,
+  type ParsedBackupData,
+} from './backupSchemas';
+import { createSpaceCopyData } from './SpaceService';
+
+// Converts an image reference (e.g., a remote URL) into a data URI. Supplied by the caller
+// because fetching is a browser concern.
+type ImageEmbedder = (src: string) => Promise<string>;
+
+export class WorkspaceBackupService {
+  private spaceRepository: ISpaceRepository;
+  private actionRepository: IActionRepository;
+  private multiStepActionRepository: IMultiStepActionRepository;
+  private logEntryRepository: ILogEntryRepository;
+  private wasteEntryRepository: IWasteEntryRepository;
+  private commentRepository: ICommentRepository;
+  private todoRepository: ITodoRepository;
+  private andonRepository: IAndonRepository;
+  private goalRepository: IGoalRepository;
+  private tipDismissalRepository: ITipDismissalRepository;
+  private wasteCategoryRepository: IWasteCategoryRepository;
+  private rootCauseAnalysisRepository: IRootCauseAnalysisRepository;
+  private levelUpRepository: ILevelUpRepository;
+  private achievementRepository: IAchievementRepository;
+  private insightRepository: IInsightRepository;
+  private workspaceRepository: IWorkspaceRepository;
+
+  constructor(repositoryFactory: IRepositoryFactory) {
+    this.spaceRepository = repositoryFactory.createSpaceRepository();
+    this.actionRepository = repositoryFactory.createActionRepository();
+    this.multiStepActionRepository = repositoryFactory.createMultiStepActionRepository();
+    this.logEntryRepository = repositoryFactory.createLogEntryRepository();
+    this.wasteEntryRepository = repositoryFactory.createWasteEntryRepository();
+    this.commentRepository = repositoryFactory.createCommentRepository();
+    this.todoRepository = repositoryFactory.createTodoRepository();
+    this.andonRepository = repositoryFactory.createAndonRepository();
+    this.goalRepository = repositoryFactory.createGoalRepository();
+    this.tipDismissalRepository = repositoryFactory.createTipDismissalRepository();
+    this.wasteCategoryRepository = repositoryFactory.createWasteCategoryRepository();
+    this.rootCauseAnalysisRepository = repositoryFactory.createRootCauseAnalysisRepository();
+    this.levelUpRepository = repositoryFactory.createLevelUpRepository();
+    this.achievementRepository = repositoryFactory.createAchievementRepository();
+    this.insightRepository = repositoryFactory.createInsightRepository();
+    this.workspaceRepository = repositoryFactory.createWorkspaceRepository();
+  }
+
+  /**
+   * Reads every store and wraps the records in a versioned envelope.
+   * @returns A promise resolving to the complete workspace backup.
+   */
+  async exportWorkspace(): Promise<WorkspaceBackup> {
+    const [spaces, actions, multiStepActions, logEntries, wasteEntries, comments, todos, andons, goals, tipDismissals, wasteCategories, rootCauseAnalyses, levelUps, achievements, insightAccruals, insightPurchases] = await Promise.all([
+      this.spaceRepository.getAll(),
+      this.actionRepository.getAll(),
+      this.multiStepActionRepository.getAll(),
+      this.logEntryRepository.getAll(),
+      this.wasteEntryRepository.getAll(),
+      this.commentRepository.getAll(),
+      this.todoRepository.getAll(),
+      this.andonRepository.getAll(),
+      this.goalRepository.getAll(),
+      this.tipDismissalRepository.getAll(),
+      this.wasteCategoryRepository.getAll(),
+      this.rootCauseAnalysisRepository.getAll(),
+      this.levelUpRepository.getAll(),
+      this.achievementRepository.getAll(),
+      this.insightRepository.getAllAccruals(),
+      this.insightRepository.getAllPurchases(),
+    ]);
+
+    return {
+      format: WORKSPACE_BACKUP_FORMAT,
+      version: WORKSPACE_BACKUP_VERSION,
+      exportedAt: new Date(),
+      data: { spaces, actions, multiStepActions, logEntries, wasteEntries, comments, todos, andons, goals, tipDismissals, wasteCategories, rootCauseAnalyses, levelUps, achievements, insightAccruals, insightPurchases },
+    };
+  }
+
+  /**
+   * Validates raw (already JSON-parsed) input and revives its dates.
+   * @param raw - The parsed JSON content of a backup file.
+   * @returns The validated backup.
+   * @throws Error if the input is not a valid backup or was written by a newer version.
+   */
+  parseBackup(raw: unknown): WorkspaceBackup {
+    const result = workspaceBackupSchema.safeParse(raw);
+    if (!result.success) {
+      throw new Error(describeValidationError(result.error));
+    }
+    if (result.data.version > WORKSPACE_BACKUP_VERSION) {
+      throw new Error(`Backup version ${result.data.version} is newer than this app supports (${WORKSPACE_BACKUP_VERSION}).`);
+    }
+    return { ...result.data, data: this.upgradeLegacyData(result.data.data, result.data.version) } as WorkspaceBackup;
+  }
+
+  /**
+   * Imports a validated backup into the workspace.
+   * In 'replace' mode the whole workspace is swapped for the backup in one atomic write, so a
+   * failed import leaves the existing data untouched.
+   * In 'merge' mode, a space whose ID already exists is skipped, overwritten, or imported
+   * as a copy with freshly minted IDs, depending on `options.onConflict`.
+   * @param backup - A backup returned from parseBackup.
+   * @param options - Import mode and conflict strategy.
+   * @returns A promise resolving to a summary of what was written.
+   */
+  async importWorkspace(backup: WorkspaceBackup, options: ImportOptions): Promise<ImportSummary> {
+    const summary: ImportSummary = { spacesImported: 0, spacesSkipped: 0, spacesDuplicated: 0, recordsImported: 0 };
+
+    if (options.mode === 'replace') {
+      const spaceData = this.selectSpaceData(backup.data, backup.data.spaces.map(s => s.id));
+      await this.workspaceRepository.replaceAll({
+        ...spaceData,
+        levelUps: backup.data.levelUps ?? [],
+        achievements: backup.data.achievements ?? [],
+        insightAccruals: backup.data.insightAccruals ?? [],
+        insightPurchases: backup.data.insightPurchases ?? [],
+      });
+      summary.spacesImported = spaceData.spaces.length;
+      summary.recordsImported = this.countRecords(spaceData);
+      return summary;
+    }
+
+    for (const space of backup.data.spaces) {
+      const spaceData = this.selectSpaceData(backup.data, [space.id]);
+      const existing = await this.spaceRepository.getById(space.id);
+
+      if (existing) {
+        if (options.onConflict === 'skip') {
+          summary.spacesSkipped += 1;
+          continue;
+        }
+        if (options.onConflict === 'duplicate') {
+          const remapped = this.remapIds({ ...spaceData, spaces: [{ ...space, name: `${space.name} (Imported)` }] });
+          summary.recordsImported += await this.writeSpaceData(remapped);
+          summary.spacesDuplicated += 1;
+          continue;
+        }
+        // 'overwrite': drop the existing space's records so stale entries don't linger.
+        await this.deleteSpaceData(space.id);
+      }
+
+      summary.recordsImported += await this.writeSpaceData({ ...spaceData, spaces: [space] });
+      summary.spacesImported += 1;
+    }
+
+    await this.importLevelUps(backup.data.levelUps ?? []);
+    await this.importAchievements(backup.data.achievements ?? []);
+    await this.importInsight(backup.data.insightAccruals ?? [], backup.data.insightPurchases ?? []);
+    return summary;
+  }
+
+  /**
+   * Exports a single space and all of its records as a portable bundle.
+   * Image references that are not already data URIs are passed through `embedImage`
+   * so the bundle can be opened on a device without access to the originals.
+   * @param spaceId - The ID of the space to export.
+   * @param embedImage - Optional converter from an image URL to a data URI.
+   * @returns A promise resolving to the bundle.
+   * @throws Error if the space does not exist.
+   */
+  async exportSpaceBundle(spaceId: string, embedImage?: ImageEmbedder): Promise<SpaceBundle> {
+    const space = await this.spaceRepository.getById(spaceId);
+    if (!space) {
+      throw new Error(`Space with ID ${spaceId} not found.`);
+    }
+
+    const [actions, multiStepActions, logEntries, wasteEntries, comments, todos, andons, goals, tipDismissals, wasteCategories, rootCauseAnalyses] = await Promise.all([
+      this.actionRepository.getBySpaceId(spaceId),
+      this.multiStepActionRepository.getBySpaceId(spaceId),
+      this.logEntryRepository.getBySpaceId(spaceId),
+      this.wasteEntryRepository.getBySpaceId(spaceId),
+      this.commentRepository.getBySpaceId(spaceId),
+      this.todoRepository.getBySpaceId(spaceId),
+      this.andonRepository.getBySpaceId(spaceId),
+      this.goalRepository.getBySpaceId(spaceId),
+      this.tipDismissalRepository.getBySpaceId(spaceId),
+      this.wasteCategoryRepository.getBySpaceId(spaceId),
+      this.rootCauseAnalysisRepository.getBySpaceId(spaceId),
+    ]);
+
+    const embed = async (src: string | null | undefined) => {
+      if (!src || !embedImage || src.startsWith('data:')) return src;
+      try {
+        return await embedImage(src);
+      } catch (error) {
+        console.warn(`Could not embed image ${src}, keeping the original reference.`, error);
+        return src;
+      }
+    };
+
+    return {
+      format: SPACE_BUNDLE_FORMAT,
+      version: SPACE_BUNDLE_VERSION,
+      exportedAt: new Date(),
+      data: {
+        spaces: [{ ...space, beforeImage: await embed(space.beforeImage), afterImage: await embed(space.afterImage) }],
+        actions,
+        multiStepActions,
+        logEntries,
+        wasteEntries: await Promise.all(wasteEntries.map(async w => ({ ...w, imageUrl: await embed(w.imageUrl) }))),
+        comments: await Promise.all(comments.map(async c => ({ ...c, imageUrl: await embed(c.imageUrl) }))),
+        todos: await Promise.all(todos.map(async t => ({
+          ...t,
+          beforeImage: (await embed(t.beforeImage)) ?? null,
+          afterImage: await embed(t.afterImage),
+        }))),
+        andons,
+        goals,
+        tipDismissals,
+        wasteCategories,
+        rootCauseAnalyses,
+      },
+    };
+  }
+
+  /**
+   * Validates raw (already JSON-parsed) input as a space bundle and revives its dates.
+   * @param raw - The parsed JSON content of a bundle file.
+   * @returns The validated bundle.
+   * @throws Error if the input is not a valid bundle or was written by a newer version.
+   */
+  parseSpaceBundle(raw: unknown): SpaceBundle {
+    const result = spaceBundleSchema.safeParse(raw);
+    if (!result.success) {
+      throw new Error(describeValidationError(result.error));
+    }
+    if (result.data.version > SPACE_BUNDLE_VERSION) {
+      throw new Error(`Bundle version ${result.data.version} is newer than this app supports (${SPACE_BUNDLE_VERSION}).`);
+    }
+    return { ...result.data, data: this.upgradeLegacyData(result.data.data, result.data.version) } as SpaceBundle;
+  }
+
+  /**
+   * Imports a bundle as a brand-new space. Every record gets a fresh ID, so the same
+   * bundle can be imported repeatedly without colliding with existing data.
+   * The space itself is set up like SpaceService.duplicateSpace does, but keeps its
+   * clocked time since the logs come along with it.
+   * @param bundle - A bundle returned from parseSpaceBundle.
+   * @returns A promise resolving to the newly created Space.
+   */
+  async importSpaceBundle(bundle: SpaceBundle): Promise<Space> {
+    const original = bundle.data.spaces[0];
+    const remapped = this.remapIds(bundle.data);
+    const newSpace: Space = {
+      ...createSpaceCopyData(original, original.name, original.totalClockedInTime),
+      id: remapped.spaces[0].id,
+    };
+
+    await this.writeSpaceData({ ...remapped, spaces: [newSpace] });
+    return newSpace;
+  }
+
+  /**
+   * Brings records from files written before a shape change up to date, as the matching
+   * IndexedDB upgrade does for stored data: stores the file predates start out empty.
+   * @throws Error if a store the file's version should have is missing.
+   */
+  private upgradeLegacyData(data: ParsedBackupData, version: number): WorkspaceBackupData {
+    for (const [store, addedIn] of Object.entries(STORE_ADDED_IN_VERSION)) {
+      if (version >= addedIn && !data[store as keyof typeof STORE_ADDED_IN_VERSION]) {
+        throw new Error(`Invalid backup file: version ${version} is missing "${store}".`);
+      }
+    }
+    return {
+      ...data,
+      andons: data.andons ?? [],
+      goals: data.goals ?? [],
+      tipDismissals: data.tipDismissals ?? [],
+      wasteCategories: version < TIMWOODS_TAGGED_IN_VERSION
+        ? (data.wasteCategories ?? []).map(tagTimwoodsCategory)
+        : data.wasteCategories,
+      rootCauseAnalyses: data.rootCauseAnalyses ?? [],
+      logEntries: version < ACTION_ID_ADDED_IN_VERSION
+        ? data.logEntries.map(e => upgradeLegacyActionEntry(e, data.actions))
+        : data.logEntries,
+      levelUps: version < LEVEL_UPS_KEYED_IN_VERSION && data.levelUps ? keyLevelUpsByLevel(data.levelUps) : data.levelUps,
+      achievements: version < ACHIEVEMENTS_KEYED_IN_VERSION && data.achievements ? keyUnlocksByAchievement(data.achievements) : data.achievements,
+    } as WorkspaceBackupData;
+  }
+
+  /**
+   * Picks the records belonging to the given spaces out of a backup.
+   * Records whose spaceId matches no space in the backup are ignored on import.
+   */
+  private selectSpaceData(data: WorkspaceBackupData, spaceIds: string[]): WorkspaceBackupData {
+    const inSpaces = (r: { spaceId: string }) => spaceIds.includes(r.spaceId);
+    return {
+      spaces: data.spaces.filter(s => spaceIds.includes(s.id)),
+      actions: data.actions.filter(inSpaces),
+      multiStepActions: data.multiStepActions.filter(inSpaces),
+      logEntries: data.logEntries.filter(inSpaces),
+      wasteEntries: data.wasteEntries.filter(inSpaces),
+      comments: data.comments.filter(inSpaces),
+      todos: data.todos.filter(inSpaces),
+      andons: data.andons.filter(inSpaces),
+      goals: data.goals.filter(inSpaces),
+      tipDismissals: data.tipDismissals.filter(inSpaces),
+      wasteCategories: data.wasteCategories.filter(inSpaces),
+      rootCauseAnalyses: data.rootCauseAnalyses.filter(inSpaces),
+    };
+  }
+
+  /**
+   * Counts the non-space records of a space selection.
+   */
+  private countRecords(data: WorkspaceBackupData): number {
+    return data.actions.length + data.multiStepActions.length + data.logEntries.length
+      + data.wasteEntries.length + data.comments.length + data.todos.length + data.andons.length
+      + data.goals.length + data.tipDismissals.length + data.wasteCategories.length
+      + data.rootCauseAnalyses.length;
+  }
+
+  /**
+   * Assigns new IDs to a single space and all of its records, rewriting
+   * spaceId, actionId, multiStepActionId, todoId, goalId, categoryId and waste entry references to match.
+   */
+  private remapIds(data: WorkspaceBackupData): WorkspaceBackupData {
+    const spaceIdMap = new Map(data.spaces.map(s => [s.id, uuidv4()] as const));
+    const actionIdMap = new Map(data.actions.map(a => [a.id, uuidv4()] as const));
+    const multiStepActionIdMap = new Map(data.multiStepActions.map(a => [a.id, uuidv4()] as const));
+    const wasteEntryIdMap = new Map(data.wasteEntries.map(w => [w.id, uuidv4()] as const));
+    const todoIdMap = new Map(data.todos.map(t => [t.id, uuidv4()] as const));
+    const goalIdMap = new Map(data.goals.map(g => [g.id, uuidv4()] as const));
+    const logEntryIdMap = new Map(data.logEntries.map(e => [
+      e.id,
+      e.type === 'goalBonus' && e.goalId && goalIdMap.has(e.goalId) ? goalBonusEntryId(goalIdMap.get(e.goalId)!) : uuidv4(),
+    ] as const));
+    const wasteCategoryIdMap = new Map(data.wasteCategories.map(c => [c.id, uuidv4()] as const));
+    const newSpaceId = (id: string) => spaceIdMap.get(id) ?? id;
+
+    return {
+      spaces: data.spaces.map(s => ({ ...s, id: newSpaceId(s.id) })),
+      actions: data.actions.map(r => ({ ...r, id: actionIdMap.get(r.id)!, spaceId: newSpaceId(r.spaceId) })),
+      multiStepActions: data.multiStepActions.map(r => ({
+        ...r,
+        id: multiStepActionIdMap.get(r.id)!,
+        spaceId: newSpaceId(r.spaceId),
+        steps: r.steps.map(step => ({ ...step, id: uuidv4() })),
+      })),
+      logEntries: data.logEntries.map(r => ({
+        ...r,
+        id: logEntryIdMap.get(r.id)!,
+        spaceId: newSpaceId(r.spaceId),
+        actionId: r.actionId ? actionIdMap.get(r.actionId) ?? r.actionId : undefined,
+        multiStepActionId: r.multiStepActionId ? multiStepActionIdMap.get(r.multiStepActionId) ?? r.multiStepActionId : undefined,
+        goalId: r.goalId ? goalIdMap.get(r.goalId) ?? r.goalId : undefined,
+        correctedEntryId: r.correctedEntryId ? logEntryIdMap.get(r.correctedEntryId) ?? r.correctedEntryId : undefined,
+      })),
+      wasteEntries: data.wasteEntries.map(r => ({
+        ...r,
+        id: wasteEntryIdMap.get(r.id)!,
+        spaceId: newSpaceId(r.spaceId),
+        categoryId: r.categoryId ? wasteCategoryIdMap.get(r.categoryId) ?? r.categoryId : undefined,
+        multiStepActionId: r.multiStepActionId ? multiStepActionIdMap.get(r.multiStepActionId) ?? r.multiStepActionId : undefined,
+        todoId: r.todoId ? todoIdMap.get(r.todoId) ?? r.todoId : undefined,
+      })),
+      comments: data.comments.map(r => ({ ...r, id: uuidv4(), spaceId: newSpaceId(r.spaceId) })),
+      todos: data.todos.map(r => ({ ...r, id: todoIdMap.get(r.id)!, spaceId: newSpaceId(r.spaceId) })),
+      andons: data.andons.map(r => ({ ...r, id: uuidv4(), spaceId: newSpaceId(r.spaceId) })),
+      goals: data.goals.map(r => ({
+        ...r,
+        id: goalIdMap.get(r.id)!,
+        spaceId: newSpaceId(r.spaceId),
+        actionId: r.actionId ? actionIdMap.get(r.actionId) ?? r.actionId : undefined,
+      })),
+      tipDismissals: data.tipDismissals.map(r => ({ ...r, id: uuidv4(), spaceId: newSpaceId(r.spaceId) })),
+      wasteCategories: data.wasteCategories.map(r => ({ ...r, id: wasteCategoryIdMap.get(r.id)!, spaceId: newSpaceId(r.spaceId) })),
+      rootCauseAnalyses: data.rootCauseAnalyses.map(r => ({
+        ...r,
+        id: uuidv4(),
+        spaceId: newSpaceId(r.spaceId),
+        wasteEntryIds: r.wasteEntryIds.map(id => wasteEntryIdMap.get(id) ?? id),
+        countermeasureTodoId: r.countermeasureTodoId ? todoIdMap.get(r.countermeasureTodoId) ?? r.countermeasureTodoId : undefined,
+      })),
+    };
+  }
+
+  /**
+   * Writes records with their IDs preserved. Repositories' update methods use put,
+   * so they insert when the ID does not yet exist.
+   * @returns The number of non-space records written.
+   */
+  private async writeSpaceData(data: WorkspaceBackupData): Promise<number> {
+    for (const space of data.spaces) {
+      await this.spaceRepository.restore(space);
+    }
+    await Promise.all([
+      ...data.actions.map(r => this.actionRepository.update(r)),
+      ...data.multiStepActions.map(r => this.multiStepActionRepository.update(r)),
+      ...data.logEntries.map(r => this.logEntryRepository.update(r)),
+      ...data.wasteEntries.map(r => this.wasteEntryRepository.update(r)),
+      ...data.comments.map(r => this.commentRepository.update(r)),
+      ...data.todos.map(r => this.todoRepository.update(r)),
+      ...data.andons.map(r => this.andonRepository.update(r)),
+      ...data.goals.map(r => this.goalRepository.update(r)),
+      ...data.tipDismissals.map(r => this.tipDismissalRepository.update(r)),
+      ...data.wasteCategories.map(r => this.wasteCategoryRepository.update(r)),
+      ...data.rootCauseAnalyses.map(r => this.rootCauseAnalysisRepository.update(r)),
+    ]);
+    return this.countRecords(data);
+  }
+
+  /**
+   * Restores level-up history, skipping levels that are already recorded so
+   * merging two workspaces keeps the earliest record of each level.
+   */
+  private async importLevelUps(levelUps: LevelUpEvent[]): Promise<void> {
+    const recordedLevels = new Set((await this.levelUpRepository.getAll()).map(e => e.level));
+    for (const event of levelUps) {
+      if (recordedLevels.has(event.level)) continue;
+      await this.levelUpRepository.put(event);
+      recordedLevels.add(event.level);
+    }
+  }
+
+  /**
+   * Restores unlocked achievements, skipping ones that are already unlocked here.
+   */
+  private async importAchievements(achievements: UnlockedAchievement[]): Promise<void> {
+    const unlockedIds = new Set((await this.achievementRepository.getAll()).map(a => a.achievementId));
+    for (const achievement of achievements) {
+      if (unlockedIds.has(achievement.achievementId)) continue;
+      await this.achievementRepository.put(achievement);
+      unlockedIds.add(achievement.achievementId);
+    }
+  }
+
+  /**
+   * Restores Insight accruals and purchases. Records whose ID already exists are kept as they are,
+   * so importing the same backup twice does not credit the same session twice.
+   */
+  private async importInsight(accruals: InsightAccrual[], purchases: InsightPurchase[]): Promise<void> {
+    const [existingAccruals, existingPurchases] = await Promise.all([
+      this.insightRepository.getAllAccruals(),
+      this.insightRepository.getAllPurchases(),
+    ]);
+    const accrualIds = new Set(existingAccruals.map(a => a.id));
+    const purchaseIds = new Set(existingPurchases.map(p => p.id));
+    for (const accrual of accruals) {
+      if (!accrualIds.has(accrual.id)) await this.insightRepository.putAccrual(accrual);
+    }
+    for (const purchase of purchases) {
+      if (!purchaseIds.has(purchase.id)) await this.insightRepository.putPurchase(purchase);
+    }
+  }
+
+  /**
+   * Deletes every record belonging to a space, leaving the space itself in place.
+   */
+  private async deleteSpaceData(spaceId: string): Promise<void> {
+    await Promise.all([
+      this.actionRepository.deleteBySpaceId(spaceId),
+      this.multiStepActionRepository.deleteBySpaceId(spaceId),
+      this.logEntryRepository.deleteBySpaceId(spaceId),
+      this.wasteEntryRepository.deleteBySpaceId(spaceId),
+      this.commentRepository.deleteBySpaceId(spaceId),
+      this.todoRepository.deleteBySpaceId(spaceId),
+      this.andonRepository.deleteBySpaceId(spaceId),
+      this.goalRepository.deleteBySpaceId(spaceId),
+      this.tipDismissalRepository.deleteBySpaceId(spaceId),
+      this.wasteCategoryRepository.deleteBySpaceId(spaceId),
+      this.rootCauseAnalysisRepository.deleteBySpaceId(spaceId),
+    ]);
+  }
+}
@@ -0,0 +1,300 @@
+/**
+ * @fileOverview Zod schemas for validating exported workspace data on import.
+ * Dates arrive as ISO strings in JSON and are revived into Date objects by coercion.
+ */
+
+import { z } from 'zod';
+import { WORKSPACE_BACKUP_FORMAT, SPACE_BUNDLE_FORMAT } from '@/core/domain/WorkspaceBackup';
+
+export const spaceSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  goal: z.string().optional(),
+  beforeImage: z.string().nullable().optional(),
+  afterImage: z.string().nullable().optional(),
+  dateCreated: z.coerce.date(),
+  dateModified: z.coerce.date(),
+  totalClockedInTime: z.number().nonnegative(),
+  isClockedIn: z.boolean().optional(),
+  clockInStartTime: z.coerce.date().nullable().optional(),
+  status: z.enum(['active', 'paused', 'completed', 'archived']).optional(),
+  statusChangedAt: z.coerce.date().nullable().optional(),
+});
+
+export const actionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  spaceId: z.string().min(1),
+  description: z.string().optional(),
+  points: z.number(),
+  sortOrder: z.number().optional(),
+  archived: z.boolean().optional(),
+});
+
+export const actionStepSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  completed: z.boolean(),
+});
+
+export const questRunSchema = z.object({
+  startedAt: z.coerce.date(),
+  finishedAt: z.coerce.date(),
+  cycleTimeMinutes: z.number().nonnegative(),
+});
+
+export const multiStepActionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  spaceId: z.string().min(1),
+  description: z.string().optional(),
+  pointsPerStep: z.number(),
+  steps: z.array(actionStepSchema),
+  currentStepIndex: z.number().int().nonnegative(),
+  sortOrder: z.number().optional(),
+  archived: z.boolean().optional(),
+  completionBonus: z.number().nonnegative().optional(),
+  repeatable: z.boolean().optional(),
+  runStartedAt: z.coerce.date().optional(),
+  runs: z.array(questRunSchema).optional(),
+});
+
+export const logEntrySchema = z.object({
+  id: z.string().min(1),
+  spaceId: z.string().min(1),
+  timestamp: z.coerce.date(),
+  actionName: z.string(),
+  points: z.number(),
+  type: z.enum(['action', 'multiStepAction', 'clockIn', 'clockOut', 'goalBonus', 'questBonus', 'correction']),
+  actionId: z.string().optional(),
+  quantity: z.number().int().positive().optional(),
+  comment: z.string().optional(),
+  multiStepActionId: z.string().optional(),
+  stepIndex: z.number().int().optional(),
+  clockInTime: z.coerce.date().optional(),
+  clockOutTime: z.coerce.date().optional(),
+  minutesClockedIn: z.number().optional(),
+  goalId: z.string().optional(),
+  correctedEntryId: z.string().optional(),
+  voidedAt: z.coerce.date().optional(),
+  voidReason: z.string().optional(),
+});
+
+export const wasteEntrySchema = z.object({
+  id: z.string().min(1),
+  spaceId: z.string().min(1),
+  timestamp: z.coerce.date(),
+  type: z.string(),
+  points: z.number(),
+  categoryId: z.string().optional(),
+  note: z.string().optional(),
+  severity: z.enum(['low', 'medium', 'high']).optional(),
+  minutesLost: z.number().nonnegative().optional(),
+  imageUrl: z.string().nullable().optional(),
+  multiStepActionId: z.string().optional(),
+  todoId: z.string().optional(),
+});
+
+export const commentSchema = z.object({
+  id: z.string().min(1),
+  spaceId: z.string().min(1),
+  text: z.string(),
+  imageUrl: z.string().nullable().optional(),
+  timestamp: z.coerce.date(),
+});
+
+export const todoItemSchema = z.object({
+  id: z.string().min(1),
+  spaceId: z.string().min(1),
+  description: z.string(),
+  completed: z.boolean(),
+  beforeImage: z.string().nullable(),
+  afterImage: z.string().nullable().optional(),
+  dateCreated: z.coerce.date(),
+});
+
+export const andonSchema = z.object({
+  id: z.string().min(1),
+  spaceId: z.string().min(1),
+  comment: z.string(),
+  status: z.enum(['open', 'acknowledged', 'resolved']),
+  raisedAt: z.coerce.date(),
+  acknowledgedAt: z.coerce.date().nullable().optional(),
+  resolvedAt: z.coerce.date().nullable().optional(),
+  resolutionNote: z.string().optional(),
+});
+
+export const goalSchema = z.object({
+  id: z.string().min(1),
+  spaceId: z.string().min(1),
+  metric: z.enum(['actionCount', 'totalPoints', 'clockedMinutes', 'maxWastePoints']),
+  targetValue: z.number().nonnegative(),
+  actionId: z.string().optional(),
+  actionName: z.string().optional(),
+  deadline: z.coerce.date().nullable().optional(),
+  bonusPoints: z.number().nonnegative(),
+  dateCreated: z.coerce.date(),
+  achievedAt: z.coerce.date().nullable().optional(),
+});
+
+export const tipDismissalSchema = z.object({
+  id: z.string().min(1),
+  spaceId: z.string().min(1),
+  tipId: z.enum(['wasteRising', 'waitingDominates', 'idleSession', 'stalledQuest']),
+  dismissedAt: z.coerce.date(),
+  snoozedUntil: z.coerce.date().nullable(),
+});
+
+export const wasteCategorySchema = z.object({
+  id: z.string().min(1),
+  spaceId: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  points: z.number(),
+  archived: z.boolean(),
+  timwoods: z.enum(['transportation', 'inventory', 'motion', 'waiting', 'overprocessing', 'overproduction', 'defects', 'skills']).optional(),
+  dateCreated: z.coerce.date(),
+});
+
+const fishboneCauseSchema = z.object({
+  category: z.enum(['method', 'machine', 'material', 'manpower', 'measurement', 'environment']),
+  description: z.string(),
+});
+
+export const rootCauseAnalysisSchema = z.object({
+  id: z.string().min(1),
+  spaceId: z.string().min(1),
+  wasteEntryIds: z.array(z.string()),
+  problem: z.string(),
+  whys: z.array(z.string()),
+  causes: z.array(fishboneCauseSchema),
+  countermeasure: z.string().optional(),
+  countermeasureTodoId: z.string().optional(),
+  dateCreated: z.coerce.date(),
+});
+
+export const levelUpEventSchema = z.object({
+  id: z.string().min(1),
+  level: z.number().int().min(2),
+  reachedAt: z.coerce.date(),
+  totalXp: z.number(),
+});
+
+export const unlockedAchievementSchema = z.object({
+  id: z.string().min(1),
+  achievementId: z.enum([
+    'firstAction', 'actions100', 'actions1000', 'firstQuest', 'quests10', 'firstGoal', 'clockInStreak3',
+    'clockInStreak7', 'clockedHours10', 'waste10', 'waste50', 'wasteAnalyzed5', 'firstTodoDone', 'todos25',
+  ]),
+  unlockedAt: z.coerce.date(),
+});
+
+export const insightAccrualSchema = z.object({
+  id: z.string().min(1),
+  spaceId: z.string().min(1),
+  sessionStart: z.coerce.date(),
+  minutesCredited: z.number().nonnegative(),
+  insightEarned: z.number().nonnegative(),
+  lastAccruedAt: z.coerce.date(),
+});
+
+export const insightPurchaseSchema = z.object({
+  id: z.string().min(1),
+  itemId: z.string().min(1),
+  cost: z.number().nonnegative(),
+  purchasedAt: z.coerce.date(),
+});
+
+/**
+ * Data shape history. Each change bumps WORKSPACE_BACKUP_VERSION (and with it SPACE_BUNDLE_VERSION),
+ * so an older build rejects a newer file instead of silently dropping what it doesn't know.
+ *  1. Spaces, actions, multi-step actions, log entries, waste entries, comments and to-dos.
+ *  2. Andons.
+ *  3. Space status.
+ *  4. Goals and goal bonus log entries.
+ *  5. Level-ups (workspace backups only).
+ *  6. Achievements (workspace backups only).
+ *  7. Insight accruals and purchases (workspace backups only).
+ *  8. Tip dismissals.
+ *  9. Waste categories.
+ * 10. Waste entry details: note, severity, minutes lost, photo and related quest or to-do.
+ * 11. Root-cause analyses.
+ * 12. Simple action log entries carry actionId and quantity instead of an "(xN)" name suffix.
+ * 13. Action order and archiving.
+ * 14. Log corrections.
+ * 15. Quest completion bonuses, repeats and runs.
+ * 16. Level-ups keyed by level.
+ * 17. Unlocked achievements keyed by achievement.
+ * 18. Seeded waste categories tagged with their TIMWOODS waste.
+ * Stores added after version 1 are optional here: WorkspaceBackupService fills them in for files
+ * older than the version listed in STORE_ADDED_IN_VERSION and rejects newer files that lack them.
+ */
+export const STORE_ADDED_IN_VERSION = {
+  andons: 2,
+  goals: 4,
+  tipDismissals: 8,
+  wasteCategories: 9,
+  rootCauseAnalyses: 11,
+} as const;
+
+// Log entries from files before this version encode a simple action's quantity in its name.
+export const ACTION_ID_ADDED_IN_VERSION = 12;
+
+// Level-ups from files before this version have random IDs and may repeat a level.
+export const LEVEL_UPS_KEYED_IN_VERSION = 16;
+
+// Achievements from files before this version have random IDs and may repeat an unlock.
+export const ACHIEVEMENTS_KEYED_IN_VERSION = 17;
+
+// Seeded waste categories from files before this version are only recognizable by name.
+export const TIMWOODS_TAGGED_IN_VERSION = 18;
+
+const backupDataSchema = z.object({
+  spaces: z.array(spaceSchema),
+  actions: z.array(actionSchema).default([]),
+  multiStepActions: z.array(multiStepActionSchema).default([]),
+  logEntries: z.array(logEntrySchema).default([]),
+  wasteEntries: z.array(wasteEntrySchema).default([]),
+  comments: z.array(commentSchema).default([]),
+  todos: z.array(todoItemSchema).default([]),
+  andons: z.array(andonSchema).optional(),
+  goals: z.array(goalSchema).optional(),
+  tipDismissals: z.array(tipDismissalSchema).optional(),
+  wasteCategories: z.array(wasteCategorySchema).optional(),
+  rootCauseAnalyses: z.array(rootCauseAnalysisSchema).optional(),
+  levelUps: z.array(levelUpEventSchema).optional(),
+  achievements: z.array(unlockedAchievementSchema).optional(),
+  insightAccruals: z.array(insightAccrualSchema).optional(),
+  insightPurchases: z.array(insightPurchaseSchema).optional(),
+});
+
+export type ParsedBackupData = z.infer<typeof backupDataSchema>;
+
+export const workspaceBackupSchema = z.object({
+  format: z.literal(WORKSPACE_BACKUP_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.coerce.date(),
+  data: backupDataSchema,
+});
+
+export const spaceBundleSchema = z.object({
+  format: z.literal(SPACE_BUNDLE_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.coerce.date(),
+  data: backupDataSchema.extend({
+    spaces: z.array(spaceSchema).length(1, 'A space bundle must contain exactly one space.'),
+  }),
+});
+
+/**
+ * Formats the first validation issue into a readable message, including the path to the bad field.
+ * @param error - The ZodError returned from a failed parse.
+ * @returns A short, user-facing description of the problem.
+ */
+export const describeValidationError = (error: z.ZodError): string => {
+  const issue = error.issues[0];
+  if (!issue) return 'Unknown validation error.';
+  const path = issue.path.length > 0 ? issue.path.join('.') : 'root';
+  return `Invalid backup file at "${path}": ${issue.message}`;
+};
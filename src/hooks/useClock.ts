@@ -8,7 +8,7 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { toast } from '@/hooks/use-toast';
 import type { LogEntry } from '@/core/domain/LogEntry'; // Assuming LogEntry type path
 import type { Space } from '@/core/domain/Space'; // Import Space type
-import { SpaceService } from '@/core/services/SpaceService'; // Import SpaceService
+import { SpaceService, getSpaceStatus } from '@/core/services/SpaceService'; // Import SpaceService
 import { repositoryFactory } from '@/infrastructure/persistence/IndexedDBRepositoryFactory'; // Import factory
 
 // Define types for the functions passed from context
@@ -111,6 +111,10 @@ export const useClock = ({
 
     const handleClockIn = useCallback(async () => {
         if (!currentSpace?.id || isClockedIn || isClockLoading) return;
+        if (getSpaceStatus(currentSpace) !== 'active') {
+            toast({ title: 'Space Not Active', description: 'Set the space to Active to clock in.', variant: 'destructive' });
+            return;
+        }
         setIsClockLoading(true);
         try {
             const now = new Date();
@@ -0,0 +1,110 @@
+/**
+ * @fileOverview Custom hook for a tap-or-hold gesture: a quick tap commits one, pressing and holding
+ * ramps a counter (faster the longer it is held) that commits on release. Commits that follow the
+ * previous one too closely are dropped so an accidental double tap doesn't count twice.
+ */
+'use client';
+
+import { useCallback, useEffect, useRef, useState, type PointerEvent } from 'react';
+
+// Press longer than this and the gesture becomes a hold.
+export const HOLD_DELAY_MS = 400;
+// Commits closer together than this are treated as an accidental double tap.
+export const COMMIT_DEBOUNCE_MS = 600;
+export const MAX_HOLD_COUNT = 99;
+
+const FIRST_STEP_MS = 300;
+const MIN_STEP_MS = 60;
+const STEP_ACCELERATION = 0.85; // Each step comes this much sooner than the last
+
+interface UseHoldToCountProps {
+    disabled?: boolean;
+    onCommit: (count: number) => void;
+}
+
+interface UseHoldToCountReturn {
+    count: number; // The running count while holding, 0 otherwise
+    isHolding: boolean;
+    commit: (count: number) => boolean; // Commits through the debounce; false if it was dropped
+    pointerHandlers: {
+        onPointerDown: (event: PointerEvent<HTMLElement>) => void;
+        onPointerUp: () => void;
+        onPointerCancel: () => void;
+        onLostPointerCapture: () => void;
+    };
+}
+
+const vibrate = (ms: number) => {
+    if (typeof navigator !== 'undefined' && 'vibrate' in navigator) navigator.vibrate(ms);
+};
+
+export const useHoldToCount = ({ disabled = false, onCommit }: UseHoldToCountProps): UseHoldToCountReturn => {
+    const [count, setCount] = useState(0);
+    const [isHolding, setIsHolding] = useState(false);
+    const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const pressedRef = useRef(false);
+    const countRef = useRef(0);
+    const lastCommitRef = useRef(0);
+
+    const clearTimer = () => {
+        if (timerRef.current) clearTimeout(timerRef.current);
+        timerRef.current = null;
+    };
+
+    const reset = useCallback(() => {
+        clearTimer();
+        pressedRef.current = false;
+        countRef.current = 0;
+        setCount(0);
+        setIsHolding(false);
+    }, []);
+
+    useEffect(() => reset, [reset]); // Stop the ramp on unmount
+
+    const commit = useCallback((value: number) => {
+        const now = Date.now();
+        if (value < 1 || now - lastCommitRef.current < COMMIT_DEBOUNCE_MS) return false;
+        lastCommitRef.current = now;
+        onCommit(value);
+        return true;
+    }, [onCommit]);
+
+    const step = useCallback((delay: number) => {
+        timerRef.current = setTimeout(() => {
+            if (countRef.current >= MAX_HOLD_COUNT) return;
+            countRef.current += 1;
+            setCount(countRef.current);
+            vibrate(10);
+            step(Math.max(MIN_STEP_MS, delay * STEP_ACCELERATION));
+        }, delay);
+    }, []);
+
+    const onPointerDown = (event: PointerEvent<HTMLElement>) => {
+        if (disabled || event.button !== 0) return;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        pressedRef.current = true;
+        timerRef.current = setTimeout(() => {
+            // The hold starts at one; each step adds one more
+            countRef.current = 1;
+            setCount(1);
+            setIsHolding(true);
+            vibrate(20);
+            step(FIRST_STEP_MS);
+        }, HOLD_DELAY_MS);
+    };
+
+    const onPointerUp = () => {
+        if (!pressedRef.current) return;
+        const value = countRef.current > 0 ? countRef.current : 1; // Released before the hold began: a tap
+        reset();
+        commit(value);
+    };
+
+    return {
+        count,
+        isHolding,
+        commit,
+        // Cancelling (e.g. the browser takes over for scrolling) drops the gesture without logging
+        pointerHandlers: { onPointerDown, onPointerUp, onPointerCancel: reset, onLostPointerCapture: () => { if (pressedRef.current) reset(); } },
+    };
+};
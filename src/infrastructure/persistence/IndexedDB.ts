@@ -2,8 +2,18 @@
  * @fileOverview Manages the IndexedDB database connection and schema.
  */
 
+import type { Action } from '@/core/domain/Action';
+import type { LogEntry } from '@/core/domain/LogEntry';
+import type { LevelUpEvent } from '@/core/domain/Progression';
+import type { UnlockedAchievement } from '@/core/domain/Achievement';
+import type { WasteCategory } from '@/core/domain/WasteCategory';
+import { upgradeLegacyActionEntry } from '@/core/analytics/actionLog';
+import { keyLevelUpsByLevel } from '@/core/analytics/progression';
+import { keyUnlocksByAchievement } from '@/core/analytics/achievements';
+import { tagTimwoodsCategory } from '@/core/analytics/waste';
+
 export const DB_NAME = 'okapiDB'; // Renamed database
-export const DB_VERSION = 5; // Keep version if schema hasn't changed significantly beyond renaming
+export const DB_VERSION = 19; // Bump whenever a store, index or stored record shape changes
 
 // Define object store names
 export const STORES = {
@@ -14,6 +24,15 @@ export const STORES = {
   WASTE_ENTRIES: 'wasteEntries',
   COMMENTS: 'comments',
   TODOS: 'todos', // Added todos store
+  ANDONS: 'andons',
+  GOALS: 'goals',
+  LEVEL_UPS: 'levelUps',
+  ACHIEVEMENTS: 'achievements',
+  INSIGHT_ACCRUALS: 'insightAccruals',
+  INSIGHT_PURCHASES: 'insightPurchases',
+  TIP_DISMISSALS: 'tipDismissals',
+  WASTE_CATEGORIES: 'wasteCategories',
+  ROOT_CAUSE_ANALYSES: 'rootCauseAnalyses',
 };
 
 let dbInstance: IDBDatabase | null = null;
@@ -98,9 +117,22 @@ export const openDB = (): Promise<IDBDatabase> => {
       createStoreAndIndex(STORES.ACTIONS, 'id', 'spaceIdIndex', 'spaceId');
       createStoreAndIndex(STORES.MULTI_STEP_ACTIONS, 'id', 'spaceIdIndex', 'spaceId');
       createStoreAndIndex(STORES.LOG_ENTRIES, 'id', 'spaceIdIndex', 'spaceId');
+      createStoreAndIndex(STORES.LOG_ENTRIES, 'id', 'spaceIdTimestampIndex', ['spaceId', 'timestamp', 'id']);
+      createStoreAndIndex(STORES.LOG_ENTRIES, 'id', 'spaceIdTypeIndex', ['spaceId', 'type']);
       createStoreAndIndex(STORES.WASTE_ENTRIES, 'id', 'spaceIdIndex', 'spaceId');
       createStoreAndIndex(STORES.COMMENTS, 'id', 'spaceIdIndex', 'spaceId');
       createStoreAndIndex(STORES.TODOS, 'id', 'spaceIdIndex', 'spaceId'); // Create todos store with index
+      createStoreAndIndex(STORES.ANDONS, 'id', 'spaceIdIndex', 'spaceId');
+      createStoreAndIndex(STORES.GOALS, 'id', 'spaceIdIndex', 'spaceId');
+      createStoreAndIndex(STORES.TIP_DISMISSALS, 'id', 'spaceIdIndex', 'spaceId');
+      createStoreAndIndex(STORES.WASTE_CATEGORIES, 'id', 'spaceIdIndex', 'spaceId');
+      createStoreAndIndex(STORES.ROOT_CAUSE_ANALYSES, 'id', 'spaceIdIndex', 'spaceId');
+
+      // Workspace-level stores (not tied to a space)
+      createStoreAndIndex(STORES.LEVEL_UPS, 'id');
+      createStoreAndIndex(STORES.ACHIEVEMENTS, 'id');
+      createStoreAndIndex(STORES.INSIGHT_ACCRUALS, 'id');
+      createStoreAndIndex(STORES.INSIGHT_PURCHASES, 'id');
 
 
       // --- Potential Migrations Based on Old Version ---
@@ -108,6 +140,95 @@ export const openDB = (): Promise<IDBDatabase> => {
           // This block ensures the todos store is created if upgrading from a version before 5
           createStoreAndIndex(STORES.TODOS, 'id', 'spaceIdIndex', 'spaceId');
        }
+       if (oldVersion < 6) {
+          // Version 6 adds the andons store
+          createStoreAndIndex(STORES.ANDONS, 'id', 'spaceIdIndex', 'spaceId');
+       }
+       if (oldVersion < 7) {
+          // Version 7 adds the goals store
+          createStoreAndIndex(STORES.GOALS, 'id', 'spaceIdIndex', 'spaceId');
+       }
+       if (oldVersion < 8) {
+          // Version 8 adds the level-up history store
+          createStoreAndIndex(STORES.LEVEL_UPS, 'id');
+       }
+       if (oldVersion < 9) {
+          // Version 9 adds the achievements store
+          createStoreAndIndex(STORES.ACHIEVEMENTS, 'id');
+       }
+       if (oldVersion < 10) {
+          // Version 10 adds the Insight accrual and purchase stores
+          createStoreAndIndex(STORES.INSIGHT_ACCRUALS, 'id');
+          createStoreAndIndex(STORES.INSIGHT_PURCHASES, 'id');
+       }
+       if (oldVersion < 11) {
+          // Version 11 adds the mascot tip dismissals store
+          createStoreAndIndex(STORES.TIP_DISMISSALS, 'id', 'spaceIdIndex', 'spaceId');
+       }
+       if (oldVersion < 12) {
+          // Version 12 adds per-space waste categories (seeded with TIMWOODS on first use)
+          createStoreAndIndex(STORES.WASTE_CATEGORIES, 'id', 'spaceIdIndex', 'spaceId');
+       }
+       if (oldVersion < 13) {
+          // Version 13 adds root-cause analyses of waste entries
+          createStoreAndIndex(STORES.ROOT_CAUSE_ANALYSES, 'id', 'spaceIdIndex', 'spaceId');
+       }
+       if (oldVersion < 14) {
+          // Version 14 indexes log entries by time within a space for paged log history
+          createStoreAndIndex(STORES.LOG_ENTRIES, 'id', 'spaceIdTimestampIndex', ['spaceId', 'timestamp', 'id']);
+       }
+       if (oldVersion > 0 && oldVersion < 15) {
+          // Version 15 moves a simple action's "(xN)" multiplier out of its log name into actionId and quantity
+          const actionsRequest = transaction.objectStore(STORES.ACTIONS).getAll();
+          actionsRequest.onsuccess = () => {
+              const actions = actionsRequest.result as Action[];
+              const cursorRequest = transaction.objectStore(STORES.LOG_ENTRIES).openCursor();
+              cursorRequest.onsuccess = () => {
+                  const cursor = cursorRequest.result;
+                  if (!cursor) return;
+                  const entry = cursor.value as LogEntry;
+                  const upgraded = upgradeLegacyActionEntry(entry, actions);
+                  if (upgraded !== entry) cursor.update(upgraded);
+                  cursor.continue();
+              };
+          };
+       }
+       if (oldVersion > 0 && oldVersion < 16) {
+          // Version 16 keys level-ups by level, keeping the earliest record of each
+          const levelUpStore = transaction.objectStore(STORES.LEVEL_UPS);
+          const levelUpsRequest = levelUpStore.getAll();
+          levelUpsRequest.onsuccess = () => {
+              const keyed = keyLevelUpsByLevel(levelUpsRequest.result as LevelUpEvent[]);
+              levelUpStore.clear();
+              keyed.forEach(event => levelUpStore.put(event));
+          };
+       }
+       if (oldVersion > 0 && oldVersion < 17) {
+          // Version 17 keys unlocked achievements by achievementId, keeping the earliest unlock of each
+          const achievementStore = transaction.objectStore(STORES.ACHIEVEMENTS);
+          const achievementsRequest = achievementStore.getAll();
+          achievementsRequest.onsuccess = () => {
+              const keyed = keyUnlocksByAchievement(achievementsRequest.result as UnlockedAchievement[]);
+              achievementStore.clear();
+              keyed.forEach(unlock => achievementStore.put(unlock));
+          };
+       }
+       if (oldVersion > 0 && oldVersion < 18) {
+          // Version 18 tags seeded waste categories with their TIMWOODS waste, so renaming one keeps its meaning
+          const categoryCursorRequest = transaction.objectStore(STORES.WASTE_CATEGORIES).openCursor();
+          categoryCursorRequest.onsuccess = () => {
+              const cursor = categoryCursorRequest.result;
+              if (!cursor) return;
+              const category = cursor.value as WasteCategory;
+              const tagged = tagTimwoodsCategory(category);
+              if (tagged !== category) cursor.update(tagged);
+              cursor.continue();
+          };
+       }
+       if (oldVersion < 19) {
+          // Version 19 indexes log entries by type within a space, so clock events are read on their own
+          createStoreAndIndex(STORES.LOG_ENTRIES, 'id', 'spaceIdTypeIndex', ['spaceId', 'type']);
+       }
 
 
       console.log("IndexedDB upgrade complete.");
@@ -0,0 +1,38 @@
+/**
+ * @fileOverview IndexedDB implementation of the Achievement repository port.
+ */
+
+import type { IAchievementRepository } from '@/core/ports/AchievementRepository';
+import type { UnlockedAchievement } from '@/core/domain/Achievement';
+import { openDB, STORES } from './IndexedDB';
+import { getAll, updateItem, deleteItem } from './IndexedDBUtils';
+
+// Ensure dates are Date objects after retrieval
+const reviveDates = (achievement: UnlockedAchievement): UnlockedAchievement => ({
+    ...achievement,
+    unlockedAt: new Date(achievement.unlockedAt),
+});
+
+// Unlocks are keyed by achievementId, so writes go through put (updateItem).
+export class IndexedDBAchievementRepository implements IAchievementRepository {
+  async getAll(): Promise<UnlockedAchievement[]> {
+    const db = await openDB();
+    const achievements = await getAll<UnlockedAchievement>(db, STORES.ACHIEVEMENTS);
+    return achievements
+        .map(reviveDates)
+        .sort((a, b) => a.unlockedAt.getTime() - b.unlockedAt.getTime());
+  }
+
+  async put(achievement: UnlockedAchievement): Promise<void> {
+    const db = await openDB();
+    await updateItem<UnlockedAchievement>(db, STORES.ACHIEVEMENTS, achievement);
+  }
+
+  async deleteAll(): Promise<void> {
+    const db = await openDB();
+    const achievements = await getAll<UnlockedAchievement>(db, STORES.ACHIEVEMENTS);
+    for (const achievement of achievements) {
+      await deleteItem(db, STORES.ACHIEVEMENTS, achievement.id);
+    }
+  }
+}
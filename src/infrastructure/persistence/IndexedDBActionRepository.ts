@@ -6,7 +6,7 @@ import { v4 as uuidv4 } from 'uuid';
 import type { IActionRepository } from '@/core/ports/ActionRepository';
 import type { Action } from '@/core/domain/Action';
 import { openDB, STORES } from './IndexedDB';
-import { addItem, getById, getByIndex, updateItem, deleteItem, deleteByIndex } from './IndexedDBUtils';
+import { addItem, getById, getAll, getByIndex, updateItem, deleteItem, deleteByIndex } from './IndexedDBUtils';
 
 
 export class IndexedDBActionRepository implements IActionRepository {
@@ -20,6 +20,11 @@ export class IndexedDBActionRepository implements IActionRepository {
     return getByIndex<Action>(db, STORES.ACTIONS, 'spaceIdIndex', spaceId);
   }
 
+  async getAll(): Promise<Action[]> {
+    const db = await openDB();
+    return getAll<Action>(db, STORES.ACTIONS);
+  }
+
   async add(actionData: Omit<Action, 'id'>): Promise<Action> {
     const db = await openDB();
     const newAction: Action = { ...actionData, id: uuidv4() };
@@ -0,0 +1,66 @@
+/**
+ * @fileOverview IndexedDB implementation of the Andon repository port.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { IAndonRepository } from '@/core/ports/AndonRepository';
+import type { Andon } from '@/core/domain/Andon';
+import { openDB, STORES } from './IndexedDB';
+import { addItem, getById, getAll, getByIndex, updateItem, deleteItem, deleteByIndex } from './IndexedDBUtils';
+
+// Ensure dates are Date objects after retrieval
+const reviveDates = (andon: Andon): Andon => ({
+    ...andon,
+    raisedAt: new Date(andon.raisedAt),
+    acknowledgedAt: andon.acknowledgedAt ? new Date(andon.acknowledgedAt) : null,
+    resolvedAt: andon.resolvedAt ? new Date(andon.resolvedAt) : null,
+});
+
+export class IndexedDBAndonRepository implements IAndonRepository {
+  async getById(id: string): Promise<Andon | undefined> {
+    const db = await openDB();
+    const andon = await getById<Andon>(db, STORES.ANDONS, id);
+    return andon ? reviveDates(andon) : undefined;
+  }
+
+  async getBySpaceId(spaceId: string): Promise<Andon[]> {
+    const db = await openDB();
+    const andons = await getByIndex<Andon>(db, STORES.ANDONS, 'spaceIdIndex', spaceId);
+    // Ensure dates are Date objects and sort
+    return andons
+        .map(reviveDates)
+        .sort((a, b) => b.raisedAt.getTime() - a.raisedAt.getTime());
+  }
+
+  async getAll(): Promise<Andon[]> {
+    const db = await openDB();
+    const andons = await getAll<Andon>(db, STORES.ANDONS);
+    return andons.map(reviveDates);
+  }
+
+  async add(andonData: Omit<Andon, 'id'>): Promise<Andon> {
+    const db = await openDB();
+    const newAndon: Andon = {
+        ...andonData,
+        id: uuidv4(),
+        raisedAt: andonData.raisedAt || new Date(), // Ensure timestamp exists
+    };
+    await addItem<Andon>(db, STORES.ANDONS, newAndon);
+    return newAndon;
+  }
+
+  async update(andon: Andon): Promise<void> {
+    const db = await openDB();
+    await updateItem<Andon>(db, STORES.ANDONS, andon);
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await openDB();
+    await deleteItem(db, STORES.ANDONS, id);
+  }
+
+  async deleteBySpaceId(spaceId: string): Promise<void> {
+    const db = await openDB();
+    await deleteByIndex(db, STORES.ANDONS, 'spaceIdIndex', spaceId);
+  }
+}
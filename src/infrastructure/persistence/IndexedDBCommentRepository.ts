@@ -6,7 +6,7 @@ import { v4 as uuidv4 } from 'uuid';
 import type { ICommentRepository } from '@/core/ports/CommentRepository';
 import type { Comment } from '@/core/domain/Comment';
 import { openDB, STORES } from './IndexedDB';
-import { addItem, getById, getByIndex, updateItem, deleteItem, deleteByIndex } from './IndexedDBUtils';
+import { addItem, getById, getAll, getByIndex, updateItem, deleteItem, deleteByIndex } from './IndexedDBUtils';
 
 export class IndexedDBCommentRepository implements ICommentRepository {
   async getById(id: string): Promise<Comment | undefined> {
@@ -23,6 +23,13 @@ export class IndexedDBCommentRepository implements ICommentRepository {
         .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
   }
 
+  async getAll(): Promise<Comment[]> {
+    const db = await openDB();
+    const comments = await getAll<Comment>(db, STORES.COMMENTS);
+    // Ensure dates are Date objects
+    return comments.map(c => ({ ...c, timestamp: new Date(c.timestamp) }));
+  }
+
   async add(commentData: Omit<Comment, 'id'>): Promise<Comment> {
     const db = await openDB();
     const newComment: Comment = {
@@ -0,0 +1,66 @@
+/**
+ * @fileOverview IndexedDB implementation of the Goal repository port.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { IGoalRepository } from '@/core/ports/GoalRepository';
+import type { Goal } from '@/core/domain/Goal';
+import { openDB, STORES } from './IndexedDB';
+import { addItem, getById, getAll, getByIndex, updateItem, deleteItem, deleteByIndex } from './IndexedDBUtils';
+
+// Ensure dates are Date objects after retrieval
+const reviveDates = (goal: Goal): Goal => ({
+    ...goal,
+    dateCreated: new Date(goal.dateCreated),
+    deadline: goal.deadline ? new Date(goal.deadline) : null,
+    achievedAt: goal.achievedAt ? new Date(goal.achievedAt) : null,
+});
+
+export class IndexedDBGoalRepository implements IGoalRepository {
+  async getById(id: string): Promise<Goal | undefined> {
+    const db = await openDB();
+    const goal = await getById<Goal>(db, STORES.GOALS, id);
+    return goal ? reviveDates(goal) : undefined;
+  }
+
+  async getBySpaceId(spaceId: string): Promise<Goal[]> {
+    const db = await openDB();
+    const goals = await getByIndex<Goal>(db, STORES.GOALS, 'spaceIdIndex', spaceId);
+    // Ensure dates are Date objects and sort
+    return goals
+        .map(reviveDates)
+        .sort((a, b) => a.dateCreated.getTime() - b.dateCreated.getTime());
+  }
+
+  async getAll(): Promise<Goal[]> {
+    const db = await openDB();
+    const goals = await getAll<Goal>(db, STORES.GOALS);
+    return goals.map(reviveDates);
+  }
+
+  async add(goalData: Omit<Goal, 'id'>): Promise<Goal> {
+    const db = await openDB();
+    const newGoal: Goal = {
+        ...goalData,
+        id: uuidv4(),
+        dateCreated: goalData.dateCreated || new Date(), // Ensure creation date exists
+    };
+    await addItem<Goal>(db, STORES.GOALS, newGoal);
+    return newGoal;
+  }
+
+  async update(goal: Goal): Promise<void> {
+    const db = await openDB();
+    await updateItem<Goal>(db, STORES.GOALS, goal);
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await openDB();
+    await deleteItem(db, STORES.GOALS, id);
+  }
+
+  async deleteBySpaceId(spaceId: string): Promise<void> {
+    const db = await openDB();
+    await deleteByIndex(db, STORES.GOALS, 'spaceIdIndex', spaceId);
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * @fileOverview IndexedDB implementation of the Insight repository port.
+ */
+
+import type { IInsightRepository } from '@/core/ports/InsightRepository';
+import type { InsightAccrual, InsightPurchase } from '@/core/domain/Insight';
+import { openDB, STORES } from './IndexedDB';
+import { getById, getAll, updateItem, deleteItem } from './IndexedDBUtils';
+
+// Ensure dates are Date objects after retrieval
+const reviveAccrualDates = (accrual: InsightAccrual): InsightAccrual => ({
+    ...accrual,
+    sessionStart: new Date(accrual.sessionStart),
+    lastAccruedAt: new Date(accrual.lastAccruedAt),
+});
+
+const revivePurchaseDates = (purchase: InsightPurchase): InsightPurchase => ({
+    ...purchase,
+    purchasedAt: new Date(purchase.purchasedAt),
+});
+
+// Both stores key their records by deterministic IDs, so writes go through put (updateItem).
+export class IndexedDBInsightRepository implements IInsightRepository {
+  async getAllAccruals(): Promise<InsightAccrual[]> {
+    const db = await openDB();
+    const accruals = await getAll<InsightAccrual>(db, STORES.INSIGHT_ACCRUALS);
+    return accruals.map(reviveAccrualDates);
+  }
+
+  async getAccrualById(id: string): Promise<InsightAccrual | undefined> {
+    const db = await openDB();
+    const accrual = await getById<InsightAccrual>(db, STORES.INSIGHT_ACCRUALS, id);
+    return accrual ? reviveAccrualDates(accrual) : undefined;
+  }
+
+  async putAccrual(accrual: InsightAccrual): Promise<void> {
+    const db = await openDB();
+    await updateItem<InsightAccrual>(db, STORES.INSIGHT_ACCRUALS, accrual);
+  }
+
+  async getAllPurchases(): Promise<InsightPurchase[]> {
+    const db = await openDB();
+    const purchases = await getAll<InsightPurchase>(db, STORES.INSIGHT_PURCHASES);
+    return purchases
+        .map(revivePurchaseDates)
+        .sort((a, b) => a.purchasedAt.getTime() - b.purchasedAt.getTime());
+  }
+
+  async putPurchase(purchase: InsightPurchase): Promise<void> {
+    const db = await openDB();
+    await updateItem<InsightPurchase>(db, STORES.INSIGHT_PURCHASES, purchase);
+  }
+
+  async deleteAll(): Promise<void> {
+    const db = await openDB();
+    const [accruals, purchases] = await Promise.all([
+      getAll<InsightAccrual>(db, STORES.INSIGHT_ACCRUALS),
+      getAll<InsightPurchase>(db, STORES.INSIGHT_PURCHASES),
+    ]);
+    for (const accrual of accruals) {
+      await deleteItem(db, STORES.INSIGHT_ACCRUALS, accrual.id);
+    }
+    for (const purchase of purchases) {
+      await deleteItem(db, STORES.INSIGHT_PURCHASES, purchase.id);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * @fileOverview IndexedDB implementation of the LevelUp repository port.
+ */
+
+import type { ILevelUpRepository } from '@/core/ports/LevelUpRepository';
+import type { LevelUpEvent } from '@/core/domain/Progression';
+import { openDB, STORES } from './IndexedDB';
+import { getAll, updateItem, deleteItem } from './IndexedDBUtils';
+
+// Ensure dates are Date objects after retrieval
+const reviveDates = (event: LevelUpEvent): LevelUpEvent => ({
+    ...event,
+    reachedAt: new Date(event.reachedAt),
+});
+
+// Events are keyed by level (levelUpEventId), so writes go through put (updateItem).
+export class IndexedDBLevelUpRepository implements ILevelUpRepository {
+  async getAll(): Promise<LevelUpEvent[]> {
+    const db = await openDB();
+    const events = await getAll<LevelUpEvent>(db, STORES.LEVEL_UPS);
+    return events
+        .map(reviveDates)
+        .sort((a, b) => a.level - b.level);
+  }
+
+  async put(event: LevelUpEvent): Promise<void> {
+    const db = await openDB();
+    await updateItem<LevelUpEvent>(db, STORES.LEVEL_UPS, event);
+  }
+
+  async deleteAll(): Promise<void> {
+    const db = await openDB();
+    const events = await getAll<LevelUpEvent>(db, STORES.LEVEL_UPS);
+    for (const event of events) {
+      await deleteItem(db, STORES.LEVEL_UPS, event.id);
+    }
+  }
+}
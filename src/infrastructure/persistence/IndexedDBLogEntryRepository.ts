@@ -4,9 +4,15 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import type { ILogEntryRepository } from '@/core/ports/LogEntryRepository';
-import type { LogEntry } from '@/core/domain/LogEntry';
+import type { LogEntry, LogEntryCursor, LogEntryFilter, LogEntryPage } from '@/core/domain/LogEntry';
+import { matchesLogEntryFilter } from '@/core/analytics/logHistory';
 import { openDB, STORES } from './IndexedDB';
-import { addItem, getById, getByIndex, updateItem, deleteItem, deleteByIndex } from './IndexedDBUtils';
+import { addItem, getById, getAll, getByIndex, getPageByIndex, updateItem, deleteItem, deleteByIndex } from './IndexedDBUtils';
+
+// Bounds for open-ended date ranges on the [spaceId, timestamp, id] index. An empty array sorts
+// above every string, so it caps the ID component.
+const MIN_DATE = new Date(-8.64e15);
+const MAX_DATE = new Date(8.64e15);
 
 export class IndexedDBLogEntryRepository implements ILogEntryRepository {
   async getById(id: string): Promise<LogEntry | undefined> {
@@ -35,6 +41,52 @@ export class IndexedDBLogEntryRepository implements ILogEntryRepository {
         .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
   }
 
+  async getPageBySpaceId(spaceId: string, filter: LogEntryFilter, limit: number, cursor?: LogEntryCursor): Promise<LogEntryPage> {
+    const db = await openDB();
+    const range = cursor
+        ? IDBKeyRange.bound([spaceId, filter.from ?? MIN_DATE], [spaceId, cursor.timestamp, cursor.id], false, true)
+        : IDBKeyRange.bound([spaceId, filter.from ?? MIN_DATE], [spaceId, filter.to ?? MAX_DATE, []]);
+    // Read one extra entry to learn whether another page follows
+    const entries = (await getPageByIndex<LogEntry>(db, STORES.LOG_ENTRIES, 'spaceIdTimestampIndex', range, 'prev', limit + 1, e => matchesLogEntryFilter({ ...e, timestamp: new Date(e.timestamp) }, filter)))
+        .map(e => ({
+            ...e,
+            timestamp: new Date(e.timestamp),
+            clockInTime: e.clockInTime ? new Date(e.clockInTime) : undefined,
+            clockOutTime: e.clockOutTime ? new Date(e.clockOutTime) : undefined,
+        }));
+    const page = entries.slice(0, limit);
+    const last = page[page.length - 1];
+    return { entries: page, nextCursor: entries.length > limit ? { timestamp: last.timestamp, id: last.id } : undefined };
+  }
+
+  async getClockEventsBySpaceId(spaceId: string): Promise<LogEntry[]> {
+    const db = await openDB();
+    const [clockIns, clockOuts] = await Promise.all([
+        getByIndex<LogEntry>(db, STORES.LOG_ENTRIES, 'spaceIdTypeIndex', [spaceId, 'clockIn']),
+        getByIndex<LogEntry>(db, STORES.LOG_ENTRIES, 'spaceIdTypeIndex', [spaceId, 'clockOut']),
+    ]);
+    return [...clockIns, ...clockOuts]
+        .map(e => ({
+            ...e,
+            timestamp: new Date(e.timestamp),
+            clockInTime: e.clockInTime ? new Date(e.clockInTime) : undefined,
+            clockOutTime: e.clockOutTime ? new Date(e.clockOutTime) : undefined,
+        }))
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async getAll(): Promise<LogEntry[]> {
+    const db = await openDB();
+    const entries = await getAll<LogEntry>(db, STORES.LOG_ENTRIES);
+    // Ensure dates are Date objects
+    return entries.map(e => ({
+        ...e,
+        timestamp: new Date(e.timestamp),
+        clockInTime: e.clockInTime ? new Date(e.clockInTime) : undefined,
+        clockOutTime: e.clockOutTime ? new Date(e.clockOutTime) : undefined,
+    }));
+  }
+
   async add(logEntryData: Omit<LogEntry, 'id'>): Promise<LogEntry> {
     const db = await openDB();
     const newLogEntry: LogEntry = {
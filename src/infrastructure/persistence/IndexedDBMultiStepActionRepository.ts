@@ -6,7 +6,7 @@ import { v4 as uuidv4 } from 'uuid';
 import type { IMultiStepActionRepository } from '@/core/ports/MultiStepActionRepository';
 import type { MultiStepAction } from '@/core/domain/MultiStepAction';
 import { openDB, STORES } from './IndexedDB';
-import { addItem, getById, getByIndex, updateItem, deleteItem, deleteByIndex } from './IndexedDBUtils';
+import { addItem, getById, getAll, getByIndex, updateItem, deleteItem, deleteByIndex } from './IndexedDBUtils';
 
 export class IndexedDBMultiStepActionRepository implements IMultiStepActionRepository {
   async getById(id: string): Promise<MultiStepAction | undefined> {
@@ -19,6 +19,11 @@ export class IndexedDBMultiStepActionRepository implements IMultiStepActionRepos
     return getByIndex<MultiStepAction>(db, STORES.MULTI_STEP_ACTIONS, 'spaceIdIndex', spaceId);
   }
 
+  async getAll(): Promise<MultiStepAction[]> {
+    const db = await openDB();
+    return getAll<MultiStepAction>(db, STORES.MULTI_STEP_ACTIONS);
+  }
+
   async add(actionData: Omit<MultiStepAction, 'id'>): Promise<MultiStepAction> {
     const db = await openDB();
     const newAction: MultiStepAction = {
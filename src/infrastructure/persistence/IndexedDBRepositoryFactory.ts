@@ -10,6 +10,15 @@ import { IndexedDBLogEntryRepository } from './IndexedDBLogEntryRepository';
 import { IndexedDBWasteEntryRepository } from './IndexedDBWasteEntryRepository';
 import { IndexedDBCommentRepository } from './IndexedDBCommentRepository';
 import { IndexedDBTodoRepository } from './IndexedDBTodoRepository'; // Import Todo repository
+import { IndexedDBAndonRepository } from './IndexedDBAndonRepository';
+import { IndexedDBGoalRepository } from './IndexedDBGoalRepository';
+import { IndexedDBLevelUpRepository } from './IndexedDBLevelUpRepository';
+import { IndexedDBAchievementRepository } from './IndexedDBAchievementRepository';
+import { IndexedDBInsightRepository } from './IndexedDBInsightRepository';
+import { IndexedDBTipDismissalRepository } from './IndexedDBTipDismissalRepository';
+import { IndexedDBWasteCategoryRepository } from './IndexedDBWasteCategoryRepository';
+import { IndexedDBRootCauseAnalysisRepository } from './IndexedDBRootCauseAnalysisRepository';
+import { IndexedDBWorkspaceRepository } from './IndexedDBWorkspaceRepository';
 
 export class IndexedDBRepositoryFactory implements IRepositoryFactory {
   createSpaceRepository() {
@@ -39,6 +48,42 @@ export class IndexedDBRepositoryFactory implements IRepositoryFactory {
   createTodoRepository() { // Add method for Todo repository
     return new IndexedDBTodoRepository();
   }
+
+  createAndonRepository() {
+    return new IndexedDBAndonRepository();
+  }
+
+  createGoalRepository() {
+    return new IndexedDBGoalRepository();
+  }
+
+  createLevelUpRepository() {
+    return new IndexedDBLevelUpRepository();
+  }
+
+  createAchievementRepository() {
+    return new IndexedDBAchievementRepository();
+  }
+
+  createInsightRepository() {
+    return new IndexedDBInsightRepository();
+  }
+
+  createTipDismissalRepository() {
+    return new IndexedDBTipDismissalRepository();
+  }
+
+  createWasteCategoryRepository() {
+    return new IndexedDBWasteCategoryRepository();
+  }
+
+  createRootCauseAnalysisRepository() {
+    return new IndexedDBRootCauseAnalysisRepository();
+  }
+
+  createWorkspaceRepository() {
+    return new IndexedDBWorkspaceRepository();
+  }
 }
 
 // Optional: Create a singleton instance for easy access throughout the app
@@ -0,0 +1,62 @@
+/**
+ * @fileOverview IndexedDB implementation of the RootCauseAnalysis repository port.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { IRootCauseAnalysisRepository } from '@/core/ports/RootCauseAnalysisRepository';
+import type { RootCauseAnalysis } from '@/core/domain/RootCauseAnalysis';
+import { openDB, STORES } from './IndexedDB';
+import { addItem, getById, getAll, getByIndex, updateItem, deleteItem, deleteByIndex } from './IndexedDBUtils';
+
+// Ensure dates are Date objects after retrieval
+const reviveDates = (analysis: RootCauseAnalysis): RootCauseAnalysis => ({
+    ...analysis,
+    dateCreated: new Date(analysis.dateCreated),
+});
+
+export class IndexedDBRootCauseAnalysisRepository implements IRootCauseAnalysisRepository {
+  async getById(id: string): Promise<RootCauseAnalysis | undefined> {
+    const db = await openDB();
+    const analysis = await getById<RootCauseAnalysis>(db, STORES.ROOT_CAUSE_ANALYSES, id);
+    return analysis ? reviveDates(analysis) : undefined;
+  }
+
+  async getBySpaceId(spaceId: string): Promise<RootCauseAnalysis[]> {
+    const db = await openDB();
+    const analyses = await getByIndex<RootCauseAnalysis>(db, STORES.ROOT_CAUSE_ANALYSES, 'spaceIdIndex', spaceId);
+    return analyses
+        .map(reviveDates)
+        .sort((a, b) => b.dateCreated.getTime() - a.dateCreated.getTime());
+  }
+
+  async getAll(): Promise<RootCauseAnalysis[]> {
+    const db = await openDB();
+    const analyses = await getAll<RootCauseAnalysis>(db, STORES.ROOT_CAUSE_ANALYSES);
+    return analyses.map(reviveDates);
+  }
+
+  async add(analysisData: Omit<RootCauseAnalysis, 'id'>): Promise<RootCauseAnalysis> {
+    const db = await openDB();
+    const newAnalysis: RootCauseAnalysis = {
+        ...analysisData,
+        id: uuidv4(),
+    };
+    await addItem<RootCauseAnalysis>(db, STORES.ROOT_CAUSE_ANALYSES, newAnalysis);
+    return newAnalysis;
+  }
+
+  async update(analysis: RootCauseAnalysis): Promise<void> {
+    const db = await openDB();
+    await updateItem<RootCauseAnalysis>(db, STORES.ROOT_CAUSE_ANALYSES, analysis);
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await openDB();
+    await deleteItem(db, STORES.ROOT_CAUSE_ANALYSES, id);
+  }
+
+  async deleteBySpaceId(spaceId: string): Promise<void> {
+    const db = await openDB();
+    await deleteByIndex(db, STORES.ROOT_CAUSE_ANALYSES, 'spaceIdIndex', spaceId);
+  }
+}
@@ -8,6 +8,17 @@ import type { Space } from '@/core/domain/Space';
 import { openDB, STORES } from './IndexedDB';
 import { addItem, getById, getAll, updateItem, deleteItem } from './IndexedDBUtils';
 
+// Restored spaces keep their own dateModified; dates are revived and missing fields defaulted.
+export const toRestoredSpace = (space: Space): Space => ({
+    ...space,
+    dateCreated: new Date(space.dateCreated),
+    dateModified: new Date(space.dateModified),
+    clockInStartTime: space.clockInStartTime ? new Date(space.clockInStartTime) : null,
+    isClockedIn: space.isClockedIn ?? false,
+    status: space.status ?? 'active',
+    statusChangedAt: space.statusChangedAt ? new Date(space.statusChangedAt) : null,
+});
+
 export class IndexedDBSpaceRepository implements ISpaceRepository {
   async getById(id: string): Promise<Space | undefined> {
     const db = await openDB();
@@ -20,6 +31,8 @@ export class IndexedDBSpaceRepository implements ISpaceRepository {
             dateModified: new Date(space.dateModified),
             clockInStartTime: space.clockInStartTime ? new Date(space.clockInStartTime) : null,
             isClockedIn: space.isClockedIn ?? false, // Default to false if undefined
+            status: space.status ?? 'active', // Spaces created before statuses existed are active
+            statusChangedAt: space.statusChangedAt ? new Date(space.statusChangedAt) : null,
         };
     }
     return undefined;
@@ -35,6 +48,8 @@ export class IndexedDBSpaceRepository implements ISpaceRepository {
         dateModified: new Date(s.dateModified),
         clockInStartTime: s.clockInStartTime ? new Date(s.clockInStartTime) : null,
         isClockedIn: s.isClockedIn ?? false, // Default to false if undefined
+        status: s.status ?? 'active', // Spaces created before statuses existed are active
+        statusChangedAt: s.statusChangedAt ? new Date(s.statusChangedAt) : null,
     }));
   }
 
@@ -49,6 +64,8 @@ export class IndexedDBSpaceRepository implements ISpaceRepository {
         totalClockedInTime: spaceData.totalClockedInTime ?? 0,
         isClockedIn: spaceData.isClockedIn ?? false, // Default to false
         clockInStartTime: spaceData.clockInStartTime ? new Date(spaceData.clockInStartTime) : null, // Ensure Date or null
+        status: spaceData.status ?? 'active', // Default to active
+        statusChangedAt: spaceData.statusChangedAt ? new Date(spaceData.statusChangedAt) : null,
      };
     await addItem<Space>(db, STORES.SPACES, newSpace);
     return newSpace;
@@ -64,10 +81,17 @@ export class IndexedDBSpaceRepository implements ISpaceRepository {
         dateCreated: new Date(space.dateCreated),
         clockInStartTime: space.clockInStartTime ? new Date(space.clockInStartTime) : null,
         isClockedIn: space.isClockedIn ?? false, // Ensure boolean or default
+        status: space.status ?? 'active',
+        statusChangedAt: space.statusChangedAt ? new Date(space.statusChangedAt) : null,
     };
     await updateItem<Space>(db, STORES.SPACES, spaceToUpdate);
   }
 
+  async restore(space: Space): Promise<void> {
+    const db = await openDB();
+    await updateItem<Space>(db, STORES.SPACES, toRestoredSpace(space));
+  }
+
   async delete(id: string): Promise<void> {
     const db = await openDB();
     await deleteItem(db, STORES.SPACES, id);
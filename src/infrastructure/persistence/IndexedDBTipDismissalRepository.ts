@@ -0,0 +1,50 @@
+/**
+ * @fileOverview IndexedDB implementation of the TipDismissal repository port.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { ITipDismissalRepository } from '@/core/ports/TipDismissalRepository';
+import type { TipDismissal } from '@/core/domain/Tip';
+import { openDB, STORES } from './IndexedDB';
+import { addItem, getAll, getByIndex, updateItem, deleteByIndex } from './IndexedDBUtils';
+
+// Ensure dates are Date objects after retrieval
+const reviveDates = (dismissal: TipDismissal): TipDismissal => ({
+    ...dismissal,
+    dismissedAt: new Date(dismissal.dismissedAt),
+    snoozedUntil: dismissal.snoozedUntil ? new Date(dismissal.snoozedUntil) : null,
+});
+
+export class IndexedDBTipDismissalRepository implements ITipDismissalRepository {
+  async getBySpaceId(spaceId: string): Promise<TipDismissal[]> {
+    const db = await openDB();
+    const dismissals = await getByIndex<TipDismissal>(db, STORES.TIP_DISMISSALS, 'spaceIdIndex', spaceId);
+    return dismissals.map(reviveDates);
+  }
+
+  async getAll(): Promise<TipDismissal[]> {
+    const db = await openDB();
+    const dismissals = await getAll<TipDismissal>(db, STORES.TIP_DISMISSALS);
+    return dismissals.map(reviveDates);
+  }
+
+  async add(dismissalData: Omit<TipDismissal, 'id'>): Promise<TipDismissal> {
+    const db = await openDB();
+    const newDismissal: TipDismissal = {
+        ...dismissalData,
+        id: uuidv4(),
+    };
+    await addItem<TipDismissal>(db, STORES.TIP_DISMISSALS, newDismissal);
+    return newDismissal;
+  }
+
+  async update(dismissal: TipDismissal): Promise<void> {
+    const db = await openDB();
+    await updateItem<TipDismissal>(db, STORES.TIP_DISMISSALS, dismissal);
+  }
+
+  async deleteBySpaceId(spaceId: string): Promise<void> {
+    const db = await openDB();
+    await deleteByIndex(db, STORES.TIP_DISMISSALS, 'spaceIdIndex', spaceId);
+  }
+}
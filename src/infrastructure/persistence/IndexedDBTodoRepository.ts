@@ -6,7 +6,7 @@ import { v4 as uuidv4 } from 'uuid';
 import type { ITodoRepository } from '@/core/ports/TodoRepository';
 import type { TodoItem } from '@/core/domain/TodoItem';
 import { openDB, STORES } from './IndexedDB';
-import { addItem, getById, getByIndex, updateItem, deleteItem, deleteByIndex } from './IndexedDBUtils';
+import { addItem, getById, getAll, getByIndex, updateItem, deleteItem, deleteByIndex } from './IndexedDBUtils';
 
 export class IndexedDBTodoRepository implements ITodoRepository {
   async getById(id: string): Promise<TodoItem | undefined> {
@@ -27,6 +27,13 @@ export class IndexedDBTodoRepository implements ITodoRepository {
         .sort((a, b) => a.dateCreated.getTime() - b.dateCreated.getTime());
   }
 
+  async getAll(): Promise<TodoItem[]> {
+    const db = await openDB();
+    const items = await getAll<TodoItem>(db, STORES.TODOS);
+    // Ensure dates are Date objects
+    return items.map(item => ({ ...item, dateCreated: new Date(item.dateCreated) }));
+  }
+
   async add(itemData: Omit<TodoItem, 'id'>): Promise<TodoItem> {
     const db = await openDB();
     const newItem: TodoItem = {
@@ -217,3 +217,95 @@ export const deleteByIndex = (db: IDBDatabase, storeName: string, indexName: str
       }
     });
 };
+
+
+/**
+ * Walks an index with a cursor and collects matching items, stopping as soon as enough are found.
+ * @param db - The IDBDatabase instance.
+ * @param storeName - The name of the object store.
+ * @param indexName - The name of the index to walk.
+ * @param range - The key range to walk.
+ * @param direction - 'next' for ascending keys, 'prev' for descending.
+ * @param limit - The maximum number of items to collect.
+ * @param predicate - Optional filter; items it rejects are skipped and do not count toward the limit.
+ * @returns A promise resolving to the collected items, in index order.
+ */
+export const getPageByIndex = <T>(db: IDBDatabase, storeName: string, indexName: string, range: IDBKeyRange, direction: IDBCursorDirection, limit: number, predicate?: (item: T) => boolean): Promise<T[]> => {
+    return new Promise<T[]>((resolve, reject) => {
+      const transaction = db.transaction([storeName], 'readonly');
+      const store = transaction.objectStore(storeName);
+      const items: T[] = [];
+      try {
+          const request = store.index(indexName).openCursor(range, direction);
+
+          request.onerror = () => {
+              console.error(`Error opening cursor on index ${indexName} in ${storeName}:`, request.error);
+              reject(request.error);
+          };
+
+          request.onsuccess = (event) => {
+              const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+              if (!cursor) {
+                  resolve(items); // Reached the end of the range
+                  return;
+              }
+              const item = cursor.value as T;
+              if (!predicate || predicate(item)) items.push(item);
+              if (items.length >= limit) {
+                  resolve(items);
+                  return; // Leave the cursor where it is; the transaction closes on its own
+              }
+              cursor.continue();
+          };
+
+          transaction.onerror = () => {
+              console.error(`Transaction error paging index ${indexName} in ${storeName}:`, transaction.error);
+              reject(transaction.error);
+          };
+      } catch (error) {
+        console.error(`Error accessing index '${indexName}' on store ${storeName}:`, error);
+        reject(error);
+      }
+    });
+};
+
+
+/**
+ * Replaces the contents of several object stores in a single readwrite transaction.
+ * Every store is cleared and refilled; if any write fails the transaction aborts and
+ * all stores keep their previous contents.
+ * @param db - The IDBDatabase instance.
+ * @param contents - The items to store, keyed by object store name (items must have an 'id' property).
+ * @returns A promise resolving once the transaction has committed.
+ */
+export const replaceStores = (db: IDBDatabase, contents: Record<string, { id: string }[]>): Promise<void> => {
+    return new Promise<void>((resolve, reject) => {
+      const storeNames = Object.keys(contents);
+      const transaction = db.transaction(storeNames, 'readwrite');
+
+      transaction.oncomplete = () => {
+          resolve();
+      };
+      transaction.onerror = () => {
+          console.error(`Transaction error replacing stores ${storeNames.join(', ')}:`, transaction.error);
+          reject(transaction.error);
+      };
+      transaction.onabort = () => { // Quota errors abort the transaction without a request error
+          reject(transaction.error ?? new Error('Transaction aborted.'));
+      };
+
+      try {
+          for (const storeName of storeNames) {
+              const store = transaction.objectStore(storeName);
+              store.clear();
+              for (const item of contents[storeName]) {
+                  store.put(item);
+              }
+          }
+      } catch (error) {
+          console.error('Error queuing writes for store replacement:', error);
+          transaction.abort();
+          reject(error);
+      }
+    });
+};
@@ -0,0 +1,57 @@
+/**
+ * @fileOverview IndexedDB implementation of the WasteCategory repository port.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { IWasteCategoryRepository } from '@/core/ports/WasteCategoryRepository';
+import type { WasteCategory } from '@/core/domain/WasteCategory';
+import { openDB, STORES } from './IndexedDB';
+import { addItem, getById, getAll, getByIndex, updateItem, deleteByIndex } from './IndexedDBUtils';
+
+// Ensure dates are Date objects after retrieval
+const reviveDates = (category: WasteCategory): WasteCategory => ({
+    ...category,
+    dateCreated: new Date(category.dateCreated),
+});
+
+export class IndexedDBWasteCategoryRepository implements IWasteCategoryRepository {
+  async getById(id: string): Promise<WasteCategory | undefined> {
+    const db = await openDB();
+    const category = await getById<WasteCategory>(db, STORES.WASTE_CATEGORIES, id);
+    return category ? reviveDates(category) : undefined;
+  }
+
+  async getBySpaceId(spaceId: string): Promise<WasteCategory[]> {
+    const db = await openDB();
+    const categories = await getByIndex<WasteCategory>(db, STORES.WASTE_CATEGORIES, 'spaceIdIndex', spaceId);
+    return categories
+        .map(reviveDates)
+        .sort((a, b) => a.dateCreated.getTime() - b.dateCreated.getTime());
+  }
+
+  async getAll(): Promise<WasteCategory[]> {
+    const db = await openDB();
+    const categories = await getAll<WasteCategory>(db, STORES.WASTE_CATEGORIES);
+    return categories.map(reviveDates);
+  }
+
+  async add(categoryData: Omit<WasteCategory, 'id'>): Promise<WasteCategory> {
+    const db = await openDB();
+    const newCategory: WasteCategory = {
+        ...categoryData,
+        id: uuidv4(),
+    };
+    await addItem<WasteCategory>(db, STORES.WASTE_CATEGORIES, newCategory);
+    return newCategory;
+  }
+
+  async update(category: WasteCategory): Promise<void> {
+    const db = await openDB();
+    await updateItem<WasteCategory>(db, STORES.WASTE_CATEGORIES, category);
+  }
+
+  async deleteBySpaceId(spaceId: string): Promise<void> {
+    const db = await openDB();
+    await deleteByIndex(db, STORES.WASTE_CATEGORIES, 'spaceIdIndex', spaceId);
+  }
+}
@@ -6,7 +6,7 @@ import { v4 as uuidv4 } from 'uuid';
 import type { IWasteEntryRepository } from '@/core/ports/WasteEntryRepository';
 import type { WasteEntry } from '@/core/domain/WasteEntry';
 import { openDB, STORES } from './IndexedDB';
-import { addItem, getById, getByIndex, updateItem, deleteItem, deleteByIndex } from './IndexedDBUtils';
+import { addItem, getById, getAll, getByIndex, updateItem, deleteItem, deleteByIndex } from './IndexedDBUtils';
 
 export class IndexedDBWasteEntryRepository implements IWasteEntryRepository {
   async getById(id: string): Promise<WasteEntry | undefined> {
@@ -28,6 +28,13 @@ export class IndexedDBWasteEntryRepository implements IWasteEntryRepository {
         .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
   }
 
+  async getAll(): Promise<WasteEntry[]> {
+    const db = await openDB();
+    const entries = await getAll<WasteEntry>(db, STORES.WASTE_ENTRIES);
+    // Ensure dates are Date objects
+    return entries.map(e => ({ ...e, timestamp: new Date(e.timestamp) }));
+  }
+
   async add(wasteEntryData: Omit<WasteEntry, 'id'>): Promise<WasteEntry> {
     const db = await openDB();
     const newWasteEntry: WasteEntry = {
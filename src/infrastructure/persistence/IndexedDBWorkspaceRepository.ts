@@ -0,0 +1,33 @@
+/**
+ * @fileOverview IndexedDB implementation of the Workspace repository port.
+ */
+
+import type { IWorkspaceRepository } from '@/core/ports/WorkspaceRepository';
+import type { WorkspaceBackupData } from '@/core/domain/WorkspaceBackup';
+import { openDB, STORES } from './IndexedDB';
+import { replaceStores } from './IndexedDBUtils';
+import { toRestoredSpace } from './IndexedDBSpaceRepository';
+
+export class IndexedDBWorkspaceRepository implements IWorkspaceRepository {
+  async replaceAll(data: WorkspaceBackupData): Promise<void> {
+    const db = await openDB();
+    await replaceStores(db, {
+      [STORES.SPACES]: data.spaces.map(toRestoredSpace),
+      [STORES.ACTIONS]: data.actions,
+      [STORES.MULTI_STEP_ACTIONS]: data.multiStepActions,
+      [STORES.LOG_ENTRIES]: data.logEntries,
+      [STORES.WASTE_ENTRIES]: data.wasteEntries,
+      [STORES.COMMENTS]: data.comments,
+      [STORES.TODOS]: data.todos,
+      [STORES.ANDONS]: data.andons,
+      [STORES.GOALS]: data.goals,
+      [STORES.LEVEL_UPS]: data.levelUps ?? [],
+      [STORES.ACHIEVEMENTS]: data.achievements ?? [],
+      [STORES.INSIGHT_ACCRUALS]: data.insightAccruals ?? [],
+      [STORES.INSIGHT_PURCHASES]: data.insightPurchases ?? [],
+      [STORES.TIP_DISMISSALS]: data.tipDismissals,
+      [STORES.WASTE_CATEGORIES]: data.wasteCategories,
+      [STORES.ROOT_CAUSE_ANALYSES]: data.rootCauseAnalyses,
+    });
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * @fileOverview Utility functions for building CSV documents that open cleanly in spreadsheet apps.
+ */
+
+import { format as formatFns } from 'date-fns';
+
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+// Prepended so Excel detects UTF-8 instead of guessing a legacy code page.
+const UTF8_BOM = '\uFEFF';
+
+/**
+ * Escapes a single value for CSV output.
+ * Quotes values containing commas, quotes or line breaks, doubles embedded quotes,
+ * and neutralises text that a spreadsheet would otherwise evaluate as a formula.
+ * Dates are written as ISO 8601 (UTC).
+ * @param value - The value to escape.
+ * @returns The escaped CSV field.
+ */
+export const escapeCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return isNaN(value.getTime()) ? '' : value.toISOString();
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+
+  let text = value;
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`; // Prevent formula injection
+  }
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+/**
+ * Builds a CSV document from a header row and data rows.
+ * Uses CRLF line endings and a UTF-8 byte order mark for spreadsheet compatibility.
+ * @param headers - Column headers.
+ * @param rows - Data rows, each with one value per header.
+ * @returns The CSV document as a string.
+ */
+export const toCsv = (headers: string[], rows: CsvValue[][]): string => {
+  const lines = [headers, ...rows].map(row => row.map(escapeCsvValue).join(','));
+  return UTF8_BOM + lines.join('\r\n') + '\r\n';
+};
+
+/**
+ * Formats a date in the device's local time zone for a human-readable CSV column.
+ * @param date - The date to format.
+ * @returns The formatted local time (e.g., "2025-04-26 14:05:09"), or '' if missing/invalid.
+ */
+export const formatLocalDateTime = (date: Date | null | undefined): string => {
+  if (!date || isNaN(date.getTime())) return '';
+  return formatFns(date, 'yyyy-MM-dd HH:mm:ss');
+};
@@ -0,0 +1,56 @@
+/**
+ * @fileOverview Utility functions for saving and reading files in the browser.
+ */
+
+/**
+ * Triggers a browser download of the given content.
+ * @param filename - The suggested file name.
+ * @param content - The file contents.
+ * @param mimeType - The MIME type of the content (e.g., 'application/json').
+ */
+export const downloadFile = (filename: string, content: string, mimeType: string): void => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoke on the next tick so the download has a chance to start
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * Reads a File selected through an input element as text.
+ * @param file - The file to read.
+ * @returns A promise resolving to the file contents.
+ */
+export const readFileAsText = (file: File): Promise<string> => {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read file.'));
+    reader.readAsText(file);
+  });
+};
+
+/**
+ * Builds a file-name-safe timestamp (e.g., "2025-04-26_14-05").
+ * @param date - The date to format. Defaults to now.
+ * @returns The timestamp string.
+ */
+export const fileTimestamp = (date: Date = new Date()): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}_${pad(date.getHours())}-${pad(date.getMinutes())}`;
+};
+
+/**
+ * Turns arbitrary text (e.g., a space name) into a short, file-name-safe slug.
+ * @param text - The text to convert.
+ * @returns A lowercase slug, or 'untitled' if nothing usable remains.
+ */
+export const slugify = (text: string): string => {
+  const slug = text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+  return slug || 'untitled';
+};
@@ -89,3 +89,23 @@ export const handleImageUploadUtil = (
   // Read the file as a Data URL
   reader.readAsDataURL(file);
 };
+
+/**
+ * Fetches an image by URL and converts it into a Data URI so it can be embedded in exported files.
+ *
+ * @param url - The image URL to fetch.
+ * @returns A promise resolving to the Data URI string.
+ */
+export const imageUrlToDataUri = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image (${response.status}).`);
+  }
+  const blob = await response.blob();
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read image data.'));
+    reader.readAsDataURL(blob);
+  });
+};
@@ -0,0 +1,81 @@
+/**
+ * @fileOverview Utility functions for persisting and applying the interface theme.
+ */
+
+export type AppTheme = 'light' | 'dark';
+
+const THEME_STORAGE_KEY = 'okapi-theme';
+
+/**
+ * Reads the saved theme preference.
+ * @returns The saved theme, or 'light' if none is stored (or storage is unavailable).
+ */
+export const getStoredTheme = (): AppTheme => {
+  try {
+    return localStorage.getItem(THEME_STORAGE_KEY) === 'dark' ? 'dark' : 'light';
+  } catch {
+    return 'light';
+  }
+};
+
+/**
+ * Saves the theme preference.
+ * @param theme - The theme to remember.
+ */
+export const storeTheme = (theme: AppTheme): void => {
+  try {
+    localStorage.setItem(THEME_STORAGE_KEY, theme);
+  } catch (error) {
+    console.warn('Could not save theme preference.', error);
+  }
+};
+
+/**
+ * Applies a theme by toggling Tailwind's `dark` class on the root element.
+ * @param theme - The theme to apply.
+ */
+export const applyTheme = (theme: AppTheme): void => {
+  document.documentElement.classList.toggle('dark', theme === 'dark');
+};
+
+const ACCENT_STORAGE_KEY = 'okapi-accent';
+
+/**
+ * Reads the saved accent colour.
+ * @returns The accent key (e.g. 'plum'), or null for the default teal.
+ */
+export const getStoredAccent = (): string | null => {
+  try {
+    return localStorage.getItem(ACCENT_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Saves the accent colour.
+ * @param accent - The accent key, or null for the default teal.
+ */
+export const storeAccent = (accent: string | null): void => {
+  try {
+    if (accent) {
+      localStorage.setItem(ACCENT_STORAGE_KEY, accent);
+    } else {
+      localStorage.removeItem(ACCENT_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn('Could not save accent preference.', error);
+  }
+};
+
+/**
+ * Applies an accent colour via the `data-accent` attribute on the root element (see globals.css).
+ * @param accent - The accent key, or null for the default teal.
+ */
+export const applyAccent = (accent: string | null): void => {
+  if (accent) {
+    document.documentElement.dataset.accent = accent;
+  } else {
+    delete document.documentElement.dataset.accent;
+  }
+};